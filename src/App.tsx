@@ -3,8 +3,39 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider } from './contexts/AuthContext';
 import { useAuth } from './contexts/AuthContext';
 import Login from './components/Login';
+import AcceptInvite from './components/AcceptInvite';
+import ForgotPassword from './components/ForgotPassword';
+import ResetPassword from './components/ResetPassword';
+import TwoFactor from './components/TwoFactor';
 import Dashboard from './components/Dashboard';
 import LoadingSpinner from './components/LoadingSpinner';
+import ProtectedRoute from './components/ProtectedRoute';
+import ClientList from './components/clients/ClientList';
+import ClientForm from './components/clients/ClientForm';
+import ClientDetail from './components/clients/ClientDetail';
+import ProposalList from './components/proposals/ProposalList';
+import ProposalForm from './components/proposals/ProposalForm';
+import ProposalDetail from './components/proposals/ProposalDetail';
+import PipelineBoard from './components/proposals/PipelineBoard';
+import CommissionPlanList from './components/commissions/CommissionPlanList';
+import CommissionPlanForm from './components/commissions/CommissionPlanForm';
+import TargetList from './components/targets/TargetList';
+import TaskList from './components/tasks/TaskList';
+import TaskForm from './components/tasks/TaskForm';
+import ActivityList from './components/activity/ActivityList';
+import ReportList from './components/reports/ReportList';
+import ReportView from './components/reports/ReportView';
+import ReportSubscriptionList from './components/reports/ReportSubscriptionList';
+import Unsubscribe from './components/Unsubscribe';
+import UserList from './components/users/UserList';
+import UserForm from './components/users/UserForm';
+import UserDetail from './components/users/UserDetail';
+import InvitationList from './components/users/InvitationList';
+import CompanyList from './components/companies/CompanyList';
+import CompanyForm from './components/companies/CompanyForm';
+import SiteList from './components/sites/SiteList';
+import SiteForm from './components/sites/SiteForm';
+import AccountSecurity from './components/account/AccountSecurity';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -19,9 +50,157 @@ function AppContent() {
         path="/login" 
         element={user ? <Navigate to="/dashboard" replace /> : <Login />} 
       />
+      <Route 
+        path="/accept-invite" 
+        element={user ? <Navigate to="/dashboard" replace /> : <AcceptInvite />} 
+      />
+      <Route 
+        path="/forgot-password" 
+        element={user ? <Navigate to="/dashboard" replace /> : <ForgotPassword />} 
+      />
+      <Route 
+        path="/reset-password" 
+        element={user ? <Navigate to="/dashboard" replace /> : <ResetPassword />} 
+      />
+      <Route 
+        path="/two-factor" 
+        element={user ? <Navigate to="/dashboard" replace /> : <TwoFactor />} 
+      />
+      <Route 
+        path="/unsubscribe" 
+        element={<Unsubscribe />} 
+      />
       <Route 
         path="/dashboard" 
-        element={user ? <Dashboard /> : <Navigate to="/login" replace />} 
+        element={<ProtectedRoute><Dashboard /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/account/security" 
+        element={<ProtectedRoute><AccountSecurity /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/clients" 
+        element={<ProtectedRoute resource="clients" action="manage"><ClientList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/clients/new" 
+        element={<ProtectedRoute resource="clients" action="manage"><ClientForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/clients/:clientId" 
+        element={<ProtectedRoute resource="clients" action="manage"><ClientDetail /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/clients/:clientId/edit" 
+        element={<ProtectedRoute resource="clients" action="manage"><ClientForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/proposals" 
+        element={<ProtectedRoute resource="clients" action="manage"><ProposalList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/proposals/new" 
+        element={<ProtectedRoute resource="clients" action="manage"><ProposalForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/proposals/:proposalId" 
+        element={<ProtectedRoute resource="clients" action="manage"><ProposalDetail /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/proposals/:proposalId/edit" 
+        element={<ProtectedRoute resource="clients" action="manage"><ProposalForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/pipeline" 
+        element={<ProtectedRoute resource="clients" action="manage"><PipelineBoard /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/tasks" 
+        element={<ProtectedRoute resource="clients" action="manage"><TaskList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/tasks/new" 
+        element={<ProtectedRoute resource="clients" action="manage"><TaskForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/tasks/:taskId/edit" 
+        element={<ProtectedRoute resource="clients" action="manage"><TaskForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/commissions" 
+        element={<ProtectedRoute resource="users" action="manage"><CommissionPlanList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/commissions/new" 
+        element={<ProtectedRoute resource="users" action="manage"><CommissionPlanForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/commissions/:planId/edit" 
+        element={<ProtectedRoute resource="users" action="manage"><CommissionPlanForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/targets" 
+        element={<ProtectedRoute resource="users" action="manage"><TargetList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/activity" 
+        element={<ProtectedRoute resource="reports" action="view"><ActivityList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/reports" 
+        element={<ProtectedRoute resource="reports" action="view"><ReportList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/reports/subscriptions" 
+        element={<ProtectedRoute resource="reports" action="view"><ReportSubscriptionList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/reports/:report" 
+        element={<ProtectedRoute resource="reports" action="view"><ReportView /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/users" 
+        element={<ProtectedRoute resource="users" action="manage"><UserList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/users/new" 
+        element={<ProtectedRoute resource="users" action="manage"><UserForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/users/invitations" 
+        element={<ProtectedRoute resource="users" action="manage"><InvitationList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/users/:userId" 
+        element={<ProtectedRoute resource="users" action="manage"><UserDetail /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/users/:userId/edit" 
+        element={<ProtectedRoute resource="users" action="manage"><UserForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/companies" 
+        element={<ProtectedRoute resource="companies" action="manage"><CompanyList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/companies/new" 
+        element={<ProtectedRoute resource="companies" action="manage"><CompanyForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/companies/:companyId/edit" 
+        element={<ProtectedRoute resource="companies" action="manage"><CompanyForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/sites" 
+        element={<ProtectedRoute resource="sites" action="manage"><SiteList /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/sites/new" 
+        element={<ProtectedRoute resource="sites" action="manage"><SiteForm /></ProtectedRoute>} 
+      />
+      <Route 
+        path="/sites/:siteId/edit" 
+        element={<ProtectedRoute resource="sites" action="manage"><SiteForm /></ProtectedRoute>} 
       />
       <Route 
         path="/" 
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { validatePhone } from '../lib/validation';
+import { InvitationDetails, MIN_PASSWORD_LENGTH, acceptInvitation, assignmentLabel, fetchInvitation } from '../lib/users';
+import { UserPlus } from 'lucide-react';
+
+interface AcceptFormValues {
+  first_name: string;
+  last_name: string;
+  phone: string;
+  password: string;
+  confirm_password: string;
+}
+
+type FormErrors = Partial<Record<keyof AcceptFormValues, string>>;
+
+export default function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [values, setValues] = useState<AcceptFormValues>({
+    first_name: '',
+    last_name: '',
+    phone: '',
+    password: '',
+    confirm_password: ''
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setError('This invitation link is incomplete');
+      setLoading(false);
+      return;
+    }
+
+    fetchInvitation(token)
+      .then((details) => {
+        setInvitation(details);
+        setValues((current) => ({
+          ...current,
+          first_name: details.first_name ?? '',
+          last_name: details.last_name ?? ''
+        }));
+      })
+      .catch((error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const setField = (field: keyof AcceptFormValues, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.first_name.trim()) nextErrors.first_name = 'First name is required';
+    if (!values.last_name.trim()) nextErrors.last_name = 'Last name is required';
+
+    const phoneError = validatePhone(values.phone.trim());
+    if (phoneError) nextErrors.phone = phoneError;
+
+    if (values.password.length < MIN_PASSWORD_LENGTH) {
+      nextErrors.password = `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    if (values.password !== values.confirm_password) {
+      nextErrors.confirm_password = 'Passwords do not match';
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const { email } = await acceptInvitation({
+        token,
+        password: values.password,
+        first_name: values.first_name.trim(),
+        last_name: values.last_name.trim(),
+        phone: values.phone.trim() || null
+      });
+      // Signing in swaps this page for the dashboard, unless the role
+      // requires setting up two-factor authentication first
+      const step = await login(email, values.password);
+      if (step) {
+        navigate('/two-factor', { state: step });
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to accept invitation');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <UserPlus className="h-6 w-6 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Set up your account
+          </h2>
+          {invitation && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {invitation.email} · {invitation.role?.name}, {assignmentLabel(invitation)}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : !invitation ? (
+          <div className="space-y-4 text-center">
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+            <p className="text-sm text-gray-500">Ask whoever invited you to send a new invitation.</p>
+            <Link to="/login" className="text-sm text-blue-600 hover:text-blue-800">
+              Back to sign in
+            </Link>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="first_name" className="label">First Name</label>
+                <input
+                  id="first_name"
+                  autoComplete="given-name"
+                  className="input"
+                  value={values.first_name}
+                  onChange={(e) => setField('first_name', e.target.value)}
+                />
+                {errors.first_name && <p className="mt-1 text-xs text-red-600">{errors.first_name}</p>}
+              </div>
+              <div>
+                <label htmlFor="last_name" className="label">Last Name</label>
+                <input
+                  id="last_name"
+                  autoComplete="family-name"
+                  className="input"
+                  value={values.last_name}
+                  onChange={(e) => setField('last_name', e.target.value)}
+                />
+                {errors.last_name && <p className="mt-1 text-xs text-red-600">{errors.last_name}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="phone" className="label">Phone (optional)</label>
+              <input
+                id="phone"
+                type="tel"
+                autoComplete="tel"
+                className="input"
+                value={values.phone}
+                onChange={(e) => setField('phone', e.target.value)}
+              />
+              {errors.phone && <p className="mt-1 text-xs text-red-600">{errors.phone}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="password" className="label">Password</label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                className="input"
+                value={values.password}
+                onChange={(e) => setField('password', e.target.value)}
+              />
+              {errors.password && <p className="mt-1 text-xs text-red-600">{errors.password}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="confirm_password" className="label">Confirm Password</label>
+              <input
+                id="confirm_password"
+                type="password"
+                autoComplete="new-password"
+                className="input"
+                value={values.confirm_password}
+                onChange={(e) => setField('confirm_password', e.target.value)}
+              />
+              {errors.confirm_password && (
+                <p className="mt-1 text-xs text-red-600">{errors.confirm_password}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Creating account...' : 'Create account'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,53 @@
 import React, { useState } from 'react';
+import { Link, NavLink, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermission } from '../hooks/usePermission';
 import { User, UserRole } from '../types/auth';
-import { LogOut, User as UserIcon, ChevronDown } from 'lucide-react';
+import { LogOut, User as UserIcon, ChevronDown, Check, ShieldCheck } from 'lucide-react';
 
 interface HeaderProps {
   user: User;
-  primaryRole: UserRole;
+  activeRole: UserRole;
 }
 
-export default function Header({ user, primaryRole }: HeaderProps) {
+export default function Header({ user, activeRole }: HeaderProps) {
   const [showDropdown, setShowDropdown] = useState(false);
-  const { logout } = useAuth();
+  const [, setSearchParams] = useSearchParams();
+  const { logout, switchRole } = useAuth();
+  const canManageClients = usePermission('clients', 'manage');
+  const canManageUsers = usePermission('users', 'manage');
+  const canViewReports = usePermission('reports', 'view');
+  const canManageCompanies = usePermission('companies', 'manage');
+  const canManageSites = usePermission('sites', 'manage');
+
+  const navItems = [
+    { to: '/dashboard', label: 'Dashboard', visible: true },
+    { to: '/clients', label: 'Clients', visible: canManageClients },
+    { to: '/proposals', label: 'Proposals', visible: canManageClients },
+    { to: '/pipeline', label: 'Pipeline', visible: canManageClients },
+    { to: '/tasks', label: 'Tasks', visible: canManageClients },
+    { to: '/users', label: 'Users', visible: canManageUsers },
+    { to: '/companies', label: 'Companies', visible: canManageCompanies },
+    { to: '/sites', label: 'Sites', visible: canManageSites },
+    { to: '/targets', label: 'Targets', visible: canManageUsers },
+    { to: '/commissions', label: 'Commissions', visible: canManageUsers },
+    { to: '/reports', label: 'Reports', visible: canViewReports },
+    { to: '/activity', label: 'Activity', visible: canViewReports }
+  ].filter((item) => item.visible);
 
   const handleLogout = async () => {
     await logout();
   };
 
+  const handleSwitchRole = (userRoleId: string) => {
+    switchRole(userRoleId);
+    setSearchParams((params) => {
+      params.set('role', userRoleId);
+      return params;
+    });
+    setShowDropdown(false);
+  };
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -25,8 +57,22 @@ export default function Header({ user, primaryRole }: HeaderProps) {
               Business Management Platform
             </h1>
             <div className="ml-4 px-3 py-1 bg-primary-100 text-primary-800 text-sm font-medium rounded-full">
-              {primaryRole.role.name}
+              {activeRole.role.name}
+              {activeRole.site ? ` - ${activeRole.site.name}` : activeRole.company ? ` - ${activeRole.company.name}` : ''}
             </div>
+            <nav className="ml-8 flex space-x-4">
+              {navItems.map((item) => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  className={({ isActive }) => `px-3 py-2 rounded-md text-sm font-medium ${
+                    isActive ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  {item.label}
+                </NavLink>
+              ))}
+            </nav>
           </div>
 
           <div className="flex items-center space-x-4">
@@ -59,18 +105,40 @@ export default function Header({ user, primaryRole }: HeaderProps) {
                         Active Roles
                       </p>
                       {user.roles.map((role) => (
-                        <div key={role.id} className="text-sm text-gray-700 mb-1">
-                          <span className="font-medium">{role.role.name}</span>
-                          {role.company && (
-                            <span className="text-gray-500"> @ {role.company.name}</span>
-                          )}
-                          {role.site && (
-                            <span className="text-gray-500"> - {role.site.name}</span>
+                        <button
+                          key={role.id}
+                          onClick={() => handleSwitchRole(role.id)}
+                          className={`w-full text-left text-sm mb-1 px-2 py-1 -mx-2 rounded flex items-center justify-between ${
+                            role.id === activeRole.id
+                              ? 'bg-primary-50 text-primary-800'
+                              : 'text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          <span>
+                            <span className="font-medium">{role.role.name}</span>
+                            {role.company && (
+                              <span className="text-gray-500"> @ {role.company.name}</span>
+                            )}
+                            {role.site && (
+                              <span className="text-gray-500"> - {role.site.name}</span>
+                            )}
+                          </span>
+                          {role.id === activeRole.id && (
+                            <Check className="w-4 h-4 text-primary-600 flex-shrink-0" />
                           )}
-                        </div>
+                        </button>
                       ))}
                     </div>
 
+                    <Link
+                      to="/account/security"
+                      onClick={() => setShowDropdown(false)}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                    >
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Security
+                    </Link>
+
                     <button
                       onClick={handleLogout}
                       className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import Header from './Header';
+
+interface LayoutProps {
+  children: React.ReactNode;
+}
+
+export default function Layout({ children }: LayoutProps) {
+  const { user, activeRole, switchRole } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedRoleId = searchParams.get('role');
+
+  useEffect(() => {
+    // Keep the active role context and the ?role= query parameter in sync
+    if (!user || !activeRole) return;
+
+    if (
+      requestedRoleId &&
+      requestedRoleId !== activeRole.id &&
+      user.roles.some((role) => role.id === requestedRoleId)
+    ) {
+      switchRole(requestedRoleId);
+    } else if (requestedRoleId !== activeRole.id) {
+      setSearchParams((params) => {
+        params.set('role', activeRole.id);
+        return params;
+      }, { replace: true });
+    }
+  }, [user, activeRole, requestedRoleId, switchRole, setSearchParams]);
+
+  if (!user || !activeRole) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900">No Role Assigned</h2>
+          <p className="mt-2 text-gray-600">Please contact your administrator.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header user={user} activeRole={activeRole} />
+      <main className="py-6">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Eye, EyeOff, LogIn } from 'lucide-react';
 
@@ -9,6 +10,7 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const { login } = useAuth();
+  const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,7 +18,12 @@ export default function Login() {
     setError('');
 
     try {
-      await login(email, password);
+      const step = await login(email, password);
+      if (step && 'password_change_token' in step) {
+        navigate(`/reset-password?token=${encodeURIComponent(step.password_change_token)}&required=1`);
+      } else if (step) {
+        navigate('/two-factor', { state: step });
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Login failed');
     } finally {
@@ -24,12 +31,14 @@ export default function Login() {
     }
   };
 
-  const testAccounts = [
-    { email: 'superadmin@example.com', role: 'Super Admin', password: 'password123' },
-    { email: 'admin@example.com', role: 'Company Admin', password: 'password123' },
-    { email: 'amine@example.com', role: 'Site Manager', password: 'password123' },
-    { email: 'soukaina@example.com', role: 'Commercial', password: 'password123' }
-  ];
+  // Seed accounts, offered in development only; each one has to choose its
+  // own password on first sign-in
+  const testAccounts = import.meta.env.DEV ? [
+    { email: 'superadmin@example.com', role: 'Super Admin' },
+    { email: 'admin@example.com', role: 'Company Admin' },
+    { email: 'amine@example.com', role: 'Site Manager' },
+    { email: 'soukaina@example.com', role: 'Commercial' }
+  ] : [];
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -102,6 +111,12 @@ export default function Login() {
             </div>
           </div>
 
+          <div className="flex justify-end">
+            <Link to="/forgot-password" className="text-sm text-blue-600 hover:text-blue-800">
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
@@ -113,33 +128,32 @@ export default function Login() {
           </div>
         </form>
 
-        <div className="mt-8">
-          <div className="relative">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-gray-300" />
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-2 bg-gray-50 text-gray-500">Test Accounts</span>
+        {testAccounts.length > 0 && (
+          <div className="mt-8">
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-300" />
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-2 bg-gray-50 text-gray-500">Test Accounts</span>
+              </div>
             </div>
-          </div>
 
-          <div className="mt-6 grid grid-cols-1 gap-3">
-            {testAccounts.map((account) => (
-              <button
-                key={account.email}
-                type="button"
-                onClick={() => {
-                  setEmail(account.email);
-                  setPassword(account.password);
-                }}
-                className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
-              >
-                <span className="font-medium">{account.role}</span>
-                <span className="ml-2 text-gray-400">({account.email})</span>
-              </button>
-            ))}
+            <div className="mt-6 grid grid-cols-1 gap-3">
+              {testAccounts.map((account) => (
+                <button
+                  key={account.email}
+                  type="button"
+                  onClick={() => setEmail(account.email)}
+                  className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
+                >
+                  <span className="font-medium">{account.role}</span>
+                  <span className="ml-2 text-gray-400">({account.email})</span>
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
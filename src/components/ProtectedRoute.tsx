@@ -0,0 +1,34 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from './Layout';
+import RequirePermission from './RequirePermission';
+
+interface ProtectedRouteProps {
+  resource?: string;
+  action?: string | string[];
+  children: React.ReactNode;
+}
+
+export default function ProtectedRoute({ resource, action, children }: ProtectedRouteProps) {
+  const { user } = useAuth();
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const page = <Layout>{children}</Layout>;
+  if (!resource || !action) {
+    return page;
+  }
+
+  return (
+    <RequirePermission
+      resource={resource}
+      action={action}
+      fallback={<Navigate to="/dashboard" replace />}
+    >
+      {page}
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+import { usePermission } from '../hooks/usePermission';
+
+interface RequirePermissionProps {
+  resource: string;
+  action: string | string[];
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export default function RequirePermission({
+  resource,
+  action,
+  fallback = null,
+  children
+}: RequirePermissionProps) {
+  const allowed = usePermission(resource, action);
+
+  return <>{allowed ? children : fallback}</>;
+}
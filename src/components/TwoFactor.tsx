@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { TwoFactorRequired, TwoFactorSetup, setupTwoFactor } from '../lib/authApi';
+import { ShieldCheck } from 'lucide-react';
+
+// Second sign-in step, reached from the sign-in page with the sign-in token
+// in the navigation state
+export default function TwoFactor() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const step = location.state as TwoFactorRequired | null;
+  const { verifyTwoFactor } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const token = step?.two_factor_token;
+  const enrolling = step?.two_factor === 'enroll';
+
+  useEffect(() => {
+    if (!token || !enrolling) return;
+    setupTwoFactor(token)
+      .then(setSetup)
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to start two-factor set-up'));
+  }, [token, enrolling]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    if (!code.trim()) {
+      setError('Enter the code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      // Signing in swaps this page for the dashboard; recovery codes issued
+      // by a first set-up are shown on the security page instead
+      const recoveryCodes = await verifyTwoFactor(token, code.trim());
+      if (recoveryCodes) {
+        navigate('/account/security', { state: { recoveryCodes } });
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Verification failed');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <ShieldCheck className="h-6 w-6 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {enrolling ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {enrolling
+              ? 'Your role requires a code from an authenticator app to sign in'
+              : 'Enter the code shown in your authenticator app'}
+          </p>
+        </div>
+
+        {!token ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            This sign-in has expired; sign in again
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            {enrolling && (
+              setup ? (
+                <div className="space-y-3 text-sm text-gray-700">
+                  <p>Scan this QR code with an authenticator app, then enter the code it shows.</p>
+                  <img src={setup.qr_code} alt="Authenticator QR code" className="mx-auto h-48 w-48" />
+                  <p className="text-xs text-gray-500">
+                    Cannot scan it? Enter this key instead:
+                    <span className="block mt-1 font-mono text-gray-900 break-all">{setup.secret}</span>
+                  </p>
+                </div>
+              ) : (
+                <div className="mx-auto h-48 w-48 bg-gray-200 rounded animate-pulse"></div>
+              )
+            )}
+
+            <div>
+              <label htmlFor="code" className="label">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                type="text"
+                inputMode={enrolling ? 'numeric' : 'text'}
+                autoComplete="one-time-code"
+                className="input"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+              {!enrolling && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Lost your device? Enter one of your recovery codes instead.
+                </p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || (enrolling && !setup)}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Verifying...' : enrolling ? 'Turn on and sign in' : 'Sign in'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link to="/login" className="text-sm text-blue-600 hover:text-blue-800">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
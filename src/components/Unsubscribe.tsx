@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { REPORTS, isReportKey, unsubscribeFromReport } from '../lib/reports';
+import { MailX } from 'lucide-react';
+
+// Opened from a scheduled report mail; asks first so link scanners in mail
+// clients don't pause the subscription on their own
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleUnsubscribe = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await unsubscribeFromReport(token);
+      setReport(isReportKey(result.report) ? REPORTS[result.report].label : result.report);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to unsubscribe');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <MailX className="h-6 w-6 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Stop this scheduled report
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            You can resume it later from your scheduled reports
+          </p>
+        </div>
+
+        {!token ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            This unsubscribe link is incomplete
+          </div>
+        ) : report ? (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+            You will no longer receive the {report} report
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleUnsubscribe}
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+            </button>
+          </div>
+        )}
+
+        <div className="text-center">
+          <Link to="/reports/subscriptions" className="text-sm text-blue-600 hover:text-blue-800">
+            Manage scheduled reports
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
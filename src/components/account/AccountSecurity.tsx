@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  TwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  setupTwoFactor
+} from '../../lib/authApi';
+import { RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react';
+
+export default function AccountSecurity() {
+  const { user, refreshSession } = useAuth();
+  const location = useLocation();
+  // Codes issued while signing in are handed over by the two-factor page
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(
+    (location.state as { recoveryCodes?: string[] } | null)?.recoveryCodes ?? null
+  );
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  if (!user) return null;
+
+  // Every action here takes the current code, which is cleared afterwards
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setCode('');
+    } catch (error) {
+      console.error('Error updating two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () => run(async () => {
+    setRecoveryCodes(null);
+    setSetup(await setupTwoFactor());
+  }, 'Failed to start two-factor set-up');
+
+  const enable = () => run(async () => {
+    const { recovery_codes } = await enableTwoFactor(code.trim());
+    setSetup(null);
+    setRecoveryCodes(recovery_codes);
+    setNotice('Two-factor authentication is on');
+    await refreshSession();
+  }, 'Failed to turn on two-factor authentication');
+
+  const regenerate = () => run(async () => {
+    const { recovery_codes } = await regenerateRecoveryCodes(code.trim());
+    setRecoveryCodes(recovery_codes);
+    setNotice('New recovery codes issued; the previous ones no longer work');
+  }, 'Failed to issue new recovery codes');
+
+  const disable = () => {
+    if (!window.confirm('Turn off two-factor authentication? Signing in will only need your password.')) return;
+    return run(async () => {
+      await disableTwoFactor(code.trim());
+      setRecoveryCodes(null);
+      setNotice('Two-factor authentication is off');
+      await refreshSession();
+    }, 'Failed to turn off two-factor authentication');
+  };
+
+  const codeInput = (
+    <div className="max-w-xs">
+      <label htmlFor="code" className="label">Authentication code</label>
+      <input
+        id="code"
+        type="text"
+        autoComplete="one-time-code"
+        className="input"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Account Security</h1>
+        <p className="mt-1 text-sm text-gray-500">{user.email}</p>
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 mb-6">
+          <h3 className="text-lg font-medium text-gray-900">Recovery codes</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Each code signs you in once if you lose your authenticator. Store them somewhere safe;
+            they will not be shown again.
+          </p>
+          <ul className="mt-4 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode} className="px-3 py-2 bg-gray-50 rounded">{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {user.two_factor_required
+                ? 'Required for your role: signing in needs a code from an authenticator app.'
+                : 'Signing in also asks for a code from an authenticator app.'}
+            </p>
+          </div>
+          <span
+            className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+              user.two_factor_enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+            }`}
+          >
+            {user.two_factor_enabled ? 'on' : 'off'}
+          </span>
+        </div>
+
+        {user.two_factor_enabled ? (
+          <div className="mt-6 space-y-4">
+            {codeInput}
+            <div className="flex space-x-3">
+              <button onClick={regenerate} disabled={busy} className="btn-secondary">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New Recovery Codes
+              </button>
+              {!user.two_factor_required && (
+                <button onClick={disable} disabled={busy} className="btn-danger">
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Turn Off
+                </button>
+              )}
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-700">
+              Scan this QR code with an authenticator app, then enter the code it shows.
+            </p>
+            <img src={setup.qr_code} alt="Authenticator QR code" className="h-48 w-48" />
+            <p className="text-xs text-gray-500">
+              Cannot scan it? Enter this key instead:
+              <span className="block mt-1 font-mono text-gray-900 break-all">{setup.secret}</span>
+            </p>
+            {codeInput}
+            <button onClick={enable} disabled={busy} className="btn-primary">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Turn On
+            </button>
+          </div>
+        ) : (
+          <div className="mt-6">
+            <button onClick={startSetup} disabled={busy} className="btn-primary">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Set Up
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
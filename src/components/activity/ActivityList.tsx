@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { ACTIVITY_ACTIONS, ACTIVITY_RESOURCE_TYPES, activitySubject } from '../../lib/activity';
+import { scopeFilter } from '../../lib/permissions';
+import Pagination from '../Pagination';
+import { Activity, ShieldCheck } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+export default function ActivityList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('reports', 'view');
+  const { searchParams, updateFilters, page } = useSearchFilters();
+  const [activities, setActivities] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const userId = searchParams.get('user') ?? '';
+  const action = searchParams.get('action') ?? '';
+  const resourceType = searchParams.get('resource_type') ?? '';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchActivities();
+    }
+  }, [user, activeRole, scope, userId, action, resourceType, page]);
+
+  useEffect(() => {
+    if (scope && scope !== 'personal') {
+      // RLS limits this to the users the active role can see
+      supabase
+        .from('users')
+        .select('id, first_name, last_name')
+        .order('first_name')
+        .then(({ data }) => setUsers(data || []));
+    }
+  }, [scope]);
+
+  const fetchActivities = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('activity_logs')
+        .select(`
+          id,
+          action,
+          resource_type,
+          resource_id,
+          details,
+          created_at,
+          user:users(first_name, last_name, email),
+          company:companies(name),
+          site:sites(name)
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'company_id',
+        site: 'site_id',
+        personal: 'user_id'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+      if (action) {
+        query = query.eq('action', action);
+      }
+      if (resourceType) {
+        query = query.eq('resource_type', resourceType);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setActivities(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Recomputes the hash chain server-side; only super admins may run it
+  const verifyChain = async () => {
+    setVerifying(true);
+    setNotice('');
+    setError('');
+    try {
+      const { data } = await supabase.rpc('verify_activity_chain').throwOnError();
+
+      const broken = data?.[0];
+      if (broken) {
+        setError(`Audit trail broken at entry #${broken.broken_seq}: ${broken.problem}.`);
+      } else {
+        setNotice('Audit trail verified: every entry is intact and in sequence.');
+      }
+    } catch (error) {
+      console.error('Error verifying audit trail:', error);
+      setError(error instanceof Error ? error.message : 'Failed to verify the audit trail');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Activity</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {scope === 'personal'
+              ? 'Your recent actions'
+              : `Actions taken in ${activeRole?.site?.name ?? activeRole?.company?.name ?? 'all companies'}`}
+          </p>
+        </div>
+        {scope === 'global' && (
+          <button onClick={verifyChain} disabled={verifying} className="btn-secondary">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {verifying ? 'Verifying...' : 'Verify Audit Trail'}
+          </button>
+        )}
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          {scope !== 'personal' && (
+            <select
+              className="input md:w-56"
+              value={userId}
+              onChange={(e) => updateFilters({ user: e.target.value, page: '' })}
+            >
+              <option value="">All users</option>
+              {users.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.first_name} {option.last_name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className="input md:w-48"
+            value={action}
+            onChange={(e) => updateFilters({ action: e.target.value, page: '' })}
+          >
+            <option value="">All actions</option>
+            {ACTIVITY_ACTIONS.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select
+            className="input md:w-48"
+            value={resourceType}
+            onChange={(e) => updateFilters({ resource_type: e.target.value, page: '' })}
+          >
+            <option value="">All resources</option>
+            {Object.entries(ACTIVITY_RESOURCE_TYPES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(8)].map((_, i) => (
+              <div key={i} className="h-8 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : activities.length === 0 ? (
+          <div className="text-center py-12">
+            <Activity className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No activity found</h3>
+            <p className="mt-1 text-sm text-gray-500">Nothing matches these filters.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Subject</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Where</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {activities.map((activity) => (
+                <tr key={activity.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(activity.created_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {activity.user ? `${activity.user.first_name} ${activity.user.last_name}` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {activity.action}{' '}
+                    <span className="text-gray-500">
+                      {ACTIVITY_RESOURCE_TYPES[activity.resource_type] ?? activity.resource_type}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {activitySubject(activity.details) || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {activity.site?.name ?? activity.company?.name ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <Pagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(nextPage) => updateFilters({ page: String(nextPage) })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { logActivity } from '../../lib/activity';
+import { clientStatusClass } from '../../lib/clients';
+import { effectiveStatus, proposalStatusClass } from '../../lib/proposals';
+import { TASK_TYPE_LABELS, isOverdue, priorityDotClass, taskTypeClass } from '../../lib/tasks';
+import { TaskType } from '../../types/auth';
+import {
+  ArrowLeft,
+  Edit,
+  Trash2,
+  Mail,
+  Phone,
+  MapPin,
+  FileText,
+  DollarSign,
+  Activity,
+  Users,
+  Plus,
+  Clock
+} from 'lucide-react';
+
+interface ClientDetails {
+  client: any;
+  proposals: any[];
+  sales: any[];
+  tasks: any[];
+  activities: any[];
+}
+
+export default function ClientDetail() {
+  const { clientId } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [details, setDetails] = useState<ClientDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (clientId) {
+      fetchClientDetails(clientId);
+    }
+  }, [clientId]);
+
+  const fetchClientDetails = async (id: string) => {
+    try {
+      const [
+        clientResult,
+        proposalsResult,
+        salesResult,
+        tasksResult,
+        activitiesResult
+      ] = await Promise.all([
+        supabase
+          .from('clients')
+          .select(`
+            *,
+            site:sites(name),
+            company:companies(name),
+            assigned_user:users(first_name, last_name, email)
+          `)
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('proposals')
+          .select('id, title, amount, status, valid_until, created_at')
+          .eq('client_id', id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('sales')
+          .select(`
+            id,
+            amount,
+            commission,
+            closed_at,
+            proposal:proposals!inner(title, client_id)
+          `)
+          .eq('proposal.client_id', id)
+          .order('closed_at', { ascending: false }),
+        supabase
+          .from('tasks')
+          .select('id, title, task_type, priority, due_at, completed_at, assignee:users!tasks_assigned_to_fkey(first_name, last_name)')
+          .eq('client_id', id)
+          .is('completed_at', null)
+          .order('due_at'),
+        supabase
+          .from('activity_logs')
+          .select(`
+            id,
+            action,
+            resource_type,
+            created_at,
+            user:users(first_name, last_name)
+          `)
+          .eq('resource_type', 'client')
+          .eq('resource_id', id)
+          .order('created_at', { ascending: false })
+          .limit(20)
+      ]);
+
+      if (clientResult.error) throw clientResult.error;
+
+      setDetails({
+        client: clientResult.data,
+        proposals: proposalsResult.data || [],
+        sales: salesResult.data || [],
+        tasks: tasksResult.data || [],
+        activities: activitiesResult.data || []
+      });
+    } catch (error) {
+      console.error('Error fetching client details:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !details || !clientId) return;
+    if (!window.confirm(`Delete ${details.client.name}? Its proposals and sales will be removed too.`)) return;
+
+    setDeleting(true);
+    try {
+      const { error } = await supabase.from('clients').delete().eq('id', clientId);
+      if (error) throw error;
+
+      await logActivity({
+        user_id: user.id,
+        action: 'delete',
+        resource_type: 'client',
+        resource_id: clientId,
+        details: { client_name: details.client.name }
+      });
+
+      navigate('/clients');
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      setDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-48 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center py-12">
+          <Users className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Client not found</h3>
+          <p className="mt-1 text-sm text-gray-500">It may have been removed or be outside your scope.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { client, proposals, sales, tasks, activities } = details;
+  const totalSales = sales.reduce((sum, sale) => sum + sale.amount, 0);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/clients" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Clients
+        </Link>
+        <div className="mt-2 flex items-center justify-between">
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+            <span className={`ml-3 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${clientStatusClass(client.status)}`}>
+              {client.status}
+            </span>
+          </div>
+          <div className="flex space-x-2">
+            <Link to={`/clients/${client.id}/edit`} className="btn-secondary">
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Link>
+            <button onClick={handleDelete} disabled={deleting} className="btn-danger">
+              <Trash2 className="h-4 w-4 mr-2" />
+              {deleting ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+        <p className="mt-1 text-sm text-gray-500">
+          {client.site?.name ?? 'No site'} - {client.company?.name}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Contact Details */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Users className="h-5 w-5 mr-2 text-blue-500" />
+              Details
+            </h3>
+          </div>
+          <div className="p-6 space-y-3 text-sm">
+            <p className="flex items-center text-gray-700">
+              <Mail className="h-4 w-4 mr-2 text-gray-400" />
+              {client.email || '—'}
+            </p>
+            <p className="flex items-center text-gray-700">
+              <Phone className="h-4 w-4 mr-2 text-gray-400" />
+              {client.phone || '—'}
+            </p>
+            <p className="flex items-center text-gray-700">
+              <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+              {client.address || '—'}
+            </p>
+            <div className="pt-3 border-t border-gray-100">
+              <p className="text-gray-500">Assigned to</p>
+              <p className="font-medium text-gray-900">
+                {client.assigned_user
+                  ? `${client.assigned_user.first_name} ${client.assigned_user.last_name}`
+                  : 'Unassigned'}
+              </p>
+            </div>
+            {client.notes && (
+              <div className="pt-3 border-t border-gray-100">
+                <p className="text-gray-500">Notes</p>
+                <p className="text-gray-900 whitespace-pre-line">{client.notes}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Proposals */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-purple-500" />
+              Proposals
+            </h3>
+            <Link
+              to={`/proposals/new?client=${client.id}`}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New
+            </Link>
+          </div>
+          <div className="p-6">
+            <div className="space-y-3">
+              {proposals.map((proposal) => (
+                <Link
+                  key={proposal.id}
+                  to={`/proposals/${proposal.id}`}
+                  className="flex items-start justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                >
+                  <div className="min-w-0 flex-1">
+                    <h4 className="text-sm font-medium text-gray-900 truncate">{proposal.title}</h4>
+                    <p className="text-xs text-gray-500">
+                      ${proposal.amount.toLocaleString()} • {new Date(proposal.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${proposalStatusClass(effectiveStatus(proposal))}`}>
+                    {effectiveStatus(proposal)}
+                  </span>
+                </Link>
+              ))}
+              {proposals.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No proposals for this client yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Sales */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <DollarSign className="h-5 w-5 mr-2 text-green-500" />
+              Sales
+            </h3>
+          </div>
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <span className="text-sm text-gray-500">Total</span>
+              <span className="text-lg font-semibold text-gray-900">${totalSales.toLocaleString()}</span>
+            </div>
+            <div className="space-y-3">
+              {sales.map((sale) => (
+                <div key={sale.id} className="p-3 bg-gray-50 rounded-lg">
+                  <h4 className="text-sm font-medium text-gray-900 truncate">{sale.proposal?.title}</h4>
+                  <p className="text-xs text-gray-500">
+                    ${sale.amount.toLocaleString()} • {new Date(sale.closed_at).toLocaleDateString()}
+                  </p>
+                </div>
+              ))}
+              {sales.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No sales closed yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Open Tasks */}
+      <div className="mt-8 bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Clock className="h-5 w-5 mr-2 text-purple-500" />
+            Open Tasks
+          </h3>
+          <Link
+            to={`/tasks/new?client=${client.id}`}
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Link>
+        </div>
+        <div className="p-6">
+          <div className="space-y-3">
+            {tasks.map((task) => (
+              <Link
+                key={task.id}
+                to={`/tasks/${task.id}/edit`}
+                className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+              >
+                <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${priorityDotClass(task.priority)}`}></div>
+                <div className="min-w-0 flex-1">
+                  <h4 className="text-sm font-medium text-gray-900 truncate">{task.title}</h4>
+                  <p className={`text-xs ${isOverdue(task) ? 'text-red-600' : 'text-gray-500'}`}>
+                    {new Date(task.due_at).toLocaleString()}
+                    {task.assignee && ` • ${task.assignee.first_name} ${task.assignee.last_name}`}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${taskTypeClass(task.task_type)}`}>
+                  {TASK_TYPE_LABELS[task.task_type as TaskType]}
+                </span>
+              </Link>
+            ))}
+            {tasks.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No open tasks for this client.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Activity */}
+      <div className="mt-8 bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Activity className="h-5 w-5 mr-2 text-purple-500" />
+            Activity
+          </h3>
+        </div>
+        <div className="p-6">
+          <div className="space-y-3">
+            {activities.map((activity) => (
+              <div key={activity.id} className="flex items-start space-x-3">
+                <div className="flex-shrink-0">
+                  <div className="w-2 h-2 bg-blue-400 rounded-full mt-2"></div>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {activity.user?.first_name} {activity.user?.last_name}
+                    </span>{' '}
+                    {activity.action} {activity.resource_type}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(activity.created_at).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+            {activities.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No activity recorded.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { validateEmail, validatePhone } from '../../lib/validation';
+import { CLIENT_STATUSES } from '../../lib/clients';
+import { ArrowLeft, Save } from 'lucide-react';
+
+interface ClientFormValues {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  status: string;
+  notes: string;
+  company_id: string;
+  site_id: string;
+  assigned_to: string;
+}
+
+type FormErrors = Partial<Record<keyof ClientFormValues, string>>;
+
+export default function ClientForm() {
+  const { clientId } = useParams();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const navigate = useNavigate();
+  const isEdit = Boolean(clientId);
+
+  const [values, setValues] = useState<ClientFormValues>({
+    name: '',
+    email: '',
+    phone: '',
+    address: '',
+    status: 'prospect',
+    notes: '',
+    company_id: activeRole?.company?.id ?? '',
+    site_id: activeRole?.site?.id ?? '',
+    assigned_to: scope === 'personal' && user ? user.id : ''
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [sites, setSites] = useState<any[]>([]);
+  const [commercials, setCommercials] = useState<any[]>([]);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  useEffect(() => {
+    if (clientId) {
+      fetchClient(clientId);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    if (scope === 'global') {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if ((scope === 'global' || scope === 'company') && values.company_id) {
+      supabase
+        .from('sites')
+        .select('id, name')
+        .eq('company_id', values.company_id)
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setSites(data || []));
+    }
+  }, [scope, values.company_id]);
+
+  useEffect(() => {
+    if (scope !== 'personal' && values.site_id) {
+      supabase
+        .from('user_roles')
+        .select(`
+          id,
+          user:users(id, first_name, last_name),
+          role:roles!inner(name)
+        `)
+        .eq('site_id', values.site_id)
+        .eq('role.name', 'Commercial')
+        .eq('is_active', true)
+        .then(({ data }) => setCommercials(data || []));
+    } else {
+      setCommercials([]);
+    }
+  }, [scope, values.site_id]);
+
+  const fetchClient = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues({
+        name: data.name,
+        email: data.email ?? '',
+        phone: data.phone ?? '',
+        address: data.address ?? '',
+        status: data.status ?? 'prospect',
+        notes: data.notes ?? '',
+        company_id: data.company_id ?? '',
+        site_id: data.site_id ?? '',
+        assigned_to: data.assigned_to ?? ''
+      });
+    } catch (error) {
+      console.error('Error fetching client:', error);
+      setSubmitError('Client not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = (field: keyof ClientFormValues, value: string) => {
+    setValues((current) => {
+      const next = { ...current, [field]: value };
+      // A different company or site invalidates the choices below it
+      if (field === 'company_id') {
+        next.site_id = '';
+        next.assigned_to = '';
+      }
+      if (field === 'site_id' && scope !== 'personal') {
+        next.assigned_to = '';
+      }
+      return next;
+    });
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.name.trim()) nextErrors.name = 'Name is required';
+    if (!values.company_id) nextErrors.company_id = 'Company is required';
+
+    const emailError = validateEmail(values.email.trim());
+    if (emailError) nextErrors.email = emailError;
+
+    const phoneError = validatePhone(values.phone.trim());
+    if (phoneError) nextErrors.phone = phoneError;
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const payload = {
+      name: values.name.trim(),
+      email: values.email.trim() || null,
+      phone: values.phone.trim() || null,
+      address: values.address.trim() || null,
+      status: values.status,
+      notes: values.notes.trim() || null,
+      company_id: values.company_id,
+      site_id: values.site_id || null,
+      assigned_to: values.assigned_to || null
+    };
+
+    try {
+      let savedId = clientId;
+      if (clientId) {
+        const { error } = await supabase
+          .from('clients')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', clientId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('clients')
+          .insert(payload)
+          .select('id')
+          .single();
+        if (error) throw error;
+        savedId = data.id;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'client',
+        resource_id: savedId,
+        details: { client_name: payload.name }
+      });
+
+      navigate(`/clients/${savedId}`);
+    } catch (error) {
+      console.error('Error saving client:', error);
+      setSubmitError('Failed to save client. Check that it is within your scope.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link
+          to={clientId ? `/clients/${clientId}` : '/clients'}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit Client' : 'Add Client'}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="name" className="label">Name</label>
+          <input
+            id="name"
+            className="input mt-1"
+            value={values.name}
+            onChange={(e) => setField('name', e.target.value)}
+          />
+          {errors.name && <p className="mt-1 text-xs text-red-600">{errors.name}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="email" className="label">Email</label>
+            <input
+              id="email"
+              type="email"
+              className="input mt-1"
+              value={values.email}
+              onChange={(e) => setField('email', e.target.value)}
+            />
+            {errors.email && <p className="mt-1 text-xs text-red-600">{errors.email}</p>}
+          </div>
+          <div>
+            <label htmlFor="phone" className="label">Phone</label>
+            <input
+              id="phone"
+              type="tel"
+              className="input mt-1"
+              value={values.phone}
+              onChange={(e) => setField('phone', e.target.value)}
+            />
+            {errors.phone && <p className="mt-1 text-xs text-red-600">{errors.phone}</p>}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="address" className="label">Address</label>
+          <input
+            id="address"
+            className="input mt-1"
+            value={values.address}
+            onChange={(e) => setField('address', e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="status" className="label">Status</label>
+            <select
+              id="status"
+              className="input mt-1"
+              value={values.status}
+              onChange={(e) => setField('status', e.target.value)}
+            >
+              {CLIENT_STATUSES.map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+
+          {scope === 'global' && (
+            <div>
+              <label htmlFor="company_id" className="label">Company</label>
+              <select
+                id="company_id"
+                className="input mt-1"
+                value={values.company_id}
+                onChange={(e) => setField('company_id', e.target.value)}
+              >
+                <option value="">Select a company</option>
+                {companies.map((company) => (
+                  <option key={company.id} value={company.id}>{company.name}</option>
+                ))}
+              </select>
+              {errors.company_id && <p className="mt-1 text-xs text-red-600">{errors.company_id}</p>}
+            </div>
+          )}
+
+          {(scope === 'global' || scope === 'company') && (
+            <div>
+              <label htmlFor="site_id" className="label">Site</label>
+              <select
+                id="site_id"
+                className="input mt-1"
+                value={values.site_id}
+                onChange={(e) => setField('site_id', e.target.value)}
+              >
+                <option value="">No site</option>
+                {sites.map((site) => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {scope !== 'personal' && (
+            <div>
+              <label htmlFor="assigned_to" className="label">Assigned To</label>
+              <select
+                id="assigned_to"
+                className="input mt-1"
+                value={values.assigned_to}
+                onChange={(e) => setField('assigned_to', e.target.value)}
+              >
+                <option value="">Unassigned</option>
+                {commercials.map((commercial) => (
+                  <option key={commercial.id} value={commercial.user.id}>
+                    {commercial.user.first_name} {commercial.user.last_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="notes" className="label">Notes</label>
+          <textarea
+            id="notes"
+            rows={4}
+            className="input mt-1 h-auto"
+            value={values.notes}
+            onChange={(e) => setField('notes', e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Client'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { scopeFilter } from '../../lib/permissions';
+import { CLIENT_STATUSES, clientStatusClass } from '../../lib/clients';
+import Pagination from '../Pagination';
+import { Users, Plus, Search } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+export default function ClientList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const navigate = useNavigate();
+  const { searchParams, updateFilters, page } = useSearchFilters();
+  const [clients, setClients] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') ?? '');
+
+  const search = searchParams.get('q') ?? '';
+  const status = searchParams.get('status') ?? '';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchClients();
+    }
+  }, [user, activeRole, scope, search, status, page]);
+
+  const fetchClients = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('clients')
+        .select(`
+          id,
+          name,
+          email,
+          phone,
+          status,
+          created_at,
+          site:sites(name),
+          assigned_user:users(first_name, last_name)
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      // Scope the list to the active role, not to every role the user holds
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'company_id',
+        site: 'site_id',
+        personal: 'assigned_to'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (search) {
+        query = query.ilike('name', `%${search}%`);
+      }
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setClients(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim(), page: '' });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Clients</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {scope === 'personal' ? 'Clients assigned to you' :
+             scope === 'site' ? `Clients of ${activeRole?.site?.name}` :
+             scope === 'company' ? `Clients of ${activeRole?.company?.name}` :
+             'All clients'}
+          </p>
+        </div>
+        <Link to="/clients/new" className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Client
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                className="input pl-9"
+                placeholder="Search by name"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <button type="submit" className="btn-secondary">Search</button>
+          </form>
+          <select
+            className="input md:w-48"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value, page: '' })}
+          >
+            <option value="">All statuses</option>
+            {CLIENT_STATUSES.map((clientStatus) => (
+              <option key={clientStatus} value={clientStatus}>{clientStatus}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Client Table */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Contact</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Site</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Assigned To</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {!loading && clients.map((client) => (
+              <tr
+                key={client.id}
+                onClick={() => navigate(`/clients/${client.id}`)}
+                className="hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">{client.name}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  <div>{client.email}</div>
+                  <div className="text-xs text-gray-400">{client.phone}</div>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">{client.site?.name ?? '—'}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {client.assigned_user
+                    ? `${client.assigned_user.first_name} ${client.assigned_user.last_name}`
+                    : 'Unassigned'}
+                </td>
+                <td className="px-6 py-4">
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${clientStatusClass(client.status)}`}>
+                    {client.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {loading && (
+          <div className="p-6 animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-6 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        )}
+
+        {!loading && clients.length === 0 && (
+          <div className="text-center py-12">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No clients found</h3>
+            <p className="mt-1 text-sm text-gray-500">Try changing the filters or add a new client.</p>
+          </div>
+        )}
+
+        <Pagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(nextPage) => updateFilters({ page: String(nextPage) })}
+        />
+      </div>
+    </div>
+  );
+}
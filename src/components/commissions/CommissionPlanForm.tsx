@@ -0,0 +1,504 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { PLAN_TYPE_LABELS } from '../../lib/commissions';
+import { CommissionPlanType, CommissionTier } from '../../types/auth';
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react';
+
+interface PlanFormValues {
+  name: string;
+  plan_type: CommissionPlanType;
+  company_id: string;
+  site_id: string;
+  user_id: string;
+  rate: string;
+  accelerator_threshold: string;
+  accelerator_rate: string;
+  is_active: boolean;
+}
+
+type FormErrors = Partial<Record<keyof PlanFormValues | 'tiers', string>>;
+
+const isPercent = (value: string) => value !== '' && Number(value) >= 0 && Number(value) <= 100;
+
+export default function CommissionPlanForm() {
+  const { planId } = useParams();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('users', 'manage');
+  const navigate = useNavigate();
+  const isEdit = Boolean(planId);
+
+  const [values, setValues] = useState<PlanFormValues>({
+    name: '',
+    plan_type: 'flat',
+    company_id: activeRole?.company?.id ?? '',
+    site_id: activeRole?.site?.id ?? '',
+    user_id: '',
+    rate: '10',
+    accelerator_threshold: '',
+    accelerator_rate: '',
+    is_active: true
+  });
+  const [tiers, setTiers] = useState<CommissionTier[]>([{ from: 0, rate: 5 }]);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [sites, setSites] = useState<any[]>([]);
+  const [members, setMembers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  useEffect(() => {
+    if (planId) {
+      fetchPlan(planId);
+    }
+  }, [planId]);
+
+  useEffect(() => {
+    if (scope === 'global') {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if ((scope === 'global' || scope === 'company') && values.company_id) {
+      supabase
+        .from('sites')
+        .select('id, name')
+        .eq('company_id', values.company_id)
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setSites(data || []));
+    }
+  }, [scope, values.company_id]);
+
+  useEffect(() => {
+    if (!values.company_id) {
+      setMembers([]);
+      return;
+    }
+
+    let query = supabase
+      .from('user_roles')
+      .select(`
+        id,
+        user:users(id, first_name, last_name)
+      `)
+      .eq('company_id', values.company_id)
+      .eq('is_active', true);
+    if (values.site_id) {
+      query = query.eq('site_id', values.site_id);
+    }
+
+    query.then(({ data }) => {
+      // A user can hold several roles in the same company
+      const unique = new Map((data || []).map((row: any) => [row.user.id, row.user]));
+      setMembers([...unique.values()]);
+    });
+  }, [values.company_id, values.site_id]);
+
+  const fetchPlan = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('commission_plans')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues({
+        name: data.name,
+        plan_type: data.plan_type,
+        company_id: data.company_id,
+        site_id: data.site_id ?? '',
+        user_id: data.user_id ?? '',
+        rate: String(data.rate),
+        accelerator_threshold: data.accelerator_threshold?.toString() ?? '',
+        accelerator_rate: data.accelerator_rate?.toString() ?? '',
+        is_active: data.is_active
+      });
+      if (data.tiers.length > 0) {
+        setTiers(data.tiers);
+      }
+    } catch (error) {
+      console.error('Error fetching commission plan:', error);
+      setSubmitError('Commission plan not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = <K extends keyof PlanFormValues>(field: K, value: PlanFormValues[K]) => {
+    setValues((current) => {
+      const next = { ...current, [field]: value };
+      if (field === 'company_id') {
+        next.site_id = '';
+        next.user_id = '';
+      }
+      if (field === 'site_id') {
+        next.user_id = '';
+      }
+      return next;
+    });
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const updateTier = (index: number, changes: Partial<CommissionTier>) => {
+    setTiers((current) => current.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+    setErrors((current) => ({ ...current, tiers: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.name.trim()) nextErrors.name = 'Name is required';
+    if (!values.company_id) nextErrors.company_id = 'Company is required';
+
+    if (values.plan_type !== 'tiered' && !isPercent(values.rate)) {
+      nextErrors.rate = 'Rate must be between 0 and 100%';
+    }
+    if (values.plan_type === 'tiered') {
+      const starts = tiers.map((tier) => tier.from);
+      if (tiers.length === 0) {
+        nextErrors.tiers = 'Add at least one tier';
+      } else if (!starts.includes(0)) {
+        nextErrors.tiers = 'The first tier must start at $0';
+      } else if (new Set(starts).size !== starts.length) {
+        nextErrors.tiers = 'Each tier needs a different starting amount';
+      } else if (tiers.some((tier) => tier.from < 0 || tier.rate < 0 || tier.rate > 100)) {
+        nextErrors.tiers = 'Tier rates must be between 0 and 100%';
+      }
+    }
+    if (values.plan_type === 'accelerator') {
+      if (values.accelerator_threshold !== '' && Number(values.accelerator_threshold) < 0) {
+        nextErrors.accelerator_threshold = 'Threshold cannot be negative';
+      }
+      if (!isPercent(values.accelerator_rate)) {
+        nextErrors.accelerator_rate = 'Rate must be between 0 and 100%';
+      }
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const payload = {
+      name: values.name.trim(),
+      plan_type: values.plan_type,
+      company_id: values.company_id,
+      site_id: values.site_id || null,
+      user_id: values.user_id || null,
+      rate: values.plan_type === 'tiered' ? 0 : Number(values.rate),
+      tiers: values.plan_type === 'tiered' ? [...tiers].sort((a, b) => a.from - b.from) : [],
+      accelerator_threshold: values.plan_type === 'accelerator' && values.accelerator_threshold !== ''
+        ? Number(values.accelerator_threshold)
+        : null,
+      accelerator_rate: values.plan_type === 'accelerator' ? Number(values.accelerator_rate) : null,
+      is_active: values.is_active
+    };
+
+    try {
+      let savedId = planId;
+      if (planId) {
+        await supabase
+          .from('commission_plans')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', planId)
+          .throwOnError();
+      } else {
+        const { data } = await supabase
+          .from('commission_plans')
+          .insert({ ...payload, created_by: user.id })
+          .select('id')
+          .single()
+          .throwOnError();
+        savedId = data.id;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'commission_plan',
+        resource_id: savedId,
+        details: { plan_name: payload.name }
+      });
+
+      navigate('/commissions');
+    } catch (error) {
+      console.error('Error saving commission plan:', error);
+      // The partial unique index allows one active plan per company / site / user
+      setSubmitError(
+        error instanceof PostgrestError && error.code === '23505'
+          ? 'Another active plan already applies at this level. Deactivate it first.'
+          : 'Failed to save commission plan. Check that it is within your scope.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/commissions" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit Commission Plan' : 'New Commission Plan'}
+        </h1>
+        {isEdit && (
+          <p className="mt-1 text-sm text-gray-500">
+            Changes apply to new sales. Recalculate from the plan list to update recorded ones.
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="name" className="label">Name</label>
+            <input
+              id="name"
+              className="input mt-1"
+              value={values.name}
+              onChange={(e) => setField('name', e.target.value)}
+            />
+            {errors.name && <p className="mt-1 text-xs text-red-600">{errors.name}</p>}
+          </div>
+          <div>
+            <label htmlFor="plan_type" className="label">Type</label>
+            <select
+              id="plan_type"
+              className="input mt-1"
+              value={values.plan_type}
+              onChange={(e) => setField('plan_type', e.target.value as CommissionPlanType)}
+            >
+              {(Object.keys(PLAN_TYPE_LABELS) as CommissionPlanType[]).map((type) => (
+                <option key={type} value={type}>{PLAN_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {scope === 'global' && (
+            <div>
+              <label htmlFor="company_id" className="label">Company</label>
+              <select
+                id="company_id"
+                className="input mt-1"
+                value={values.company_id}
+                disabled={isEdit}
+                onChange={(e) => setField('company_id', e.target.value)}
+              >
+                <option value="">Select a company</option>
+                {companies.map((company) => (
+                  <option key={company.id} value={company.id}>{company.name}</option>
+                ))}
+              </select>
+              {errors.company_id && <p className="mt-1 text-xs text-red-600">{errors.company_id}</p>}
+            </div>
+          )}
+
+          {(scope === 'global' || scope === 'company') && (
+            <div>
+              <label htmlFor="site_id" className="label">Site</label>
+              <select
+                id="site_id"
+                className="input mt-1"
+                value={values.site_id}
+                disabled={isEdit}
+                onChange={(e) => setField('site_id', e.target.value)}
+              >
+                <option value="">All sites</option>
+                {sites.map((site) => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="user_id" className="label">User</label>
+            <select
+              id="user_id"
+              className="input mt-1"
+              value={values.user_id}
+              disabled={isEdit}
+              onChange={(e) => setField('user_id', e.target.value)}
+            >
+              <option value="">Everyone</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.first_name} {member.last_name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {values.plan_type !== 'tiered' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="rate" className="label">
+                {values.plan_type === 'accelerator' ? 'Base Rate (%)' : 'Rate (%)'}
+              </label>
+              <input
+                id="rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                className="input mt-1"
+                value={values.rate}
+                onChange={(e) => setField('rate', e.target.value)}
+              />
+              {errors.rate && <p className="mt-1 text-xs text-red-600">{errors.rate}</p>}
+            </div>
+            {values.plan_type === 'accelerator' && (
+              <>
+                <div>
+                  <label htmlFor="accelerator_threshold" className="label">Monthly Threshold ($)</label>
+                  <input
+                    id="accelerator_threshold"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="input mt-1"
+                    value={values.accelerator_threshold}
+                    placeholder="Seller's target"
+                    onChange={(e) => setField('accelerator_threshold', e.target.value)}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Leave empty to accelerate above each seller's target.</p>
+                  {errors.accelerator_threshold && (
+                    <p className="mt-1 text-xs text-red-600">{errors.accelerator_threshold}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="accelerator_rate" className="label">Accelerated Rate (%)</label>
+                  <input
+                    id="accelerator_rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="input mt-1"
+                    value={values.accelerator_rate}
+                    onChange={(e) => setField('accelerator_rate', e.target.value)}
+                  />
+                  {errors.accelerator_rate && (
+                    <p className="mt-1 text-xs text-red-600">{errors.accelerator_rate}</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {values.plan_type === 'tiered' && (
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="label">Tiers</span>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => setTiers((current) => [...current, { from: 0, rate: 0 }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Each rate applies to the part of the sale between its starting amount and the next tier's.
+            </p>
+            <div className="mt-3 space-y-2">
+              {tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 w-12">From $</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="input"
+                    value={tier.from}
+                    onChange={(e) => updateTier(index, { from: Number(e.target.value) })}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="input w-32"
+                    value={tier.rate}
+                    onChange={(e) => updateTier(index, { rate: Number(e.target.value) })}
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  <button
+                    type="button"
+                    onClick={() => setTiers((current) => current.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {errors.tiers && <p className="mt-1 text-xs text-red-600">{errors.tiers}</p>}
+          </div>
+        )}
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={values.is_active}
+            onChange={(e) => setField('is_active', e.target.checked)}
+          />
+          Active
+        </label>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Plan'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
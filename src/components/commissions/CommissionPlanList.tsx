@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { scopeFilter } from '../../lib/permissions';
+import { PLAN_TYPE_LABELS, describePlan, planScopeLabel } from '../../lib/commissions';
+import { CommissionPlanType } from '../../types/auth';
+import { Edit, Percent, Plus, RefreshCw, History } from 'lucide-react';
+
+export default function CommissionPlanList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('users', 'manage');
+  const [plans, setPlans] = useState<any[]>([]);
+  const [adjustments, setAdjustments] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recalculating, setRecalculating] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchPlans();
+    }
+  }, [user, activeRole, scope]);
+
+  const fetchPlans = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    try {
+      let query = supabase
+        .from('commission_plans')
+        .select(`
+          *,
+          company:companies(name),
+          site:sites(name),
+          user:users!commission_plans_user_id_fkey(first_name, last_name)
+        `)
+        .order('is_active', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      // Plans are managed by whoever manages users at that level
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'company_id',
+        site: 'site_id',
+        personal: 'user_id'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+
+      const [plansResult, adjustmentsResult] = await Promise.all([
+        query,
+        supabase
+          .from('commission_adjustments')
+          .select(`
+            id,
+            previous_commission,
+            new_commission,
+            reason,
+            created_at,
+            sale:sales(proposal:proposals(title)),
+            adjusted_by_user:users(first_name, last_name)
+          `)
+          .order('created_at', { ascending: false })
+          .limit(10)
+      ]);
+
+      if (plansResult.error) throw plansResult.error;
+
+      setPlans(plansResult.data || []);
+      setAdjustments(adjustmentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching commission plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecalculate = async (plan: any) => {
+    if (!user) return;
+
+    const reason = window.prompt(
+      `Recalculate commission on every sale covered by "${plan.name}"? Enter a reason for the audit trail.`,
+      'Plan updated'
+    );
+    if (reason === null) return;
+
+    setRecalculating(plan.id);
+    setNotice('');
+    setError('');
+    try {
+      const { data: count } = await supabase.rpc('recalculate_commissions', {
+        p_plan_id: plan.id,
+        p_reason: reason.trim() || null
+      }).throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'recalculate',
+        resource_type: 'commission_plan',
+        resource_id: plan.id,
+        details: { plan_name: plan.name, sales: count }
+      });
+
+      setNotice(`Recalculated commission on ${count} sale${count === 1 ? '' : 's'}.`);
+      await fetchPlans();
+    } catch (error) {
+      console.error('Error recalculating commissions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to recalculate commissions');
+    } finally {
+      setRecalculating(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Commission Plans</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            The most specific active plan (user, then site, then company) applies to each sale
+          </p>
+        </div>
+        <Link to="/commissions/new" className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          New Plan
+        </Link>
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-center py-12">
+            <Percent className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No commission plans</h3>
+            <p className="mt-1 text-sm text-gray-500">Sales closed without a plan earn no commission.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {plans.map((plan) => (
+                <tr key={plan.id}>
+                  <td className="px-6 py-4">
+                    <p className="text-sm font-medium text-gray-900">{plan.name}</p>
+                    <p className="text-xs text-gray-500">{PLAN_TYPE_LABELS[plan.plan_type as CommissionPlanType]}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    <p>{planScopeLabel(plan)}</p>
+                    <p className="text-xs text-gray-500">
+                      {plan.user
+                        ? `${plan.user.first_name} ${plan.user.last_name}`
+                        : plan.site?.name ?? plan.company?.name}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{describePlan(plan)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      plan.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {plan.is_active ? 'active' : 'inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap">
+                    <Link to={`/commissions/${plan.id}/edit`} className="btn-secondary mr-2">
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Link>
+                    <button
+                      onClick={() => handleRecalculate(plan)}
+                      disabled={recalculating !== null}
+                      className="btn-secondary"
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${recalculating === plan.id ? 'animate-spin' : ''}`} />
+                      Recalculate
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Recent Adjustments */}
+      <div className="mt-8 bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <History className="h-5 w-5 mr-2 text-blue-500" />
+            Recent Adjustments
+          </h3>
+        </div>
+        <div className="p-6">
+          <div className="space-y-3">
+            {adjustments.map((adjustment) => (
+              <div key={adjustment.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0 flex-1">
+                  <h4 className="text-sm font-medium text-gray-900 truncate">
+                    {adjustment.sale?.proposal?.title}
+                  </h4>
+                  <p className="text-xs text-gray-500">
+                    {adjustment.reason}
+                    {adjustment.adjusted_by_user &&
+                      ` • ${adjustment.adjusted_by_user.first_name} ${adjustment.adjusted_by_user.last_name}`}
+                    {' • '}
+                    {new Date(adjustment.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <span className="text-sm text-gray-900 whitespace-nowrap">
+                  ${(adjustment.previous_commission ?? 0).toLocaleString()} → ${(adjustment.new_commission ?? 0).toLocaleString()}
+                </span>
+              </div>
+            ))}
+            {adjustments.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No commissions have been recalculated.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { logActivity } from '../../lib/activity';
+import { validateEmail, validatePhone } from '../../lib/validation';
+import { ArrowLeft, Save } from 'lucide-react';
+
+interface CompanyFormValues {
+  name: string;
+  description: string;
+  email: string;
+  phone: string;
+  address: string;
+}
+
+type FormErrors = Partial<Record<keyof CompanyFormValues, string>>;
+
+export default function CompanyForm() {
+  const { companyId } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const isEdit = Boolean(companyId);
+
+  const [values, setValues] = useState<CompanyFormValues>({
+    name: '',
+    description: '',
+    email: '',
+    phone: '',
+    address: ''
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  useEffect(() => {
+    if (companyId) {
+      fetchCompany(companyId);
+    }
+  }, [companyId]);
+
+  const fetchCompany = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues({
+        name: data.name,
+        description: data.description ?? '',
+        email: data.email ?? '',
+        phone: data.phone ?? '',
+        address: data.address ?? ''
+      });
+    } catch (error) {
+      console.error('Error fetching company:', error);
+      setSubmitError('Company not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = (field: keyof CompanyFormValues, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.name.trim()) nextErrors.name = 'Name is required';
+
+    const emailError = validateEmail(values.email.trim());
+    if (emailError) nextErrors.email = emailError;
+
+    const phoneError = validatePhone(values.phone.trim());
+    if (phoneError) nextErrors.phone = phoneError;
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const payload = {
+      name: values.name.trim(),
+      description: values.description.trim() || null,
+      email: values.email.trim() || null,
+      phone: values.phone.trim() || null,
+      address: values.address.trim() || null
+    };
+
+    try {
+      let savedId = companyId;
+      if (companyId) {
+        await supabase
+          .from('companies')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', companyId)
+          .throwOnError();
+      } else {
+        const { data } = await supabase
+          .from('companies')
+          .insert(payload)
+          .select('id')
+          .single()
+          .throwOnError();
+        savedId = data.id;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'company',
+        resource_id: savedId,
+        details: { company_name: payload.name }
+      });
+
+      navigate('/companies');
+    } catch (error) {
+      console.error('Error saving company:', error);
+      setSubmitError(
+        error instanceof PostgrestError && error.code === '23505'
+          ? 'A company with this name already exists'
+          : 'Failed to save company. Check that you are allowed to manage it.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/companies" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit Company' : 'Add Company'}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="name" className="label">Name</label>
+          <input
+            id="name"
+            className="input mt-1"
+            value={values.name}
+            onChange={(e) => setField('name', e.target.value)}
+          />
+          {errors.name && <p className="mt-1 text-xs text-red-600">{errors.name}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="description" className="label">Description</label>
+          <textarea
+            id="description"
+            rows={3}
+            className="input mt-1 h-auto"
+            value={values.description}
+            onChange={(e) => setField('description', e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="email" className="label">Email</label>
+            <input
+              id="email"
+              type="email"
+              className="input mt-1"
+              value={values.email}
+              onChange={(e) => setField('email', e.target.value)}
+            />
+            {errors.email && <p className="mt-1 text-xs text-red-600">{errors.email}</p>}
+          </div>
+          <div>
+            <label htmlFor="phone" className="label">Phone</label>
+            <input
+              id="phone"
+              type="tel"
+              className="input mt-1"
+              value={values.phone}
+              onChange={(e) => setField('phone', e.target.value)}
+            />
+            {errors.phone && <p className="mt-1 text-xs text-red-600">{errors.phone}</p>}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="address" className="label">Address</label>
+          <input
+            id="address"
+            className="input mt-1"
+            value={values.address}
+            onChange={(e) => setField('address', e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Company'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { logActivity } from '../../lib/activity';
+import { organizationStatus, organizationStatusClass } from '../../lib/organizations';
+import { Building2, Plus } from 'lucide-react';
+
+export default function CompanyList() {
+  const { user } = useAuth();
+  // Only roles managing sites everywhere create, deactivate and archive companies
+  const isGlobal = usePermissionScope('sites', 'manage') === 'global';
+  const { searchParams, updateFilters } = useSearchFilters();
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const status = searchParams.get('status') ?? '';
+
+  useEffect(() => {
+    if (user) {
+      fetchCompanies();
+    }
+  }, [user, status]);
+
+  const fetchCompanies = async () => {
+    setLoading(true);
+    try {
+      // RLS limits company admins to their own company
+      let query = supabase
+        .from('companies')
+        .select('id, name, email, phone, is_active, archived_at, sites(count)')
+        .order('name');
+
+      if (status === 'archived') {
+        query = query.not('archived_at', 'is', null);
+      } else {
+        query = query.is('archived_at', null);
+        if (status) {
+          query = query.eq('is_active', status === 'active');
+        }
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setCompanies(data || []);
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeStatus = async (company: any, action: 'deactivate' | 'reactivate' | 'archive' | 'restore') => {
+    if (!user) return;
+    if (action === 'deactivate' && !window.confirm(
+      `Deactivate ${company.name}? Its clients will be hidden and people who only work there will be signed out.`
+    )) return;
+    if (action === 'archive' && !window.confirm(`Archive ${company.name}? It will be deactivated and hidden from this list.`)) return;
+
+    setBusyId(company.id);
+    setError('');
+    try {
+      // Deleting a company archives it
+      if (action === 'archive') {
+        await supabase.from('companies').delete().eq('id', company.id).throwOnError();
+      } else {
+        await supabase
+          .from('companies')
+          .update({
+            ...(action === 'restore' ? { archived_at: null } : { is_active: action === 'reactivate' }),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', company.id)
+          .throwOnError();
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action,
+        resource_type: 'company',
+        resource_id: company.id,
+        details: { company_name: company.name }
+      });
+
+      await fetchCompanies();
+    } catch (error) {
+      console.error('Error updating company status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update company');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{isGlobal ? 'Companies' : 'Company'}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Deactivating a company hides its clients and signs out people who only work there
+          </p>
+        </div>
+        {isGlobal && (
+          <Link to="/companies/new" className="btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Company
+          </Link>
+        )}
+      </div>
+
+      {isGlobal && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+          <select
+            className="input md:w-48"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value })}
+          >
+            <option value="">Current</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+            <option value="archived">Archived</option>
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : companies.length === 0 ? (
+          <div className="text-center py-12">
+            <Building2 className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No companies found</h3>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Contact</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Sites</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {companies.map((company) => {
+                const companyStatus = organizationStatus(company);
+                return (
+                  <tr key={company.id}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{company.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <div>{company.email}</div>
+                      <div className="text-xs text-gray-400">{company.phone}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <Link to={`/sites?company=${company.id}`} className="text-blue-600 hover:text-blue-800">
+                        {company.sites?.[0]?.count ?? 0}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${organizationStatusClass(companyStatus)}`}>
+                        {companyStatus}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      {companyStatus !== 'archived' && (
+                        <Link to={`/companies/${company.id}/edit`} className="text-blue-600 hover:text-blue-800">
+                          Edit
+                        </Link>
+                      )}
+                      {isGlobal && companyStatus === 'active' && (
+                        <button
+                          onClick={() => changeStatus(company, 'deactivate')}
+                          disabled={busyId === company.id}
+                          className="text-yellow-700 hover:text-yellow-900"
+                        >
+                          Deactivate
+                        </button>
+                      )}
+                      {isGlobal && companyStatus === 'inactive' && (
+                        <button
+                          onClick={() => changeStatus(company, 'reactivate')}
+                          disabled={busyId === company.id}
+                          className="text-green-700 hover:text-green-900"
+                        >
+                          Reactivate
+                        </button>
+                      )}
+                      {isGlobal && companyStatus !== 'archived' && (
+                        <button
+                          onClick={() => changeStatus(company, 'archive')}
+                          disabled={busyId === company.id}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Archive
+                        </button>
+                      )}
+                      {isGlobal && companyStatus === 'archived' && (
+                        <button
+                          onClick={() => changeStatus(company, 'restore')}
+                          disabled={busyId === company.id}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+
+export interface BarItem {
+  key: string;
+  label: string;
+  value: number;
+  detail?: string;
+}
+
+interface BarListProps {
+  items: BarItem[];
+  formatValue: (value: number) => string;
+  // Bar colour, e.g. 'bg-blue-500'
+  colorClass: string;
+  onSelect?: (item: BarItem) => void;
+  emptyMessage: string;
+}
+
+// Horizontal bars scaled to the largest value
+export default function BarList({ items, formatValue, colorClass, onSelect, emptyMessage }: BarListProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(...items.map((item) => item.value));
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => (
+        <button
+          key={item.key}
+          type="button"
+          onClick={() => onSelect?.(item)}
+          disabled={!onSelect}
+          className="block w-full text-left group disabled:cursor-default"
+        >
+          <div className="flex justify-between items-center text-sm">
+            <span className={`font-medium text-gray-900 truncate ${onSelect ? 'group-hover:text-blue-600' : ''}`}>
+              {item.label}
+            </span>
+            <span className="ml-4 text-gray-500 whitespace-nowrap">
+              {formatValue(item.value)}
+              {item.detail && <span className="text-xs text-gray-400"> · {item.detail}</span>}
+            </span>
+          </div>
+          <div className="mt-1 w-full bg-gray-100 rounded-full h-2">
+            <div
+              className={`${colorClass} h-2 rounded-full transition-all duration-300`}
+              style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+            ></div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,20 @@
 import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import RequirePermission from '../RequirePermission';
+import StatCard from './StatCard';
+import PeriodSelector from './PeriodSelector';
+import DashboardCharts from './DashboardCharts';
+import { useTrendPeriod } from '../../hooks/useTrendPeriod';
 import { UserRole } from '../../types/auth';
 import { useAuth } from '../../contexts/AuthContext';
+import { effectiveStatus, proposalStatusClass } from '../../lib/proposals';
+import { periodLabel, periodRange, periodStart, progressPercent } from '../../lib/targets';
+import { fetchKpiTrends, fetchKpis, kpiTrend } from '../../lib/dashboard';
+import { TrendValue } from '../../lib/trends';
+import { TASK_TYPE_LABELS, isOverdue, priorityDotClass, taskTypeClass } from '../../lib/tasks';
+import { SalesTarget, TaskType } from '../../types/auth';
 import { 
-  TrendingUp, 
   DollarSign,
   FileText,
   Users,
@@ -14,12 +25,13 @@ import {
 } from 'lucide-react';
 
 interface CommercialStats {
-  personalSales: number;
-  personalProposals: number;
-  personalClients: number;
-  conversionRate: number;
-  monthlyTarget: number;
-  commission: number;
+  personalSales: TrendValue;
+  personalProposals: TrendValue;
+  personalClients: TrendValue;
+  conversionRate: TrendValue;
+  target: SalesTarget | null;
+  targetSales: number;
+  commission: TrendValue;
   recentProposals: any[];
   upcomingTasks: any[];
 }
@@ -30,14 +42,16 @@ interface CommercialDashboardProps {
 
 export default function CommercialDashboard({ userRole }: CommercialDashboardProps) {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [stats, setStats] = useState<CommercialStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useTrendPeriod();
 
   useEffect(() => {
     if (user) {
       fetchCommercialData();
     }
-  }, [user]);
+  }, [user, period]);
 
   const fetchCommercialData = async () => {
     if (!user) return;
@@ -45,20 +59,12 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
     try {
       // Fetch personal statistics
       const [
-        salesResult,
+        kpis,
         proposalsResult,
-        clientsResult
+        targetsResult,
+        tasksResult
       ] = await Promise.all([
-        supabase
-          .from('sales')
-          .select(`
-            amount,
-            commission,
-            proposal:proposals!inner(
-              client:clients!inner(assigned_to)
-            )
-          `)
-          .eq('closed_by', user.id),
+        fetchKpiTrends('personal', user.id, period),
         supabase
           .from('proposals')
           .select(`
@@ -66,61 +72,52 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
             title,
             amount,
             status,
+            valid_until,
             created_at,
             client:clients!inner(assigned_to, name)
-          `, { count: 'exact' })
-          .eq('created_by', user.id),
+          `)
+          .eq('created_by', user.id)
+          .order('created_at', { ascending: false })
+          .limit(5),
         supabase
-          .from('clients')
-          .select('id, name, status', { count: 'exact' })
+          .from('sales_targets')
+          .select('*')
+          .eq('user_id', user.id)
+          .in('period_start', [periodStart('month'), periodStart('quarter')]),
+        // Open tasks that are overdue or due within the next 7 days
+        supabase
+          .from('tasks')
+          .select('id, title, task_type, priority, due_at, completed_at, client:clients(name)')
           .eq('assigned_to', user.id)
+          .is('completed_at', null)
+          .lt('due_at', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString())
+          .order('due_at')
+          .limit(8)
       ]);
 
-      const personalSales = salesResult.data?.reduce((sum, sale) => sum + sale.amount, 0) || 0;
-      const commission = salesResult.data?.reduce((sum, sale) => sum + (sale.commission || 0), 0) || 0;
-      const closedProposals = proposalsResult.data?.filter(p => p.status === 'closed').length || 0;
-      const conversionRate = proposalsResult.count ? (closedProposals / proposalsResult.count) * 100 : 0;
-
-      // Mock monthly target (in real app, this would come from database)
-      const monthlyTarget = 50000;
-
-      // Get recent proposals
-      const recentProposals = proposalsResult.data?.slice(0, 5) || [];
+      // The current month's target, or the current quarter's when none is set
+      const targets = targetsResult.data || [];
+      const target =
+        targets.find((t) => t.period_type === 'month' && t.period_start === periodStart('month')) ??
+        targets.find((t) => t.period_type === 'quarter' && t.period_start === periodStart('quarter')) ??
+        null;
 
-      // Mock upcoming tasks (in real app, this would come from a tasks table)
-      const upcomingTasks = [
-        {
-          id: '1',
-          title: 'Follow up with John Doe',
-          type: 'call',
-          due_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-          priority: 'high'
-        },
-        {
-          id: '2',
-          title: 'Prepare proposal for ABC Corp',
-          type: 'proposal',
-          due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
-          priority: 'medium'
-        },
-        {
-          id: '3',
-          title: 'Site visit - XYZ Company',
-          type: 'meeting',
-          due_date: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
-          priority: 'high'
-        }
-      ];
+      let targetSales = 0;
+      if (target) {
+        const targetKpis = await fetchKpis('personal', user.id, periodRange(target.period_type, target.period_start));
+        targetSales = targetKpis.sales_total;
+      }
 
       setStats({
-        personalSales,
-        personalProposals: proposalsResult.count || 0,
-        personalClients: clientsResult.count || 0,
-        conversionRate,
-        monthlyTarget,
-        commission,
-        recentProposals,
-        upcomingTasks
+        personalSales: kpiTrend(kpis, 'sales_total'),
+        personalProposals: kpiTrend(kpis, 'proposals_count'),
+        personalClients: kpiTrend(kpis, 'clients_count'),
+        conversionRate: kpiTrend(kpis, 'conversion_rate'),
+        target,
+        targetSales,
+        commission: kpiTrend(kpis, 'commission_total'),
+        recentProposals: proposalsResult.data || [],
+        upcomingTasks: tasksResult.data || []
       });
     } catch (error) {
       console.error('Error fetching commercial data:', error);
@@ -158,133 +155,123 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
     );
   }
 
-  const targetProgress = (stats.personalSales / stats.monthlyTarget) * 100;
+  const targetProgress = stats.target ? progressPercent(stats.targetSales, stats.target.amount) : 0;
 
   const statCards = [
     {
       title: 'Personal Sales',
-      value: `$${stats.personalSales.toLocaleString()}`,
+      value: `$${stats.personalSales.current.toLocaleString()}`,
       icon: DollarSign,
       color: 'bg-green-500',
-      change: '+15%'
+      trend: stats.personalSales
     },
     {
       title: 'My Proposals',
-      value: stats.personalProposals,
+      value: stats.personalProposals.current,
       icon: FileText,
       color: 'bg-blue-500',
-      change: '+8%'
+      trend: stats.personalProposals
     },
     {
       title: 'My Clients',
-      value: stats.personalClients,
+      value: stats.personalClients.current,
       icon: Users,
       color: 'bg-purple-500',
-      change: '+12%'
+      trend: stats.personalClients
     },
     {
       title: 'Commission',
-      value: `$${stats.commission.toLocaleString()}`,
+      value: `$${stats.commission.current.toLocaleString()}`,
       icon: Award,
       color: 'bg-yellow-500',
-      change: '+20%'
+      trend: stats.commission
     }
   ];
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">My Dashboard</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          {userRole.site?.name} - {userRole.company?.name}
-        </p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">My Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {userRole.site?.name} - {userRole.company?.name}
+          </p>
+        </div>
+        <PeriodSelector value={period} onChange={setPeriod} />
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {statCards.map((stat) => (
-          <div key={stat.title} className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
-            <div className="p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <div className={`${stat.color} p-3 rounded-md`}>
-                    <stat.icon className="h-6 w-6 text-white" />
-                  </div>
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">
-                      {stat.title}
-                    </dt>
-                    <dd className="flex items-baseline">
-                      <div className="text-2xl font-semibold text-gray-900">
-                        {stat.value}
-                      </div>
-                      <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                        <TrendingUp className="h-4 w-4 mr-1" />
-                        {stat.change}
-                      </div>
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
+        {statCards.map(({ trend, ...stat }) => (
+          <StatCard key={stat.title} {...stat} {...trend} />
         ))}
       </div>
 
+      {user && <DashboardCharts scope="personal" scopeId={user.id} period={period} target={stats.target} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Monthly Target Progress */}
+        {/* Target Progress */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <Target className="h-5 w-5 mr-2 text-green-500" />
-              Monthly Target
+              {stats.target?.period_type === 'quarter' ? 'Quarterly Target' : 'Monthly Target'}
             </h3>
           </div>
           <div className="p-6">
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-500">Progress</span>
-                <span className="text-sm font-medium text-gray-900">
-                  {targetProgress.toFixed(1)}%
-                </span>
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div 
-                  className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${Math.min(targetProgress, 100)}%` }}
-                ></div>
-              </div>
-              <div className="flex justify-between items-center text-sm">
-                <span className="text-gray-500">
-                  ${stats.personalSales.toLocaleString()}
-                </span>
-                <span className="text-gray-500">
-                  ${stats.monthlyTarget.toLocaleString()}
-                </span>
-              </div>
-              <div className="text-center">
-                <span className={`text-sm font-medium ${
-                  targetProgress >= 100 ? 'text-green-600' : 
-                  targetProgress >= 75 ? 'text-yellow-600' : 'text-gray-600'
-                }`}>
-                  {targetProgress >= 100 ? 'Target Achieved! 🎉' :
-                   targetProgress >= 75 ? 'Almost there!' :
-                   `$${(stats.monthlyTarget - stats.personalSales).toLocaleString()} to go`}
-                </span>
+            {stats.target ? (
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-500">
+                    {periodLabel(stats.target.period_type, stats.target.period_start)}
+                  </span>
+                  <span className="text-sm font-medium text-gray-900">
+                    {targetProgress.toFixed(1)}%
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div 
+                    className="bg-green-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${Math.min(targetProgress, 100)}%` }}
+                  ></div>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-500">
+                    ${stats.targetSales.toLocaleString()}
+                  </span>
+                  <span className="text-gray-500">
+                    ${stats.target.amount.toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-center">
+                  <span className={`text-sm font-medium ${
+                    targetProgress >= 100 ? 'text-green-600' : 
+                    targetProgress >= 75 ? 'text-yellow-600' : 'text-gray-600'
+                  }`}>
+                    {targetProgress >= 100 ? 'Target Achieved! 🎉' :
+                     targetProgress >= 75 ? 'Almost there!' :
+                     `$${(stats.target.amount - stats.targetSales).toLocaleString()} to go`}
+                  </span>
+                </div>
               </div>
-            </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-4">
+                No target has been set for this period yet.
+              </p>
+            )}
           </div>
         </div>
 
         {/* Recent Proposals */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <FileText className="h-5 w-5 mr-2 text-blue-500" />
               Recent Proposals
             </h3>
+            <Link to="/pipeline" className="text-sm text-blue-600 hover:text-blue-800">
+              View pipeline
+            </Link>
           </div>
           <div className="p-6">
             <div className="space-y-3">
@@ -298,12 +285,8 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
                       {proposal.client.name} • ${proposal.amount.toLocaleString()}
                     </p>
                   </div>
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    proposal.status === 'closed' ? 'bg-green-100 text-green-800' :
-                    proposal.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                    'bg-gray-100 text-gray-800'
-                  }`}>
-                    {proposal.status}
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${proposalStatusClass(effectiveStatus(proposal))}`}>
+                    {effectiveStatus(proposal)}
                   </span>
                 </div>
               ))}
@@ -318,38 +301,42 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
 
         {/* Upcoming Tasks */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <Clock className="h-5 w-5 mr-2 text-purple-500" />
               Upcoming Tasks
             </h3>
+            <Link to="/tasks?mine=1" className="text-sm text-blue-600 hover:text-blue-800">
+              View all
+            </Link>
           </div>
           <div className="p-6">
             <div className="space-y-3">
               {stats.upcomingTasks.map((task) => (
-                <div key={task.id} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
-                  <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
-                    task.priority === 'high' ? 'bg-red-400' :
-                    task.priority === 'medium' ? 'bg-yellow-400' :
-                    'bg-green-400'
-                  }`}></div>
+                <div
+                  key={task.id}
+                  className={`flex items-start space-x-3 p-3 rounded-lg ${isOverdue(task) ? 'bg-red-50' : 'bg-gray-50'}`}
+                >
+                  <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${priorityDotClass(task.priority)}`}></div>
                   <div className="min-w-0 flex-1">
                     <h4 className="text-sm font-medium text-gray-900">
                       {task.title}
                     </h4>
-                    <p className="text-xs text-gray-500">
-                      Due: {new Date(task.due_date).toLocaleDateString()}
+                    <p className={`text-xs ${isOverdue(task) ? 'text-red-600' : 'text-gray-500'}`}>
+                      {isOverdue(task) ? 'Overdue' : 'Due'}: {new Date(task.due_at).toLocaleDateString()}
+                      {task.client && ` • ${task.client.name}`}
                     </p>
                   </div>
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    task.type === 'call' ? 'bg-blue-100 text-blue-800' :
-                    task.type === 'meeting' ? 'bg-green-100 text-green-800' :
-                    'bg-purple-100 text-purple-800'
-                  }`}>
-                    {task.type}
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${taskTypeClass(task.task_type)}`}>
+                    {TASK_TYPE_LABELS[task.task_type as TaskType]}
                   </span>
                 </div>
               ))}
+              {stats.upcomingTasks.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  Nothing due in the next 7 days.
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -357,22 +344,42 @@ export default function CommercialDashboard({ userRole }: CommercialDashboardPro
 
       {/* Quick Actions */}
       <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <button className="btn-primary w-full justify-center">
-          <Users className="h-4 w-4 mr-2" />
-          Add Client
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <FileText className="h-4 w-4 mr-2" />
-          Create Proposal
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <Calendar className="h-4 w-4 mr-2" />
-          Schedule Meeting
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <DollarSign className="h-4 w-4 mr-2" />
-          Log Sale
-        </button>
+        <RequirePermission resource="clients" action="manage_personal">
+          <button
+            onClick={() => navigate('/clients/new')}
+            className="btn-primary w-full justify-center"
+          >
+            <Users className="h-4 w-4 mr-2" />
+            Add Client
+          </button>
+        </RequirePermission>
+        <RequirePermission resource="clients" action="manage_personal">
+          <button
+            onClick={() => navigate('/proposals/new')}
+            className="btn-primary w-full justify-center"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Create Proposal
+          </button>
+        </RequirePermission>
+        <RequirePermission resource="clients" action="manage_personal">
+          <button
+            onClick={() => navigate('/tasks/new?type=meeting')}
+            className="btn-primary w-full justify-center"
+          >
+            <Calendar className="h-4 w-4 mr-2" />
+            Schedule Meeting
+          </button>
+        </RequirePermission>
+        <RequirePermission resource="clients" action="manage_personal">
+          <button
+            onClick={() => navigate('/proposals?status=sent')}
+            className="btn-primary w-full justify-center"
+          >
+            <DollarSign className="h-4 w-4 mr-2" />
+            Log Sale
+          </button>
+        </RequirePermission>
       </div>
     </div>
   );
@@ -1,10 +1,18 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import RequirePermission from '../RequirePermission';
+import StatCard from './StatCard';
+import PeriodSelector from './PeriodSelector';
+import ForecastPanel from './ForecastPanel';
+import DashboardCharts from './DashboardCharts';
+import { useTrendPeriod } from '../../hooks/useTrendPeriod';
+import { fetchKpiTrends, kpiTrend } from '../../lib/dashboard';
+import { TrendValue } from '../../lib/trends';
 import { UserRole } from '../../types/auth';
 import { 
   Users, 
   MapPin, 
-  TrendingUp, 
   DollarSign,
   FileText,
   UserPlus,
@@ -13,10 +21,10 @@ import {
 } from 'lucide-react';
 
 interface CompanyStats {
-  totalUsers: number;
-  totalSites: number;
-  totalSales: number;
-  totalProposals: number;
+  users: TrendValue;
+  siteCount: TrendValue;
+  sales: TrendValue;
+  proposals: TrendValue;
   recentActivities: any[];
   sites: any[];
 }
@@ -28,12 +36,13 @@ interface CompanyAdminDashboardProps {
 export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboardProps) {
   const [stats, setStats] = useState<CompanyStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useTrendPeriod();
 
   useEffect(() => {
     if (userRole.company) {
       fetchCompanyData();
     }
-  }, [userRole.company]);
+  }, [userRole.company, period]);
 
   const fetchCompanyData = async () => {
     if (!userRole.company) return;
@@ -43,38 +52,11 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
 
       // Fetch company-specific statistics
       const [
-        usersResult,
-        sitesResult,
-        salesResult,
-        proposalsResult,
+        kpis,
         activitiesResult,
         sitesDetailResult
       ] = await Promise.all([
-        supabase
-          .from('user_roles')
-          .select('id', { count: 'exact' })
-          .eq('company_id', companyId),
-        supabase
-          .from('sites')
-          .select('id', { count: 'exact' })
-          .eq('company_id', companyId),
-        supabase
-          .from('sales')
-          .select(`
-            amount,
-            proposal:proposals!inner(
-              client:clients!inner(company_id)
-            )
-          `)
-          .eq('proposal.client.company_id', companyId),
-        supabase
-          .from('proposals')
-          .select(`
-            id,
-            status,
-            client:clients!inner(company_id)
-          `, { count: 'exact' })
-          .eq('client.company_id', companyId),
+        fetchKpiTrends('company', companyId, period),
         supabase
           .from('activity_logs')
           .select(`
@@ -84,6 +66,7 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
             created_at,
             user:users(first_name, last_name, email)
           `)
+          .eq('company_id', companyId)
           .order('created_at', { ascending: false })
           .limit(10),
         supabase
@@ -102,13 +85,11 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
           .eq('company_id', companyId)
       ]);
 
-      const totalSales = salesResult.data?.reduce((sum, sale) => sum + sale.amount, 0) || 0;
-
       setStats({
-        totalUsers: usersResult.count || 0,
-        totalSites: sitesResult.count || 0,
-        totalSales,
-        totalProposals: proposalsResult.count || 0,
+        users: kpiTrend(kpis, 'users_count'),
+        siteCount: kpiTrend(kpis, 'sites_count'),
+        sales: kpiTrend(kpis, 'sales_total'),
+        proposals: kpiTrend(kpis, 'proposals_count'),
         recentActivities: activitiesResult.data || [],
         sites: sitesDetailResult.data || []
       });
@@ -151,76 +132,57 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
   const statCards = [
     {
       title: 'Company Users',
-      value: stats.totalUsers,
+      value: stats.users.current,
       icon: Users,
       color: 'bg-blue-500',
-      change: '+8%'
+      trend: stats.users
     },
     {
       title: 'Sites',
-      value: stats.totalSites,
+      value: stats.siteCount.current,
       icon: MapPin,
       color: 'bg-green-500',
-      change: '+12%'
+      trend: stats.siteCount
     },
     {
-      title: 'Total Sales',
-      value: `$${stats.totalSales.toLocaleString()}`,
+      title: 'Sales',
+      value: `$${stats.sales.current.toLocaleString()}`,
       icon: DollarSign,
       color: 'bg-yellow-500',
-      change: '+18%'
+      trend: stats.sales
     },
     {
       title: 'Proposals',
-      value: stats.totalProposals,
+      value: stats.proposals.current,
       icon: FileText,
       color: 'bg-purple-500',
-      change: '+15%'
+      trend: stats.proposals
     }
   ];
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Company Admin Dashboard</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Managing {userRole.company.name}
-        </p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Company Admin Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Managing {userRole.company.name}
+          </p>
+        </div>
+        <PeriodSelector value={period} onChange={setPeriod} />
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {statCards.map((stat) => (
-          <div key={stat.title} className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
-            <div className="p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <div className={`${stat.color} p-3 rounded-md`}>
-                    <stat.icon className="h-6 w-6 text-white" />
-                  </div>
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">
-                      {stat.title}
-                    </dt>
-                    <dd className="flex items-baseline">
-                      <div className="text-2xl font-semibold text-gray-900">
-                        {stat.value}
-                      </div>
-                      <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                        <TrendingUp className="h-4 w-4 mr-1" />
-                        {stat.change}
-                      </div>
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
+        {statCards.map(({ trend, ...stat }) => (
+          <StatCard key={stat.title} {...stat} {...trend} />
         ))}
       </div>
 
+      <DashboardCharts scope="company" scopeId={userRole.company.id} period={period} breakdown="sites" />
+
+      <ForecastPanel scope="company" scopeId={userRole.company.id} breakdown="sites" />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Sites Overview */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
@@ -263,11 +225,14 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
 
         {/* Recent Activities */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <Activity className="h-5 w-5 mr-2 text-purple-500" />
               Recent Activities
             </h3>
+            <Link to="/activity" className="text-sm text-blue-600 hover:text-blue-800">
+              View all
+            </Link>
           </div>
           <div className="p-6">
             <div className="space-y-3">
@@ -296,22 +261,30 @@ export default function CompanyAdminDashboard({ userRole }: CompanyAdminDashboar
 
       {/* Management Actions */}
       <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <button className="btn-primary w-full justify-center">
-          <UserPlus className="h-4 w-4 mr-2" />
-          Add User
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <MapPin className="h-4 w-4 mr-2" />
-          Create Site
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <FileText className="h-4 w-4 mr-2" />
-          View Reports
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <Building className="h-4 w-4 mr-2" />
-          Company Settings
-        </button>
+        <RequirePermission resource="users" action="manage_company">
+          <Link to="/users/new" className="btn-primary w-full justify-center">
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite User
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="sites" action="manage_company">
+          <Link to="/sites/new" className="btn-primary w-full justify-center">
+            <MapPin className="h-4 w-4 mr-2" />
+            Create Site
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="reports" action="view_company">
+          <Link to="/reports" className="btn-primary w-full justify-center">
+            <FileText className="h-4 w-4 mr-2" />
+            View Reports
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="companies" action="manage">
+          <Link to={`/companies/${userRole.company?.id}/edit`} className="btn-primary w-full justify-center">
+            <Building className="h-4 w-4 mr-2" />
+            Company Settings
+          </Link>
+        </RequirePermission>
       </div>
     </div>
   );
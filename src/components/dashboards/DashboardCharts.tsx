@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import LineChart from './LineChart';
+import BarList from './BarList';
+import {
+  DashboardCharts as DashboardChartsData,
+  DashboardScope,
+  ChartGrain,
+  TREND_PERIOD_GRAINS,
+  bucketDates,
+  fetchCharts,
+  proposalListUrl,
+  salesListUrl,
+  toLocalDate
+} from '../../lib/dashboard';
+import { TrendPeriod, trendWindows } from '../../lib/trends';
+import { periodLabel, periodRange } from '../../lib/targets';
+import { SalesTarget } from '../../types/auth';
+import { BarChart3, Filter, LineChart as LineChartIcon, Target } from 'lucide-react';
+
+interface DashboardChartsProps {
+  scope: DashboardScope;
+  scopeId: string | null;
+  period: TrendPeriod;
+  // Sales split per site (company dashboards) or per commercial (site dashboards)
+  breakdown?: 'sites' | 'commercials';
+  // Adds cumulative sales against this target (personal dashboards)
+  target?: SalesTarget | null;
+}
+
+const formatAmount = (amount: number) => `$${Math.round(amount).toLocaleString()}`;
+
+// Short axis labels: $950, $12k, $1.2M
+const formatAxis = (amount: number) => {
+  if (amount >= 1_000_000) return `$${+(amount / 1_000_000).toFixed(1)}M`;
+  if (amount >= 1_000) return `$${+(amount / 1_000).toFixed(1)}k`;
+  return `$${amount}`;
+};
+
+function bucketLabel(period: string, grain: ChartGrain) {
+  const [year, month, day] = period.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return grain === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function ChartCard({ title, icon: Icon, iconClass, className = '', children }: {
+  title: string;
+  icon: React.ElementType;
+  iconClass: string;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={`bg-white shadow-sm rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Icon className={`h-5 w-5 mr-2 ${iconClass}`} />
+          {title}
+        </h3>
+      </div>
+      <div className="p-6">{children}</div>
+    </div>
+  );
+}
+
+export default function DashboardCharts({ scope, scopeId, period, breakdown, target }: DashboardChartsProps) {
+  const navigate = useNavigate();
+  const [charts, setCharts] = useState<DashboardChartsData | null>(null);
+  const [targetCharts, setTargetCharts] = useState<DashboardChartsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const grain = TREND_PERIOD_GRAINS[period];
+  // The window the charts were drawn for, so drill-downs cover the same dates
+  const [chartWindow, setChartWindow] = useState(() => trendWindows(period).current);
+
+  useEffect(() => {
+    const current = trendWindows(period).current;
+    setLoading(true);
+    fetchCharts(scope, scopeId, current, grain)
+      .then((data) => {
+        setCharts(data);
+        setChartWindow(current);
+      })
+      .catch((error) => console.error('Error fetching dashboard charts:', error))
+      .finally(() => setLoading(false));
+  }, [scope, scopeId, period]);
+
+  const targetWindow = target ? periodRange(target.period_type, target.period_start) : null;
+
+  useEffect(() => {
+    if (!target || !targetWindow) {
+      setTargetCharts(null);
+      return;
+    }
+
+    fetchCharts(scope, scopeId, targetWindow, 'day')
+      .then(setTargetCharts)
+      .catch((error) => console.error('Error fetching target progress:', error));
+  }, [scope, scopeId, target?.id]);
+
+  if (loading && !charts) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8 animate-pulse">
+        <div className="lg:col-span-2 h-72 bg-gray-200 rounded-lg"></div>
+        <div className="h-72 bg-gray-200 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  if (!charts) return null;
+
+  const windowDates = { from: toLocalDate(chartWindow.start), to: toLocalDate(new Date(chartWindow.end.getTime() - 1)) };
+  const series = charts.sales_series;
+  const funnel = charts.proposal_funnel;
+  const funnelStages = [
+    { key: 'created', label: 'Created', value: funnel.created, url: proposalListUrl(windowDates) },
+    { key: 'sent', label: 'Sent', value: funnel.sent, url: proposalListUrl({ ...windowDates, sent: '1' }) },
+    { key: 'accepted', label: 'Accepted', value: funnel.accepted, url: proposalListUrl({ ...windowDates, status: 'accepted' }) }
+  ];
+
+  // Cumulative sales per day of the target period against an even pace to
+  // the target; days still to come are left blank
+  const today = toLocalDate(new Date());
+  let cumulative = 0;
+  const targetSeries = targetCharts?.sales_series ?? [];
+  const achieved = targetSeries.map((point) => {
+    cumulative += point.sales_total;
+    return point.period <= today ? cumulative : null;
+  });
+  const pace = targetSeries.map((_, index) => ((target?.amount ?? 0) * (index + 1)) / targetSeries.length);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+      <ChartCard title="Sales Over Time" icon={LineChartIcon} iconClass="text-green-500" className="lg:col-span-2">
+        <LineChart
+          labels={series.map((point) => bucketLabel(point.period, grain))}
+          series={[{
+            name: 'Sales',
+            colorClass: 'stroke-green-500 fill-green-500',
+            values: series.map((point) => point.sales_total)
+          }]}
+          formatValue={formatAxis}
+          onSelect={(index) => navigate(salesListUrl(bucketDates(series[index].period, grain, chartWindow)))}
+        />
+      </ChartCard>
+
+      <ChartCard title="Proposal Funnel" icon={Filter} iconClass="text-blue-500">
+        <div className="space-y-4">
+          {funnelStages.map((stage, index) => {
+            const previous = index > 0 ? funnelStages[index - 1].value : 0;
+            return (
+              <button
+                key={stage.key}
+                type="button"
+                onClick={() => navigate(stage.url)}
+                className="block w-full text-left group"
+              >
+                <div className="flex justify-between items-center text-sm">
+                  <span className="font-medium text-gray-900 group-hover:text-blue-600">{stage.label}</span>
+                  <span className="text-gray-500">
+                    {stage.value}
+                    {index > 0 && (
+                      <span className="text-xs text-gray-400">
+                        {' '}· {previous > 0 ? `${((stage.value / previous) * 100).toFixed(0)}%` : '—'}
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <div className="mt-1 h-6 bg-gray-100 rounded flex justify-center">
+                  <div
+                    className="bg-blue-500 h-6 rounded transition-all duration-300"
+                    style={{ width: `${funnel.created > 0 ? (stage.value / funnel.created) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </button>
+            );
+          })}
+          <p className="text-xs text-gray-500">Proposals created in the period; percentages are of the stage above</p>
+        </div>
+      </ChartCard>
+
+      {breakdown === 'sites' && (
+        <ChartCard title="Sales by Site" icon={BarChart3} iconClass="text-purple-500" className="lg:col-span-3">
+          <BarList
+            items={charts.sales_by_site.map((site) => ({
+              key: site.site_id,
+              label: site.name,
+              value: site.sales_total,
+              detail: `${site.sales_count} sales`
+            }))}
+            formatValue={formatAmount}
+            colorClass="bg-purple-500"
+            onSelect={(item) => navigate(salesListUrl({ ...windowDates, site: item.key }))}
+            emptyMessage="No sales in this period"
+          />
+        </ChartCard>
+      )}
+
+      {breakdown === 'commercials' && (
+        <ChartCard title="Sales by Commercial" icon={BarChart3} iconClass="text-purple-500" className="lg:col-span-3">
+          <BarList
+            items={charts.sales_by_commercial.map((commercial) => ({
+              key: commercial.user_id,
+              label: `${commercial.first_name ?? ''} ${commercial.last_name ?? ''}`.trim(),
+              value: commercial.sales_total,
+              detail: `${commercial.sales_count} sales`
+            }))}
+            formatValue={formatAmount}
+            colorClass="bg-purple-500"
+            onSelect={(item) => navigate(salesListUrl({ ...windowDates, commercial: item.key }))}
+            emptyMessage="No sales in this period"
+          />
+        </ChartCard>
+      )}
+
+      {target && targetCharts && (
+        <ChartCard
+          title={`Progress to ${periodLabel(target.period_type, target.period_start)} Target`}
+          icon={Target}
+          iconClass="text-green-500"
+          className="lg:col-span-3"
+        >
+          <LineChart
+            labels={targetSeries.map((point) => bucketLabel(point.period, 'day'))}
+            series={[
+              { name: 'Sales to date', colorClass: 'stroke-green-500 fill-green-500', values: achieved },
+              { name: 'Pace to target', colorClass: 'stroke-gray-400 fill-gray-400', values: pace, dashed: true }
+            ]}
+            formatValue={formatAxis}
+            onSelect={(index) => {
+              if (targetSeries[index].period > today) return;
+              navigate(salesListUrl({ from: targetSeries[0].period, to: targetSeries[index].period }));
+            }}
+          />
+        </ChartCard>
+      )}
+    </div>
+  );
+}
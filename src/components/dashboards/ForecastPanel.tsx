@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { DashboardScope } from '../../lib/dashboard';
+import { ForecastFigures, RevenueForecast, fetchForecast } from '../../lib/forecast';
+import { periodLabel, progressPercent } from '../../lib/targets';
+import { TargetPeriodType } from '../../types/auth';
+import { TrendingUp } from 'lucide-react';
+
+const FORECAST_PERIODS = 3;
+
+interface ForecastPanelProps {
+  scope: DashboardScope;
+  scopeId: string | null;
+  // 'sites' lists each site with a company total underneath; 'companies'
+  // lists company totals only
+  breakdown: 'sites' | 'companies';
+}
+
+interface ForecastRow extends ForecastFigures {
+  key: string;
+  name: string;
+  total?: boolean;
+}
+
+const formatAmount = (amount: number) => `$${Math.round(amount).toLocaleString()}`;
+
+export default function ForecastPanel({ scope, scopeId, breakdown }: ForecastPanelProps) {
+  const [periodType, setPeriodType] = useState<TargetPeriodType>('month');
+  const [forecast, setForecast] = useState<RevenueForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchForecast(scope, scopeId, periodType, FORECAST_PERIODS)
+      .then(setForecast)
+      .catch((error) => console.error('Error fetching revenue forecast:', error))
+      .finally(() => setLoading(false));
+  }, [scope, scopeId, periodType]);
+
+  const rowsFor = (periodStart: string): ForecastRow[] => {
+    if (!forecast) return [];
+
+    const companies = forecast.companies.filter((company) => company.period_start === periodStart);
+    if (breakdown === 'companies') {
+      return companies.map((company) => ({
+        ...company,
+        key: company.company_id,
+        name: company.company_name ?? 'Unknown company'
+      }));
+    }
+
+    return companies.flatMap((company) => [
+      ...forecast.sites
+        .filter((site) => site.period_start === periodStart && site.company_id === company.company_id)
+        .map((site) => ({ ...site, key: site.site_id, name: site.site_name ?? 'Unknown site' })),
+      ...(scope === 'site'
+        ? []
+        : [{ ...company, key: company.company_id, name: `${company.company_name ?? 'Company'} total`, total: true }])
+    ]);
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200 mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <TrendingUp className="h-5 w-5 mr-2 text-blue-500" />
+            Revenue Forecast
+          </h3>
+          <p className="mt-1 text-xs text-gray-500">
+            Open proposals weighted by stage and each commercial's conversion rate, counted in the
+            period they are valid until
+          </p>
+        </div>
+        <select
+          aria-label="Forecast period"
+          className="input w-40"
+          value={periodType}
+          onChange={(e) => setPeriodType(e.target.value as TargetPeriodType)}
+        >
+          <option value="month">Monthly</option>
+          <option value="quarter">Quarterly</option>
+        </select>
+      </div>
+      {loading && !forecast ? (
+        <div className="p-6">
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Period', breakdown === 'sites' ? 'Site' : 'Company', 'Target', 'Closed', 'Commit', 'Best case', 'Pipeline'].map((heading) => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {(forecast?.periods ?? []).map((periodStart) => {
+                const rows = rowsFor(periodStart);
+                if (rows.length === 0) {
+                  return (
+                    <tr key={periodStart}>
+                      <td className="px-6 py-3 text-sm font-medium text-gray-900">{periodLabel(periodType, periodStart)}</td>
+                      <td colSpan={6} className="px-6 py-3 text-sm text-gray-500">No target, sales or open proposals</td>
+                    </tr>
+                  );
+                }
+
+                return rows.map((row, index) => (
+                  <tr key={`${periodStart}-${row.key}`} className={row.total ? 'bg-gray-50' : ''}>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                      {index === 0 ? periodLabel(periodType, periodStart) : ''}
+                    </td>
+                    <td className={`px-6 py-3 text-sm ${row.total ? 'font-medium text-gray-900' : 'text-gray-700'}`}>
+                      {row.name}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{row.target > 0 ? formatAmount(row.target) : '—'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{formatAmount(row.closed)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {formatAmount(row.commit)}
+                      {row.target > 0 && (
+                        <span className={`ml-2 text-xs ${row.commit >= row.target ? 'text-green-600' : 'text-gray-500'}`}>
+                          {Math.round(progressPercent(row.commit, row.target))}%
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{formatAmount(row.best_case)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{formatAmount(row.pipeline)}</td>
+                  </tr>
+                ));
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
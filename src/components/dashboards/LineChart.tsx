@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+
+export interface LineSeries {
+  name: string;
+  // Tailwind stroke/fill colour classes, e.g. 'stroke-blue-500 fill-blue-500'
+  colorClass: string;
+  // One value per label; null leaves a gap (e.g. days still to come)
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  formatValue: (value: number) => string;
+  // Called with the index of the clicked point; points are only clickable
+  // when it is given
+  onSelect?: (index: number) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 64 };
+const GRID_LINES = 4;
+const MAX_X_LABELS = 8;
+
+// Rounds the top of the axis up to 1, 2 or 5 times a power of ten
+function niceMax(value: number) {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+export default function LineChart({ labels, series, formatValue, onSelect }: LineChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const values = series.flatMap((line) => line.values.filter((value): value is number => value !== null));
+  const max = niceMax(Math.max(0, ...values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? index * step : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  // Runs of consecutive values, so nulls break the line
+  const paths = (line: LineSeries) => {
+    const segments: string[] = [];
+    let current = '';
+    line.values.forEach((value, index) => {
+      if (value === null) {
+        if (current) segments.push(current);
+        current = '';
+        return;
+      }
+      current += `${current ? 'L' : 'M'}${x(index)},${y(value)}`;
+    });
+    if (current) segments.push(current);
+    return segments;
+  };
+
+  const labelEvery = Math.ceil(labels.length / MAX_X_LABELS);
+  const hitWidth = labels.length > 1 ? step : plotWidth;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {[...Array(GRID_LINES + 1)].map((_, i) => {
+          const value = (max / GRID_LINES) * i;
+          return (
+            <g key={i}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                className="stroke-gray-200"
+              />
+              <text x={PADDING.left - 8} y={y(value)} dy="0.32em" textAnchor="end" className="fill-gray-500 text-[10px]">
+                {formatValue(value)}
+              </text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, index) =>
+          index % labelEvery === 0 ? (
+            <text key={index} x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {label}
+            </text>
+          ) : null
+        )}
+
+        {hovered !== null && (
+          <line
+            x1={x(hovered)}
+            x2={x(hovered)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            className="stroke-gray-300"
+          />
+        )}
+
+        {series.map((line) => (
+          <g key={line.name} className={line.colorClass}>
+            {paths(line).map((d, i) => (
+              <path key={i} d={d} fill="none" strokeWidth={2} strokeDasharray={line.dashed ? '6 4' : undefined} />
+            ))}
+            {!line.dashed && line.values.map((value, index) =>
+              value === null ? null : (
+                <circle key={index} cx={x(index)} cy={y(value)} r={hovered === index ? 4 : 2.5} className="stroke-white" />
+              )
+            )}
+          </g>
+        ))}
+
+        {/* Hit areas: one column per label */}
+        {labels.map((label, index) => (
+          <rect
+            key={index}
+            x={x(index) - hitWidth / 2}
+            y={PADDING.top}
+            width={hitWidth}
+            height={plotHeight}
+            fill="transparent"
+            className={onSelect ? 'cursor-pointer' : undefined}
+            onMouseEnter={() => setHovered(index)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={() => onSelect?.(index)}
+          >
+            <title>
+              {[label, ...series.map((line) =>
+                line.values[index] === null ? null : `${line.name}: ${formatValue(line.values[index] as number)}`
+              )].filter(Boolean).join('\n')}
+            </title>
+          </rect>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="mt-2 flex justify-center space-x-6 text-xs text-gray-500">
+          {series.map((line) => (
+            <span key={line.name} className="flex items-center">
+              <svg width="16" height="4" className={`mr-2 ${line.colorClass}`}>
+                <line x1="0" x2="16" y1="2" y2="2" strokeWidth={2} strokeDasharray={line.dashed ? '4 2' : undefined} />
+              </svg>
+              {line.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
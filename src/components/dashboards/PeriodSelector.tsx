@@ -0,0 +1,22 @@
+import React from 'react';
+import { TREND_PERIOD_LABELS, TrendPeriod } from '../../lib/trends';
+
+interface PeriodSelectorProps {
+  value: TrendPeriod;
+  onChange: (period: TrendPeriod) => void;
+}
+
+export default function PeriodSelector({ value, onChange }: PeriodSelectorProps) {
+  return (
+    <select
+      aria-label="Period"
+      className="input w-40"
+      value={value}
+      onChange={(e) => onChange(e.target.value as TrendPeriod)}
+    >
+      {(Object.keys(TREND_PERIOD_LABELS) as TrendPeriod[]).map((period) => (
+        <option key={period} value={period}>{TREND_PERIOD_LABELS[period]}</option>
+      ))}
+    </select>
+  );
+}
@@ -1,9 +1,17 @@
 import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import RequirePermission from '../RequirePermission';
+import StatCard from './StatCard';
+import PeriodSelector from './PeriodSelector';
+import ForecastPanel from './ForecastPanel';
+import DashboardCharts from './DashboardCharts';
+import { useTrendPeriod } from '../../hooks/useTrendPeriod';
+import { DashboardKpis, fetchKpiTrends, kpiTrend } from '../../lib/dashboard';
+import { TrendValue } from '../../lib/trends';
 import { UserRole } from '../../types/auth';
 import { 
   Users, 
-  TrendingUp, 
   DollarSign,
   FileText,
   UserPlus,
@@ -13,13 +21,13 @@ import {
 } from 'lucide-react';
 
 interface SiteStats {
-  totalCommercials: number;
-  totalSales: number;
-  totalProposals: number;
-  conversionRate: number;
+  commercialCount: TrendValue;
+  sales: TrendValue;
+  proposals: TrendValue;
+  conversionRate: TrendValue;
   recentActivities: any[];
   commercials: any[];
-  topPerformers: any[];
+  topPerformers: DashboardKpis['leaderboard'];
 }
 
 interface SiteManagerDashboardProps {
@@ -29,12 +37,14 @@ interface SiteManagerDashboardProps {
 export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardProps) {
   const [stats, setStats] = useState<SiteStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const [period, setPeriod] = useTrendPeriod();
 
   useEffect(() => {
     if (userRole.site) {
       fetchSiteData();
     }
-  }, [userRole.site]);
+  }, [userRole.site, period]);
 
   const fetchSiteData = async () => {
     if (!userRole.site) return;
@@ -44,41 +54,11 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
 
       // Fetch site-specific statistics
       const [
-        commercialsResult,
-        salesResult,
-        proposalsResult,
+        kpis,
         activitiesResult,
         commercialsDetailResult
       ] = await Promise.all([
-        supabase
-          .from('user_roles')
-          .select(`
-            id,
-            user:users(id, first_name, last_name, email),
-            role:roles!inner(name)
-          `, { count: 'exact' })
-          .eq('site_id', siteId)
-          .eq('role.name', 'Commercial'),
-        supabase
-          .from('sales')
-          .select(`
-            amount,
-            commission,
-            closed_by,
-            proposal:proposals!inner(
-              client:clients!inner(site_id)
-            )
-          `)
-          .eq('proposal.client.site_id', siteId),
-        supabase
-          .from('proposals')
-          .select(`
-            id,
-            status,
-            amount,
-            client:clients!inner(site_id)
-          `, { count: 'exact' })
-          .eq('client.site_id', siteId),
+        fetchKpiTrends('site', siteId, period),
         supabase
           .from('activity_logs')
           .select(`
@@ -88,6 +68,7 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
             created_at,
             user:users(first_name, last_name, email)
           `)
+          .eq('site_id', siteId)
           .order('created_at', { ascending: false })
           .limit(10),
         supabase
@@ -101,40 +82,14 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
           .eq('role.name', 'Commercial')
       ]);
 
-      const totalSales = salesResult.data?.reduce((sum, sale) => sum + sale.amount, 0) || 0;
-      const closedProposals = proposalsResult.data?.filter(p => p.status === 'closed').length || 0;
-      const conversionRate = proposalsResult.count ? (closedProposals / proposalsResult.count) * 100 : 0;
-
-      // Calculate top performers
-      const performanceMap = new Map();
-      salesResult.data?.forEach(sale => {
-        const userId = sale.closed_by;
-        if (!performanceMap.has(userId)) {
-          performanceMap.set(userId, { sales: 0, commission: 0 });
-        }
-        const current = performanceMap.get(userId);
-        performanceMap.set(userId, {
-          sales: current.sales + sale.amount,
-          commission: current.commission + (sale.commission || 0)
-        });
-      });
-
-      const topPerformers = Array.from(performanceMap.entries())
-        .map(([userId, performance]) => ({
-          userId,
-          ...performance
-        }))
-        .sort((a, b) => b.sales - a.sales)
-        .slice(0, 5);
-
       setStats({
-        totalCommercials: commercialsResult.count || 0,
-        totalSales,
-        totalProposals: proposalsResult.count || 0,
-        conversionRate,
+        commercialCount: kpiTrend(kpis, 'commercials_count'),
+        sales: kpiTrend(kpis, 'sales_total'),
+        proposals: kpiTrend(kpis, 'proposals_count'),
+        conversionRate: kpiTrend(kpis, 'conversion_rate'),
         recentActivities: activitiesResult.data || [],
         commercials: commercialsDetailResult.data || [],
-        topPerformers
+        topPerformers: kpis.current.leaderboard.slice(0, 5)
       });
     } catch (error) {
       console.error('Error fetching site data:', error);
@@ -175,76 +130,57 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
   const statCards = [
     {
       title: 'Commercial Team',
-      value: stats.totalCommercials,
+      value: stats.commercialCount.current,
       icon: Users,
       color: 'bg-blue-500',
-      change: '+5%'
+      trend: stats.commercialCount
     },
     {
       title: 'Site Sales',
-      value: `$${stats.totalSales.toLocaleString()}`,
+      value: `$${stats.sales.current.toLocaleString()}`,
       icon: DollarSign,
       color: 'bg-green-500',
-      change: '+22%'
+      trend: stats.sales
     },
     {
       title: 'Proposals',
-      value: stats.totalProposals,
+      value: stats.proposals.current,
       icon: FileText,
       color: 'bg-purple-500',
-      change: '+18%'
+      trend: stats.proposals
     },
     {
       title: 'Conversion Rate',
-      value: `${stats.conversionRate.toFixed(1)}%`,
+      value: `${stats.conversionRate.current.toFixed(1)}%`,
       icon: Target,
       color: 'bg-yellow-500',
-      change: '+3%'
+      trend: { ...stats.conversionRate, points: true }
     }
   ];
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Site Manager Dashboard</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Managing {userRole.site.name} - {userRole.company?.name}
-        </p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Site Manager Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Managing {userRole.site.name} - {userRole.company?.name}
+          </p>
+        </div>
+        <PeriodSelector value={period} onChange={setPeriod} />
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {statCards.map((stat) => (
-          <div key={stat.title} className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
-            <div className="p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <div className={`${stat.color} p-3 rounded-md`}>
-                    <stat.icon className="h-6 w-6 text-white" />
-                  </div>
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">
-                      {stat.title}
-                    </dt>
-                    <dd className="flex items-baseline">
-                      <div className="text-2xl font-semibold text-gray-900">
-                        {stat.value}
-                      </div>
-                      <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                        <TrendingUp className="h-4 w-4 mr-1" />
-                        {stat.change}
-                      </div>
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
+        {statCards.map(({ trend, ...stat }) => (
+          <StatCard key={stat.title} {...stat} {...trend} />
         ))}
       </div>
 
+      <DashboardCharts scope="site" scopeId={userRole.site.id} period={period} breakdown="commercials" />
+
+      <ForecastPanel scope="site" scopeId={userRole.site.id} breakdown="sites" />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Commercial Team */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
@@ -282,11 +218,14 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
 
         {/* Recent Activities */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <Activity className="h-5 w-5 mr-2 text-purple-500" />
               Recent Site Activities
             </h3>
+            <Link to="/activity" className="text-sm text-blue-600 hover:text-blue-800">
+              View all
+            </Link>
           </div>
           <div className="p-6">
             <div className="space-y-3">
@@ -315,22 +254,36 @@ export default function SiteManagerDashboard({ userRole }: SiteManagerDashboardP
 
       {/* Management Actions */}
       <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <button className="btn-primary w-full justify-center">
-          <UserPlus className="h-4 w-4 mr-2" />
-          Add Commercial
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <FileText className="h-4 w-4 mr-2" />
-          View Proposals
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <DollarSign className="h-4 w-4 mr-2" />
-          Sales Report
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <Target className="h-4 w-4 mr-2" />
-          Set Targets
-        </button>
+        <RequirePermission resource="users" action="manage_site">
+          <Link to="/users/new?preset_role=Commercial" className="btn-primary w-full justify-center">
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite Commercial
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="clients" action="manage_site">
+          <button
+            onClick={() => navigate('/proposals')}
+            className="btn-primary w-full justify-center"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            View Proposals
+          </button>
+        </RequirePermission>
+        <RequirePermission resource="reports" action="view_site">
+          <Link to="/reports/sales_by_commercial" className="btn-primary w-full justify-center">
+            <DollarSign className="h-4 w-4 mr-2" />
+            Sales Report
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="users" action="manage_site">
+          <button
+            onClick={() => navigate('/targets')}
+            className="btn-primary w-full justify-center"
+          >
+            <Target className="h-4 w-4 mr-2" />
+            Set Targets
+          </button>
+        </RequirePermission>
       </div>
     </div>
   );
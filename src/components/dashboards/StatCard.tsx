@@ -0,0 +1,61 @@
+import React from 'react';
+import { LucideIcon, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { percentChange } from '../../lib/trends';
+
+interface StatCardProps {
+  title: string;
+  value: React.ReactNode;
+  icon: LucideIcon;
+  color: string;
+  current: number;
+  previous: number;
+  // Rates are compared in percentage points rather than relative change
+  points?: boolean;
+}
+
+export default function StatCard({ title, value, icon: Icon, color, current, previous, points }: StatCardProps) {
+  const change = points ? current - previous : percentChange(current, previous);
+
+  let trendClass = 'text-gray-500';
+  let TrendIcon = Minus;
+  let label = 'New';
+  if (change !== null) {
+    const rounded = Math.round(change * 10) / 10;
+    trendClass = rounded > 0 ? 'text-green-600' : rounded < 0 ? 'text-red-600' : 'text-gray-500';
+    TrendIcon = rounded > 0 ? TrendingUp : rounded < 0 ? TrendingDown : Minus;
+    label = `${rounded > 0 ? '+' : ''}${rounded}${points ? ' pts' : '%'}`;
+  }
+
+  return (
+    <div className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center">
+          <div className="flex-shrink-0">
+            <div className={`${color} p-3 rounded-md`}>
+              <Icon className="h-6 w-6 text-white" />
+            </div>
+          </div>
+          <div className="ml-5 w-0 flex-1">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">
+                {title}
+              </dt>
+              <dd className="flex items-baseline">
+                <div className="text-2xl font-semibold text-gray-900">
+                  {value}
+                </div>
+                <div
+                  className={`ml-2 flex items-baseline text-sm font-semibold ${trendClass}`}
+                  title="Compared with the same point in the previous period"
+                >
+                  <TrendIcon className="h-4 w-4 mr-1 self-center" />
+                  {label}
+                </div>
+              </dd>
+            </dl>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import RequirePermission from '../RequirePermission';
+import StatCard from './StatCard';
+import PeriodSelector from './PeriodSelector';
+import ForecastPanel from './ForecastPanel';
+import DashboardCharts from './DashboardCharts';
+import { useTrendPeriod } from '../../hooks/useTrendPeriod';
+import { fetchKpiTrends, kpiTrend } from '../../lib/dashboard';
+import { TrendValue } from '../../lib/trends';
 import { 
   Users, 
   Building2, 
   MapPin, 
-  TrendingUp, 
   Activity,
   AlertCircle,
   DollarSign,
@@ -13,11 +21,12 @@ import {
 } from 'lucide-react';
 
 interface DashboardStats {
-  totalUsers: number;
-  totalCompanies: number;
-  totalSites: number;
-  totalSales: number;
-  totalProposals: number;
+  users: TrendValue;
+  companies: TrendValue;
+  sites: TrendValue;
+  sales: TrendValue;
+  proposals: TrendValue;
+  conversionRate: TrendValue;
   pendingProposals: number;
   recentActivities: any[];
   systemHealth: {
@@ -30,27 +39,20 @@ interface DashboardStats {
 export default function SuperAdminDashboard() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useTrendPeriod();
 
   useEffect(() => {
     fetchDashboardData();
-  }, []);
+  }, [period]);
 
   const fetchDashboardData = async () => {
     try {
       // Fetch all statistics in parallel
       const [
-        usersResult,
-        companiesResult,
-        sitesResult,
-        salesResult,
-        proposalsResult,
+        kpis,
         activitiesResult
       ] = await Promise.all([
-        supabase.from('users').select('id', { count: 'exact' }),
-        supabase.from('companies').select('id', { count: 'exact' }),
-        supabase.from('sites').select('id', { count: 'exact' }),
-        supabase.from('sales').select('amount'),
-        supabase.from('proposals').select('id, status', { count: 'exact' }),
+        fetchKpiTrends('global', null, period),
         supabase
           .from('activity_logs')
           .select(`
@@ -64,16 +66,14 @@ export default function SuperAdminDashboard() {
           .limit(10)
       ]);
 
-      const totalSales = salesResult.data?.reduce((sum, sale) => sum + sale.amount, 0) || 0;
-      const pendingProposals = proposalsResult.data?.filter(p => p.status === 'pending').length || 0;
-
       setStats({
-        totalUsers: usersResult.count || 0,
-        totalCompanies: companiesResult.count || 0,
-        totalSites: sitesResult.count || 0,
-        totalSales,
-        totalProposals: proposalsResult.count || 0,
-        pendingProposals,
+        users: kpiTrend(kpis, 'users_count'),
+        companies: kpiTrend(kpis, 'companies_count'),
+        sites: kpiTrend(kpis, 'sites_count'),
+        sales: kpiTrend(kpis, 'sales_total'),
+        proposals: kpiTrend(kpis, 'proposals_count'),
+        conversionRate: kpiTrend(kpis, 'conversion_rate'),
+        pendingProposals: kpis.current.awaiting_count,
         recentActivities: activitiesResult.data || [],
         systemHealth: {
           status: 'healthy',
@@ -120,76 +120,57 @@ export default function SuperAdminDashboard() {
   const statCards = [
     {
       title: 'Total Users',
-      value: stats.totalUsers,
+      value: stats.users.current,
       icon: Users,
       color: 'bg-blue-500',
-      change: '+12%'
+      trend: stats.users
     },
     {
       title: 'Companies',
-      value: stats.totalCompanies,
+      value: stats.companies.current,
       icon: Building2,
       color: 'bg-green-500',
-      change: '+5%'
+      trend: stats.companies
     },
     {
       title: 'Sites',
-      value: stats.totalSites,
+      value: stats.sites.current,
       icon: MapPin,
       color: 'bg-purple-500',
-      change: '+8%'
+      trend: stats.sites
     },
     {
-      title: 'Total Sales',
-      value: `$${stats.totalSales.toLocaleString()}`,
+      title: 'Sales',
+      value: `$${stats.sales.current.toLocaleString()}`,
       icon: DollarSign,
       color: 'bg-yellow-500',
-      change: '+23%'
+      trend: stats.sales
     }
   ];
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Super Admin Dashboard</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Global overview and system management
-        </p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Super Admin Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Global overview and system management
+          </p>
+        </div>
+        <PeriodSelector value={period} onChange={setPeriod} />
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {statCards.map((stat) => (
-          <div key={stat.title} className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
-            <div className="p-6">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <div className={`${stat.color} p-3 rounded-md`}>
-                    <stat.icon className="h-6 w-6 text-white" />
-                  </div>
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">
-                      {stat.title}
-                    </dt>
-                    <dd className="flex items-baseline">
-                      <div className="text-2xl font-semibold text-gray-900">
-                        {stat.value}
-                      </div>
-                      <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                        <TrendingUp className="h-4 w-4 mr-1" />
-                        {stat.change}
-                      </div>
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
+        {statCards.map(({ trend, ...stat }) => (
+          <StatCard key={stat.title} {...stat} {...trend} />
         ))}
       </div>
 
+      <DashboardCharts scope="global" scopeId={null} period={period} />
+
+      <ForecastPanel scope="global" scopeId={null} breakdown="companies" />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* System Health */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
@@ -234,13 +215,13 @@ export default function SuperAdminDashboard() {
           <div className="p-6">
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-500">Total Proposals</span>
+                <span className="text-sm text-gray-500">New Proposals</span>
                 <span className="text-2xl font-bold text-gray-900">
-                  {stats.totalProposals}
+                  {stats.proposals.current}
                 </span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-500">Pending Review</span>
+                <span className="text-sm text-gray-500">Awaiting Response</span>
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
                   {stats.pendingProposals}
                 </span>
@@ -248,8 +229,7 @@ export default function SuperAdminDashboard() {
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-500">Conversion Rate</span>
                 <span className="text-sm font-medium text-green-600">
-                  {stats.totalProposals > 0 ? 
-                    Math.round((stats.totalSales / stats.totalProposals) * 100) : 0}%
+                  {stats.conversionRate.current.toFixed(1)}%
                 </span>
               </div>
             </div>
@@ -258,11 +238,14 @@ export default function SuperAdminDashboard() {
 
         {/* Recent Activities */}
         <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
               <UserCheck className="h-5 w-5 mr-2 text-purple-500" />
               Recent Activities
             </h3>
+            <Link to="/activity" className="text-sm text-blue-600 hover:text-blue-800">
+              View all
+            </Link>
           </div>
           <div className="p-6">
             <div className="space-y-3">
@@ -291,22 +274,30 @@ export default function SuperAdminDashboard() {
 
       {/* Management Actions */}
       <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <button className="btn-primary w-full justify-center">
-          <Users className="h-4 w-4 mr-2" />
-          Manage Users
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <Building2 className="h-4 w-4 mr-2" />
-          Manage Companies
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <MapPin className="h-4 w-4 mr-2" />
-          Manage Sites
-        </button>
-        <button className="btn-primary w-full justify-center">
-          <Activity className="h-4 w-4 mr-2" />
-          System Reports
-        </button>
+        <RequirePermission resource="users" action="manage_global">
+          <Link to="/users" className="btn-primary w-full justify-center">
+            <Users className="h-4 w-4 mr-2" />
+            Manage Users
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="companies" action="manage">
+          <Link to="/companies" className="btn-primary w-full justify-center">
+            <Building2 className="h-4 w-4 mr-2" />
+            Manage Companies
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="sites" action="manage_global">
+          <Link to="/sites" className="btn-primary w-full justify-center">
+            <MapPin className="h-4 w-4 mr-2" />
+            Manage Sites
+          </Link>
+        </RequirePermission>
+        <RequirePermission resource="reports" action="view_global">
+          <Link to="/reports" className="btn-primary w-full justify-center">
+            <Activity className="h-4 w-4 mr-2" />
+            System Reports
+          </Link>
+        </RequirePermission>
       </div>
     </div>
   );
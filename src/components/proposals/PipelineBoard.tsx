@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { scopeFilter } from '../../lib/permissions';
+import { effectiveStatus, manualTransitions, transitionProposal, weightedAmount } from '../../lib/proposals';
+import { ProposalStage, ProposalStatus } from '../../types/auth';
+import { Plus } from 'lucide-react';
+
+export default function PipelineBoard() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const { searchParams, updateFilters } = useSearchFilters();
+  const [stages, setStages] = useState<ProposalStage[]>([]);
+  const [proposals, setProposals] = useState<any[]>([]);
+  const [sites, setSites] = useState<any[]>([]);
+  const [commercials, setCommercials] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dragged, setDragged] = useState<any>(null);
+  const [dropTarget, setDropTarget] = useState<ProposalStatus | null>(null);
+  const [moving, setMoving] = useState(false);
+  const [error, setError] = useState('');
+
+  const siteId = searchParams.get('site') ?? '';
+  const commercialId = searchParams.get('commercial') ?? '';
+
+  // Company-wide (or wider) viewers narrow the board by site; once the board
+  // covers a single site it can be narrowed by commercial
+  const canFilterSites = scope === 'global' || scope === 'company';
+  const boardSiteId = scope === 'site' ? activeRole?.site?.id ?? '' : canFilterSites ? siteId : '';
+
+  useEffect(() => {
+    supabase
+      .from('proposal_stages')
+      .select('*')
+      .order('position')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching proposal stages:', error);
+        }
+        setStages(data || []);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!canFilterSites || !activeRole) {
+      setSites([]);
+      return;
+    }
+
+    let query = supabase
+      .from('sites')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+    if (scope === 'company') {
+      query = query.eq('company_id', activeRole.company?.id ?? '');
+    }
+    query.then(({ data }) => setSites(data || []));
+  }, [canFilterSites, scope, activeRole]);
+
+  useEffect(() => {
+    if (!boardSiteId) {
+      setCommercials([]);
+      return;
+    }
+
+    supabase
+      .from('user_roles')
+      .select(`
+        id,
+        user:users(id, first_name, last_name),
+        role:roles!inner(name)
+      `)
+      .eq('site_id', boardSiteId)
+      .eq('role.name', 'Commercial')
+      .eq('is_active', true)
+      .then(({ data }) => setCommercials(data || []));
+  }, [boardSiteId]);
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchProposals();
+    }
+  }, [user, activeRole, scope, boardSiteId, commercialId]);
+
+  const fetchProposals = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('proposals')
+        .select(`
+          id,
+          title,
+          amount,
+          status,
+          valid_until,
+          client:clients!inner(id, name, company_id, site_id, assigned_to)
+        `)
+        .order('created_at', { ascending: false });
+
+      // Proposals are scoped through the client they were made for
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'client.company_id',
+        site: 'client.site_id',
+        personal: 'client.assigned_to'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (boardSiteId) {
+        query = query.eq('client.site_id', boardSiteId);
+      }
+      if (boardSiteId && commercialId) {
+        query = query.eq('client.assigned_to', commercialId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setProposals(data || []);
+    } catch (error) {
+      console.error('Error fetching pipeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allowedTargets = dragged ? manualTransitions(effectiveStatus(dragged)) : [];
+
+  const handleDrop = async (next: ProposalStatus) => {
+    const proposal = dragged;
+    setDragged(null);
+    setDropTarget(null);
+    if (!user || !proposal || !allowedTargets.includes(next)) return;
+
+    setMoving(true);
+    setError('');
+    try {
+      await transitionProposal(user.id, proposal, next);
+      await fetchProposals();
+    } catch (error) {
+      console.error('Error moving proposal:', error);
+      setError(error instanceof Error ? error.message : 'Failed to move proposal');
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const columns = stages.map((stage) => {
+    const cards = proposals.filter((proposal) => effectiveStatus(proposal) === stage.status);
+    return {
+      stage,
+      cards,
+      total: cards.reduce((sum, proposal) => sum + proposal.amount, 0),
+      weighted: cards.reduce((sum, proposal) => sum + weightedAmount(proposal.amount, stage.probability), 0)
+    };
+  });
+
+  const openColumns = columns.filter(({ stage }) => manualTransitions(stage.status).length > 0);
+  const openTotal = openColumns.reduce((sum, column) => sum + column.total, 0);
+  const openWeighted = openColumns.reduce((sum, column) => sum + column.weighted, 0);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Pipeline</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Open pipeline ${openTotal.toLocaleString()} · weighted ${Math.round(openWeighted).toLocaleString()}
+          </p>
+        </div>
+        <Link to="/proposals/new" className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Proposal
+        </Link>
+      </div>
+
+      {/* Filters */}
+      {(canFilterSites || boardSiteId) && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            {canFilterSites && (
+              <select
+                className="input md:w-64"
+                value={siteId}
+                onChange={(e) => updateFilters({ site: e.target.value, commercial: '' })}
+              >
+                <option value="">All sites</option>
+                {sites.map((site) => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            )}
+            {boardSiteId && (
+              <select
+                className="input md:w-64"
+                value={commercialId}
+                onChange={(e) => updateFilters({ commercial: e.target.value })}
+              >
+                <option value="">All commercials</option>
+                {commercials.map((commercial) => (
+                  <option key={commercial.id} value={commercial.user.id}>
+                    {commercial.user.first_name} {commercial.user.last_name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading && !proposals.length ? (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-64 bg-gray-200 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : (
+        <div className={`grid grid-cols-1 md:grid-cols-5 gap-4 ${moving ? 'opacity-50 pointer-events-none' : ''}`}>
+          {columns.map(({ stage, cards, total, weighted }) => {
+            const isAllowed = allowedTargets.includes(stage.status);
+            return (
+              <div
+                key={stage.status}
+                onDragOver={(e) => {
+                  if (!isAllowed) return;
+                  e.preventDefault();
+                  setDropTarget(stage.status);
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === stage.status ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(stage.status);
+                }}
+                className={`flex flex-col rounded-lg border bg-gray-50 ${
+                  dropTarget === stage.status
+                    ? 'border-primary-500 bg-primary-50'
+                    : isAllowed
+                      ? 'border-primary-300 border-dashed'
+                      : 'border-gray-200'
+                }`}
+              >
+                <div className="px-4 py-3 border-b border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-gray-900">{stage.name}</h3>
+                    <span className="text-xs text-gray-500">{cards.length}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    ${total.toLocaleString()} · {stage.probability}% · weighted ${Math.round(weighted).toLocaleString()}
+                  </p>
+                </div>
+                <div className="p-2 space-y-2 overflow-y-auto max-h-[32rem]">
+                  {cards.map((proposal) => {
+                    const canMove = manualTransitions(effectiveStatus(proposal)).length > 0;
+                    return (
+                      <div
+                        key={proposal.id}
+                        draggable={canMove}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          e.dataTransfer.setData('text/plain', proposal.id);
+                          setDragged(proposal);
+                        }}
+                        onDragEnd={() => {
+                          setDragged(null);
+                          setDropTarget(null);
+                        }}
+                        className={`bg-white rounded-md border border-gray-200 p-3 shadow-sm ${
+                          canMove ? 'cursor-move' : ''
+                        } ${dragged?.id === proposal.id ? 'opacity-50' : ''}`}
+                      >
+                        <Link
+                          to={`/proposals/${proposal.id}`}
+                          className="block text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+                        >
+                          {proposal.title}
+                        </Link>
+                        <p className="text-xs text-gray-500 truncate">{proposal.client?.name}</p>
+                        <div className="mt-2 flex items-center justify-between text-xs">
+                          <span className="font-medium text-gray-900">${proposal.amount.toLocaleString()}</span>
+                          {proposal.valid_until && (
+                            <span className="text-gray-500">
+                              until {new Date(proposal.valid_until).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {cards.length === 0 && (
+                    <p className="text-xs text-gray-400 text-center py-4">No proposals</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
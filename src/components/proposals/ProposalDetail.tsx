@@ -0,0 +1,352 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  PROPOSAL_TRANSITIONS,
+  effectiveStatus,
+  isEditable,
+  proposalStatusClass,
+  proposalTotals,
+  transitionProposal
+} from '../../lib/proposals';
+import { ProposalStatus } from '../../types/auth';
+import {
+  ArrowLeft,
+  Edit,
+  Send,
+  CheckCircle,
+  XCircle,
+  FileText,
+  History,
+  DollarSign,
+  ChevronDown,
+  ChevronRight,
+  CalendarPlus
+} from 'lucide-react';
+
+// Transitions a user triggers by hand; expiry is left to valid_until
+const TRANSITION_BUTTONS: Partial<Record<ProposalStatus, { label: string; icon: typeof Send; className: string }>> = {
+  sent: { label: 'Send', icon: Send, className: 'btn-primary' },
+  accepted: { label: 'Mark Accepted', icon: CheckCircle, className: 'btn-primary' },
+  rejected: { label: 'Mark Rejected', icon: XCircle, className: 'btn-danger' }
+};
+
+export default function ProposalDetail() {
+  const { proposalId } = useParams();
+  const { user } = useAuth();
+  const [proposal, setProposal] = useState<any>(null);
+  const [versions, setVersions] = useState<any[]>([]);
+  const [sale, setSale] = useState<any>(null);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (proposalId) {
+      fetchProposal(proposalId);
+    }
+  }, [proposalId]);
+
+  const fetchProposal = async (id: string) => {
+    try {
+      const [proposalResult, versionsResult, saleResult] = await Promise.all([
+        supabase
+          .from('proposals')
+          .select(`
+            *,
+            client:clients(id, name),
+            created_by_user:users(first_name, last_name),
+            items:proposal_items(*)
+          `)
+          .eq('id', id)
+          .order('position', { referencedTable: 'items' })
+          .single(),
+        supabase
+          .from('proposal_versions')
+          .select(`
+            *,
+            created_by_user:users(first_name, last_name)
+          `)
+          .eq('proposal_id', id)
+          .order('version', { ascending: false }),
+        supabase
+          .from('sales')
+          .select(`
+            id,
+            amount,
+            commission,
+            closed_at,
+            closed_by_user:users(first_name, last_name),
+            plan:commission_plans(name)
+          `)
+          .eq('proposal_id', id)
+          .maybeSingle()
+      ]);
+
+      if (proposalResult.error) throw proposalResult.error;
+
+      setProposal(proposalResult.data);
+      setVersions(versionsResult.data || []);
+      setSale(saleResult.data);
+    } catch (error) {
+      console.error('Error fetching proposal:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTransition = async (next: ProposalStatus) => {
+    if (!user || !proposal) return;
+
+    setUpdating(true);
+    setError('');
+    try {
+      await transitionProposal(user.id, proposal, next);
+      await fetchProposal(proposal.id);
+    } catch (error) {
+      console.error('Error updating proposal status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update proposal');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!proposal) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center py-12">
+          <FileText className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Proposal not found</h3>
+          <p className="mt-1 text-sm text-gray-500">It may have been removed or be outside your scope.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const status = effectiveStatus(proposal);
+  const totals = proposalTotals(proposal.items);
+  const transitions = PROPOSAL_TRANSITIONS[status].filter((next) => TRANSITION_BUTTONS[next]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/proposals" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Proposals
+        </Link>
+        <div className="mt-2 flex items-center justify-between">
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-gray-900">{proposal.title}</h1>
+            <span className={`ml-3 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${proposalStatusClass(status)}`}>
+              {status}
+            </span>
+          </div>
+          <div className="flex space-x-2">
+            <Link to={`/tasks/new?proposal=${proposal.id}`} className="btn-secondary">
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Add Task
+            </Link>
+            {isEditable(status) && (
+              <Link to={`/proposals/${proposal.id}/edit`} className="btn-secondary">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Link>
+            )}
+            {transitions.map((next) => {
+              const { label, icon: Icon, className } = TRANSITION_BUTTONS[next]!;
+              return (
+                <button
+                  key={next}
+                  onClick={() => handleTransition(next)}
+                  disabled={updating}
+                  className={className}
+                >
+                  <Icon className="h-4 w-4 mr-2" />
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <p className="mt-1 text-sm text-gray-500">
+          <Link to={`/clients/${proposal.client?.id}`} className="hover:text-gray-700">
+            {proposal.client?.name}
+          </Link>
+          {' • '}
+          {proposal.valid_until
+            ? `Valid until ${new Date(proposal.valid_until).toLocaleDateString()}`
+            : 'No expiry date'}
+          {proposal.version > 0 && ` • Version ${proposal.version}`}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Line Items */}
+        <div className="lg:col-span-2 bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-purple-500" />
+              Line Items
+            </h3>
+          </div>
+          <div className="p-6 overflow-x-auto">
+            {proposal.description && (
+              <p className="mb-4 text-sm text-gray-700 whitespace-pre-line">{proposal.description}</p>
+            )}
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  <th className="pb-2 pr-4">Item</th>
+                  <th className="pb-2 pr-4 text-right">Qty</th>
+                  <th className="pb-2 pr-4 text-right">Unit Price</th>
+                  <th className="pb-2 pr-4 text-right">Disc.</th>
+                  <th className="pb-2 pr-4 text-right">Tax</th>
+                  <th className="pb-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {proposal.items.map((item: any) => (
+                  <tr key={item.id}>
+                    <td className="py-2 pr-4">
+                      <p className="font-medium text-gray-900">{item.name}</p>
+                      <p className="text-xs text-gray-500">{item.item_type}</p>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{item.quantity}</td>
+                    <td className="py-2 pr-4 text-right">${item.unit_price.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{item.discount_percent}%</td>
+                    <td className="py-2 pr-4 text-right">{item.tax_percent}%</td>
+                    <td className="py-2 text-right font-medium text-gray-900">${item.line_total.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-6 ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Subtotal</span>
+                <span className="text-gray-900">${totals.subtotal.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Discount</span>
+                <span className="text-gray-900">-${totals.discount.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Tax</span>
+                <span className="text-gray-900">${totals.tax.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold">
+                <span className="text-gray-900">Total</span>
+                <span className="text-gray-900">${proposal.amount.toLocaleString()}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          {/* Sale */}
+          {sale && (
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                  <DollarSign className="h-5 w-5 mr-2 text-green-500" />
+                  Sale
+                </h3>
+              </div>
+              <div className="p-6 space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Amount</span>
+                  <span className="font-medium text-gray-900">${sale.amount.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Commission</span>
+                  <span className="font-medium text-gray-900">${(sale.commission ?? 0).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Plan</span>
+                  <span className="text-gray-900">{sale.plan?.name ?? 'None'}</span>
+                </div>
+                <div className="pt-3 border-t border-gray-100 text-xs text-gray-500">
+                  Closed by {sale.closed_by_user?.first_name} {sale.closed_by_user?.last_name} on{' '}
+                  {new Date(sale.closed_at).toLocaleDateString()}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Version History */}
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <History className="h-5 w-5 mr-2 text-blue-500" />
+                Version History
+              </h3>
+            </div>
+            <div className="p-6">
+              <div className="space-y-3">
+                {versions.map((version) => (
+                  <div key={version.id} className="p-3 bg-gray-50 rounded-lg">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedVersion(expandedVersion === version.version ? null : version.version)}
+                      className="w-full flex items-start justify-between text-left"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <h4 className="text-sm font-medium text-gray-900">Version {version.version}</h4>
+                        <p className="text-xs text-gray-500">
+                          ${version.amount.toLocaleString()} • {new Date(version.created_at).toLocaleString()}
+                        </p>
+                        {version.created_by_user && (
+                          <p className="text-xs text-gray-500">
+                            {version.created_by_user.first_name} {version.created_by_user.last_name}
+                          </p>
+                        )}
+                      </div>
+                      {expandedVersion === version.version
+                        ? <ChevronDown className="h-4 w-4 text-gray-400" />
+                        : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    </button>
+                    {expandedVersion === version.version && (
+                      <ul className="mt-2 pt-2 border-t border-gray-200 space-y-1 text-xs text-gray-700">
+                        <li className="font-medium">{version.title}</li>
+                        {version.items.map((item: any, index: number) => (
+                          <li key={index} className="flex justify-between">
+                            <span className="truncate">{item.quantity} × {item.name}</span>
+                            <span>${Number(item.line_total).toLocaleString()}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+                {versions.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    Versions are recorded once the proposal is sent.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { scopeFilter } from '../../lib/permissions';
+import { LineItemInput, isEditable, lineTotals, proposalTotals } from '../../lib/proposals';
+import { ProposalStatus } from '../../types/auth';
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react';
+
+const emptyItem = (): LineItemInput => ({
+  item_type: 'product',
+  name: '',
+  quantity: 1,
+  unit_price: 0,
+  discount_percent: 0,
+  tax_percent: 0
+});
+
+export default function ProposalForm() {
+  const { proposalId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const navigate = useNavigate();
+  const isEdit = Boolean(proposalId);
+
+  const [clientId, setClientId] = useState(searchParams.get('client') ?? '');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [items, setItems] = useState<LineItemInput[]>([emptyItem()]);
+  const [status, setStatus] = useState<ProposalStatus>('draft');
+  const [version, setVersion] = useState(0);
+  const [clients, setClients] = useState<any[]>([]);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (proposalId) {
+      fetchProposal(proposalId);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    if (!isEdit && user && activeRole && scope) {
+      fetchClients();
+    }
+  }, [isEdit, user, activeRole, scope]);
+
+  const fetchClients = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    let query = supabase
+      .from('clients')
+      .select('id, name')
+      .order('name');
+
+    const filter = scopeFilter(scope, activeRole, user.id, {
+      company: 'company_id',
+      site: 'site_id',
+      personal: 'assigned_to'
+    });
+    if (filter) {
+      query = query.eq(filter[0], filter[1]);
+    }
+
+    const { data } = await query;
+    setClients(data || []);
+  };
+
+  const fetchProposal = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('proposals')
+        .select(`
+          *,
+          client:clients(id, name),
+          items:proposal_items(item_type, name, quantity, unit_price, discount_percent, tax_percent, position)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      const proposal: any = data;
+      setClientId(proposal.client_id);
+      setClients(proposal.client ? [proposal.client] : []);
+      setTitle(proposal.title);
+      setDescription(proposal.description ?? '');
+      setValidUntil(proposal.valid_until ? proposal.valid_until.slice(0, 10) : '');
+      setStatus(proposal.status);
+      setVersion(proposal.version);
+      setItems(
+        [...(proposal.items || [])]
+          .sort((a: any, b: any) => a.position - b.position)
+          .map(({ position: _position, ...item }: any) => item)
+      );
+    } catch (error) {
+      console.error('Error fetching proposal:', error);
+      setError('Proposal not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<LineItemInput>) => {
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const removeItem = (index: number) => {
+    setItems((current) => current.filter((_, i) => i !== index));
+  };
+
+  const validate = () => {
+    if (!clientId) return 'Select a client';
+    if (!title.trim()) return 'Title is required';
+    if (items.length === 0) return 'Add at least one line item';
+    if (items.some((item) => !item.name.trim())) return 'Every line item needs a name';
+    if (items.some((item) => item.quantity <= 0)) return 'Quantities must be greater than zero';
+    if (items.some((item) => item.unit_price < 0)) return 'Unit prices cannot be negative';
+    if (items.some((item) =>
+      item.discount_percent < 0 || item.discount_percent > 100 ||
+      item.tax_percent < 0 || item.tax_percent > 100
+    )) return 'Discount and tax must be between 0 and 100%';
+    return '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const { data: savedId } = await supabase.rpc('save_proposal', {
+        p_proposal_id: proposalId ?? null,
+        p_client_id: clientId,
+        p_title: title.trim(),
+        p_description: description.trim() || null,
+        p_valid_until: validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : null,
+        p_items: items.map((item) => ({ ...item, name: item.name.trim() }))
+      }).throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'proposal',
+        resource_id: savedId,
+        details: { proposal_title: title.trim(), amount: proposalTotals(items).total }
+      });
+
+      navigate(`/proposals/${savedId}`);
+    } catch (error) {
+      console.error('Error saving proposal:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save proposal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const totals = proposalTotals(items);
+  const locked = isEdit && !isEditable(status);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link
+          to={proposalId ? `/proposals/${proposalId}` : '/proposals'}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit Proposal' : 'Create Proposal'}
+        </h1>
+        {status === 'sent' && (
+          <p className="mt-1 text-sm text-yellow-700">
+            This proposal has been sent. Saving records version {version + 1}.
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {locked && (
+          <div className="bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded">
+            This proposal is {status} and can no longer be edited.
+          </div>
+        )}
+
+        <fieldset disabled={locked} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="client_id" className="label">Client</label>
+              <select
+                id="client_id"
+                className="input mt-1"
+                value={clientId}
+                disabled={isEdit}
+                onChange={(e) => setClientId(e.target.value)}
+              >
+                <option value="">Select a client</option>
+                {clients.map((client) => (
+                  <option key={client.id} value={client.id}>{client.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="valid_until" className="label">Valid Until</label>
+              <input
+                id="valid_until"
+                type="date"
+                className="input mt-1"
+                value={validUntil}
+                onChange={(e) => setValidUntil(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="title" className="label">Title</label>
+            <input
+              id="title"
+              className="input mt-1"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="description" className="label">Description</label>
+            <textarea
+              id="description"
+              rows={3}
+              className="input mt-1 h-auto"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </fieldset>
+
+        {/* Line Items */}
+        <fieldset disabled={locked} className="bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">Line Items</h3>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => setItems((current) => [...current, emptyItem()])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </button>
+          </div>
+          <div className="p-6 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  <th className="pb-2 pr-2">Type</th>
+                  <th className="pb-2 pr-2">Product / Service</th>
+                  <th className="pb-2 pr-2 w-24">Qty</th>
+                  <th className="pb-2 pr-2 w-32">Unit Price</th>
+                  <th className="pb-2 pr-2 w-24">Disc. %</th>
+                  <th className="pb-2 pr-2 w-24">Tax %</th>
+                  <th className="pb-2 pr-2 text-right">Total</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2">
+                      <select
+                        className="input"
+                        value={item.item_type}
+                        onChange={(e) => updateItem(index, { item_type: e.target.value as LineItemInput['item_type'] })}
+                      >
+                        <option value="product">Product</option>
+                        <option value="service">Service</option>
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        className="input"
+                        value={item.name}
+                        onChange={(e) => updateItem(index, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="input"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="input"
+                        value={item.unit_price}
+                        onChange={(e) => updateItem(index, { unit_price: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        className="input"
+                        value={item.discount_percent}
+                        onChange={(e) => updateItem(index, { discount_percent: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        className="input"
+                        value={item.tax_percent}
+                        onChange={(e) => updateItem(index, { tax_percent: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 text-right font-medium text-gray-900 whitespace-nowrap">
+                      ${lineTotals(item).total.toLocaleString()}
+                    </td>
+                    <td className="py-1">
+                      <button
+                        type="button"
+                        onClick={() => removeItem(index)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-6 ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Subtotal</span>
+                <span className="text-gray-900">${totals.subtotal.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Discount</span>
+                <span className="text-gray-900">-${totals.discount.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Tax</span>
+                <span className="text-gray-900">${totals.tax.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold">
+                <span className="text-gray-900">Total</span>
+                <span className="text-gray-900">${totals.total.toLocaleString()}</span>
+              </div>
+            </div>
+          </div>
+        </fieldset>
+
+        {!locked && (
+          <div className="flex justify-end">
+            <button type="submit" disabled={saving} className="btn-primary">
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Proposal'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { scopeFilter } from '../../lib/permissions';
+import { PROPOSAL_STATUSES, effectiveStatus, proposalStatusClass } from '../../lib/proposals';
+import Pagination from '../Pagination';
+import { FileText, Plus, Search } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+export default function ProposalList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const navigate = useNavigate();
+  const { searchParams, updateFilters, page } = useSearchFilters();
+  const [proposals, setProposals] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') ?? '');
+
+  const search = searchParams.get('q') ?? '';
+  const status = searchParams.get('status') ?? '';
+  // Creation dates (inclusive) and sent-only, as set by dashboard drill-downs
+  const createdFrom = searchParams.get('from') ?? '';
+  const createdTo = searchParams.get('to') ?? '';
+  const sentOnly = searchParams.get('sent') === '1';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchProposals();
+    }
+  }, [user, activeRole, scope, search, status, createdFrom, createdTo, sentOnly, page]);
+
+  const fetchProposals = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('proposals')
+        .select(`
+          id,
+          title,
+          amount,
+          status,
+          version,
+          valid_until,
+          created_at,
+          client:clients!inner(id, name, company_id, site_id, assigned_to)
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      // Proposals are scoped through the client they were made for
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'client.company_id',
+        site: 'client.site_id',
+        personal: 'client.assigned_to'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (search) {
+        query = query.ilike('title', `%${search}%`);
+      }
+      if (status) {
+        query = query.eq('status', status);
+      }
+      if (createdFrom) {
+        const [year, month, day] = createdFrom.split('-').map(Number);
+        query = query.gte('created_at', new Date(year, month - 1, day).toISOString());
+      }
+      if (createdTo) {
+        const [year, month, day] = createdTo.split('-').map(Number);
+        query = query.lt('created_at', new Date(year, month - 1, day + 1).toISOString());
+      }
+      if (sentOnly) {
+        query = query.not('sent_at', 'is', null);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setProposals(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching proposals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim(), page: '' });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Proposals</h1>
+          <p className="mt-1 text-sm text-gray-500">Draft, send and track proposals</p>
+        </div>
+        <Link to="/proposals/new" className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Proposal
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                className="input pl-9"
+                placeholder="Search by title"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <button type="submit" className="btn-secondary">Search</button>
+          </form>
+          <select
+            className="input md:w-48"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value, page: '' })}
+          >
+            <option value="">All statuses</option>
+            {PROPOSAL_STATUSES.map((proposalStatus) => (
+              <option key={proposalStatus} value={proposalStatus}>{proposalStatus}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            aria-label="Created from"
+            className="input md:w-40"
+            value={createdFrom}
+            max={createdTo || undefined}
+            onChange={(e) => updateFilters({ from: e.target.value, page: '' })}
+          />
+          <input
+            type="date"
+            aria-label="Created to"
+            className="input md:w-40"
+            value={createdTo}
+            min={createdFrom || undefined}
+            onChange={(e) => updateFilters({ to: e.target.value, page: '' })}
+          />
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={sentOnly}
+              onChange={(e) => updateFilters({ sent: e.target.checked ? '1' : '', page: '' })}
+            />
+            Sent
+          </label>
+        </div>
+      </div>
+
+      {/* Proposal Table */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Title</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Client</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Amount</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Valid Until</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {!loading && proposals.map((proposal) => {
+              const proposalStatus = effectiveStatus(proposal);
+              return (
+                <tr
+                  key={proposal.id}
+                  onClick={() => navigate(`/proposals/${proposal.id}`)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {proposal.title}
+                    {proposal.version > 0 && (
+                      <span className="ml-2 text-xs text-gray-400">v{proposal.version}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{proposal.client?.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                    ${proposal.amount.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {proposal.valid_until ? new Date(proposal.valid_until).toLocaleDateString() : '—'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${proposalStatusClass(proposalStatus)}`}>
+                      {proposalStatus}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {loading && (
+          <div className="p-6 animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-6 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        )}
+
+        {!loading && proposals.length === 0 && (
+          <div className="text-center py-12">
+            <FileText className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No proposals found</h3>
+            <p className="mt-1 text-sm text-gray-500">Try changing the filters or create a new proposal.</p>
+          </div>
+        )}
+
+        <Pagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(nextPage) => updateFilters({ page: String(nextPage) })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { REPORTS, ReportKey } from '../../lib/reports';
+import { CalendarClock, FileText } from 'lucide-react';
+
+export default function ReportList() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Sales, proposal and commission reports for everything you can view, exportable as CSV, Excel or PDF
+          </p>
+        </div>
+        <Link to="/reports/subscriptions" className="btn-secondary">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Scheduled Reports
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {(Object.keys(REPORTS) as ReportKey[]).map((key) => (
+          <Link
+            key={key}
+            to={`/reports/${key}`}
+            className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 hover:border-primary-300 hover:shadow"
+          >
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-blue-500" />
+              {REPORTS[key].label}
+            </h3>
+            <p className="mt-2 text-sm text-gray-500">{REPORTS[key].description}</p>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
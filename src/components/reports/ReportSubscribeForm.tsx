@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PermissionScope } from '../../lib/permissions';
+import {
+  REPORTS,
+  REPORT_FORMATS,
+  REPORT_RANGES,
+  REPORT_SCHEDULES,
+  ReportFormat,
+  ReportKey,
+  subscribeToReport
+} from '../../lib/reports';
+
+interface ReportSubscribeFormProps {
+  report: ReportKey;
+  scope: PermissionScope;
+  scopeId: string | null;
+  // The report's current filters; the period is replaced by a rolling range
+  filters: Record<string, string>;
+  onClose: () => void;
+}
+
+const CUSTOM = 'custom';
+
+export default function ReportSubscribeForm({ report, scope, scopeId, filters, onClose }: ReportSubscribeFormProps) {
+  const definition = REPORTS[report];
+  const [range, setRange] = useState('previous_week');
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [preset, setPreset] = useState(REPORT_SCHEDULES[1].schedule);
+  const [customSchedule, setCustomSchedule] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const { from: _from, to: _to, ...params } = filters;
+    if (definition.usesPeriod) {
+      params.range = range;
+    }
+
+    try {
+      await subscribeToReport(report, scope, scopeId, params, format, preset === CUSTOM ? customSchedule : preset);
+      setSaved(true);
+    } catch (error) {
+      console.error('Error scheduling report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to schedule report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (saved) {
+    return (
+      <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded flex items-center justify-between">
+        <span>
+          The report is scheduled and will be mailed to you.{' '}
+          <Link to="/reports/subscriptions" className="font-medium underline">Manage your scheduled reports</Link>
+        </span>
+        <button onClick={onClose} className="text-sm font-medium">Dismiss</button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+      <h3 className="text-lg font-medium text-gray-900">Schedule by email</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        The report is mailed to you with the filters above
+        {definition.usesPeriod ? ', covering the range below at each run' : ''}.
+      </p>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-col md:flex-row md:items-end gap-4">
+        {definition.usesPeriod && (
+          <div>
+            <label htmlFor="range" className="label">Covering</label>
+            <select id="range" className="input" value={range} onChange={(e) => setRange(e.target.value)}>
+              {Object.entries(REPORT_RANGES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="format" className="label">Format</label>
+          <select
+            id="format"
+            className="input"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ReportFormat)}
+          >
+            {REPORT_FORMATS.map(({ format, label }) => (
+              <option key={format} value={format}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="schedule" className="label">Schedule</label>
+          <select id="schedule" className="input" value={preset} onChange={(e) => setPreset(e.target.value)}>
+            {REPORT_SCHEDULES.map(({ schedule, label }) => (
+              <option key={schedule} value={schedule}>{label}</option>
+            ))}
+            <option value={CUSTOM}>Custom (cron)</option>
+          </select>
+        </div>
+        {preset === CUSTOM && (
+          <div>
+            <label htmlFor="cron" className="label">Cron expression (UTC)</label>
+            <input
+              id="cron"
+              className="input font-mono"
+              placeholder="0 8 * * 1-5"
+              value={customSchedule}
+              onChange={(e) => setCustomSchedule(e.target.value)}
+              required
+            />
+          </div>
+        )}
+        <div className="flex space-x-3">
+          <button type="submit" disabled={saving} className="btn-primary">
+            {saving ? 'Scheduling...' : 'Schedule'}
+          </button>
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
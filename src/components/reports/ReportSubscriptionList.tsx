@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { logActivity } from '../../lib/activity';
+import {
+  REPORTS,
+  REPORT_FORMATS,
+  REPORT_RANGES,
+  ReportSubscription,
+  describeSchedule,
+  isReportKey
+} from '../../lib/reports';
+import { ArrowLeft, CalendarClock, Pause, Play, Trash2 } from 'lucide-react';
+
+const DELIVERY_LOG_SIZE = 25;
+
+const reportLabel = (report: string) => (isReportKey(report) ? REPORTS[report].label : report);
+
+export default function ReportSubscriptionList() {
+  const { user } = useAuth();
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchSubscriptions();
+    }
+  }, [user]);
+
+  const fetchSubscriptions = async () => {
+    if (!user) return;
+
+    try {
+      // Super admins can read everyone's; this page is only the user's own
+      const [subscriptionsResult, deliveriesResult] = await Promise.all([
+        supabase
+          .from('report_subscriptions')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('report_deliveries')
+          .select(`
+            id,
+            status,
+            recipient,
+            filename,
+            row_count,
+            error,
+            delivered_at,
+            subscription:report_subscriptions!inner(report, user_id)
+          `)
+          .eq('subscription.user_id', user.id)
+          .order('delivered_at', { ascending: false })
+          .limit(DELIVERY_LOG_SIZE)
+      ]);
+
+      if (subscriptionsResult.error) throw subscriptionsResult.error;
+      if (deliveriesResult.error) throw deliveriesResult.error;
+
+      setSubscriptions(subscriptionsResult.data || []);
+      setDeliveries(deliveriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching report subscriptions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Resuming clears the next run so the scheduler places it from now,
+  // rather than catching up on the runs missed while paused
+  const toggle = async (subscription: ReportSubscription) => {
+    if (!user) return;
+
+    setBusyId(subscription.id);
+    setError('');
+    try {
+      await supabase
+        .from('report_subscriptions')
+        .update({
+          is_active: !subscription.is_active,
+          next_run_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', subscription.id)
+        .throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: subscription.is_active ? 'disable' : 'enable',
+        resource_type: 'report_subscription',
+        resource_id: subscription.id,
+        details: { report: subscription.report }
+      });
+
+      await fetchSubscriptions();
+    } catch (error) {
+      console.error('Error updating report subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update scheduled report');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (subscription: ReportSubscription) => {
+    if (!user) return;
+    if (!window.confirm(`Delete the scheduled ${reportLabel(subscription.report)} report and its delivery log?`)) return;
+
+    setBusyId(subscription.id);
+    setError('');
+    try {
+      await supabase
+        .from('report_subscriptions')
+        .delete()
+        .eq('id', subscription.id)
+        .throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'delete',
+        resource_type: 'report_subscription',
+        resource_id: subscription.id,
+        details: { report: subscription.report }
+      });
+
+      await fetchSubscriptions();
+    } catch (error) {
+      console.error('Error deleting report subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete scheduled report');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/reports" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All reports
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Scheduled Reports</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Reports mailed to you on a schedule; set one up with Schedule on any report
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden mb-8">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarClock className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No scheduled reports</h3>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Report</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Schedule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Next run</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Last run</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {subscriptions.map((subscription) => (
+                <tr key={subscription.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">{reportLabel(subscription.report)}</div>
+                    <div className="text-xs text-gray-500">
+                      {REPORT_FORMATS.find(({ format }) => format === subscription.format)?.label}
+                      {subscription.params.range && ` · ${REPORT_RANGES[subscription.params.range] ?? subscription.params.range}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{describeSchedule(subscription.schedule)}</td>
+                  <td className="px-6 py-4 text-sm">
+                    {!subscription.is_active ? (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        paused
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">
+                        {subscription.next_run_at ? new Date(subscription.next_run_at).toLocaleString() : 'Being scheduled'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {subscription.last_run_at ? new Date(subscription.last_run_at).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm whitespace-nowrap">
+                    <button
+                      onClick={() => toggle(subscription)}
+                      disabled={busyId === subscription.id}
+                      className="inline-flex items-center text-blue-600 hover:text-blue-800 mr-4"
+                    >
+                      {subscription.is_active ? (
+                        <>
+                          <Pause className="h-4 w-4 mr-1" />
+                          Pause
+                        </>
+                      ) : (
+                        <>
+                          <Play className="h-4 w-4 mr-1" />
+                          Resume
+                        </>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => remove(subscription)}
+                      disabled={busyId === subscription.id}
+                      className="inline-flex items-center text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Recent deliveries</h2>
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {!loading && deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-12">Nothing has been delivered yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Delivered</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Report</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id}>
+                  <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                    {new Date(delivery.delivered_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{reportLabel(delivery.subscription.report)}</td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      delivery.status === 'sent' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {delivery.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {delivery.status === 'sent'
+                      ? `${delivery.filename} (${delivery.row_count} rows) to ${delivery.recipient}`
+                      : delivery.error}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import {
+  REPORTS,
+  REPORT_FORMATS,
+  REPORT_GRAINS,
+  ReportData,
+  ReportFormat,
+  exportReport,
+  fetchReport,
+  formatReportValue,
+  isReportKey,
+  reportScopeId
+} from '../../lib/reports';
+import ReportSubscribeForm from './ReportSubscribeForm';
+import { ArrowLeft, Download, Mail } from 'lucide-react';
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export default function ReportView() {
+  const { report } = useParams<{ report: string }>();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('reports', 'view');
+  const { searchParams, updateFilters } = useSearchFilters();
+  const [data, setData] = useState<ReportData | null>(null);
+  const [sites, setSites] = useState<any[]>([]);
+  const [commercials, setCommercials] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+  const [subscribing, setSubscribing] = useState(false);
+  const [error, setError] = useState('');
+
+  const today = new Date();
+  const from = searchParams.get('from') ?? localDate(new Date(today.getFullYear(), today.getMonth(), 1));
+  const to = searchParams.get('to') ?? localDate(today);
+  const grain = searchParams.get('grain') ?? 'month';
+  const siteId = searchParams.get('site') ?? '';
+  const commercialId = searchParams.get('commercial') ?? '';
+
+  // Same narrowing as the pipeline board: by site for company-wide (or
+  // wider) viewers, then by commercial once a single site is covered
+  const canFilterSites = scope === 'global' || scope === 'company';
+  const reportSiteId = scope === 'site' ? activeRole?.site?.id ?? '' : canFilterSites ? siteId : '';
+
+  const definition = isReportKey(report) ? REPORTS[report] : null;
+
+  const params: Record<string, string> = {};
+  if (definition?.usesPeriod) {
+    params.from = from;
+    params.to = to;
+  }
+  if (definition?.usesGrain) {
+    params.grain = grain;
+  }
+  if (canFilterSites && siteId) {
+    params.site_id = siteId;
+  }
+  if (reportSiteId && commercialId) {
+    params.user_id = commercialId;
+  }
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    if (!canFilterSites || !activeRole) {
+      setSites([]);
+      return;
+    }
+
+    let query = supabase
+      .from('sites')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+    if (scope === 'company') {
+      query = query.eq('company_id', activeRole.company?.id ?? '');
+    }
+    query.then(({ data }) => setSites(data || []));
+  }, [canFilterSites, scope, activeRole]);
+
+  useEffect(() => {
+    if (!reportSiteId) {
+      setCommercials([]);
+      return;
+    }
+
+    supabase
+      .from('user_roles')
+      .select(`
+        id,
+        user:users(id, first_name, last_name),
+        role:roles!inner(name)
+      `)
+      .eq('site_id', reportSiteId)
+      .eq('role.name', 'Commercial')
+      .eq('is_active', true)
+      .then(({ data }) => setCommercials(data || []));
+  }, [reportSiteId]);
+
+  useEffect(() => {
+    if (user && activeRole && scope && isReportKey(report)) {
+      setLoading(true);
+      setError('');
+      fetchReport(report, scope, reportScopeId(scope, activeRole, user.id), params)
+        .then(setData)
+        .catch((error) => {
+          console.error('Error running report:', error);
+          setError(error instanceof Error ? error.message : 'Failed to run report');
+          setData(null);
+        })
+        .finally(() => setLoading(false));
+    }
+  }, [user, activeRole, scope, report, paramsKey]);
+
+  if (!definition || !isReportKey(report)) {
+    return <Navigate to="/reports" replace />;
+  }
+
+  const handleExport = async (format: ReportFormat) => {
+    if (!user || !activeRole || !scope) return;
+
+    setExporting(format);
+    setError('');
+    try {
+      await exportReport(report, scope, reportScopeId(scope, activeRole, user.id), params, format);
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export report');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const totals = data?.totals ?? null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <Link to="/reports" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All reports
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">{definition.label}</h1>
+          <p className="mt-1 text-sm text-gray-500">{definition.description}</p>
+        </div>
+        <div className="flex space-x-3">
+          <button onClick={() => setSubscribing(true)} disabled={subscribing} className="btn-secondary">
+            <Mail className="h-4 w-4 mr-2" />
+            Schedule
+          </button>
+          {REPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!!exporting || loading}
+              className="btn-secondary"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting === format ? 'Exporting...' : label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Parameters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          {definition.usesPeriod && (
+            <>
+              <div>
+                <label htmlFor="from" className="label">From</label>
+                <input
+                  id="from"
+                  type="date"
+                  className="input"
+                  value={from}
+                  max={to}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                />
+              </div>
+              <div>
+                <label htmlFor="to" className="label">To</label>
+                <input
+                  id="to"
+                  type="date"
+                  className="input"
+                  value={to}
+                  min={from}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+          {definition.usesGrain && (
+            <div>
+              <label htmlFor="grain" className="label">Grouped</label>
+              <select
+                id="grain"
+                className="input"
+                value={grain}
+                onChange={(e) => updateFilters({ grain: e.target.value })}
+              >
+                {Object.entries(REPORT_GRAINS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {canFilterSites && (
+            <select
+              aria-label="Site"
+              className="input md:w-64"
+              value={siteId}
+              onChange={(e) => updateFilters({ site: e.target.value, commercial: '' })}
+            >
+              <option value="">All sites</option>
+              {sites.map((site) => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+          )}
+          {reportSiteId && (
+            <select
+              aria-label="Commercial"
+              className="input md:w-64"
+              value={commercialId}
+              onChange={(e) => updateFilters({ commercial: e.target.value })}
+            >
+              <option value="">All commercials</option>
+              {commercials.map((commercial) => (
+                <option key={commercial.id} value={commercial.user.id}>
+                  {commercial.user.first_name} {commercial.user.last_name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {subscribing && user && activeRole && scope && (
+        <ReportSubscribeForm
+          report={report}
+          scope={scope}
+          scopeId={reportScopeId(scope, activeRole, user.id)}
+          filters={params}
+          onClose={() => setSubscribing(false)}
+        />
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading && !data ? (
+          <div className="p-6">
+            <div className="h-48 bg-gray-200 rounded animate-pulse"></div>
+          </div>
+        ) : data && data.rows.length > 0 ? (
+          <div className={`overflow-x-auto ${loading ? 'opacity-50' : ''}`}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {data.columns.map((column) => (
+                    <th
+                      key={column.key}
+                      className={`px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide ${
+                        column.type === 'text' || column.type === 'date' ? 'text-left' : 'text-right'
+                      }`}
+                    >
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.rows.map((row, index) => (
+                  <tr key={index}>
+                    {data.columns.map((column) => (
+                      <td
+                        key={column.key}
+                        className={`px-6 py-3 text-sm text-gray-700 whitespace-nowrap ${
+                          column.type === 'text' || column.type === 'date' ? 'text-left' : 'text-right'
+                        }`}
+                      >
+                        {formatReportValue(row[column.key], column.type)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {totals && (
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    {data.columns.map((column, index) => (
+                      <td
+                        key={column.key}
+                        className={`px-6 py-3 text-sm font-medium text-gray-900 whitespace-nowrap ${
+                          column.type === 'text' || column.type === 'date' ? 'text-left' : 'text-right'
+                        }`}
+                      >
+                        {index === 0
+                          ? 'Total'
+                          : column.key in totals ? formatReportValue(totals[column.key], column.type) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-12">No data for these parameters</p>
+        )}
+      </div>
+    </div>
+  );
+}
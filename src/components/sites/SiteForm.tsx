@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { validatePhone } from '../../lib/validation';
+import { ArrowLeft, Save } from 'lucide-react';
+
+interface SiteFormValues {
+  company_id: string;
+  name: string;
+  description: string;
+  address: string;
+  phone: string;
+}
+
+type FormErrors = Partial<Record<keyof SiteFormValues, string>>;
+
+export default function SiteForm() {
+  const { siteId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('sites', 'manage');
+  const navigate = useNavigate();
+  const isEdit = Boolean(siteId);
+  const isGlobal = scope === 'global';
+
+  const [values, setValues] = useState<SiteFormValues>({
+    company_id: isGlobal ? searchParams.get('company') ?? '' : activeRole?.company?.id ?? '',
+    name: '',
+    description: '',
+    address: '',
+    phone: ''
+  });
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  useEffect(() => {
+    if (siteId) {
+      fetchSite(siteId);
+    }
+  }, [siteId]);
+
+  useEffect(() => {
+    if (isGlobal && !isEdit) {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [isGlobal, isEdit]);
+
+  const fetchSite = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('sites')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues({
+        company_id: data.company_id,
+        name: data.name,
+        description: data.description ?? '',
+        address: data.address ?? '',
+        phone: data.phone ?? ''
+      });
+    } catch (error) {
+      console.error('Error fetching site:', error);
+      setSubmitError('Site not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = (field: keyof SiteFormValues, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.company_id) nextErrors.company_id = 'Company is required';
+    if (!values.name.trim()) nextErrors.name = 'Name is required';
+
+    const phoneError = validatePhone(values.phone.trim());
+    if (phoneError) nextErrors.phone = phoneError;
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const payload = {
+      name: values.name.trim(),
+      description: values.description.trim() || null,
+      address: values.address.trim() || null,
+      phone: values.phone.trim() || null
+    };
+
+    try {
+      let savedId = siteId;
+      if (siteId) {
+        await supabase
+          .from('sites')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', siteId)
+          .throwOnError();
+      } else {
+        const { data } = await supabase
+          .from('sites')
+          .insert({ ...payload, company_id: values.company_id })
+          .select('id')
+          .single()
+          .throwOnError();
+        savedId = data.id;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'site',
+        resource_id: savedId,
+        details: { site_name: payload.name }
+      });
+
+      navigate('/sites');
+    } catch (error) {
+      console.error('Error saving site:', error);
+      setSubmitError(
+        error instanceof PostgrestError && error.code === '23505'
+          ? 'A site with this name already exists in this company'
+          : 'Failed to save site. Check that you are allowed to manage it.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/sites" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit Site' : 'Add Site'}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        {isGlobal && !isEdit && (
+          <div>
+            <label htmlFor="company_id" className="label">Company</label>
+            <select
+              id="company_id"
+              className="input mt-1"
+              value={values.company_id}
+              onChange={(e) => setField('company_id', e.target.value)}
+            >
+              <option value="">Select a company</option>
+              {companies.map((company) => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+            {errors.company_id && <p className="mt-1 text-xs text-red-600">{errors.company_id}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="name" className="label">Name</label>
+          <input
+            id="name"
+            className="input mt-1"
+            value={values.name}
+            onChange={(e) => setField('name', e.target.value)}
+          />
+          {errors.name && <p className="mt-1 text-xs text-red-600">{errors.name}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="description" className="label">Description</label>
+          <textarea
+            id="description"
+            rows={3}
+            className="input mt-1 h-auto"
+            value={values.description}
+            onChange={(e) => setField('description', e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="address" className="label">Address</label>
+            <input
+              id="address"
+              className="input mt-1"
+              value={values.address}
+              onChange={(e) => setField('address', e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="phone" className="label">Phone</label>
+            <input
+              id="phone"
+              type="tel"
+              className="input mt-1"
+              value={values.phone}
+              onChange={(e) => setField('phone', e.target.value)}
+            />
+            {errors.phone && <p className="mt-1 text-xs text-red-600">{errors.phone}</p>}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Site'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
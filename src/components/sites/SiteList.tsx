@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { logActivity } from '../../lib/activity';
+import { organizationStatus, organizationStatusClass } from '../../lib/organizations';
+import { MapPin, Plus } from 'lucide-react';
+
+export default function SiteList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('sites', 'manage');
+  const { searchParams, updateFilters } = useSearchFilters();
+  const [sites, setSites] = useState<any[]>([]);
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const companyId = searchParams.get('company') ?? '';
+  const status = searchParams.get('status') ?? '';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchSites();
+    }
+  }, [user, activeRole, scope, companyId, status]);
+
+  useEffect(() => {
+    if (scope === 'global') {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [scope]);
+
+  const fetchSites = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('sites')
+        .select('id, name, address, phone, is_active, archived_at, company:companies(id, name)')
+        .order('name');
+
+      // Sites are managed either everywhere or within the admin's company
+      if (scope !== 'global') {
+        query = query.eq('company_id', activeRole.company?.id ?? '');
+      } else if (companyId) {
+        query = query.eq('company_id', companyId);
+      }
+      if (status === 'archived') {
+        query = query.not('archived_at', 'is', null);
+      } else {
+        query = query.is('archived_at', null);
+        if (status) {
+          query = query.eq('is_active', status === 'active');
+        }
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setSites(data || []);
+    } catch (error) {
+      console.error('Error fetching sites:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeStatus = async (site: any, action: 'deactivate' | 'reactivate' | 'archive' | 'restore') => {
+    if (!user) return;
+    if (action === 'deactivate' && !window.confirm(
+      `Deactivate ${site.name}? Its clients will be hidden and people who only work there will be signed out.`
+    )) return;
+    if (action === 'archive' && !window.confirm(`Archive ${site.name}? It will be deactivated and hidden from this list.`)) return;
+
+    setBusyId(site.id);
+    setError('');
+    try {
+      if (action === 'archive') {
+        await supabase.from('sites').delete().eq('id', site.id).throwOnError();
+      } else {
+        await supabase
+          .from('sites')
+          .update({
+            ...(action === 'restore' ? { archived_at: null } : { is_active: action === 'reactivate' }),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', site.id)
+          .throwOnError();
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action,
+        resource_type: 'site',
+        resource_id: site.id,
+        details: { site_name: site.name }
+      });
+
+      await fetchSites();
+    } catch (error) {
+      console.error('Error updating site status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update site');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const newSitePath = companyId ? `/sites/new?company=${companyId}` : '/sites/new';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sites</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {scope === 'global' ? 'Sites across all companies' : `Sites of ${activeRole?.company?.name}`}
+          </p>
+        </div>
+        <Link to={newSitePath} className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Site
+        </Link>
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          {scope === 'global' && (
+            <select
+              className="input md:w-64"
+              value={companyId}
+              onChange={(e) => updateFilters({ company: e.target.value })}
+            >
+              <option value="">All companies</option>
+              {companies.map((company) => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            className="input md:w-48"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value })}
+          >
+            <option value="">Current</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+            <option value="archived">Archived</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : sites.length === 0 ? (
+          <div className="text-center py-12">
+            <MapPin className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No sites found</h3>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Name</th>
+                {scope === 'global' && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Company</th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Contact</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sites.map((site) => {
+                const siteStatus = organizationStatus(site);
+                return (
+                  <tr key={site.id}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{site.name}</td>
+                    {scope === 'global' && (
+                      <td className="px-6 py-4 text-sm text-gray-500">{site.company?.name}</td>
+                    )}
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <div>{site.address}</div>
+                      <div className="text-xs text-gray-400">{site.phone}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${organizationStatusClass(siteStatus)}`}>
+                        {siteStatus}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      {siteStatus !== 'archived' && (
+                        <Link to={`/sites/${site.id}/edit`} className="text-blue-600 hover:text-blue-800">
+                          Edit
+                        </Link>
+                      )}
+                      {siteStatus === 'active' && (
+                        <button
+                          onClick={() => changeStatus(site, 'deactivate')}
+                          disabled={busyId === site.id}
+                          className="text-yellow-700 hover:text-yellow-900"
+                        >
+                          Deactivate
+                        </button>
+                      )}
+                      {siteStatus === 'inactive' && (
+                        <button
+                          onClick={() => changeStatus(site, 'reactivate')}
+                          disabled={busyId === site.id}
+                          className="text-green-700 hover:text-green-900"
+                        >
+                          Reactivate
+                        </button>
+                      )}
+                      {siteStatus !== 'archived' && (
+                        <button
+                          onClick={() => changeStatus(site, 'archive')}
+                          disabled={busyId === site.id}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Archive
+                        </button>
+                      )}
+                      {siteStatus === 'archived' && (
+                        <button
+                          onClick={() => changeStatus(site, 'restore')}
+                          disabled={busyId === site.id}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermission, usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { logActivity } from '../../lib/activity';
+import { periodLabel, periodRange, periodStart, progressPercent, shiftPeriod } from '../../lib/targets';
+import { TargetPeriodType } from '../../types/auth';
+import { ChevronLeft, ChevronRight, MapPin, Save, Target, Users } from 'lucide-react';
+
+interface TargetData {
+  sites: any[];
+  commercials: any[];
+  targets: any[];
+  sales: any[];
+}
+
+// Drafts are keyed by site and user; site targets have an empty user part
+const targetKey = (siteId: string, userId?: string | null) => `${siteId}:${userId ?? ''}`;
+
+function ProgressBar({ achieved, target }: { achieved: number; target: number }) {
+  const progress = progressPercent(achieved, target);
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-24 bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${progress >= 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${Math.min(progress, 100)}%` }}
+        ></div>
+      </div>
+      <span className="text-xs text-gray-500">{target > 0 ? `${progress.toFixed(0)}%` : '—'}</span>
+    </div>
+  );
+}
+
+export default function TargetList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('users', 'manage');
+  const canManageSites = usePermission('sites', 'manage');
+  const { searchParams, updateFilters } = useSearchFilters();
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [data, setData] = useState<TargetData | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const periodType = (searchParams.get('period_type') === 'quarter' ? 'quarter' : 'month') as TargetPeriodType;
+  const period = searchParams.get('period') ?? periodStart(periodType);
+  const companyId = activeRole?.company?.id ?? searchParams.get('company') ?? '';
+  const siteId = scope === 'site' ? activeRole?.site?.id ?? '' : '';
+
+  useEffect(() => {
+    if (scope === 'global') {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchTargets();
+    } else {
+      setLoading(false);
+    }
+  }, [companyId, siteId, periodType, period]);
+
+  const fetchTargets = async () => {
+    setLoading(true);
+    setNotice('');
+    setError('');
+
+    const { start, end } = periodRange(periodType, period);
+
+    try {
+      let sitesQuery = supabase
+        .from('sites')
+        .select('id, name')
+        .eq('company_id', companyId)
+        .eq('is_active', true)
+        .order('name');
+      let commercialsQuery = supabase
+        .from('user_roles')
+        .select(`
+          id,
+          site_id,
+          user:users(id, first_name, last_name),
+          role:roles!inner(name)
+        `)
+        .eq('company_id', companyId)
+        .eq('role.name', 'Commercial')
+        .eq('is_active', true)
+        .not('site_id', 'is', null);
+      let targetsQuery = supabase
+        .from('sales_targets')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('period_type', periodType)
+        .eq('period_start', period);
+      let salesQuery = supabase
+        .from('sales')
+        .select(`
+          amount,
+          closed_by,
+          proposal:proposals!inner(
+            client:clients!inner(company_id, site_id)
+          )
+        `)
+        .eq('proposal.client.company_id', companyId)
+        .gte('closed_at', start.toISOString())
+        .lt('closed_at', end.toISOString());
+
+      if (siteId) {
+        sitesQuery = sitesQuery.eq('id', siteId);
+        commercialsQuery = commercialsQuery.eq('site_id', siteId);
+        targetsQuery = targetsQuery.eq('site_id', siteId);
+        salesQuery = salesQuery.eq('proposal.client.site_id', siteId);
+      }
+
+      const [sitesResult, commercialsResult, targetsResult, salesResult] = await Promise.all([
+        sitesQuery,
+        commercialsQuery,
+        targetsQuery,
+        salesQuery
+      ]);
+
+      if (targetsResult.error) throw targetsResult.error;
+
+      const targets = targetsResult.data || [];
+      setData({
+        sites: sitesResult.data || [],
+        commercials: commercialsResult.data || [],
+        targets,
+        sales: salesResult.data || []
+      });
+      setDrafts(Object.fromEntries(
+        targets.map((target) => [targetKey(target.site_id, target.user_id), String(target.amount)])
+      ));
+    } catch (error) {
+      console.error('Error fetching targets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !data) return;
+
+    const existing = new Map(data.targets.map((target) => [targetKey(target.site_id, target.user_id), target]));
+    const editable = [
+      ...(canManageSites ? data.sites.map((site) => ({ site_id: site.id, user_id: null })) : []),
+      ...data.commercials.map((commercial) => ({ site_id: commercial.site_id, user_id: commercial.user.id }))
+    ];
+
+    const upserts: any[] = [];
+    const deletes: string[] = [];
+    for (const row of editable) {
+      const key = targetKey(row.site_id, row.user_id);
+      const draft = drafts[key]?.trim() ?? '';
+      const current = existing.get(key);
+
+      if (draft === '') {
+        if (current) deletes.push(current.id);
+      } else if (!current || Number(draft) !== current.amount) {
+        if (Number.isNaN(Number(draft)) || Number(draft) < 0) {
+          setError('Targets cannot be negative');
+          return;
+        }
+        upserts.push({
+          ...row,
+          company_id: companyId,
+          period_type: periodType,
+          period_start: period,
+          amount: Number(draft),
+          set_by: user.id,
+          updated_at: new Date().toISOString()
+        });
+      }
+    }
+
+    if (upserts.length === 0 && deletes.length === 0) {
+      setNotice('No changes to save.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      if (upserts.length > 0) {
+        const { error } = await supabase
+          .from('sales_targets')
+          .upsert(upserts, { onConflict: 'site_id,user_id,period_type,period_start' });
+        if (error) throw error;
+      }
+      if (deletes.length > 0) {
+        const { error } = await supabase.from('sales_targets').delete().in('id', deletes);
+        if (error) throw error;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: 'update',
+        resource_type: 'sales_target',
+        details: { period: periodLabel(periodType, period), targets: upserts.length + deletes.length }
+      });
+
+      await fetchTargets();
+      setNotice('Targets saved.');
+    } catch (error) {
+      console.error('Error saving targets:', error);
+      setError('Failed to save targets. Check that they are within your scope.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setDraft = (key: string, value: string) => {
+    setDrafts((current) => ({ ...current, [key]: value }));
+  };
+
+  // Achieved amounts inside the period, by client site and by closer
+  const siteSales = new Map<string, number>();
+  const userSales = new Map<string, number>();
+  for (const sale of (data?.sales || []) as any[]) {
+    const saleSiteId = sale.proposal.client.site_id;
+    siteSales.set(saleSiteId, (siteSales.get(saleSiteId) || 0) + sale.amount);
+    userSales.set(sale.closed_by, (userSales.get(sale.closed_by) || 0) + sale.amount);
+  }
+
+  const amountFor = (key: string) => Number(drafts[key] || 0);
+  const commercialTargetTotal = (forSiteId: string) =>
+    (data?.commercials || [])
+      .filter((commercial) => commercial.site_id === forSiteId)
+      .reduce((sum, commercial) => sum + amountFor(targetKey(forSiteId, commercial.user.id)), 0);
+
+  const companyTarget = (data?.sites || []).reduce((sum, site) => sum + amountFor(targetKey(site.id)), 0);
+  const companySales = [...siteSales.values()].reduce((sum, amount) => sum + amount, 0);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sales Targets</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Commercial targets roll up to their site, and site targets to the company
+          </p>
+        </div>
+        <button onClick={handleSave} disabled={saving || !data} className="btn-primary">
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Targets'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          {scope === 'global' && (
+            <select
+              className="input md:w-64"
+              value={companyId}
+              onChange={(e) => updateFilters({ company: e.target.value })}
+            >
+              <option value="">Select a company</option>
+              {companies.map((company) => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            className="input md:w-40"
+            value={periodType}
+            onChange={(e) => updateFilters({ period_type: e.target.value, period: '' })}
+          >
+            <option value="month">Monthly</option>
+            <option value="quarter">Quarterly</option>
+          </select>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => updateFilters({ period: shiftPeriod(periodType, period, -1) })}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span className="text-sm font-medium text-gray-900 w-36 text-center">
+              {periodLabel(periodType, period)}
+            </span>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => updateFilters({ period: shiftPeriod(periodType, period, 1) })}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : !data ? (
+        <div className="text-center py-12">
+          <Target className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Select a company</h3>
+          <p className="mt-1 text-sm text-gray-500">Targets are set per company, site and commercial.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {/* Company and Sites */}
+          {scope !== 'site' && (
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                  <MapPin className="h-5 w-5 mr-2 text-blue-500" />
+                  Sites
+                </h3>
+                <div className="text-sm text-gray-500">
+                  Company: <span className="font-medium text-gray-900">${companySales.toLocaleString()}</span>
+                  {' of '}
+                  <span className="font-medium text-gray-900">${companyTarget.toLocaleString()}</span>
+                </div>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Site</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Site Target</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Commercial Targets</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Achieved</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.sites.map((site) => {
+                    const key = targetKey(site.id);
+                    const achieved = siteSales.get(site.id) || 0;
+                    return (
+                      <tr key={site.id}>
+                        <td className="px-6 py-4 text-sm font-medium text-gray-900">{site.name}</td>
+                        <td className="px-6 py-4">
+                          <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            className="input w-36"
+                            placeholder="Not set"
+                            disabled={!canManageSites}
+                            value={drafts[key] ?? ''}
+                            onChange={(e) => setDraft(key, e.target.value)}
+                          />
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">${commercialTargetTotal(site.id).toLocaleString()}</td>
+                        <td className="px-6 py-4 text-sm text-gray-700">${achieved.toLocaleString()}</td>
+                        <td className="px-6 py-4"><ProgressBar achieved={achieved} target={amountFor(key)} /></td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Commercials */}
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <Users className="h-5 w-5 mr-2 text-purple-500" />
+                Commercials
+              </h3>
+              {scope === 'site' && data.sites[0] && (
+                <div className="text-sm text-gray-500">
+                  Site target: <span className="font-medium text-gray-900">
+                    {drafts[targetKey(data.sites[0].id)]
+                      ? `$${amountFor(targetKey(data.sites[0].id)).toLocaleString()}`
+                      : 'Not set'}
+                  </span>
+                </div>
+              )}
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Commercial</th>
+                  {scope !== 'site' && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Site</th>
+                  )}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Achieved</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.commercials.map((commercial) => {
+                  const key = targetKey(commercial.site_id, commercial.user.id);
+                  const achieved = userSales.get(commercial.user.id) || 0;
+                  return (
+                    <tr key={commercial.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                        {commercial.user.first_name} {commercial.user.last_name}
+                      </td>
+                      {scope !== 'site' && (
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {data.sites.find((site) => site.id === commercial.site_id)?.name ?? '—'}
+                        </td>
+                      )}
+                      <td className="px-6 py-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="100"
+                          className="input w-36"
+                          placeholder="Not set"
+                          value={drafts[key] ?? ''}
+                          onChange={(e) => setDraft(key, e.target.value)}
+                        />
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">${achieved.toLocaleString()}</td>
+                      <td className="px-6 py-4"><ProgressBar achieved={achieved} target={amountFor(key)} /></td>
+                    </tr>
+                  );
+                })}
+                {data.commercials.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-sm text-gray-500 text-center">
+                      No commercials assigned here yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
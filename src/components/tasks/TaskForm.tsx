@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { logActivity } from '../../lib/activity';
+import { scopeFilter } from '../../lib/permissions';
+import { TASK_PRIORITIES, TASK_TYPE_LABELS, toDateTimeInput } from '../../lib/tasks';
+import { TaskPriority, TaskType } from '../../types/auth';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+
+interface TaskFormValues {
+  title: string;
+  description: string;
+  task_type: TaskType;
+  priority: TaskPriority;
+  client_id: string;
+  proposal_id: string;
+  assigned_to: string;
+  due_at: string;
+}
+
+type FormErrors = Partial<Record<keyof TaskFormValues, string>>;
+
+const isTaskType = (value: string | null): value is TaskType =>
+  value !== null && value in TASK_TYPE_LABELS;
+
+// Tomorrow at 9:00, the default slot for a new task
+const defaultDueAt = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return toDateTimeInput(date);
+};
+
+export default function TaskForm() {
+  const { taskId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const navigate = useNavigate();
+  const isEdit = Boolean(taskId);
+
+  const initialType = searchParams.get('type');
+  const [values, setValues] = useState<TaskFormValues>({
+    title: '',
+    description: '',
+    task_type: isTaskType(initialType) ? initialType : 'follow_up',
+    priority: 'medium',
+    client_id: searchParams.get('client') ?? '',
+    proposal_id: searchParams.get('proposal') ?? '',
+    assigned_to: user?.id ?? '',
+    due_at: defaultDueAt()
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [clients, setClients] = useState<any[]>([]);
+  const [proposals, setProposals] = useState<any[]>([]);
+  const [assignees, setAssignees] = useState<any[]>([]);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  useEffect(() => {
+    if (taskId) {
+      fetchTask(taskId);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchClients();
+    }
+  }, [user, activeRole, scope]);
+
+  useEffect(() => {
+    if (values.proposal_id && !values.client_id) {
+      // Opened from a proposal: the client follows from it
+      supabase
+        .from('proposals')
+        .select('client_id')
+        .eq('id', values.proposal_id)
+        .single()
+        .then(({ data }) => data && setValues((current) => ({ ...current, client_id: data.client_id })));
+    }
+  }, [values.proposal_id, values.client_id]);
+
+  useEffect(() => {
+    if (!values.client_id) {
+      setProposals([]);
+      setAssignees([]);
+      return;
+    }
+
+    supabase
+      .from('proposals')
+      .select('id, title, status')
+      .eq('client_id', values.client_id)
+      .order('created_at', { ascending: false })
+      .then(({ data }) => setProposals(data || []));
+
+    if (scope !== 'personal') {
+      fetchAssignees(values.client_id);
+    }
+  }, [values.client_id, scope]);
+
+  const fetchClients = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    let query = supabase
+      .from('clients')
+      .select('id, name')
+      .order('name');
+
+    const filter = scopeFilter(scope, activeRole, user.id, {
+      company: 'company_id',
+      site: 'site_id',
+      personal: 'assigned_to'
+    });
+    if (filter) {
+      query = query.eq(filter[0], filter[1]);
+    }
+
+    const { data } = await query;
+    setClients(data || []);
+  };
+
+  // Anyone working at the client's site (or company, for site-less clients)
+  const fetchAssignees = async (clientId: string) => {
+    const { data: client } = await supabase
+      .from('clients')
+      .select('company_id, site_id')
+      .eq('id', clientId)
+      .single();
+    if (!client) return;
+
+    let query = supabase
+      .from('user_roles')
+      .select('user:users(id, first_name, last_name)')
+      .eq('company_id', client.company_id)
+      .eq('is_active', true);
+    if (client.site_id) {
+      query = query.eq('site_id', client.site_id);
+    }
+
+    const { data } = await query;
+    const unique = new Map((data || []).map((row: any) => [row.user.id, row.user]));
+    if (user && !unique.has(user.id)) {
+      unique.set(user.id, user);
+    }
+    setAssignees([...unique.values()]);
+  };
+
+  const fetchTask = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues({
+        title: data.title,
+        description: data.description ?? '',
+        task_type: data.task_type,
+        priority: data.priority,
+        client_id: data.client_id,
+        proposal_id: data.proposal_id ?? '',
+        assigned_to: data.assigned_to,
+        due_at: toDateTimeInput(data.due_at)
+      });
+    } catch (error) {
+      console.error('Error fetching task:', error);
+      setSubmitError('Task not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = <K extends keyof TaskFormValues>(field: K, value: TaskFormValues[K]) => {
+    setValues((current) => {
+      const next = { ...current, [field]: value };
+      if (field === 'client_id') {
+        next.proposal_id = '';
+      }
+      return next;
+    });
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.title.trim()) nextErrors.title = 'Title is required';
+    if (!values.client_id) nextErrors.client_id = 'Select a client';
+    if (!values.assigned_to) nextErrors.assigned_to = 'Select an assignee';
+    if (!values.due_at) nextErrors.due_at = 'Due date is required';
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const payload = {
+      title: values.title.trim(),
+      description: values.description.trim() || null,
+      task_type: values.task_type,
+      priority: values.priority,
+      client_id: values.client_id,
+      proposal_id: values.proposal_id || null,
+      assigned_to: values.assigned_to,
+      due_at: new Date(values.due_at).toISOString()
+    };
+
+    try {
+      let savedId = taskId;
+      if (taskId) {
+        const { error } = await supabase
+          .from('tasks')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', taskId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('tasks')
+          .insert({ ...payload, created_by: user.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        savedId = data.id;
+      }
+
+      await logActivity({
+        user_id: user.id,
+        action: isEdit ? 'update' : 'create',
+        resource_type: 'task',
+        resource_id: savedId,
+        details: { task_title: payload.title }
+      });
+
+      navigate('/tasks');
+    } catch (error) {
+      console.error('Error saving task:', error);
+      setSubmitError('Failed to save task. Check that the client is within your scope.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !taskId) return;
+    if (!window.confirm(`Delete "${values.title}"?`)) return;
+
+    try {
+      const { error } = await supabase.from('tasks').delete().eq('id', taskId);
+      if (error) throw error;
+
+      await logActivity({
+        user_id: user.id,
+        action: 'delete',
+        resource_type: 'task',
+        resource_id: taskId,
+        details: { task_title: values.title }
+      });
+
+      navigate('/tasks');
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      setSubmitError('Failed to delete task.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/tasks" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <div className="mt-2 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">{isEdit ? 'Edit Task' : 'New Task'}</h1>
+          {isEdit && (
+            <button type="button" onClick={handleDelete} className="btn-danger">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="title" className="label">Title</label>
+          <input
+            id="title"
+            className="input mt-1"
+            value={values.title}
+            onChange={(e) => setField('title', e.target.value)}
+          />
+          {errors.title && <p className="mt-1 text-xs text-red-600">{errors.title}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label htmlFor="task_type" className="label">Type</label>
+            <select
+              id="task_type"
+              className="input mt-1"
+              value={values.task_type}
+              onChange={(e) => setField('task_type', e.target.value as TaskType)}
+            >
+              {(Object.keys(TASK_TYPE_LABELS) as TaskType[]).map((type) => (
+                <option key={type} value={type}>{TASK_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="priority" className="label">Priority</label>
+            <select
+              id="priority"
+              className="input mt-1"
+              value={values.priority}
+              onChange={(e) => setField('priority', e.target.value as TaskPriority)}
+            >
+              {TASK_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>{priority}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="due_at" className="label">Due</label>
+            <input
+              id="due_at"
+              type="datetime-local"
+              className="input mt-1"
+              value={values.due_at}
+              onChange={(e) => setField('due_at', e.target.value)}
+            />
+            {errors.due_at && <p className="mt-1 text-xs text-red-600">{errors.due_at}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="client_id" className="label">Client</label>
+            <select
+              id="client_id"
+              className="input mt-1"
+              value={values.client_id}
+              onChange={(e) => setField('client_id', e.target.value)}
+            >
+              <option value="">Select a client</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>{client.name}</option>
+              ))}
+            </select>
+            {errors.client_id && <p className="mt-1 text-xs text-red-600">{errors.client_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="proposal_id" className="label">Proposal</label>
+            <select
+              id="proposal_id"
+              className="input mt-1"
+              value={values.proposal_id}
+              onChange={(e) => setField('proposal_id', e.target.value)}
+            >
+              <option value="">None</option>
+              {proposals.map((proposal) => (
+                <option key={proposal.id} value={proposal.id}>{proposal.title} ({proposal.status})</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {scope !== 'personal' && (
+          <div>
+            <label htmlFor="assigned_to" className="label">Assigned To</label>
+            <select
+              id="assigned_to"
+              className="input mt-1"
+              value={values.assigned_to}
+              onChange={(e) => setField('assigned_to', e.target.value)}
+            >
+              <option value="">Select an assignee</option>
+              {assignees.map((assignee) => (
+                <option key={assignee.id} value={assignee.id}>
+                  {assignee.first_name} {assignee.last_name}
+                </option>
+              ))}
+            </select>
+            {errors.assigned_to && <p className="mt-1 text-xs text-red-600">{errors.assigned_to}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="description" className="label">Notes</label>
+          <textarea
+            id="description"
+            rows={4}
+            className="input mt-1 h-auto"
+            value={values.description}
+            onChange={(e) => setField('description', e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Task'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
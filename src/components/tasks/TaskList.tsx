@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { logActivity } from '../../lib/activity';
+import { scopeFilter } from '../../lib/permissions';
+import {
+  TASK_TYPE_LABELS,
+  isOverdue,
+  priorityDotClass,
+  taskTypeClass,
+  toDateTimeInput
+} from '../../lib/tasks';
+import { TaskType } from '../../types/auth';
+import Pagination from '../Pagination';
+import { CalendarClock, CheckCircle, Circle, ClipboardList, Edit, Plus } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+export default function TaskList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('clients', 'manage');
+  const { searchParams, updateFilters, page } = useSearchFilters();
+  const [tasks, setTasks] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [rescheduling, setRescheduling] = useState<{ id: string; due_at: string } | null>(null);
+  const [error, setError] = useState('');
+
+  const status = searchParams.get('status') ?? 'open';
+  const type = searchParams.get('type') ?? '';
+  const mine = searchParams.get('mine') === '1';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchTasks();
+    }
+  }, [user, activeRole, scope, status, type, mine, page]);
+
+  const fetchTasks = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('tasks')
+        .select(`
+          id,
+          title,
+          task_type,
+          priority,
+          due_at,
+          completed_at,
+          client:clients!inner(id, name, company_id, site_id),
+          proposal:proposals(id, title),
+          assignee:users!tasks_assigned_to_fkey(id, first_name, last_name)
+        `, { count: 'exact' })
+        .order('due_at', { ascending: status !== 'completed' })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      // Managers see the tasks on their clients, Commercials their own tasks
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'client.company_id',
+        site: 'client.site_id',
+        personal: 'assigned_to'
+      });
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (mine) {
+        query = query.eq('assigned_to', user.id);
+      }
+      if (type) {
+        query = query.eq('task_type', type);
+      }
+      if (status === 'open') {
+        query = query.is('completed_at', null);
+      } else if (status === 'overdue') {
+        query = query.is('completed_at', null).lt('due_at', new Date().toISOString());
+      } else if (status === 'completed') {
+        query = query.not('completed_at', 'is', null);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setTasks(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTask = async (task: any, changes: { completed_at?: string | null; due_at?: string }, action: string) => {
+    if (!user) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', task.id);
+      if (error) throw error;
+
+      await logActivity({
+        user_id: user.id,
+        action,
+        resource_type: 'task',
+        resource_id: task.id,
+        details: { task_title: task.title, client_name: task.client?.name }
+      });
+
+      setRescheduling(null);
+      await fetchTasks();
+    } catch (error) {
+      console.error('Error updating task:', error);
+      setError('Failed to update task.');
+    }
+  };
+
+  const toggleComplete = (task: any) =>
+    task.completed_at
+      ? updateTask(task, { completed_at: null }, 'reopen')
+      : updateTask(task, { completed_at: new Date().toISOString() }, 'complete');
+
+  const handleReschedule = (e: React.FormEvent, task: any) => {
+    e.preventDefault();
+    if (!rescheduling?.due_at) return;
+    updateTask(task, { due_at: new Date(rescheduling.due_at).toISOString() }, 'reschedule');
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tasks</h1>
+          <p className="mt-1 text-sm text-gray-500">Calls, meetings and follow-ups on your clients</p>
+        </div>
+        <Link to="/tasks/new" className="btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          New Task
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <select
+            className="input md:w-48"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value === 'open' ? '' : e.target.value, page: '' })}
+          >
+            <option value="open">Open</option>
+            <option value="overdue">Overdue</option>
+            <option value="completed">Completed</option>
+            <option value="all">All</option>
+          </select>
+          <select
+            className="input md:w-48"
+            value={type}
+            onChange={(e) => updateFilters({ type: e.target.value, page: '' })}
+          >
+            <option value="">All types</option>
+            {(Object.keys(TASK_TYPE_LABELS) as TaskType[]).map((taskType) => (
+              <option key={taskType} value={taskType}>{TASK_TYPE_LABELS[taskType]}</option>
+            ))}
+          </select>
+          {scope !== 'personal' && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={mine}
+                onChange={(e) => updateFilters({ mine: e.target.checked ? '1' : '', page: '' })}
+              />
+              Assigned to me
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No tasks found</h3>
+            <p className="mt-1 text-sm text-gray-500">Nothing matches these filters.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tasks.map((task) => (
+              <li key={task.id} className="px-6 py-4 flex items-start gap-4">
+                <button
+                  type="button"
+                  onClick={() => toggleComplete(task)}
+                  className={task.completed_at ? 'text-green-500' : 'text-gray-300 hover:text-green-500'}
+                  title={task.completed_at ? 'Reopen' : 'Mark complete'}
+                >
+                  {task.completed_at ? <CheckCircle className="h-5 w-5" /> : <Circle className="h-5 w-5" />}
+                </button>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${priorityDotClass(task.priority)}`}></span>
+                    <h4 className={`text-sm font-medium ${task.completed_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                      {task.title}
+                    </h4>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${taskTypeClass(task.task_type)}`}>
+                      {TASK_TYPE_LABELS[task.task_type as TaskType]}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    <Link to={`/clients/${task.client.id}`} className="hover:text-gray-700">{task.client.name}</Link>
+                    {task.proposal && (
+                      <>
+                        {' • '}
+                        <Link to={`/proposals/${task.proposal.id}`} className="hover:text-gray-700">{task.proposal.title}</Link>
+                      </>
+                    )}
+                    {task.assignee && ` • ${task.assignee.first_name} ${task.assignee.last_name}`}
+                  </p>
+                  {rescheduling && rescheduling.id === task.id && (
+                    <form onSubmit={(e) => handleReschedule(e, task)} className="mt-2 flex items-center gap-2">
+                      <input
+                        type="datetime-local"
+                        className="input w-56"
+                        value={rescheduling.due_at}
+                        onChange={(e) => setRescheduling({ id: task.id, due_at: e.target.value })}
+                      />
+                      <button type="submit" className="btn-primary">Save</button>
+                      <button type="button" className="btn-secondary" onClick={() => setRescheduling(null)}>
+                        Cancel
+                      </button>
+                    </form>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className={`text-sm ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                    {new Date(task.due_at).toLocaleString()}
+                  </p>
+                  {isOverdue(task) && <p className="text-xs text-red-600">Overdue</p>}
+                  {!task.completed_at && (
+                    <div className="mt-1 flex justify-end gap-3 text-gray-400">
+                      <button
+                        type="button"
+                        onClick={() => setRescheduling({ id: task.id, due_at: toDateTimeInput(task.due_at) })}
+                        className="hover:text-gray-600"
+                        title="Reschedule"
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                      </button>
+                      <Link to={`/tasks/${task.id}/edit`} className="hover:text-gray-600" title="Edit">
+                        <Edit className="h-4 w-4" />
+                      </Link>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Pagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(nextPage) => updateFilters({ page: String(nextPage) })}
+        />
+      </div>
+    </div>
+  );
+}
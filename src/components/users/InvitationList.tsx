@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { logActivity } from '../../lib/activity';
+import { assignmentLabel, inviteUser } from '../../lib/users';
+import { ArrowLeft, Mail, Plus } from 'lucide-react';
+
+export default function InvitationList() {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchInvitations();
+    }
+  }, [user]);
+
+  const fetchInvitations = async () => {
+    try {
+      // RLS limits the list to roles the current user could assign
+      const { data, error } = await supabase
+        .from('invitations')
+        .select(`
+          id,
+          email,
+          first_name,
+          last_name,
+          role_id,
+          company_id,
+          site_id,
+          expires_at,
+          created_at,
+          role:roles(name),
+          company:companies(name),
+          site:sites(name),
+          inviter:users!invitations_invited_by_fkey(first_name, last_name)
+        `)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A new invitation replaces the pending one, with a fresh link and expiry
+  const resend = async (invitation: any) => {
+    setBusyId(invitation.id);
+    setNotice('');
+    setError('');
+    try {
+      await inviteUser({
+        email: invitation.email,
+        first_name: invitation.first_name,
+        last_name: invitation.last_name,
+        role_id: invitation.role_id,
+        company_id: invitation.company_id,
+        site_id: invitation.site_id
+      });
+      setNotice(`A new invitation was sent to ${invitation.email}`);
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resend invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revoke = async (invitation: any) => {
+    if (!user) return;
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}? Its link will stop working.`)) return;
+
+    setBusyId(invitation.id);
+    setNotice('');
+    setError('');
+    try {
+      await supabase
+        .from('invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitation.id)
+        .throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'revoke',
+        resource_type: 'invitation',
+        resource_id: invitation.id,
+        details: { email: invitation.email }
+      });
+
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/users" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <div className="mt-2 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Pending Invitations</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Invitations that have not been accepted yet
+            </p>
+          </div>
+          <Link to="/users/new" className="btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            Invite User
+          </Link>
+        </div>
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="animate-pulse p-6 space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : invitations.length === 0 ? (
+          <div className="text-center py-12">
+            <Mail className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No pending invitations</h3>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Invited</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Expires</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invitations.map((invitation) => {
+                const expired = new Date(invitation.expires_at).getTime() <= Date.now();
+                return (
+                  <tr key={invitation.id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{invitation.email}</div>
+                      {(invitation.first_name || invitation.last_name) && (
+                        <div className="text-xs text-gray-500">
+                          {invitation.first_name} {invitation.last_name}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {invitation.role?.name}
+                      <span className="text-xs text-gray-400"> · {assignmentLabel(invitation)}</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(invitation.created_at).toLocaleDateString()}
+                      {invitation.inviter && (
+                        <span className="block text-xs text-gray-400">
+                          by {invitation.inviter.first_name} {invitation.inviter.last_name}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {expired ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          expired
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">{new Date(invitation.expires_at).toLocaleDateString()}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => resend(invitation)}
+                        disabled={busyId === invitation.id}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Resend
+                      </button>
+                      <button
+                        onClick={() => revoke(invitation)}
+                        disabled={busyId === invitation.id}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { RoleAssignmentValues, roleNeedsCompany, roleNeedsSite } from '../../lib/users';
+import { Role } from '../../types/auth';
+
+interface RoleAssignmentFieldsProps {
+  values: RoleAssignmentValues;
+  roles: Role[];
+  errors: Partial<Record<keyof RoleAssignmentValues, string>>;
+  onChange: (field: keyof RoleAssignmentValues, value: string) => void;
+}
+
+// Role, company and site pickers. Company and site only appear when the role
+// needs them and the manager's own scope leaves a choice.
+export default function RoleAssignmentFields({ values, roles, errors, onChange }: RoleAssignmentFieldsProps) {
+  const scope = usePermissionScope('users', 'manage');
+  const [companies, setCompanies] = useState<any[]>([]);
+  const [sites, setSites] = useState<any[]>([]);
+
+  const level = roles.find((role) => role.id === values.role_id)?.level;
+  const showCompany = scope === 'global' && roleNeedsCompany(level);
+  const showSite = scope !== 'site' && roleNeedsSite(level);
+
+  useEffect(() => {
+    if (scope === 'global') {
+      supabase
+        .from('companies')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setCompanies(data || []));
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (showSite && values.company_id) {
+      supabase
+        .from('sites')
+        .select('id, name')
+        .eq('company_id', values.company_id)
+        .eq('is_active', true)
+        .order('name')
+        .then(({ data }) => setSites(data || []));
+    } else {
+      setSites([]);
+    }
+  }, [showSite, values.company_id]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div>
+        <label htmlFor="role_id" className="label">Role</label>
+        <select
+          id="role_id"
+          className="input mt-1"
+          value={values.role_id}
+          onChange={(e) => onChange('role_id', e.target.value)}
+        >
+          <option value="">Select a role</option>
+          {roles.map((role) => (
+            <option key={role.id} value={role.id}>{role.name}</option>
+          ))}
+        </select>
+        {errors.role_id && <p className="mt-1 text-xs text-red-600">{errors.role_id}</p>}
+      </div>
+
+      {showCompany && (
+        <div>
+          <label htmlFor="company_id" className="label">Company</label>
+          <select
+            id="company_id"
+            className="input mt-1"
+            value={values.company_id}
+            onChange={(e) => onChange('company_id', e.target.value)}
+          >
+            <option value="">Select a company</option>
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>{company.name}</option>
+            ))}
+          </select>
+          {errors.company_id && <p className="mt-1 text-xs text-red-600">{errors.company_id}</p>}
+        </div>
+      )}
+
+      {showSite && (
+        <div>
+          <label htmlFor="site_id" className="label">Site</label>
+          <select
+            id="site_id"
+            className="input mt-1"
+            value={values.site_id}
+            onChange={(e) => onChange('site_id', e.target.value)}
+            disabled={!values.company_id}
+          >
+            <option value="">Select a site</option>
+            {sites.map((site) => (
+              <option key={site.id} value={site.id}>{site.name}</option>
+            ))}
+          </select>
+          {errors.site_id && <p className="mt-1 text-xs text-red-600">{errors.site_id}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAssignableRoles } from '../../hooks/useAssignableRoles';
+import { logActivity } from '../../lib/activity';
+import {
+  RoleAssignmentValues,
+  assignmentErrors,
+  assignmentLabel,
+  assignmentPayload,
+  resetUserPassword
+} from '../../lib/users';
+import RoleAssignmentFields from './RoleAssignmentFields';
+import { ArrowLeft, Edit, KeyRound, Unlock, Mail, Phone, Plus, ShieldOff, UserCheck, UserX } from 'lucide-react';
+
+export default function UserDetail() {
+  const { userId } = useParams();
+  const { user, activeRole } = useAuth();
+  const roles = useAssignableRoles();
+  const [profile, setProfile] = useState<any>(null);
+  const [assignments, setAssignments] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [newAssignment, setNewAssignment] = useState<RoleAssignmentValues>({
+    role_id: '',
+    company_id: activeRole?.company?.id ?? '',
+    site_id: activeRole?.site?.id ?? ''
+  });
+  const [assignmentFieldErrors, setAssignmentFieldErrors] = useState<
+    Partial<Record<keyof RoleAssignmentValues, string>>
+  >({});
+
+  const isSelf = user?.id === userId;
+  const isLocked = !!profile?.locked_until && new Date(profile.locked_until) > new Date();
+  const myLevel = activeRole?.role.level ?? Infinity;
+
+  useEffect(() => {
+    if (userId) {
+      fetchUser(userId);
+    }
+  }, [userId]);
+
+  const fetchUser = async (id: string) => {
+    try {
+      const [profileResult, assignmentsResult] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, first_name, last_name, email, phone, is_active, must_change_password, locked_until, totp_enabled_at, created_at')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('user_roles')
+          .select(`
+            id,
+            is_active,
+            assigned_at,
+            role:roles(id, name, level),
+            company:companies(name),
+            site:sites(name),
+            assigner:users!user_roles_assigned_by_fkey(first_name, last_name)
+          `)
+          .eq('user_id', id)
+          .order('assigned_at', { ascending: false })
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+
+      setProfile(profileResult.data);
+      setAssignments(assignmentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching user:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleActive = async () => {
+    if (!user || !profile || !userId) return;
+    const nextActive = !profile.is_active;
+    if (!nextActive && !window.confirm(`Deactivate ${profile.first_name} ${profile.last_name}? They will be signed out.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+    try {
+      const { data } = await supabase
+        .from('users')
+        .update({ is_active: nextActive, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .select('id')
+        .throwOnError();
+      if (!data?.length) throw new Error('You cannot change the status of this user');
+
+      await logActivity({
+        user_id: user.id,
+        action: nextActive ? 'reactivate' : 'deactivate',
+        resource_type: 'user',
+        resource_id: userId,
+        details: { email: profile.email }
+      });
+
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error updating user status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update user status');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetPassword = async () => {
+    if (!profile || !userId) return;
+    if (!window.confirm(
+      `Reset the password of ${profile.first_name} ${profile.last_name}? They will be signed out and emailed a link to choose a new one.`
+    )) return;
+
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await resetUserPassword(userId);
+      setNotice(`A password reset link was sent to ${profile.email}`);
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Lifts a lock from too many failed sign-ins; earlier failures stop counting
+  const unlock = async () => {
+    if (!user || !profile || !userId) return;
+
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await supabase.rpc('unlock_user', { p_user_id: userId }).throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'unlock',
+        resource_type: 'user',
+        resource_id: userId,
+        details: { email: profile.email }
+      });
+
+      setNotice(`${profile.first_name} ${profile.last_name} can sign in again`);
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to unlock user');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // For someone who lost both their authenticator and their recovery codes
+  const resetTwoFactor = async () => {
+    if (!user || !profile || !userId) return;
+    if (!window.confirm(
+      `Remove the authenticator of ${profile.first_name} ${profile.last_name}? If their role requires two-factor authentication, they will set it up again at their next sign-in.`
+    )) return;
+
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await supabase.rpc('reset_two_factor', { p_user_id: userId }).throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'reset',
+        resource_type: 'two_factor',
+        resource_id: userId,
+        details: { email: profile.email }
+      });
+
+      setNotice('Two-factor authentication was reset');
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Revoking keeps the assignment so it can be restored, and so its history stays
+  const toggleAssignment = async (assignment: any) => {
+    if (!user || !profile || !userId) return;
+    const nextActive = !assignment.is_active;
+
+    setBusy(true);
+    setError('');
+    try {
+      await supabase
+        .from('user_roles')
+        .update({ is_active: nextActive })
+        .eq('id', assignment.id)
+        .throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: nextActive ? 'assign' : 'revoke',
+        resource_type: 'user_role',
+        resource_id: assignment.id,
+        details: { email: profile.email, role_name: assignment.role?.name }
+      });
+
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error updating role assignment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update role assignment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setAssignmentField = (field: keyof RoleAssignmentValues, value: string) => {
+    setNewAssignment((current) => ({
+      ...current,
+      [field]: value,
+      ...(field === 'company_id' ? { site_id: '' } : {})
+    }));
+    setAssignmentFieldErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile || !userId) return;
+
+    const role = roles.find((option) => option.id === newAssignment.role_id);
+    const fieldErrors = assignmentErrors(newAssignment, role?.level);
+    setAssignmentFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const { data } = await supabase
+        .from('user_roles')
+        .insert({ user_id: userId, ...assignmentPayload(newAssignment, role?.level) })
+        .select('id')
+        .single()
+        .throwOnError();
+
+      await logActivity({
+        user_id: user.id,
+        action: 'assign',
+        resource_type: 'user_role',
+        resource_id: data.id,
+        details: { email: profile.email, role_name: role?.name }
+      });
+
+      setNewAssignment((current) => ({ ...current, role_id: '' }));
+      await fetchUser(userId);
+    } catch (error) {
+      console.error('Error assigning role:', error);
+      setError(
+        error instanceof PostgrestError && error.code === '23505'
+          ? 'This role is already assigned here; restore it instead'
+          : error instanceof Error ? error.message : 'Failed to assign role'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 text-center py-12">
+        <h3 className="text-sm font-medium text-gray-900">User not found</h3>
+        <Link to="/users" className="mt-2 inline-block text-sm text-blue-600 hover:text-blue-800">
+          Back to users
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link to="/users" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <div className="mt-2 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {profile.first_name} {profile.last_name}
+            </h1>
+            <span
+              className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                profile.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {profile.is_active ? 'active' : 'inactive'}
+            </span>
+            {isLocked && (
+              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                locked
+              </span>
+            )}
+          </div>
+          {!isSelf && (
+            <div className="flex space-x-3">
+              <Link to={`/users/${userId}/edit`} className="btn-secondary">
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Link>
+              {isLocked && (
+                <button onClick={unlock} disabled={busy} className="btn-secondary">
+                  <Unlock className="h-4 w-4 mr-2" />
+                  Unlock
+                </button>
+              )}
+              <button onClick={resetPassword} disabled={busy || !profile.is_active} className="btn-secondary">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Reset Password
+              </button>
+              {profile.totp_enabled_at && (
+                <button onClick={resetTwoFactor} disabled={busy} className="btn-secondary">
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Reset 2FA
+                </button>
+              )}
+              <button
+                onClick={toggleActive}
+                disabled={busy}
+                className={profile.is_active ? 'btn-danger' : 'btn-primary'}
+              >
+                {profile.is_active ? (
+                  <UserX className="h-4 w-4 mr-2" />
+                ) : (
+                  <UserCheck className="h-4 w-4 mr-2" />
+                )}
+                {profile.is_active ? 'Deactivate' : 'Reactivate'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {notice && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="flex items-center text-sm text-gray-700">
+            <Mail className="h-4 w-4 mr-2 text-gray-400" />
+            {profile.email}
+          </div>
+          <div className="flex items-center text-sm text-gray-700">
+            <Phone className="h-4 w-4 mr-2 text-gray-400" />
+            {profile.phone || '—'}
+          </div>
+          <div className="text-sm text-gray-500">
+            Member since {new Date(profile.created_at).toLocaleDateString()}
+            {profile.must_change_password && (
+              <span className="block text-xs text-yellow-700">Has to choose a new password</span>
+            )}
+            {profile.totp_enabled_at && (
+              <span className="block text-xs text-gray-500">Two-factor authentication on</span>
+            )}
+            {isLocked && (
+              <span className="block text-xs text-red-700">
+                Locked after failed sign-ins until {new Date(profile.locked_until).toLocaleString()}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Roles</h3>
+        </div>
+        {assignments.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No roles assigned.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Scope</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Assigned</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {assignments.map((assignment) => (
+                <tr key={assignment.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{assignment.role?.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{assignmentLabel(assignment)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {new Date(assignment.assigned_at).toLocaleDateString()}
+                    {assignment.assigner && (
+                      <span className="block text-xs text-gray-400">
+                        by {assignment.assigner.first_name} {assignment.assigner.last_name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span
+                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        assignment.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {assignment.is_active ? 'active' : 'revoked'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm">
+                    {!isSelf && (assignment.role?.level ?? 0) > myLevel && (
+                      <button
+                        onClick={() => toggleAssignment(assignment)}
+                        disabled={busy}
+                        className={assignment.is_active ? 'text-red-600 hover:text-red-800' : 'text-blue-600 hover:text-blue-800'}
+                      >
+                        {assignment.is_active ? 'Revoke' : 'Restore'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {!isSelf && roles.length > 0 && (
+          <form onSubmit={handleAssign} className="px-6 py-4 border-t border-gray-200 space-y-4">
+            <RoleAssignmentFields
+              values={newAssignment}
+              roles={roles}
+              errors={assignmentFieldErrors}
+              onChange={setAssignmentField}
+            />
+            <div className="flex justify-end">
+              <button type="submit" disabled={busy} className="btn-secondary">
+                <Plus className="h-4 w-4 mr-2" />
+                Assign Role
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
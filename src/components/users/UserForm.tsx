@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAssignableRoles } from '../../hooks/useAssignableRoles';
+import { logActivity } from '../../lib/activity';
+import { validateEmail, validatePhone } from '../../lib/validation';
+import {
+  RoleAssignmentValues,
+  assignmentErrors,
+  assignmentPayload,
+  inviteUser
+} from '../../lib/users';
+import RoleAssignmentFields from './RoleAssignmentFields';
+import { ArrowLeft, Save, Send } from 'lucide-react';
+
+interface UserFormValues extends RoleAssignmentValues {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+}
+
+type FormErrors = Partial<Record<keyof UserFormValues, string>>;
+
+export default function UserForm() {
+  const { userId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { user, activeRole } = useAuth();
+  const roles = useAssignableRoles();
+  const navigate = useNavigate();
+  const isEdit = Boolean(userId);
+
+  const [values, setValues] = useState<UserFormValues>({
+    first_name: '',
+    last_name: '',
+    email: '',
+    phone: '',
+    role_id: '',
+    company_id: activeRole?.company?.id ?? '',
+    site_id: activeRole?.site?.id ?? ''
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  const level = roles.find((role) => role.id === values.role_id)?.level;
+
+  useEffect(() => {
+    if (userId) {
+      fetchUser(userId);
+    }
+  }, [userId]);
+
+  // ?preset_role=Commercial preselects a role, e.g. from "Invite Commercial"
+  useEffect(() => {
+    const roleName = searchParams.get('preset_role');
+    const preset = roles.find((role) => role.name === roleName);
+    if (!isEdit && preset) {
+      setValues((current) => ({ ...current, role_id: current.role_id || preset.id }));
+    }
+  }, [roles]);
+
+  const fetchUser = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, first_name, last_name, email, phone')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setValues((current) => ({
+        ...current,
+        first_name: data.first_name,
+        last_name: data.last_name,
+        email: data.email,
+        phone: data.phone ?? ''
+      }));
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      setSubmitError('User not found or not accessible.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = (field: keyof UserFormValues, value: string) => {
+    setValues((current) => {
+      const next = { ...current, [field]: value };
+      // A different company invalidates the site chosen under it
+      if (field === 'company_id') {
+        next.site_id = '';
+      }
+      return next;
+    });
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    if (!values.email.trim()) nextErrors.email = 'Email is required';
+
+    const emailError = validateEmail(values.email.trim());
+    if (emailError) nextErrors.email = emailError;
+
+    if (isEdit) {
+      if (!values.first_name.trim()) nextErrors.first_name = 'First name is required';
+      if (!values.last_name.trim()) nextErrors.last_name = 'Last name is required';
+
+      const phoneError = validatePhone(values.phone.trim());
+      if (phoneError) nextErrors.phone = phoneError;
+    } else {
+      Object.assign(nextErrors, assignmentErrors(values, level));
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    setSubmitError('');
+
+    const profile = {
+      first_name: values.first_name.trim(),
+      last_name: values.last_name.trim(),
+      email: values.email.trim().toLowerCase(),
+      phone: values.phone.trim() || null
+    };
+
+    try {
+      // Invitations are logged by the edge function that sends them
+      if (!userId) {
+        await inviteUser({
+          email: profile.email,
+          first_name: profile.first_name || null,
+          last_name: profile.last_name || null,
+          ...assignmentPayload(values, level)
+        });
+        navigate('/users/invitations');
+        return;
+      }
+
+      const { data } = await supabase
+        .from('users')
+        .update({ ...profile, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .select('id')
+        .throwOnError();
+      if (!data?.length) throw new Error('You cannot edit this user');
+
+      await logActivity({
+        user_id: user.id,
+        action: 'update',
+        resource_type: 'user',
+        resource_id: userId,
+        details: { email: profile.email }
+      });
+
+      navigate(`/users/${userId}`);
+    } catch (error) {
+      console.error('Error saving user:', error);
+      setSubmitError(
+        error instanceof PostgrestError && error.code === '23505'
+          ? 'A user with this email already exists'
+          : error instanceof Error ? error.message : 'Failed to save user'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link
+          to={userId ? `/users/${userId}` : '/users'}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEdit ? 'Edit User' : 'Invite User'}
+        </h1>
+        {!isEdit && (
+          <p className="mt-1 text-sm text-gray-500">
+            They will receive a link to choose their own password. The name is optional; they can change it.
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        {submitError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {submitError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="first_name" className="label">First Name</label>
+            <input
+              id="first_name"
+              className="input mt-1"
+              value={values.first_name}
+              onChange={(e) => setField('first_name', e.target.value)}
+            />
+            {errors.first_name && <p className="mt-1 text-xs text-red-600">{errors.first_name}</p>}
+          </div>
+          <div>
+            <label htmlFor="last_name" className="label">Last Name</label>
+            <input
+              id="last_name"
+              className="input mt-1"
+              value={values.last_name}
+              onChange={(e) => setField('last_name', e.target.value)}
+            />
+            {errors.last_name && <p className="mt-1 text-xs text-red-600">{errors.last_name}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="email" className="label">Email</label>
+            <input
+              id="email"
+              type="email"
+              className="input mt-1"
+              value={values.email}
+              onChange={(e) => setField('email', e.target.value)}
+            />
+            {errors.email && <p className="mt-1 text-xs text-red-600">{errors.email}</p>}
+          </div>
+          {isEdit && (
+            <div>
+              <label htmlFor="phone" className="label">Phone</label>
+              <input
+                id="phone"
+                type="tel"
+                className="input mt-1"
+                value={values.phone}
+                onChange={(e) => setField('phone', e.target.value)}
+              />
+              {errors.phone && <p className="mt-1 text-xs text-red-600">{errors.phone}</p>}
+            </div>
+          )}
+        </div>
+
+        {!isEdit && (
+          <RoleAssignmentFields values={values} roles={roles} errors={errors} onChange={setField} />
+        )}
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="btn-primary">
+            {isEdit ? <Save className="h-4 w-4 mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+            {saving ? 'Saving...' : isEdit ? 'Save User' : 'Send Invitation'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissionScope } from '../../hooks/usePermission';
+import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { scopeFilter } from '../../lib/permissions';
+import { assignmentLabel } from '../../lib/users';
+import Pagination from '../Pagination';
+import { Users, Mail, Plus, Search } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+export default function UserList() {
+  const { user, activeRole } = useAuth();
+  const scope = usePermissionScope('users', 'manage');
+  const navigate = useNavigate();
+  const { searchParams, updateFilters, page } = useSearchFilters();
+  const [users, setUsers] = useState<any[]>([]);
+  const [roles, setRoles] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') ?? '');
+
+  const search = searchParams.get('q') ?? '';
+  const status = searchParams.get('status') ?? '';
+  const roleId = searchParams.get('role_filter') ?? '';
+
+  useEffect(() => {
+    if (user && activeRole && scope) {
+      fetchUsers();
+    }
+  }, [user, activeRole, scope, search, status, roleId, page]);
+
+  useEffect(() => {
+    supabase
+      .from('roles')
+      .select('id, name')
+      .order('level')
+      .then(({ data }) => setRoles(data || []));
+  }, []);
+
+  const fetchUsers = async () => {
+    if (!user || !activeRole || !scope) return;
+
+    setLoading(true);
+    try {
+      // Managers only list people holding a role in their company or site;
+      // the inner join drops everyone else, and roles held elsewhere
+      const filter = scopeFilter(scope, activeRole, user.id, {
+        company: 'user_roles.company_id',
+        site: 'user_roles.site_id',
+        personal: 'user_roles.user_id'
+      });
+      const rolesJoin = filter || roleId ? '!inner' : '';
+
+      let query = supabase
+        .from('users')
+        .select(`
+          id,
+          first_name,
+          last_name,
+          email,
+          is_active,
+          locked_until,
+          created_at,
+          user_roles!user_roles_user_id_fkey${rolesJoin}(
+            id,
+            is_active,
+            role:roles(name),
+            company:companies(name),
+            site:sites(name)
+          )
+        `, { count: 'exact' })
+        .order('first_name')
+        .order('last_name')
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (filter) {
+        query = query.eq(filter[0], filter[1]);
+      }
+      if (roleId) {
+        query = query.eq('user_roles.role_id', roleId);
+      }
+      if (search) {
+        query = query.or(`first_name.ilike.%${search}%,last_name.ilike.%${search}%,email.ilike.%${search}%`);
+      }
+      if (status) {
+        query = query.eq('is_active', status === 'active');
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setUsers(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim(), page: '' });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {scope === 'site' ? `People working at ${activeRole?.site?.name}` :
+             scope === 'company' ? `People working at ${activeRole?.company?.name}` :
+             'All users'}
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <Link to="/users/invitations" className="btn-secondary">
+            <Mail className="h-4 w-4 mr-2" />
+            Pending Invitations
+          </Link>
+          <Link to="/users/new" className="btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            Invite User
+          </Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                className="input pl-9"
+                placeholder="Search by name or email"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <button type="submit" className="btn-secondary">Search</button>
+          </form>
+          <select
+            className="input md:w-48"
+            value={roleId}
+            onChange={(e) => updateFilters({ role_filter: e.target.value, page: '' })}
+          >
+            <option value="">All roles</option>
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>{role.name}</option>
+            ))}
+          </select>
+          <select
+            className="input md:w-40"
+            value={status}
+            onChange={(e) => updateFilters({ status: e.target.value, page: '' })}
+          >
+            <option value="">All statuses</option>
+            <option value="active">active</option>
+            <option value="inactive">inactive</option>
+          </select>
+        </div>
+      </div>
+
+      {/* User Table */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Email</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Roles</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {!loading && users.map((listedUser) => (
+              <tr
+                key={listedUser.id}
+                onClick={() => navigate(`/users/${listedUser.id}`)}
+                className="hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                  {listedUser.first_name} {listedUser.last_name}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">{listedUser.email}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {listedUser.user_roles
+                    .filter((assignment: any) => assignment.is_active)
+                    .map((assignment: any) => (
+                      <div key={assignment.id}>
+                        {assignment.role?.name}
+                        <span className="text-xs text-gray-400"> · {assignmentLabel(assignment)}</span>
+                      </div>
+                    ))}
+                </td>
+                <td className="px-6 py-4">
+                  <span
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      listedUser.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {listedUser.is_active ? 'active' : 'inactive'}
+                  </span>
+                  {listedUser.locked_until && new Date(listedUser.locked_until) > new Date() && (
+                    <span className="ml-2 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      locked
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {loading && (
+          <div className="p-6 animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-6 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        )}
+
+        {!loading && users.length === 0 && (
+          <div className="text-center py-12">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No users found</h3>
+            <p className="mt-1 text-sm text-gray-500">Try changing the filters or invite someone.</p>
+          </div>
+        )}
+
+        <Pagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(nextPage) => updateFilters({ page: String(nextPage) })}
+        />
+      </div>
+    </div>
+  );
+}
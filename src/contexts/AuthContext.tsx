@@ -1,17 +1,43 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
-import { User } from '../types/auth';
-import bcrypt from 'bcryptjs';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { setAccessToken } from '../lib/supabase';
+import { FunctionError } from '../lib/functions';
+import * as authApi from '../lib/authApi';
+import { Permission, User, UserRole } from '../types/auth';
 
 interface AuthContextType {
   user: User | null;
+  activeRole: UserRole | null;
+  permissions: Permission[];
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  switchRole: (userRoleId: string) => void;
+  hasPermission: (resource: string, action: string | string[]) => boolean;
+  // Resolves to the next step instead of signing in when the password has to
+  // change or a second factor is needed
+  login: (email: string, password: string) => Promise<authApi.LoginStep | null>;
+  // Signs in with the second factor; resolves to new recovery codes when
+  // this turned two-factor authentication on
+  verifyTwoFactor: (twoFactorToken: string, code: string) => Promise<string[] | null>;
+  // Re-reads the user, e.g. after changing their own security settings
+  refreshSession: () => Promise<void>;
   logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Only the signed access token is persisted; the user and roles are always
+// fetched from the auth service.
+const ACCESS_TOKEN_STORAGE_KEY = 'access_token';
+
+// The chosen role context (role + company + site), as a user_roles id
+const ACTIVE_ROLE_STORAGE_KEY = 'active_role_id';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// A failed refresh is retried after 5s, 10s, 20s... up to a minute apart
+const REFRESH_RETRY_MS = 5 * 1000;
+const REFRESH_RETRY_MAX_MS = 60 * 1000;
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -20,100 +46,174 @@ export function useAuth() {
   return context;
 }
 
+// Highest level role (lowest number = highest level)
+function defaultRole(roles: UserRole[]) {
+  if (!roles.length) return null;
+  return roles.reduce((highest, current) =>
+    current.role.level < highest.role.level ? current : highest
+  );
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [activeRoleId, setActiveRoleId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_ROLE_STORAGE_KEY)
+  );
   const [loading, setLoading] = useState(true);
+  const [refreshFailures, setRefreshFailures] = useState(0);
+
+  // Falls back to the default role when the stored one is no longer active
+  const activeRole = useMemo(() => {
+    if (!user) return null;
+    return user.roles.find((role) => role.id === activeRoleId) ?? defaultRole(user.roles);
+  }, [user, activeRoleId]);
+
+  // Effective permission set of the active role, resolved server-side
+  const permissions = useMemo(() => activeRole?.role.permissions ?? [], [activeRole]);
+
+  // An action matches exactly ('manage_site') or by verb across every
+  // scope ('manage' matches 'manage_global', 'manage_site', ...)
+  const hasPermission = useCallback((resource: string, action: string | string[]) => {
+    const actions = Array.isArray(action) ? action : [action];
+    return permissions.some((permission) =>
+      permission.resource === resource &&
+      actions.some((a) => permission.action === a || permission.action.startsWith(`${a}_`))
+    );
+  }, [permissions]);
+
+  const switchRole = useCallback((userRoleId: string) => {
+    setActiveRoleId(userRoleId);
+    localStorage.setItem(ACTIVE_ROLE_STORAGE_KEY, userRoleId);
+  }, []);
 
-  useEffect(() => {
-    // Check if user is logged in from localStorage
-    const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setLoading(false);
+  const startSession = useCallback((session: authApi.AuthSession) => {
+    setAccessToken(session.access_token);
+    localStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, session.access_token);
+    setUser(session.user);
+    setExpiresAt(session.expires_at);
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const clearSession = useCallback(() => {
+    setAccessToken(null);
+    setUser(null);
+    setExpiresAt(null);
+    setRefreshFailures(0);
+  }, []);
+
+  // Removing the token also signs out every other open tab (see below)
+  const endSession = useCallback(() => {
+    clearSession();
+    setActiveRoleId(null);
+    localStorage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(ACTIVE_ROLE_STORAGE_KEY);
+  }, [clearSession]);
+
+  // Only a token the server rejects ends the session; when the server cannot
+  // be reached or fails, the token is kept and the refresh retried
+  const refreshSession = useCallback(async () => {
     try {
-      // Get user with password hash
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', email)
-        .eq('is_active', true)
-        .single();
-
-      if (userError || !userData) {
-        throw new Error('Invalid email or password');
+      startSession(await authApi.refresh());
+      setRefreshFailures(0);
+    } catch (error) {
+      if (error instanceof FunctionError && error.status === 401) {
+        console.error('Session ended:', error);
+        endSession();
+        return;
       }
+      console.error('Error refreshing session:', error);
+      setRefreshFailures((failures) => failures + 1);
+    }
+  }, [startSession, endSession]);
+
+  useEffect(() => {
+    // Re-validate the stored token with the server instead of trusting it
+    const storedToken = localStorage.getItem(ACCESS_TOKEN_STORAGE_KEY);
+    if (!storedToken) {
+      setLoading(false);
+      return;
+    }
+
+    setAccessToken(storedToken);
+    refreshSession().finally(() => setLoading(false));
+  }, [refreshSession]);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const delay = Math.max(expiresAt * 1000 - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(refreshSession, delay);
+    return () => clearTimeout(timer);
+  }, [expiresAt, refreshSession]);
+
+  useEffect(() => {
+    if (!refreshFailures) return;
+
+    const delay = Math.min(REFRESH_RETRY_MS * 2 ** (refreshFailures - 1), REFRESH_RETRY_MAX_MS);
+    const timer = setTimeout(refreshSession, delay);
+    return () => clearTimeout(timer);
+  }, [refreshFailures, refreshSession]);
 
-      // Verify password
-      const isValidPassword = await bcrypt.compare(password, userData.password_hash);
-      if (!isValidPassword) {
-        throw new Error('Invalid email or password');
+  useEffect(() => {
+    // Follow logins, refreshes and logouts made in other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== null && event.key !== ACCESS_TOKEN_STORAGE_KEY) return;
+
+      if (!event.newValue) {
+        clearSession();
+        return;
       }
 
-      // Get user roles with related data
-      const { data: userRoles, error: rolesError } = await supabase
-        .from('user_roles')
-        .select(`
-          id,
-          is_active,
-          role:roles(*),
-          company:companies(*),
-          site:sites(*)
-        `)
-        .eq('user_id', userData.id)
-        .eq('is_active', true);
-
-      if (rolesError) {
-        throw new Error('Failed to fetch user roles');
+      setAccessToken(event.newValue);
+      if (user) {
+        setExpiresAt(authApi.tokenExpiry(event.newValue));
+      } else {
+        refreshSession();
       }
+    };
 
-      const user: User = {
-        id: userData.id,
-        email: userData.email,
-        first_name: userData.first_name,
-        last_name: userData.last_name,
-        phone: userData.phone,
-        is_active: userData.is_active,
-        roles: userRoles || []
-      };
-
-      setUser(user);
-      localStorage.setItem('user', JSON.stringify(user));
-
-      // Log activity
-      await supabase.from('activity_logs').insert({
-        user_id: user.id,
-        action: 'login',
-        resource_type: 'auth',
-        details: { email }
-      });
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [user, clearSession, refreshSession]);
 
-    } catch (error) {
-      throw error;
+  const login = async (email: string, password: string) => {
+    // Credentials are verified server-side; the login activity is logged there too
+    const result = await authApi.login(email, password);
+    if ('password_change_token' in result || 'two_factor_token' in result) {
+      return result;
     }
+    startSession(result);
+    return null;
+  };
+
+  const verifyTwoFactor = async (twoFactorToken: string, code: string) => {
+    const { recovery_codes, ...session } = await authApi.verifyTwoFactor(twoFactorToken, code);
+    startSession(session);
+    return recovery_codes ?? null;
   };
 
   const logout = async () => {
     if (user) {
-      // Log activity
-      await supabase.from('activity_logs').insert({
-        user_id: user.id,
-        action: 'logout',
-        resource_type: 'auth'
-      });
+      try {
+        await authApi.logout();
+      } catch (error) {
+        console.error('Error logging out:', error);
+      }
     }
 
-    setUser(null);
-    localStorage.removeItem('user');
+    endSession();
   };
 
   const value = {
     user,
+    activeRole,
+    permissions,
     loading,
+    switchRole,
+    hasPermission,
     login,
+    verifyTwoFactor,
+    refreshSession,
     logout
   };
 
@@ -122,4 +222,4 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       {children}
     </AuthContext.Provider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Role } from '../types/auth';
+
+// Roles ranked strictly below the active role, the only ones it may assign
+export function useAssignableRoles() {
+  const { activeRole } = useAuth();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const level = activeRole?.role.level;
+
+  useEffect(() => {
+    if (level === undefined) return;
+    supabase
+      .from('roles')
+      .select('id, name, level')
+      .gt('level', level)
+      .order('level')
+      .then(({ data }) => setRoles((data as Role[]) || []));
+  }, [level]);
+
+  return roles;
+}
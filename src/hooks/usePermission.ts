@@ -0,0 +1,16 @@
+import { useAuth } from '../contexts/AuthContext';
+import { permissionScope } from '../lib/permissions';
+
+// Whether the active role grants `action` on `resource`. Pass a bare verb
+// ('manage') to accept any scope, or a list of actions to accept any of them.
+export function usePermission(resource: string, action: string | string[]) {
+  const { hasPermission } = useAuth();
+  return hasPermission(resource, action);
+}
+
+// Widest scope ('global', 'company', 'site' or 'personal') at which the
+// active role may perform `verb` on `resource`, or null when it may not
+export function usePermissionScope(resource: string, verb: string) {
+  const { activeRole } = useAuth();
+  return activeRole ? permissionScope(activeRole, resource, verb) : null;
+}
@@ -0,0 +1,23 @@
+import { useSearchParams } from 'react-router-dom';
+
+// List filters and the current page live in the query string, next to ?role=
+export function useSearchFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams((params) => {
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      return params;
+    });
+  };
+
+  const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+
+  return { searchParams, updateFilters, page };
+}
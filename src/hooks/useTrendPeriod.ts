@@ -0,0 +1,13 @@
+import { useSearchFilters } from './useSearchFilters';
+import { TrendPeriod, isTrendPeriod } from '../lib/trends';
+
+// The dashboard's comparison period, kept in ?period= so it survives reloads
+export function useTrendPeriod() {
+  const { searchParams, updateFilters } = useSearchFilters();
+  const value = searchParams.get('period');
+  const period: TrendPeriod = isTrendPeriod(value) ? value : 'month';
+
+  const setPeriod = (next: TrendPeriod) => updateFilters({ period: next === 'month' ? '' : next });
+
+  return [period, setPeriod] as const;
+}
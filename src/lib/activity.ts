@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+
+interface ActivityEntry {
+  user_id: string;
+  action: string;
+  resource_type: string;
+  resource_id?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// Activity logging never blocks the action it records
+export async function logActivity(entry: ActivityEntry) {
+  const { error } = await supabase.from('activity_logs').insert(entry);
+  if (error) {
+    console.error('Error logging activity:', error);
+  }
+}
+
+// Values offered by the activity page filters
+export const ACTIVITY_ACTIONS = [
+  'login',
+  'login_failed',
+  'logout',
+  'insert',
+  'create',
+  'update',
+  'delete',
+  'send',
+  'accept',
+  'reject',
+  'close',
+  'complete',
+  'reopen',
+  'reschedule',
+  'recalculate',
+  'assign',
+  'revoke',
+  'deactivate',
+  'reactivate',
+  'archive',
+  'restore',
+  'invite',
+  'request_reset',
+  'reset',
+  'unlock',
+  'enable',
+  'disable',
+  'regenerate',
+  'export',
+  'subscribe',
+  'unsubscribe'
+];
+
+export const ACTIVITY_RESOURCE_TYPES: Record<string, string> = {
+  auth: 'Sign-in',
+  client: 'Client',
+  proposal: 'Proposal',
+  sale: 'Sale',
+  task: 'Task',
+  sales_target: 'Sales target',
+  commission_plan: 'Commission plan',
+  company: 'Company',
+  site: 'Site',
+  user: 'User',
+  user_role: 'Role assignment',
+  invitation: 'Invitation',
+  password: 'Password',
+  two_factor: 'Two-factor authentication',
+  report: 'Report',
+  report_subscription: 'Report subscription'
+};
+
+// Human-readable subject of an entry, taken from what its details recorded
+export function activitySubject(details: Record<string, any> | null | undefined) {
+  if (!details) return '';
+  // Entries written by the audit triggers carry the row itself
+  const row = details.new ?? details.old;
+  if (details.changes) {
+    return `Changed ${Object.keys(details.changes).join(', ')}`;
+  }
+  return (
+    row?.title ??
+    row?.name ??
+    row?.email ??
+    details.task_title ??
+    details.proposal_title ??
+    details.client_name ??
+    details.plan_name ??
+    details.company_name ??
+    details.site_name ??
+    details.period ??
+    details.email ??
+    details.report ??
+    ''
+  );
+}
@@ -0,0 +1,90 @@
+import { invokeFunction } from './functions';
+import { User } from '../types/auth';
+
+export interface AuthSession {
+  access_token: string;
+  expires_at: number;
+  user: User;
+}
+
+function callAuth<T>(route: string, body?: Record<string, unknown>): Promise<T> {
+  return invokeFunction<T>(`auth/${route}`, body, 'Authentication request failed');
+}
+
+// Returned instead of a session to someone who must change their password
+export interface PasswordChangeRequired {
+  password_change_token: string;
+}
+
+// Returned instead of a session when a second factor is needed; 'enroll'
+// means the authenticator has to be set up first
+export interface TwoFactorRequired {
+  two_factor_token: string;
+  two_factor: 'verify' | 'enroll';
+}
+
+export type LoginStep = PasswordChangeRequired | TwoFactorRequired;
+
+export function login(email: string, password: string) {
+  return callAuth<AuthSession | LoginStep>('login', { email, password });
+}
+
+// The stored token is re-validated by the server on every refresh, so this
+// only tells the client when to refresh; it grants nothing by itself.
+export function tokenExpiry(token: string) {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp : null;
+  } catch {
+    return null;
+  }
+}
+
+export function refresh() {
+  return callAuth<AuthSession>('refresh');
+}
+
+export function logout() {
+  return callAuth<{ ok: boolean }>('logout');
+}
+
+// Always succeeds, whether or not the address has an account
+export function forgotPassword(email: string) {
+  return callAuth<{ ok: boolean }>('forgot-password', { email });
+}
+
+export function resetPassword(token: string, password: string) {
+  return callAuth<{ email: string }>('reset-password', { token, password });
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_uri: string;
+  // Data URL of the QR code for `otpauth_uri`
+  qr_code: string;
+}
+
+// `recovery_codes` is only present when this sign-in turned two-factor on
+export function verifyTwoFactor(twoFactorToken: string, code: string) {
+  return callAuth<AuthSession & { recovery_codes?: string[] }>('two-factor-verify', {
+    two_factor_token: twoFactorToken,
+    code
+  });
+}
+
+// Mid sign-in with its token, otherwise for the signed-in user
+export function setupTwoFactor(twoFactorToken?: string) {
+  return callAuth<TwoFactorSetup>('two-factor-setup', twoFactorToken ? { two_factor_token: twoFactorToken } : {});
+}
+
+export function enableTwoFactor(code: string) {
+  return callAuth<{ recovery_codes: string[] }>('two-factor-enable', { code });
+}
+
+export function disableTwoFactor(code: string) {
+  return callAuth<{ ok: boolean }>('two-factor-disable', { code });
+}
+
+export function regenerateRecoveryCodes(code: string) {
+  return callAuth<{ recovery_codes: string[] }>('recovery-codes', { code });
+}
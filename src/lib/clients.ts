@@ -0,0 +1,12 @@
+export const CLIENT_STATUSES = ['prospect', 'active', 'inactive'] as const;
+
+export function clientStatusClass(status: string) {
+  switch (status) {
+    case 'active':
+      return 'bg-green-100 text-green-800';
+    case 'prospect':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
@@ -0,0 +1,33 @@
+import { CommissionPlan, CommissionPlanType } from '../types/auth';
+
+export const PLAN_TYPE_LABELS: Record<CommissionPlanType, string> = {
+  flat: 'Flat rate',
+  tiered: 'Tiered',
+  accelerator: 'Accelerator'
+};
+
+// One-line summary of how the plan computes commission
+export function describePlan(
+  plan: Pick<CommissionPlan, 'plan_type' | 'rate' | 'tiers' | 'accelerator_threshold' | 'accelerator_rate'>
+) {
+  switch (plan.plan_type) {
+    case 'flat':
+      return `${plan.rate}% of each sale`;
+    case 'tiered':
+      return [...plan.tiers]
+        .sort((a, b) => a.from - b.from)
+        .map((tier) => `${tier.rate}% from $${tier.from.toLocaleString()}`)
+        .join(', ');
+    case 'accelerator':
+      return plan.accelerator_threshold == null
+        ? `${plan.rate}%, then ${plan.accelerator_rate}% above target`
+        : `${plan.rate}%, then ${plan.accelerator_rate}% above $${plan.accelerator_threshold.toLocaleString()} a month`;
+  }
+}
+
+// Which level a plan is set at; the most specific one applies to a sale
+export function planScopeLabel(plan: { site_id?: string | null; user_id?: string | null }) {
+  if (plan.user_id) return 'User';
+  if (plan.site_id) return 'Site';
+  return 'Company';
+}
@@ -0,0 +1,103 @@
+import { supabase } from './supabase';
+import { Database } from '../types/database';
+import { TrendPeriod, TrendValue, TrendWindow, trendWindows } from './trends';
+
+type DashboardKpisFunction = Database['public']['Functions']['dashboard_kpis'];
+type DashboardChartsFunction = Database['public']['Functions']['dashboard_charts'];
+
+export type DashboardScope = DashboardKpisFunction['Args']['p_scope'];
+export type DashboardKpis = DashboardKpisFunction['Returns'];
+export type DashboardCharts = DashboardChartsFunction['Returns'];
+export type ChartGrain = DashboardChartsFunction['Args']['p_grain'];
+
+// Sales-over-time buckets for each dashboard period
+export const TREND_PERIOD_GRAINS: Record<TrendPeriod, ChartGrain> = {
+  week: 'day',
+  month: 'day',
+  quarter: 'week',
+  year: 'month'
+};
+
+type NumericKpi = {
+  [K in keyof DashboardKpis]: DashboardKpis[K] extends number ? K : never;
+}[keyof DashboardKpis];
+
+export async function fetchKpis(scope: DashboardScope, scopeId: string | null, window: TrendWindow) {
+  const { data, error } = await supabase.rpc('dashboard_kpis', {
+    p_scope: scope,
+    p_scope_id: scopeId,
+    p_from: window.start.toISOString(),
+    p_to: window.end.toISOString()
+  });
+  if (error) throw error;
+  return data as DashboardKpis;
+}
+
+// KPIs for the selected period so far and the same stretch of the one before
+export async function fetchKpiTrends(scope: DashboardScope, scopeId: string | null, period: TrendPeriod) {
+  const windows = trendWindows(period);
+  const [current, previous] = await Promise.all([
+    fetchKpis(scope, scopeId, windows.current),
+    fetchKpis(scope, scopeId, windows.previous)
+  ]);
+  return { current, previous };
+}
+
+export function kpiTrend(kpis: { current: DashboardKpis; previous: DashboardKpis }, key: NumericKpi): TrendValue {
+  return { current: Number(kpis.current[key]), previous: Number(kpis.previous[key]) };
+}
+
+// Buckets are cut in the browser's time zone, like the trend windows
+export async function fetchCharts(scope: DashboardScope, scopeId: string | null, window: TrendWindow, grain: ChartGrain) {
+  const { data, error } = await supabase.rpc('dashboard_charts', {
+    p_scope: scope,
+    p_scope_id: scopeId,
+    p_from: window.start.toISOString(),
+    p_to: window.end.toISOString(),
+    p_grain: grain,
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  });
+  if (error) throw error;
+  return data as DashboardCharts;
+}
+
+export const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Inclusive dates a chart bucket covers, clipped to the window it was
+// charted for (a week bucket can start before the quarter does)
+export function bucketDates(period: string, grain: ChartGrain, window: TrendWindow) {
+  const start = parseLocalDate(period);
+  const end = new Date(start);
+  if (grain === 'month') {
+    end.setMonth(end.getMonth() + 1);
+  } else {
+    end.setDate(end.getDate() + (grain === 'week' ? 7 : 1));
+  }
+  end.setDate(end.getDate() - 1);
+
+  const lastDay = new Date(window.end.getTime() - 1);
+  return {
+    from: toLocalDate(start < window.start ? window.start : start),
+    to: toLocalDate(end > lastDay ? lastDay : end)
+  };
+}
+
+const withParams = (path: string, params: Record<string, string | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => value && search.set(key, value));
+  return `${path}?${search}`;
+};
+
+// Drill-downs: sales are listed by the commission statement report,
+// proposals by the proposal list
+export const salesListUrl = (filters: { from: string; to: string; site?: string; commercial?: string }) =>
+  withParams('/reports/commission_statement', filters);
+
+export const proposalListUrl = (filters: { from: string; to: string; status?: string; sent?: string }) =>
+  withParams('/proposals', filters);
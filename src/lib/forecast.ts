@@ -0,0 +1,24 @@
+import { supabase } from './supabase';
+import { Database } from '../types/database';
+import { DashboardScope } from './dashboard';
+import { TargetPeriodType } from '../types/auth';
+
+export type RevenueForecast = Database['public']['Functions']['revenue_forecast']['Returns'];
+export type ForecastFigures = Pick<RevenueForecast['companies'][number], 'target' | 'closed' | 'commit' | 'best_case' | 'pipeline'>;
+
+// Forecast for the current period and the `periods - 1` following ones
+export async function fetchForecast(
+  scope: DashboardScope,
+  scopeId: string | null,
+  periodType: TargetPeriodType,
+  periods: number
+) {
+  const { data, error } = await supabase.rpc('revenue_forecast', {
+    p_scope: scope,
+    p_scope_id: scopeId,
+    p_period_type: periodType,
+    p_periods: periods
+  });
+  if (error) throw error;
+  return data as RevenueForecast;
+}
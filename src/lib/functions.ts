@@ -0,0 +1,38 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// `status` is the HTTP status the function responded with, null when it
+// could not be reached
+export class FunctionError extends Error {
+  constructor(message: string, public status: number | null) {
+    super(message);
+    this.name = 'FunctionError';
+  }
+}
+
+// Calls an edge function route and surfaces the `{ error }` message it
+// responds with, falling back to `fallbackMessage`
+export async function invokeFunction<T>(
+  path: string,
+  body: Record<string, unknown> | undefined,
+  fallbackMessage: string
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(path, {
+    body: body ?? {}
+  });
+
+  if (error) {
+    let message = fallbackMessage;
+    let status: number | null = null;
+    if (error instanceof FunctionsHttpError) {
+      status = error.context.status;
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) {
+        message = payload.error;
+      }
+    }
+    throw new FunctionError(message, status);
+  }
+
+  return data as T;
+}
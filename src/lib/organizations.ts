@@ -0,0 +1,18 @@
+export type OrganizationStatus = 'active' | 'inactive' | 'archived';
+
+// Companies and sites: archived ones are always inactive too
+export function organizationStatus(row: { is_active: boolean | null; archived_at?: string | null }): OrganizationStatus {
+  if (row.archived_at) return 'archived';
+  return row.is_active ? 'active' : 'inactive';
+}
+
+export function organizationStatusClass(status: OrganizationStatus) {
+  switch (status) {
+    case 'active':
+      return 'bg-green-100 text-green-800';
+    case 'inactive':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
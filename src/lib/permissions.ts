@@ -0,0 +1,35 @@
+import { UserRole } from '../types/auth';
+
+export type PermissionScope = 'global' | 'company' | 'site' | 'personal';
+
+const SCOPES: PermissionScope[] = ['global', 'company', 'site', 'personal'];
+
+// Widest scope at which the role may perform `verb` on `resource`, read from
+// scoped actions such as 'manage_site' or 'view_company'
+export function permissionScope(role: UserRole, resource: string, verb: string) {
+  const actions = (role.role.permissions ?? [])
+    .filter((permission) => permission.resource === resource)
+    .map((permission) => permission.action);
+
+  return SCOPES.find((scope) => actions.includes(`${verb}_${scope}`)) ?? null;
+}
+
+// Column/value pair restricting a query to the role's scope, or null when the
+// scope is global. `columns` maps each scope to the column that carries it.
+export function scopeFilter(
+  scope: PermissionScope,
+  role: UserRole,
+  userId: string,
+  columns: { company: string; site: string; personal: string }
+): [string, string] | null {
+  switch (scope) {
+    case 'global':
+      return null;
+    case 'company':
+      return [columns.company, role.company?.id ?? ''];
+    case 'site':
+      return [columns.site, role.site?.id ?? ''];
+    case 'personal':
+      return [columns.personal, userId];
+  }
+}
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { logActivity } from './activity';
+import { ProposalItem, ProposalStatus } from '../types/auth';
+
+export const PROPOSAL_STATUSES: ProposalStatus[] = ['draft', 'sent', 'accepted', 'rejected', 'expired'];
+
+// Mirrors the enforce_proposal_status trigger; the database has the final say
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, ProposalStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'rejected', 'expired'],
+  accepted: [],
+  rejected: [],
+  expired: []
+};
+
+// Activity log action recorded for each transition
+export const TRANSITION_ACTIONS: Record<ProposalStatus, string> = {
+  draft: 'create',
+  sent: 'send',
+  accepted: 'accept',
+  rejected: 'reject',
+  expired: 'expire'
+};
+
+// Moves a user can make by hand; expiry is left to valid_until
+export function manualTransitions(status: ProposalStatus): ProposalStatus[] {
+  return PROPOSAL_TRANSITIONS[status].filter((next) => next !== 'expired');
+}
+
+// Applies a status change and logs it. Refused moves fail here before
+// reaching the database, whose trigger still validates the rest (dates).
+export async function transitionProposal(
+  userId: string,
+  proposal: { id: string; title: string; amount: number; status: ProposalStatus },
+  next: ProposalStatus
+) {
+  if (!PROPOSAL_TRANSITIONS[proposal.status].includes(next)) {
+    throw new Error(`A ${proposal.status} proposal cannot be moved to ${next}`);
+  }
+
+  const { data } = await supabase
+    .from('proposals')
+    .update({ status: next })
+    .eq('id', proposal.id)
+    .select('id')
+    .throwOnError();
+  if (!data?.length) throw new Error('You cannot change the status of this proposal');
+
+  await logActivity({
+    user_id: userId,
+    action: TRANSITION_ACTIONS[next],
+    resource_type: 'proposal',
+    resource_id: proposal.id,
+    details: { proposal_title: proposal.title, amount: proposal.amount, from: proposal.status, to: next }
+  });
+}
+
+// Amount expected from a proposal given its stage probability
+export function weightedAmount(amount: number, probability: number) {
+  return amount * probability / 100;
+}
+
+export type LineItemInput = Pick<
+  ProposalItem,
+  'item_type' | 'name' | 'quantity' | 'unit_price' | 'discount_percent' | 'tax_percent'
+>;
+
+export function isEditable(status: ProposalStatus) {
+  return status === 'draft' || status === 'sent';
+}
+
+// Sent proposals past valid_until are expired even before the scheduled
+// expire_proposals() job has caught up with them
+export function effectiveStatus(proposal: { status: ProposalStatus; valid_until?: string | null }) {
+  if (
+    proposal.status === 'sent' &&
+    proposal.valid_until &&
+    new Date(proposal.valid_until).getTime() <= Date.now()
+  ) {
+    return 'expired';
+  }
+  return proposal.status;
+}
+
+export function proposalStatusClass(status: ProposalStatus) {
+  switch (status) {
+    case 'accepted':
+      return 'bg-green-100 text-green-800';
+    case 'sent':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'expired':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
+// Same rounding as proposal_items.line_total
+export function lineTotals(item: LineItemInput) {
+  const gross = item.quantity * item.unit_price;
+  const discount = gross * (item.discount_percent / 100);
+  const tax = (gross - discount) * (item.tax_percent / 100);
+  return {
+    gross,
+    discount,
+    tax,
+    total: Math.round((gross - discount + tax) * 100) / 100
+  };
+}
+
+export function proposalTotals(items: LineItemInput[]) {
+  return items.reduce(
+    (totals, item) => {
+      const line = lineTotals(item);
+      return {
+        subtotal: totals.subtotal + line.gross,
+        discount: totals.discount + line.discount,
+        tax: totals.tax + line.tax,
+        total: totals.total + line.total
+      };
+    },
+    { subtotal: 0, discount: 0, tax: 0, total: 0 }
+  );
+}
@@ -0,0 +1,190 @@
+import { supabase } from './supabase';
+import { invokeFunction } from './functions';
+import { PermissionScope } from './permissions';
+import { Database } from '../types/database';
+import { UserRole } from '../types/auth';
+
+export type ReportData = Database['public']['Functions']['report_data']['Returns'];
+export type ReportColumn = ReportData['columns'][number];
+export type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+export type ReportSubscription = Database['public']['Tables']['report_subscriptions']['Row'];
+export type ReportDelivery = Database['public']['Tables']['report_deliveries']['Row'];
+
+export type ReportKey =
+  | 'sales_by_period'
+  | 'sales_by_site'
+  | 'sales_by_commercial'
+  | 'proposal_aging'
+  | 'win_loss'
+  | 'commission_statement';
+
+interface ReportDefinition {
+  label: string;
+  description: string;
+  // Reports that are a snapshot of today take no date range
+  usesPeriod: boolean;
+  usesGrain?: boolean;
+}
+
+export const REPORTS: Record<ReportKey, ReportDefinition> = {
+  sales_by_period: {
+    label: 'Sales by period',
+    description: 'Sales, commission and average deal per day, week, month, quarter or year',
+    usesPeriod: true,
+    usesGrain: true
+  },
+  sales_by_site: {
+    label: 'Sales by site',
+    description: "Sales and commission per site, with each site's share of the total",
+    usesPeriod: true
+  },
+  sales_by_commercial: {
+    label: 'Sales by commercial',
+    description: 'Sales, commission and average deal per commercial',
+    usesPeriod: true
+  },
+  proposal_aging: {
+    label: 'Proposal aging',
+    description: 'Open proposals by age, oldest first',
+    usesPeriod: false
+  },
+  win_loss: {
+    label: 'Win/loss',
+    description: 'Proposals created in the period by outcome, with win rates per commercial',
+    usesPeriod: true
+  },
+  commission_statement: {
+    label: 'Commission statement',
+    description: 'Every sale closed in the period with the commission it earned',
+    usesPeriod: true
+  }
+};
+
+export const REPORT_GRAINS: Record<string, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly'
+};
+
+export const REPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' }
+];
+
+// Rolling periods a scheduled report covers, resolved at each run
+export const REPORT_RANGES: Record<string, string> = {
+  previous_day: 'Previous day',
+  previous_week: 'Previous week',
+  previous_month: 'Previous month',
+  week_to_date: 'Week to date',
+  month_to_date: 'Month to date',
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days'
+};
+
+// Schedules are cron expressions evaluated in UTC
+export const REPORT_SCHEDULES: { schedule: string; label: string }[] = [
+  { schedule: '0 8 * * *', label: 'Every day at 08:00 UTC' },
+  { schedule: '0 8 * * 1', label: 'Every Monday at 08:00 UTC' },
+  { schedule: '0 8 1 * *', label: 'On the 1st of every month at 08:00 UTC' }
+];
+
+export const describeSchedule = (schedule: string) =>
+  REPORT_SCHEDULES.find((preset) => preset.schedule === schedule)?.label ?? `Cron: ${schedule} (UTC)`;
+
+export const isReportKey = (value: string | undefined): value is ReportKey =>
+  !!value && value in REPORTS;
+
+// The company, site or user a scoped report is run for
+export function reportScopeId(scope: PermissionScope, role: UserRole, userId: string) {
+  switch (scope) {
+    case 'global':
+      return null;
+    case 'company':
+      return role.company?.id ?? null;
+    case 'site':
+      return role.site?.id ?? null;
+    case 'personal':
+      return userId;
+  }
+}
+
+export async function fetchReport(
+  report: ReportKey,
+  scope: PermissionScope,
+  scopeId: string | null,
+  params: Record<string, string>
+) {
+  const { data, error } = await supabase.rpc('report_data', {
+    p_report: report,
+    p_scope: scope,
+    p_scope_id: scopeId,
+    p_params: params
+  });
+  if (error) throw error;
+  return data as ReportData;
+}
+
+// The file is rendered by the reports function and saved through a
+// temporary link
+export async function exportReport(
+  report: ReportKey,
+  scope: PermissionScope,
+  scopeId: string | null,
+  params: Record<string, string>,
+  format: ReportFormat
+) {
+  const file = await invokeFunction<{ filename: string; content_type: string; content: string }>(
+    'reports/export',
+    { report, scope, scope_id: scopeId, params, format },
+    'Failed to export report'
+  );
+
+  const bytes = Uint8Array.from(atob(file.content), (char) => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.content_type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function subscribeToReport(
+  report: ReportKey,
+  scope: PermissionScope,
+  scopeId: string | null,
+  params: Record<string, string>,
+  format: ReportFormat,
+  schedule: string
+) {
+  return invokeFunction<{ id: string; next_run_at: string }>(
+    'reports/subscribe',
+    { report, scope, scope_id: scopeId, params, format, schedule },
+    'Failed to schedule report'
+  );
+}
+
+export async function unsubscribeFromReport(token: string) {
+  return invokeFunction<{ report: string }>('reports/unsubscribe', { token }, 'Failed to unsubscribe');
+}
+
+export function formatReportValue(value: string | number | null | undefined, type: ReportColumn['type']) {
+  if (value === null || value === undefined) return '—';
+  switch (type) {
+    case 'money':
+      return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${Number(value).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+    case 'number':
+      return Number(value).toLocaleString();
+    case 'date': {
+      const [year, month, day] = String(value).split('-').map(Number);
+      return new Date(year, month - 1, day).toLocaleDateString();
+    }
+    default:
+      return String(value);
+  }
+}
@@ -8,4 +8,14 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+// Token issued by the `auth` edge function. While it is null, requests fall
+// back to the anon key.
+let accessToken: string | null = null;
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  accessToken: async () => accessToken
+});
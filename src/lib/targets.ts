@@ -0,0 +1,48 @@
+import { TargetPeriodType } from '../types/auth';
+
+const MONTHS_PER_PERIOD: Record<TargetPeriodType, number> = {
+  month: 1,
+  quarter: 3
+};
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+
+const parseDateString = (value: string) => {
+  const [year, month] = value.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+};
+
+// First day of the month or quarter containing `date`, as stored in
+// sales_targets.period_start ('YYYY-MM-01')
+export function periodStart(type: TargetPeriodType, date = new Date()) {
+  const month = date.getMonth() - (date.getMonth() % MONTHS_PER_PERIOD[type]);
+  return toDateString(new Date(date.getFullYear(), month, 1));
+}
+
+// Start of the period `offset` periods away from `start`
+export function shiftPeriod(type: TargetPeriodType, start: string, offset: number) {
+  const date = parseDateString(start);
+  date.setMonth(date.getMonth() + offset * MONTHS_PER_PERIOD[type]);
+  return toDateString(date);
+}
+
+// Bounds for filtering sales.closed_at: from `start` inclusive to `end` exclusive
+export function periodRange(type: TargetPeriodType, start: string) {
+  return {
+    start: parseDateString(start),
+    end: parseDateString(shiftPeriod(type, start, 1))
+  };
+}
+
+export function periodLabel(type: TargetPeriodType, start: string) {
+  const date = parseDateString(start);
+  if (type === 'quarter') {
+    return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+  }
+  return date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+export function progressPercent(achieved: number, target: number) {
+  return target > 0 ? (achieved / target) * 100 : 0;
+}
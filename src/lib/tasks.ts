@@ -0,0 +1,45 @@
+import { TaskPriority, TaskType } from '../types/auth';
+
+export const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  call: 'Call',
+  meeting: 'Meeting',
+  proposal: 'Proposal',
+  follow_up: 'Follow-up'
+};
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+export function taskTypeClass(type: TaskType) {
+  switch (type) {
+    case 'call':
+      return 'bg-blue-100 text-blue-800';
+    case 'meeting':
+      return 'bg-green-100 text-green-800';
+    case 'follow_up':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-purple-100 text-purple-800';
+  }
+}
+
+export function priorityDotClass(priority: TaskPriority) {
+  switch (priority) {
+    case 'high':
+      return 'bg-red-400';
+    case 'medium':
+      return 'bg-yellow-400';
+    default:
+      return 'bg-green-400';
+  }
+}
+
+export function isOverdue(task: { due_at: string; completed_at?: string | null }) {
+  return !task.completed_at && new Date(task.due_at).getTime() < Date.now();
+}
+
+// Value for a datetime-local input, in the browser's timezone
+export function toDateTimeInput(value: string | Date) {
+  const date = new Date(value);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
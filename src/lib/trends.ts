@@ -0,0 +1,78 @@
+export type TrendPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export const TREND_PERIOD_LABELS: Record<TrendPeriod, string> = {
+  week: 'This week',
+  month: 'This month',
+  quarter: 'This quarter',
+  year: 'This year'
+};
+
+export const isTrendPeriod = (value: string | null): value is TrendPeriod =>
+  value !== null && Object.hasOwn(TREND_PERIOD_LABELS, value);
+
+export interface TrendWindow {
+  start: Date;
+  end: Date;
+}
+
+function startOf(period: TrendPeriod, date: Date) {
+  switch (period) {
+    case 'week': {
+      // Weeks start on Monday
+      const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    }
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'quarter':
+      return new Date(date.getFullYear(), date.getMonth() - (date.getMonth() % 3), 1);
+    case 'year':
+      return new Date(date.getFullYear(), 0, 1);
+  }
+}
+
+function previousStart(period: TrendPeriod, start: Date) {
+  const previous = new Date(start);
+  switch (period) {
+    case 'week':
+      previous.setDate(previous.getDate() - 7);
+      break;
+    case 'month':
+      previous.setMonth(previous.getMonth() - 1);
+      break;
+    case 'quarter':
+      previous.setMonth(previous.getMonth() - 3);
+      break;
+    case 'year':
+      previous.setFullYear(previous.getFullYear() - 1);
+      break;
+  }
+  return previous;
+}
+
+// The period so far, and the same stretch of the period before it, so
+// that the 19th of a month is compared with the 19th of the last one
+export function trendWindows(period: TrendPeriod, now = new Date()) {
+  const start = startOf(period, now);
+  const prevStart = previousStart(period, start);
+  const prevEnd = new Date(Math.min(prevStart.getTime() + (now.getTime() - start.getTime()), start.getTime()));
+
+  return {
+    current: { start, end: now } as TrendWindow,
+    previous: { start: prevStart, end: prevEnd } as TrendWindow
+  };
+}
+
+// Relative change in percent; null when there is nothing to compare against
+export function percentChange(current: number, previous: number) {
+  if (previous === 0) {
+    return current === 0 ? 0 : null;
+  }
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export interface TrendValue {
+  current: number;
+  previous: number;
+}
@@ -0,0 +1,84 @@
+import { invokeFunction } from './functions';
+
+// Default of the server-side policy, which has the final say
+export const MIN_PASSWORD_LENGTH = 10;
+
+export interface NewInvitation {
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  role_id: string;
+  company_id: string | null;
+  site_id: string | null;
+}
+
+export interface InvitationDetails {
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  expires_at: string;
+  role: { name: string } | null;
+  company: { name: string } | null;
+  site: { name: string } | null;
+}
+
+export interface AcceptedInvitation {
+  token: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+}
+
+// The `users` edge function mails the invitee a one-time link to /accept-invite
+export function inviteUser(invitation: NewInvitation) {
+  return invokeFunction<{ id: string; expires_at: string }>('users/invite', { ...invitation }, 'Failed to send invitation');
+}
+
+export function fetchInvitation(token: string) {
+  return invokeFunction<InvitationDetails>('users/invitation', { token }, 'This invitation is invalid or has expired');
+}
+
+// The password is hashed server-side; the new account can sign in right after
+export function acceptInvitation(acceptance: AcceptedInvitation) {
+  return invokeFunction<{ email: string }>('users/accept-invite', { ...acceptance }, 'Failed to accept invitation');
+}
+
+// Signs the user out and mails them a link; they cannot sign in until they use it
+export function resetUserPassword(userId: string) {
+  return invokeFunction<{ ok: boolean }>('users/reset-password', { user_id: userId }, 'Failed to reset password');
+}
+
+export interface RoleAssignmentValues {
+  role_id: string;
+  company_id: string;
+  site_id: string;
+}
+
+// Super Admin (level 1) is global, Company Admin (2) belongs to a company and
+// every lower role to a site, matching the checks on `user_roles`
+export const roleNeedsCompany = (level: number | undefined) => (level ?? 0) >= 2;
+export const roleNeedsSite = (level: number | undefined) => (level ?? 0) >= 3;
+
+export function assignmentErrors(values: RoleAssignmentValues, level: number | undefined) {
+  const errors: Partial<Record<keyof RoleAssignmentValues, string>> = {};
+  if (!values.role_id) errors.role_id = 'Role is required';
+  if (roleNeedsCompany(level) && !values.company_id) errors.company_id = 'Company is required';
+  if (roleNeedsSite(level) && !values.site_id) errors.site_id = 'Site is required';
+  return errors;
+}
+
+export function assignmentPayload(values: RoleAssignmentValues, level: number | undefined) {
+  return {
+    role_id: values.role_id,
+    company_id: roleNeedsCompany(level) ? values.company_id : null,
+    site_id: roleNeedsSite(level) ? values.site_id : null
+  };
+}
+
+export function assignmentLabel(assignment: { company?: { name: string } | null; site?: { name: string } | null }) {
+  if (assignment.site) {
+    return assignment.company ? `${assignment.company.name} · ${assignment.site.name}` : assignment.site.name;
+  }
+  return assignment.company?.name ?? 'All companies';
+}
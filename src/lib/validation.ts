@@ -0,0 +1,16 @@
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]+$/;
+
+export function validateEmail(email: string) {
+  if (!email) return null;
+  return EMAIL_PATTERN.test(email) ? null : 'Enter a valid email address';
+}
+
+export function validatePhone(phone: string) {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  if (!PHONE_PATTERN.test(phone) || digits.length < 7 || digits.length > 15) {
+    return 'Enter a valid phone number';
+  }
+  return null;
+}
@@ -5,6 +5,9 @@ export interface User {
   last_name: string;
   phone?: string;
   is_active: boolean;
+  two_factor_enabled: boolean;
+  // One of the user's roles is at a level that must use two-factor authentication
+  two_factor_required: boolean;
   roles: UserRole[];
 }
 
@@ -21,6 +24,7 @@ export interface Role {
   name: string;
   description?: string;
   level: number;
+  permissions?: Permission[];
 }
 
 export interface Company {
@@ -31,6 +35,7 @@ export interface Company {
   phone?: string;
   email?: string;
   is_active: boolean;
+  archived_at?: string | null;
 }
 
 export interface Site {
@@ -41,6 +46,7 @@ export interface Site {
   address?: string;
   phone?: string;
   is_active: boolean;
+  archived_at?: string | null;
 }
 
 export interface Permission {
@@ -66,6 +72,8 @@ export interface Client {
   updated_at: string;
 }
 
+export type ProposalStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
 export interface Proposal {
   id: string;
   client_id: string;
@@ -73,11 +81,49 @@ export interface Proposal {
   title: string;
   description?: string;
   amount: number;
-  status: string;
+  status: ProposalStatus;
   valid_until?: string;
+  version: number;
+  sent_at?: string;
   created_at: string;
   updated_at: string;
   client?: Client;
+  items?: ProposalItem[];
+}
+
+export interface ProposalItem {
+  id: string;
+  proposal_id: string;
+  position: number;
+  item_type: 'product' | 'service';
+  name: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  tax_percent: number;
+  line_total: number;
+}
+
+export interface ProposalVersion {
+  id: string;
+  proposal_id: string;
+  version: number;
+  status: ProposalStatus;
+  title: string;
+  description?: string;
+  amount: number;
+  valid_until?: string;
+  items: Omit<ProposalItem, 'proposal_id'>[];
+  created_by?: string;
+  created_at: string;
+}
+
+export interface ProposalStage {
+  status: ProposalStatus;
+  name: string;
+  position: number;
+  // Chance, 0-100, that a proposal at this stage becomes a sale
+  probability: number;
 }
 
 export interface Sale {
@@ -88,19 +134,104 @@ export interface Sale {
   commission?: number;
   closed_at: string;
   notes?: string;
+  commission_plan_id?: string;
+  commission_calculated_at?: string;
+  created_at: string;
+  proposal?: Proposal;
+}
+
+export type CommissionPlanType = 'flat' | 'tiered' | 'accelerator';
+
+export interface CommissionTier {
+  from: number;
+  rate: number;
+}
+
+export interface CommissionPlan {
+  id: string;
+  company_id: string;
+  site_id?: string;
+  user_id?: string;
+  name: string;
+  plan_type: CommissionPlanType;
+  rate: number;
+  tiers: CommissionTier[];
+  accelerator_threshold?: number;
+  accelerator_rate?: number;
+  is_active: boolean;
+  created_by?: string;
   created_at: string;
+  updated_at: string;
+  company?: Company;
+  site?: Site;
+  user?: User;
+}
+
+export type TargetPeriodType = 'month' | 'quarter';
+
+export interface SalesTarget {
+  id: string;
+  company_id: string;
+  site_id: string;
+  user_id?: string;
+  period_type: TargetPeriodType;
+  period_start: string;
+  amount: number;
+  set_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommissionAdjustment {
+  id: string;
+  sale_id: string;
+  previous_commission?: number;
+  new_commission?: number;
+  previous_plan_id?: string;
+  new_plan_id?: string;
+  reason?: string;
+  adjusted_by?: string;
+  created_at: string;
+}
+
+export type TaskType = 'call' | 'meeting' | 'proposal' | 'follow_up';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  task_type: TaskType;
+  priority: TaskPriority;
+  client_id: string;
+  proposal_id?: string;
+  assigned_to: string;
+  created_by?: string;
+  due_at: string;
+  completed_at?: string;
+  completed_by?: string;
+  created_at: string;
+  updated_at: string;
+  client?: Client;
   proposal?: Proposal;
+  assignee?: User;
 }
 
 export interface ActivityLog {
   id: string;
-  user_id: string;
+  user_id: string | null;
   action: string;
   resource_type: string;
   resource_id?: string;
   details?: any;
   ip_address?: string;
   user_agent?: string;
+  company_id?: string | null;
+  site_id?: string | null;
+  seq: number;
+  prev_hash: string | null;
+  hash: string;
   created_at: string;
   user?: User;
 }
\ No newline at end of file
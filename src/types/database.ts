@@ -12,6 +12,12 @@ export interface Database {
           is_active: boolean;
           created_at: string;
           updated_at: string;
+          must_change_password: boolean;
+          password_changed_at: string | null;
+          locked_until: string | null;
+          totp_secret: string | null;
+          totp_enabled_at: string | null;
+          totp_last_step: number | null;
         };
         Insert: {
           id?: string;
@@ -23,6 +29,12 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          must_change_password?: boolean;
+          password_changed_at?: string | null;
+          locked_until?: string | null;
+          totp_secret?: string | null;
+          totp_enabled_at?: string | null;
+          totp_last_step?: number | null;
         };
         Update: {
           id?: string;
@@ -34,6 +46,12 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          must_change_password?: boolean;
+          password_changed_at?: string | null;
+          locked_until?: string | null;
+          totp_secret?: string | null;
+          totp_enabled_at?: string | null;
+          totp_last_step?: number | null;
         };
       };
       roles: {
@@ -96,6 +114,7 @@ export interface Database {
           is_active: boolean;
           created_at: string;
           updated_at: string;
+          archived_at: string | null;
         };
         Insert: {
           id?: string;
@@ -107,6 +126,7 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          archived_at?: string | null;
         };
         Update: {
           id?: string;
@@ -118,6 +138,7 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          archived_at?: string | null;
         };
       };
       sites: {
@@ -131,6 +152,7 @@ export interface Database {
           is_active: boolean;
           created_at: string;
           updated_at: string;
+          archived_at: string | null;
         };
         Insert: {
           id?: string;
@@ -142,6 +164,7 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          archived_at?: string | null;
         };
         Update: {
           id?: string;
@@ -153,6 +176,7 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
+          archived_at?: string | null;
         };
       };
       user_roles: {
@@ -263,6 +287,8 @@ export interface Database {
           valid_until: string | null;
           created_at: string;
           updated_at: string;
+          version: number;
+          sent_at: string | null;
         };
         Insert: {
           id?: string;
@@ -275,6 +301,8 @@ export interface Database {
           valid_until?: string | null;
           created_at?: string;
           updated_at?: string;
+          version?: number;
+          sent_at?: string | null;
         };
         Update: {
           id?: string;
@@ -287,6 +315,8 @@ export interface Database {
           valid_until?: string | null;
           created_at?: string;
           updated_at?: string;
+          version?: number;
+          sent_at?: string | null;
         };
       };
       sales: {
@@ -299,6 +329,8 @@ export interface Database {
           closed_at: string;
           notes: string | null;
           created_at: string;
+          commission_plan_id: string | null;
+          commission_calculated_at: string | null;
         };
         Insert: {
           id?: string;
@@ -309,6 +341,8 @@ export interface Database {
           closed_at?: string;
           notes?: string | null;
           created_at?: string;
+          commission_plan_id?: string | null;
+          commission_calculated_at?: string | null;
         };
         Update: {
           id?: string;
@@ -319,12 +353,14 @@ export interface Database {
           closed_at?: string;
           notes?: string | null;
           created_at?: string;
+          commission_plan_id?: string | null;
+          commission_calculated_at?: string | null;
         };
       };
       activity_logs: {
         Row: {
           id: string;
-          user_id: string;
+          user_id: string | null;
           action: string;
           resource_type: string;
           resource_id: string | null;
@@ -332,6 +368,11 @@ export interface Database {
           ip_address: string | null;
           user_agent: string | null;
           created_at: string;
+          company_id: string | null;
+          site_id: string | null;
+          seq: number;
+          prev_hash: string | null;
+          hash: string;
         };
         Insert: {
           id?: string;
@@ -343,6 +384,11 @@ export interface Database {
           ip_address?: string | null;
           user_agent?: string | null;
           created_at?: string;
+          company_id?: string | null;
+          site_id?: string | null;
+          seq?: number;
+          prev_hash?: string | null;
+          hash?: string;
         };
         Update: {
           id?: string;
@@ -354,6 +400,580 @@ export interface Database {
           ip_address?: string | null;
           user_agent?: string | null;
           created_at?: string;
+          company_id?: string | null;
+          site_id?: string | null;
+          seq?: number;
+          prev_hash?: string | null;
+          hash?: string;
+        };
+      };
+      sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          created_at: string;
+          last_seen_at: string;
+          expires_at: string;
+          revoked_at: string | null;
+          revoked_reason: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          created_at?: string;
+          last_seen_at?: string;
+          expires_at: string;
+          revoked_at?: string | null;
+          revoked_reason?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          created_at?: string;
+          last_seen_at?: string;
+          expires_at?: string;
+          revoked_at?: string | null;
+          revoked_reason?: string | null;
+        };
+      };
+      proposal_items: {
+        Row: {
+          id: string;
+          proposal_id: string;
+          position: number;
+          item_type: 'product' | 'service';
+          name: string;
+          quantity: number;
+          unit_price: number;
+          discount_percent: number;
+          tax_percent: number;
+          line_total: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          proposal_id: string;
+          position?: number;
+          item_type?: 'product' | 'service';
+          name: string;
+          quantity?: number;
+          unit_price: number;
+          discount_percent?: number;
+          tax_percent?: number;
+          line_total?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          proposal_id?: string;
+          position?: number;
+          item_type?: 'product' | 'service';
+          name?: string;
+          quantity?: number;
+          unit_price?: number;
+          discount_percent?: number;
+          tax_percent?: number;
+          line_total?: number;
+          created_at?: string;
+        };
+      };
+      proposal_versions: {
+        Row: {
+          id: string;
+          proposal_id: string;
+          version: number;
+          status: string;
+          title: string;
+          description: string | null;
+          amount: number;
+          valid_until: string | null;
+          items: any;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          proposal_id: string;
+          version: number;
+          status: string;
+          title: string;
+          description?: string | null;
+          amount: number;
+          valid_until?: string | null;
+          items?: any;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          proposal_id?: string;
+          version?: number;
+          status?: string;
+          title?: string;
+          description?: string | null;
+          amount?: number;
+          valid_until?: string | null;
+          items?: any;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      commission_plans: {
+        Row: {
+          id: string;
+          company_id: string;
+          site_id: string | null;
+          user_id: string | null;
+          name: string;
+          plan_type: 'flat' | 'tiered' | 'accelerator';
+          rate: number;
+          tiers: { from: number; rate: number }[];
+          accelerator_threshold: number | null;
+          accelerator_rate: number | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          company_id: string;
+          site_id?: string | null;
+          user_id?: string | null;
+          name: string;
+          plan_type: 'flat' | 'tiered' | 'accelerator';
+          rate?: number;
+          tiers?: { from: number; rate: number }[];
+          accelerator_threshold?: number | null;
+          accelerator_rate?: number | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          company_id?: string;
+          site_id?: string | null;
+          user_id?: string | null;
+          name?: string;
+          plan_type?: 'flat' | 'tiered' | 'accelerator';
+          rate?: number;
+          tiers?: { from: number; rate: number }[];
+          accelerator_threshold?: number | null;
+          accelerator_rate?: number | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      commission_adjustments: {
+        Row: {
+          id: string;
+          sale_id: string;
+          previous_commission: number | null;
+          new_commission: number | null;
+          previous_plan_id: string | null;
+          new_plan_id: string | null;
+          reason: string | null;
+          adjusted_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          sale_id: string;
+          previous_commission?: number | null;
+          new_commission?: number | null;
+          previous_plan_id?: string | null;
+          new_plan_id?: string | null;
+          reason?: string | null;
+          adjusted_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          sale_id?: string;
+          previous_commission?: number | null;
+          new_commission?: number | null;
+          previous_plan_id?: string | null;
+          new_plan_id?: string | null;
+          reason?: string | null;
+          adjusted_by?: string | null;
+          created_at?: string;
+        };
+      };
+      sales_targets: {
+        Row: {
+          id: string;
+          company_id: string;
+          site_id: string;
+          user_id: string | null;
+          period_type: 'month' | 'quarter';
+          period_start: string;
+          amount: number;
+          set_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          company_id: string;
+          site_id: string;
+          user_id?: string | null;
+          period_type: 'month' | 'quarter';
+          period_start: string;
+          amount: number;
+          set_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          company_id?: string;
+          site_id?: string;
+          user_id?: string | null;
+          period_type?: 'month' | 'quarter';
+          period_start?: string;
+          amount?: number;
+          set_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      tasks: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          task_type: 'call' | 'meeting' | 'proposal' | 'follow_up';
+          priority: 'low' | 'medium' | 'high';
+          client_id: string;
+          proposal_id: string | null;
+          assigned_to: string;
+          created_by: string | null;
+          due_at: string;
+          completed_at: string | null;
+          completed_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string | null;
+          task_type: 'call' | 'meeting' | 'proposal' | 'follow_up';
+          priority?: 'low' | 'medium' | 'high';
+          client_id: string;
+          proposal_id?: string | null;
+          assigned_to: string;
+          created_by?: string | null;
+          due_at: string;
+          completed_at?: string | null;
+          completed_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string | null;
+          task_type?: 'call' | 'meeting' | 'proposal' | 'follow_up';
+          priority?: 'low' | 'medium' | 'high';
+          client_id?: string;
+          proposal_id?: string | null;
+          assigned_to?: string;
+          created_by?: string | null;
+          due_at?: string;
+          completed_at?: string | null;
+          completed_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      invitations: {
+        Row: {
+          id: string;
+          email: string;
+          first_name: string | null;
+          last_name: string | null;
+          role_id: string;
+          company_id: string | null;
+          site_id: string | null;
+          token_hash: string;
+          expires_at: string;
+          invited_by: string | null;
+          accepted_at: string | null;
+          accepted_user_id: string | null;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          first_name?: string | null;
+          last_name?: string | null;
+          role_id: string;
+          company_id?: string | null;
+          site_id?: string | null;
+          token_hash: string;
+          expires_at: string;
+          invited_by?: string | null;
+          accepted_at?: string | null;
+          accepted_user_id?: string | null;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          first_name?: string | null;
+          last_name?: string | null;
+          role_id?: string;
+          company_id?: string | null;
+          site_id?: string | null;
+          token_hash?: string;
+          expires_at?: string;
+          invited_by?: string | null;
+          accepted_at?: string | null;
+          accepted_user_id?: string | null;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          created_at?: string;
+        };
+      };
+      password_resets: {
+        Row: {
+          id: string;
+          user_id: string;
+          token_hash: string;
+          reason: string;
+          expires_at: string;
+          used_at: string | null;
+          requested_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token_hash: string;
+          reason: string;
+          expires_at: string;
+          used_at?: string | null;
+          requested_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token_hash?: string;
+          reason?: string;
+          expires_at?: string;
+          used_at?: string | null;
+          requested_by?: string | null;
+          created_at?: string;
+        };
+      };
+      password_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          password_hash: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          password_hash: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          password_hash?: string;
+          created_at?: string;
+        };
+      };
+      login_attempts: {
+        Row: {
+          id: string;
+          email: string;
+          ip_address: string | null;
+          user_id: string | null;
+          outcome: string;
+          attempted_at: string;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          ip_address?: string | null;
+          user_id?: string | null;
+          outcome: string;
+          attempted_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          ip_address?: string | null;
+          user_id?: string | null;
+          outcome?: string;
+          attempted_at?: string;
+        };
+      };
+      two_factor_challenges: {
+        Row: {
+          id: string;
+          user_id: string;
+          token_hash: string;
+          expires_at: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token_hash: string;
+          expires_at: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token_hash?: string;
+          expires_at?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+      };
+      recovery_codes: {
+        Row: {
+          id: string;
+          user_id: string;
+          code_hash: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          code_hash: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          code_hash?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+      };
+      proposal_stages: {
+        Row: {
+          status: string;
+          name: string;
+          position: number;
+          probability: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          status: string;
+          name: string;
+          position: number;
+          probability: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          status?: string;
+          name?: string;
+          position?: number;
+          probability?: number;
+          updated_at?: string | null;
+        };
+      };
+      report_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          report: string;
+          scope: 'global' | 'company' | 'site' | 'personal';
+          scope_id: string | null;
+          params: Record<string, string>;
+          format: 'csv' | 'xlsx' | 'pdf';
+          schedule: string;
+          is_active: boolean;
+          next_run_at: string | null;
+          last_run_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          report: string;
+          scope: 'global' | 'company' | 'site' | 'personal';
+          scope_id?: string | null;
+          params?: Record<string, string>;
+          format?: 'csv' | 'xlsx' | 'pdf';
+          schedule: string;
+          is_active?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          report?: string;
+          scope?: 'global' | 'company' | 'site' | 'personal';
+          scope_id?: string | null;
+          params?: Record<string, string>;
+          format?: 'csv' | 'xlsx' | 'pdf';
+          schedule?: string;
+          is_active?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      report_deliveries: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          status: 'sent' | 'failed';
+          recipient: string | null;
+          filename: string | null;
+          row_count: number | null;
+          error: string | null;
+          unsubscribe_token_hash: string | null;
+          delivered_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          status: 'sent' | 'failed';
+          recipient?: string | null;
+          filename?: string | null;
+          row_count?: number | null;
+          error?: string | null;
+          unsubscribe_token_hash?: string | null;
+          delivered_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          status?: 'sent' | 'failed';
+          recipient?: string | null;
+          filename?: string | null;
+          row_count?: number | null;
+          error?: string | null;
+          unsubscribe_token_hash?: string | null;
+          delivered_at?: string;
         };
       };
     };
@@ -361,7 +981,161 @@ export interface Database {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      save_proposal: {
+        Args: {
+          p_proposal_id: string | null;
+          p_client_id: string | null;
+          p_title: string;
+          p_description: string | null;
+          p_valid_until: string | null;
+          p_items: any;
+        };
+        Returns: string;
+      };
+      expire_proposals: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      recalculate_commissions: {
+        Args: {
+          p_plan_id: string;
+          p_from?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: number;
+      };
+      dashboard_kpis: {
+        Args: {
+          p_scope: 'global' | 'company' | 'site' | 'personal';
+          p_scope_id: string | null;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: {
+          sales_total: number;
+          sales_count: number;
+          commission_total: number;
+          proposals_count: number;
+          accepted_count: number;
+          awaiting_count: number;
+          conversion_rate: number;
+          clients_count: number;
+          users_count: number;
+          commercials_count: number;
+          companies_count: number;
+          sites_count: number;
+          leaderboard: {
+            user_id: string;
+            first_name: string | null;
+            last_name: string | null;
+            sales_total: number;
+            sales_count: number;
+            commission_total: number;
+          }[];
+        };
+      };
+      verify_activity_chain: {
+        Args: Record<PropertyKey, never>;
+        Returns: { broken_seq: number; log_id: string; problem: string }[];
+      };
+      unlock_user: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      reset_two_factor: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      revenue_forecast: {
+        Args: {
+          p_scope: 'global' | 'company' | 'site' | 'personal';
+          p_scope_id: string | null;
+          p_period_type: 'month' | 'quarter';
+          p_periods: number;
+        };
+        Returns: {
+          periods: string[];
+          sites: {
+            period_start: string;
+            company_id: string;
+            company_name: string | null;
+            site_id: string;
+            site_name: string | null;
+            target: number;
+            closed: number;
+            commit: number;
+            best_case: number;
+            pipeline: number;
+          }[];
+          companies: {
+            period_start: string;
+            company_id: string;
+            company_name: string | null;
+            target: number;
+            closed: number;
+            commit: number;
+            best_case: number;
+            pipeline: number;
+          }[];
+        };
+      };
+      report_data: {
+        Args: {
+          p_report: string;
+          p_scope: 'global' | 'company' | 'site' | 'personal';
+          p_scope_id: string | null;
+          p_params: Record<string, string>;
+        };
+        Returns: {
+          title: string;
+          columns: {
+            key: string;
+            label: string;
+            type: 'text' | 'number' | 'money' | 'percent' | 'date';
+          }[];
+          rows: Record<string, string | number | null>[];
+          totals: Record<string, number> | null;
+        };
+      };
+      dashboard_charts: {
+        Args: {
+          p_scope: 'global' | 'company' | 'site' | 'personal';
+          p_scope_id: string | null;
+          p_from: string;
+          p_to: string;
+          p_grain: 'day' | 'week' | 'month';
+          p_time_zone?: string;
+        };
+        Returns: {
+          sales_series: {
+            period: string;
+            sales_total: number;
+            sales_count: number;
+          }[];
+          proposal_funnel: {
+            created: number;
+            sent: number;
+            accepted: number;
+          };
+          sales_by_site: {
+            site_id: string;
+            name: string;
+            sales_total: number;
+            sales_count: number;
+          }[];
+          sales_by_commercial: {
+            user_id: string;
+            first_name: string | null;
+            last_name: string | null;
+            sales_total: number;
+            sales_count: number;
+          }[];
+        };
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,135 @@
+/*
+  Cron schedules for report subscriptions, evaluated in UTC.
+
+  Five fields: minute hour day-of-month month day-of-week, each `*`, a
+  number, a range `a-b`, either of those followed by `/n` to take every n-th
+  value, or a comma-separated list of those. Months and weekdays also take
+  names (jan-dec, sun-sat); Sunday is 0 or 7. As in cron, when both day
+  fields are restricted a day matching either one runs. @hourly, @daily,
+  @weekly and @monthly are shorthands.
+*/
+import { HttpError } from './http.ts';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Schedules that never match are caught by giving up after this long
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0) {
+  const value = (text: string) => {
+    const named = names.indexOf(text.toLowerCase());
+    const number = named >= 0 ? named + nameOffset : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (Number.isNaN(number) || number < min || number > max) {
+      throw new HttpError(400, `Invalid schedule: "${text}" is not between ${min} and ${max}`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new HttpError(400, `Invalid schedule: bad step in "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = value(from);
+      // `5/15` means from 5 to the end in steps of 15
+      end = to !== undefined ? value(to) : stepText !== undefined ? max : start;
+    }
+    if (start > end) {
+      throw new HttpError(400, `Invalid schedule: "${part}" runs backwards`);
+    }
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const text = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = text.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new HttpError(400, 'Invalid schedule: expected minute, hour, day of month, month and day of week');
+  }
+
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseField(weekday, 0, 7, WEEKDAY_NAMES);
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: parseField(day, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+// First run strictly after `after`, or null if the schedule never matches
+// (e.g. 30 February)
+export function nextCronRun(schedule: CronSchedule, after: Date) {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  // Skip whole months, days and hours that cannot match before checking minutes
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
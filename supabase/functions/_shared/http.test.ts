@@ -0,0 +1,31 @@
+import { assertEquals } from 'jsr:@std/assert@1';
+import { clientInfo } from './http.ts';
+
+function request(forwardedFor?: string) {
+  const headers = new Headers({ 'user-agent': 'Test browser' });
+  if (forwardedFor !== undefined) headers.set('x-forwarded-for', forwardedFor);
+  return new Request('http://localhost/auth', { headers });
+}
+
+Deno.test('clientInfo takes the address the gateway appended', () => {
+  assertEquals(clientInfo(request('10.0.0.1, 203.0.113.7')), {
+    ip_address: '203.0.113.7',
+    user_agent: 'Test browser',
+  });
+  assertEquals(clientInfo(request('203.0.113.7')).ip_address, '203.0.113.7');
+  assertEquals(clientInfo(request('10.0.0.1, 2001:db8::1')).ip_address, '2001:db8::1');
+  assertEquals(clientInfo(request('::ffff:203.0.113.7')).ip_address, '::ffff:203.0.113.7');
+});
+
+Deno.test('clientInfo drops anything that is not an IP address', () => {
+  assertEquals(clientInfo(request()).ip_address, null);
+  assertEquals(clientInfo(request('')).ip_address, null);
+  assertEquals(clientInfo(request('foo')).ip_address, null);
+  assertEquals(clientInfo(request('203.0.113.7, foo')).ip_address, null);
+  assertEquals(clientInfo(request('203.0.113.256')).ip_address, null);
+  assertEquals(clientInfo(request('203.0.113')).ip_address, null);
+  assertEquals(clientInfo(request('2001:db8::1::2')).ip_address, null);
+  assertEquals(clientInfo(request('[2001:db8::1]')).ip_address, null);
+  assertEquals(clientInfo(request('2001:db8::1/64')).ip_address, null);
+  assertEquals(clientInfo(request('1::]/x')).ip_address, null);
+});
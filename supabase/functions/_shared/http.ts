@@ -0,0 +1,66 @@
+import { corsHeaders } from './cors.ts';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+  console.error('Unhandled function error:', error);
+  return jsonResponse({ error: 'Internal server error' }, 500);
+}
+
+export async function readJson<T>(req: Request): Promise<T> {
+  try {
+    return await req.json();
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+export function bearerToken(req: Request) {
+  const header = req.headers.get('Authorization') ?? '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw new HttpError(401, 'Missing bearer token');
+  }
+  return token;
+}
+
+const IPV4 = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+
+// The value if it is an IPv4 or IPv6 address, else null: it ends up in inet
+// columns, where anything else fails the whole query
+function ipAddress(value: string) {
+  if (IPV4.test(value)) return value;
+  if (!/^[\da-f:.]*:[\da-f:.]*$/i.test(value)) return null;
+  try {
+    new URL(`http://[${value}]`);
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+// Caller's address and browser as forwarded by the API gateway. The client
+// can send its own X-Forwarded-For, so only the last entry - the address the
+// gateway appended - is trusted.
+export function clientInfo(req: Request) {
+  const forwardedFor = req.headers.get('x-forwarded-for') ?? '';
+  return {
+    ip_address: ipAddress(forwardedFor.split(',').pop()!.trim()),
+    user_agent: req.headers.get('user-agent'),
+  };
+}
@@ -0,0 +1,49 @@
+import { SignJWT, errors, jwtVerify } from 'npm:jose@5';
+import { HttpError } from './http.ts';
+
+// Must be the project's JWT secret so PostgREST accepts the token and
+// auth.uid() resolves to the `sub` claim inside RLS policies.
+const secret = new TextEncoder().encode(Deno.env.get('JWT_SECRET'));
+
+// Kept short so a revoked session stops reaching the database quickly;
+// clients refresh shortly before expiry.
+export const ACCESS_TOKEN_TTL_SECONDS = 10 * 60;
+
+export interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  email: string;
+  exp: number;
+}
+
+export async function signAccessToken(userId: string, email: string, sessionId: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + ACCESS_TOKEN_TTL_SECONDS;
+
+  const token = await new SignJWT({ email, sid: sessionId, role: 'authenticated' })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setSubject(userId)
+    .setAudience('authenticated')
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(expiresAt)
+    .sign(secret);
+
+  return { token, expiresAt };
+}
+
+// `allowExpired` still requires a valid signature; it is used by the refresh
+// route, where the session row decides whether the token may be renewed.
+export async function verifyAccessToken(
+  token: string,
+  { allowExpired = false }: { allowExpired?: boolean } = {}
+): Promise<AccessTokenClaims> {
+  try {
+    const { payload } = await jwtVerify(token, secret, { audience: 'authenticated' });
+    return payload as unknown as AccessTokenClaims;
+  } catch (error) {
+    if (allowExpired && error instanceof errors.JWTExpired) {
+      return error.payload as unknown as AccessTokenClaims;
+    }
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+}
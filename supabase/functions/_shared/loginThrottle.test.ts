@@ -0,0 +1,148 @@
+import { assertEquals } from 'jsr:@std/assert@1';
+import { type Clock, type LoginAttempt, type ThrottlePolicy, accountThrottle, failureDelayMs, ipThrottle, secondsUntil } from './loginThrottle.ts';
+
+const policy: ThrottlePolicy = {
+  maxFailures: 5,
+  ipMaxFailures: 20,
+  lockoutMs: 15 * 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+const START = Date.parse('2025-07-03T09:00:00Z');
+
+// A clock that only moves when told to
+function fakeClock(at = START) {
+  let now = at;
+  const clock: Clock & { advance(ms: number): void } = {
+    now: () => now,
+    advance: (ms: number) => { now += ms; },
+  };
+  return clock;
+}
+
+function attempt(at: number, outcome: LoginAttempt['outcome'] = 'failed'): LoginAttempt {
+  return { attempted_at: new Date(at).toISOString(), outcome };
+}
+
+// One failure per second, starting at START
+function failures(count: number) {
+  return Array.from({ length: count }, (_, i) => attempt(START + i * 1000));
+}
+
+Deno.test('failureDelayMs doubles from the base delay up to the maximum', () => {
+  assertEquals(failureDelayMs(0, policy), 0);
+  assertEquals(failureDelayMs(1, policy), 1000);
+  assertEquals(failureDelayMs(2, policy), 2000);
+  assertEquals(failureDelayMs(3, policy), 4000);
+  assertEquals(failureDelayMs(5, policy), 16000);
+  assertEquals(failureDelayMs(6, policy), 30000);
+  assertEquals(failureDelayMs(50, policy), 30000);
+});
+
+Deno.test('accountThrottle lets the first attempt through', () => {
+  assertEquals(accountThrottle([], policy, fakeClock()), { failures: 0, lockedUntil: null, retryAt: null });
+});
+
+Deno.test('accountThrottle delays the next try by the failure delay', () => {
+  const clock = fakeClock(START + 2000);
+  const attempts = failures(3);
+  const lastFailure = START + 2000;
+
+  assertEquals(accountThrottle(attempts, policy, clock), {
+    failures: 3,
+    lockedUntil: null,
+    retryAt: lastFailure + 4000,
+  });
+
+  clock.advance(4000);
+  assertEquals(accountThrottle(attempts, policy, clock).retryAt, null);
+});
+
+Deno.test('accountThrottle locks the account at the failure threshold', () => {
+  const clock = fakeClock(START + 3000);
+  assertEquals(accountThrottle(failures(4), policy, clock).lockedUntil, null);
+
+  clock.advance(1000);
+  const lastFailure = START + 4000;
+  assertEquals(accountThrottle(failures(5), policy, clock), {
+    failures: 5,
+    lockedUntil: lastFailure + policy.lockoutMs,
+    retryAt: lastFailure + 16000,
+  });
+});
+
+Deno.test('accountThrottle unlocks once the lockout has passed', () => {
+  const clock = fakeClock(START + 4000);
+  const attempts = failures(5);
+  const lockedUntil = accountThrottle(attempts, policy, clock).lockedUntil!;
+  assertEquals(secondsUntil(lockedUntil, clock), 15 * 60);
+
+  clock.advance(policy.lockoutMs - 1);
+  assertEquals(accountThrottle(attempts, policy, clock).lockedUntil, lockedUntil);
+  assertEquals(secondsUntil(lockedUntil, clock), 1);
+
+  clock.advance(1);
+  assertEquals(accountThrottle(attempts, policy, clock), { failures: 0, lockedUntil: null, retryAt: null });
+});
+
+Deno.test('accountThrottle only counts failures within the lockout of the latest one', () => {
+  const later = START + policy.lockoutMs + 10000;
+  const clock = fakeClock(later + 1000);
+  const attempts = [...failures(4), attempt(later), attempt(later + 1000)];
+
+  assertEquals(accountThrottle(attempts, policy, clock), {
+    failures: 2,
+    lockedUntil: null,
+    retryAt: later + 1000 + 2000,
+  });
+});
+
+Deno.test('accountThrottle forgets failures once the latest is older than the lockout', () => {
+  const clock = fakeClock(START + 2000 + policy.lockoutMs);
+  assertEquals(accountThrottle(failures(3), policy, clock), { failures: 0, lockedUntil: null, retryAt: null });
+});
+
+Deno.test('accountThrottle starts over after a success or an unlock', () => {
+  const clock = fakeClock(START + 10000);
+
+  for (const outcome of ['succeeded', 'unlocked'] as const) {
+    const attempts = [...failures(5), attempt(START + 5000, outcome), attempt(START + 6000)];
+    assertEquals(accountThrottle(attempts, policy, clock), {
+      failures: 1,
+      lockedUntil: null,
+      retryAt: null,
+    });
+  }
+});
+
+Deno.test('ipThrottle blocks at its own threshold and never delays', () => {
+  const clock = fakeClock(START + 19000);
+  assertEquals(ipThrottle(failures(19), policy, clock), { failures: 19, lockedUntil: null, retryAt: null });
+
+  clock.advance(1000);
+  const lastFailure = START + 19000;
+  assertEquals(ipThrottle(failures(20), policy, clock), {
+    failures: 20,
+    lockedUntil: lastFailure + policy.lockoutMs,
+    retryAt: null,
+  });
+
+  clock.advance(policy.lockoutMs);
+  assertEquals(ipThrottle(failures(20), policy, clock).lockedUntil, null);
+});
+
+Deno.test('ipThrottle is not reset by a successful sign-in', () => {
+  const clock = fakeClock(START + 21000);
+  const attempts = [...failures(10), attempt(START + 10000, 'succeeded'), ...failures(20).slice(11)];
+
+  assertEquals(ipThrottle(attempts, policy, clock), {
+    failures: 19,
+    lockedUntil: null,
+    retryAt: null,
+  });
+
+  const locked = ipThrottle([...attempts, attempt(START + 21000)], policy, clock);
+  assertEquals(locked.failures, 20);
+  assertEquals(locked.lockedUntil, START + 21000 + policy.lockoutMs);
+});
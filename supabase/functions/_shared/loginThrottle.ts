@@ -0,0 +1,121 @@
+/*
+  Login throttling
+
+  Decides from recent `login_attempts` rows whether a sign-in may go ahead.
+  Per account (the email typed, whether or not it exists), every failure
+  since the last success or unlock doubles the wait before the next try, and
+  LOGIN_MAX_FAILURES of them lock the account for LOGIN_LOCKOUT_MINUTES.
+  Per IP address, LOGIN_IP_MAX_FAILURES failures on any accounts block it
+  for the same time. Failures more than the lockout before the latest one no
+  longer count, so a lock lasts the full lockout after the failure that set
+  it and ends when it says it does.
+
+  Everything here is pure and reads the time from a `Clock`, so it can be
+  driven by a fake one.
+*/
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface ThrottlePolicy {
+  maxFailures: number;
+  ipMaxFailures: number;
+  lockoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type AttemptOutcome = 'failed' | 'succeeded' | 'unlocked';
+
+export interface LoginAttempt {
+  attempted_at: string;
+  outcome: AttemptOutcome;
+}
+
+export interface ThrottleState {
+  failures: number;
+  // Epoch milliseconds, null when not in effect
+  lockedUntil: number | null;
+  retryAt: number | null;
+}
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function throttlePolicyFromEnv(): ThrottlePolicy {
+  return {
+    maxFailures: envNumber('LOGIN_MAX_FAILURES', 5),
+    ipMaxFailures: envNumber('LOGIN_IP_MAX_FAILURES', 20),
+    lockoutMs: envNumber('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000,
+    baseDelayMs: envNumber('LOGIN_DELAY_BASE_SECONDS', 1) * 1000,
+    maxDelayMs: envNumber('LOGIN_DELAY_MAX_SECONDS', 30) * 1000,
+  };
+}
+
+// Wait imposed after the given number of consecutive failures: none after
+// zero, then base, 2 x base, 4 x base... up to the maximum
+export function failureDelayMs(failures: number, policy: ThrottlePolicy) {
+  if (failures <= 0) return 0;
+  return Math.min(policy.baseDelayMs * 2 ** (failures - 1), policy.maxDelayMs);
+}
+
+// Failures within the lockout of the latest one, newest first; none once
+// the latest is older than the lockout
+function recentFailureTimes(attempts: LoginAttempt[], now: number, policy: ThrottlePolicy, stopAtReset: boolean) {
+  const newestFirst = [...attempts].sort(
+    (a, b) => Date.parse(b.attempted_at) - Date.parse(a.attempted_at)
+  );
+
+  const times: number[] = [];
+  for (const attempt of newestFirst) {
+    const time = Date.parse(attempt.attempted_at);
+    if (time <= (times[0] ?? now) - policy.lockoutMs) break;
+    if (attempt.outcome !== 'failed') {
+      if (stopAtReset) break;
+      continue;
+    }
+    times.push(time);
+  }
+  return times;
+}
+
+function stateFrom(failureTimes: number[], limit: number, now: number, policy: ThrottlePolicy): ThrottleState {
+  const failures = failureTimes.length;
+  if (failures === 0) {
+    return { failures, lockedUntil: null, retryAt: null };
+  }
+
+  const lastFailure = failureTimes[0];
+  const lockedUntil = failures >= limit ? lastFailure + policy.lockoutMs : null;
+  const retryAt = lastFailure + failureDelayMs(failures, policy);
+
+  return {
+    failures,
+    lockedUntil: lockedUntil !== null && lockedUntil > now ? lockedUntil : null,
+    retryAt: retryAt > now ? retryAt : null,
+  };
+}
+
+// Attempts for one email; a success or an unlock starts the count over
+export function accountThrottle(attempts: LoginAttempt[], policy: ThrottlePolicy, clock: Clock = systemClock) {
+  const now = clock.now();
+  return stateFrom(recentFailureTimes(attempts, now, policy, true), policy.maxFailures, now, policy);
+}
+
+// Attempts from one IP address; signing in to another account does not
+// reset it, so only the lock applies, not the per-failure delay
+export function ipThrottle(attempts: LoginAttempt[], policy: ThrottlePolicy, clock: Clock = systemClock) {
+  const now = clock.now();
+  const state = stateFrom(recentFailureTimes(attempts, now, policy, false), policy.ipMaxFailures, now, policy);
+  return { ...state, retryAt: null };
+}
+
+// Seconds until `time`, rounded up, for messages
+export function secondsUntil(time: number, clock: Clock = systemClock) {
+  return Math.max(Math.ceil((time - clock.now()) / 1000), 1);
+}
@@ -0,0 +1,108 @@
+/*
+  Outgoing mail
+
+  Functions build a `MailMessage` and hand it to `mailTransport()`, which
+  picks the transport named by MAIL_TRANSPORT:
+
+    console (default)  prints the message to the function logs, with
+                       attachments shown by size only
+    file               writes an .eml file to MAIL_OUTBOX_DIR (default ./outbox)
+
+  A real provider is added as another entry in `transports`.
+*/
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+
+export interface MailAttachment {
+  filename: string;
+  content_type: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const from = () => Deno.env.get('MAIL_FROM') ?? 'no-reply@localhost';
+
+function toEml(message: MailMessage, { withAttachments = true } = {}) {
+  const headers = [
+    `From: ${from()}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+  ];
+  const attachments = message.attachments ?? [];
+  if (attachments.length === 0) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', '', message.text].join('\r\n');
+  }
+
+  // Attachments go in a multipart message, base64 encoded in 76-character lines
+  const boundary = `part-${crypto.randomUUID()}`;
+  return [
+    ...headers,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    ...attachments.flatMap((attachment) => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.content_type}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      withAttachments
+        ? encodeBase64(attachment.content).replace(/.{76}/g, '$&\r\n')
+        : `(${attachment.content.length} bytes)`,
+    ]),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+export const consoleTransport: MailTransport = {
+  send(message) {
+    console.log(`--- mail ---\n${toEml(message, { withAttachments: false })}\n--- end mail ---`);
+    return Promise.resolve();
+  },
+};
+
+export function fileTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(`${dir}/${Date.now()}-${crypto.randomUUID()}.eml`, toEml(message));
+    },
+  };
+}
+
+const transports: Record<string, () => MailTransport> = {
+  console: () => consoleTransport,
+  file: () => fileTransport(Deno.env.get('MAIL_OUTBOX_DIR') ?? './outbox'),
+};
+
+export function mailTransport(): MailTransport {
+  const name = Deno.env.get('MAIL_TRANSPORT') ?? 'console';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+  return transport();
+}
+
+// Absolute link into the web app, e.g. appUrl('/accept-invite', { token })
+export function appUrl(path: string, params: Record<string, string> = {}) {
+  const url = new URL(path, Deno.env.get('APP_URL') ?? 'http://localhost:5173');
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
@@ -0,0 +1,111 @@
+/*
+  Password policy
+
+    PASSWORD_MIN_LENGTH    minimum length (default 10)
+    PASSWORD_HISTORY_SIZE  how many previous passwords cannot be reused (default 5)
+    PASSWORD_WORDLIST      newline-separated list of breached or common
+                           passwords (default: common-passwords.txt next to this file)
+*/
+import bcrypt from 'npm:bcryptjs@2.4.3';
+import { HttpError } from './http.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { hashToken, randomToken } from './tokens.ts';
+
+const BCRYPT_ROUNDS = 10;
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+const MIN_LENGTH = envNumber('PASSWORD_MIN_LENGTH', 10);
+const HISTORY_SIZE = envNumber('PASSWORD_HISTORY_SIZE', 5);
+
+let breachedPasswords: Promise<Set<string>> | null = null;
+
+// Read once per function instance
+function loadBreachedPasswords() {
+  breachedPasswords ??= Deno.readTextFile(
+    Deno.env.get('PASSWORD_WORDLIST') ?? new URL('./common-passwords.txt', import.meta.url)
+  ).then((text) => new Set(text.split(/\r?\n/).map((line) => line.trim().toLowerCase()).filter(Boolean)));
+  return breachedPasswords;
+}
+
+// Throws a 400 naming the first rule the password breaks. Pass the user's id
+// when the password replaces an existing one, so recent ones are refused.
+export async function checkPassword(password: string | undefined, user: { id?: string; email: string }) {
+  if (!password || password.length < MIN_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_LENGTH} characters`);
+  }
+
+  const lowered = password.toLowerCase();
+  if ((await loadBreachedPasswords()).has(lowered)) {
+    throw new HttpError(400, 'This password is too common; choose another');
+  }
+
+  const localPart = user.email.split('@')[0].toLowerCase();
+  if (localPart.length >= 3 && lowered.includes(localPart)) {
+    throw new HttpError(400, 'Password must not contain your email address');
+  }
+
+  if (user.id && HISTORY_SIZE > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('password_history')
+      .select('password_hash')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_SIZE);
+    if (error) {
+      throw error;
+    }
+
+    for (const { password_hash } of data ?? []) {
+      if (await bcrypt.compare(password, password_hash)) {
+        throw new HttpError(400, `Password must differ from your last ${HISTORY_SIZE} passwords`);
+      }
+    }
+  }
+}
+
+export function hashPassword(password: string) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export const PASSWORD_RESET_TTL_MINUTES = {
+  forgot: 60,
+  admin: 24 * 60,
+  required: 15,
+} as const;
+
+export type PasswordResetReason = keyof typeof PASSWORD_RESET_TTL_MINUTES;
+
+export function passwordResetExpiry(reason: PasswordResetReason) {
+  return new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES[reason] * 60 * 1000).toISOString();
+}
+
+// Issues a reset link for `userId` and returns its token; earlier unused
+// links stop working. Admin resets go through `reset_user_password` instead.
+export async function createPasswordReset(userId: string, reason: Exclude<PasswordResetReason, 'admin'>) {
+  const token = randomToken();
+
+  const { error: voidError } = await supabaseAdmin
+    .from('password_resets')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (voidError) {
+    throw voidError;
+  }
+
+  const { error } = await supabaseAdmin.from('password_resets').insert({
+    user_id: userId,
+    token_hash: await hashToken(token),
+    reason,
+    expires_at: passwordResetExpiry(reason),
+  });
+  if (error) {
+    throw error;
+  }
+
+  return token;
+}
@@ -0,0 +1,176 @@
+/*
+  Minimal PDF writer for tabular reports: landscape A4 pages using the
+  built-in Helvetica fonts, a title block on the first page, the header row
+  repeated on every page and page numbers in the footer. Text outside
+  Latin-1 is replaced by "?", as the built-in fonts cannot show it.
+*/
+
+export interface PdfTable {
+  title: string;
+  subtitle: string[];
+  headers: string[];
+  rows: string[][];
+  // Bold closing row, e.g. totals
+  footer?: string[];
+  align: ('left' | 'right')[];
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 4;
+const MAX_COLUMN_WIDTH = 220;
+
+// Helvetica advance widths (per 1000 units of font size) for ' ' to '~'
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const toLatin1 = (text: string) => text.replace(/[^\u0000-\u00ff]/g, '?').replace(/[\r\n\t]+/g, ' ');
+
+function textWidth(text: string, size: number, bold = false) {
+  let units = 0;
+  for (const char of text) {
+    units += HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? 556;
+  }
+  // Helvetica-Bold runs slightly wider; this keeps bold text inside its cell
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+function fitText(text: string, width: number, size: number, bold = false) {
+  if (textWidth(text, size, bold) <= width) return text;
+  let fitted = text;
+  while (fitted && textWidth(`${fitted}...`, size, bold) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, (char) => `\\${char}`);
+
+function textOp(text: string, x: number, y: number, size: number, bold = false) {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+}
+
+// Natural column widths, shrunk proportionally when the table is too wide
+function columnWidths(table: PdfTable) {
+  const available = PAGE_WIDTH - 2 * MARGIN;
+  const natural = table.headers.map((header, i) => {
+    const cells = [...table.rows.map((row) => row[i] ?? ''), table.footer?.[i] ?? ''];
+    const widest = Math.max(textWidth(header, FONT_SIZE, true), ...cells.map((cell) => textWidth(cell, FONT_SIZE, true)));
+    return Math.min(widest + 2 * CELL_PADDING, MAX_COLUMN_WIDTH);
+  });
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return total > available ? natural.map((width) => (width * available) / total) : natural;
+}
+
+export function renderPdf(input: PdfTable) {
+  const table: PdfTable = {
+    ...input,
+    title: toLatin1(input.title),
+    subtitle: input.subtitle.map(toLatin1),
+    headers: input.headers.map(toLatin1),
+    rows: input.rows.map((row) => row.map(toLatin1)),
+    footer: input.footer?.map(toLatin1),
+  };
+  const widths = columnWidths(table);
+  const tableWidth = widths.reduce((sum, width) => sum + width, 0);
+
+  const rowOps = (cells: string[], top: number, bold: boolean) => {
+    let x = MARGIN;
+    return cells.map((cell, i) => {
+      const text = fitText(cell, widths[i] - 2 * CELL_PADDING, FONT_SIZE, bold);
+      const left = table.align[i] === 'right'
+        ? x + widths[i] - CELL_PADDING - textWidth(text, FONT_SIZE, bold)
+        : x + CELL_PADDING;
+      x += widths[i];
+      return textOp(text, left, top - ROW_HEIGHT + 4, FONT_SIZE, bold);
+    }).join('\n');
+  };
+
+  const rule = (y: number) =>
+    `0.8 g ${MARGIN} ${y.toFixed(2)} ${tableWidth.toFixed(2)} 0.5 re f 0 g`;
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const startPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+    if (pages.length === 1) {
+      ops.push(textOp(table.title, MARGIN, y - 14, 14, true));
+      y -= 22;
+      for (const line of table.subtitle) {
+        ops.push(textOp(line, MARGIN, y - 9, 9));
+        y -= 13;
+      }
+      y -= 8;
+    }
+    ops.push(`0.93 g ${MARGIN} ${(y - ROW_HEIGHT).toFixed(2)} ${tableWidth.toFixed(2)} ${ROW_HEIGHT} re f 0 g`);
+    ops.push(rowOps(table.headers, y, true));
+    y -= ROW_HEIGHT;
+  };
+
+  const addRow = (cells: string[], bold: boolean) => {
+    if (y - ROW_HEIGHT < MARGIN + 20) {
+      startPage();
+    }
+    ops.push(rowOps(cells, y, bold));
+    y -= ROW_HEIGHT;
+    ops.push(rule(y));
+  };
+
+  startPage();
+  if (table.rows.length === 0) {
+    ops.push(textOp('No data for these parameters', MARGIN + CELL_PADDING, y - ROW_HEIGHT + 4, FONT_SIZE));
+  }
+  for (const row of table.rows) {
+    addRow(row, false);
+  }
+  if (table.footer) {
+    addRow(table.footer, true);
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((pageOps, i) => {
+    const pageNumber = `Page ${i + 1} of ${pages.length}`;
+    const content = [
+      ...pageOps,
+      textOp(pageNumber, PAGE_WIDTH - MARGIN - textWidth(pageNumber, FONT_SIZE), MARGIN - 12, FONT_SIZE),
+    ].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is Latin-1, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,195 @@
+/*
+  Scheduled report delivery
+
+  A due subscription is first moved on to its next run with a conditional
+  update, so two overlapping scheduler calls cannot both mail it. Its report
+  is then run as the subscriber, through a short-lived access token signed
+  for them, so it only ever shows what they could see when signed in. Every
+  run leaves a `report_deliveries` row, sent or failed; a sent mail carries a
+  link that pauses the subscription without signing in.
+*/
+import { nextCronRun, parseCron } from './cron.ts';
+import { HttpError } from './http.ts';
+import { signAccessToken } from './jwt.ts';
+import { appUrl, mailTransport } from './mail.ts';
+import { ReportFormat, ReportParams, ReportRange, ReportScope, fetchReport, renderReport, resolveReportRange } from './reports.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { supabaseForUser } from './supabaseUser.ts';
+import { hashToken, randomToken } from './tokens.ts';
+
+const DUE_BATCH_SIZE = 50;
+
+export interface SubscriptionParams extends ReportParams {
+  range?: ReportRange;
+}
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string;
+  report: string;
+  scope: ReportScope;
+  scope_id: string | null;
+  params: SubscriptionParams;
+  format: ReportFormat;
+  schedule: string;
+  next_run_at: string | null;
+  user: { email: string; first_name: string; is_active: boolean } | null;
+}
+
+// Next run of a cron schedule as stored in next_run_at; rejects schedules
+// that never run
+export function nextRunAt(schedule: string, after = new Date()) {
+  const next = nextCronRun(parseCron(schedule), after);
+  if (!next) {
+    throw new HttpError(400, 'Invalid schedule: it never runs');
+  }
+  return next.toISOString();
+}
+
+// Fixed dates for this run in place of the subscription's relative range
+export function runParams(params: SubscriptionParams, now = new Date()): ReportParams {
+  const { range, ...rest } = params;
+  return range ? { ...rest, ...resolveReportRange(range, now) } : rest;
+}
+
+async function claim(subscription: SubscriptionRow, now: Date) {
+  let nextRun: string | null = null;
+  try {
+    nextRun = nextRunAt(subscription.schedule, now);
+  } catch {
+    // A schedule that no longer parses leaves the subscription paused
+  }
+
+  let query = supabaseAdmin
+    .from('report_subscriptions')
+    .update({
+      next_run_at: nextRun,
+      is_active: nextRun !== null,
+      updated_at: now.toISOString(),
+      ...(subscription.next_run_at ? { last_run_at: now.toISOString() } : {}),
+    })
+    .eq('id', subscription.id);
+  query = subscription.next_run_at
+    ? query.eq('next_run_at', subscription.next_run_at)
+    : query.is('next_run_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+}
+
+async function recordDelivery(subscriptionId: string, delivery: {
+  status: 'sent' | 'failed';
+  recipient?: string | null;
+  filename?: string | null;
+  row_count?: number | null;
+  error?: string | null;
+  unsubscribe_token_hash?: string | null;
+}) {
+  const { error } = await supabaseAdmin
+    .from('report_deliveries')
+    .insert({ subscription_id: subscriptionId, ...delivery });
+  if (error) {
+    console.error('Failed to record report delivery:', error);
+  }
+}
+
+async function deliver(subscription: SubscriptionRow, now: Date) {
+  const user = subscription.user;
+  if (!user?.is_active) {
+    await supabaseAdmin
+      .from('report_subscriptions')
+      .update({ is_active: false, updated_at: now.toISOString() })
+      .eq('id', subscription.id);
+    await recordDelivery(subscription.id, {
+      status: 'failed',
+      recipient: user?.email ?? null,
+      error: 'The subscriber is deactivated; the subscription was paused',
+    });
+    return false;
+  }
+
+  try {
+    // The subscription id stands in for a session, so the token reaches the
+    // database as the subscriber but is refused by routes that need a session
+    const { token } = await signAccessToken(subscription.user_id, user.email, subscription.id);
+    const params = runParams(subscription.params, now);
+    const data = await fetchReport(supabaseForUser(token), subscription.report, subscription.scope, subscription.scope_id, params);
+    const file = renderReport(subscription.report, data, subscription.format, params);
+
+    const unsubscribeToken = randomToken();
+    await mailTransport().send({
+      to: user.email,
+      subject: `${data.title}${params.from ? ` (${params.from} to ${params.to})` : ''}`,
+      text: [
+        `Hello ${user.first_name},`,
+        '',
+        `Your scheduled ${data.title.toLowerCase()} report is attached (${data.rows.length} rows).`,
+        '',
+        'To stop receiving it, open:',
+        appUrl('/unsubscribe', { token: unsubscribeToken }),
+      ].join('\n'),
+      attachments: [{ filename: file.filename, content_type: file.content_type, content: file.body }],
+    });
+
+    await recordDelivery(subscription.id, {
+      status: 'sent',
+      recipient: user.email,
+      filename: file.filename,
+      row_count: data.rows.length,
+      unsubscribe_token_hash: await hashToken(unsubscribeToken),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to deliver report subscription ${subscription.id}:`, error);
+    await recordDelivery(subscription.id, {
+      status: 'failed',
+      recipient: user.email,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+// Delivers every subscription that is due; new and resumed ones (no
+// next_run_at yet) are only placed on their schedule
+export async function runDueSubscriptions(now = new Date()) {
+  const { data, error } = await supabaseAdmin
+    .from('report_subscriptions')
+    .select(`
+      id,
+      user_id,
+      report,
+      scope,
+      scope_id,
+      params,
+      format,
+      schedule,
+      next_run_at,
+      user:users(email, first_name, is_active)
+    `)
+    .eq('is_active', true)
+    .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`)
+    .order('next_run_at', { ascending: true, nullsFirst: true })
+    .limit(DUE_BATCH_SIZE);
+  if (error) {
+    throw error;
+  }
+
+  const result = { scheduled: 0, sent: 0, failed: 0 };
+  for (const subscription of (data ?? []) as unknown as SubscriptionRow[]) {
+    if (!(await claim(subscription, now))) {
+      continue;
+    }
+    if (!subscription.next_run_at) {
+      result.scheduled++;
+    } else if (await deliver(subscription, now)) {
+      result.sent++;
+    } else {
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,218 @@
+/*
+  Report exports
+
+  `report_data` runs a report with the caller's `view_reports_*` scope and
+  returns its columns, rows and totals; `renderReport` turns that into a file:
+
+    csv   UTF-8 with a byte order mark so spreadsheet apps detect the encoding
+    xlsx  one worksheet, amounts and dates kept as numbers (xlsx.ts)
+    pdf   landscape A4 table (pdf.ts)
+*/
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+import { renderPdf } from './pdf.ts';
+import { XlsxCell, XlsxFormat, xlsxWorkbook } from './xlsx.ts';
+
+export type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+export type ReportScope = 'global' | 'company' | 'site' | 'personal';
+
+export const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+// Periods a subscription can ask for, resolved to dates on each run
+export const REPORT_RANGES = [
+  'previous_day',
+  'previous_week',
+  'previous_month',
+  'week_to_date',
+  'month_to_date',
+  'last_7_days',
+  'last_30_days',
+] as const;
+
+export type ReportRange = typeof REPORT_RANGES[number];
+
+export interface ReportParams {
+  from?: string;
+  to?: string;
+  grain?: string;
+  site_id?: string;
+  user_id?: string;
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'money' | 'percent' | 'date';
+}
+
+export interface ReportData {
+  title: string;
+  columns: ReportColumn[];
+  rows: Record<string, string | number | null>[];
+  totals: Record<string, number> | null;
+}
+
+export interface ReportFile {
+  filename: string;
+  content_type: string;
+  body: Uint8Array;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+const moneyFormat = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const numberFormat = new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 });
+
+// `client` decides whose permissions apply: the caller's own client for
+// downloads, a client signed as the subscriber for scheduled deliveries
+export async function fetchReport(
+  client: SupabaseClient,
+  report: string,
+  scope: ReportScope,
+  scopeId: string | null,
+  params: ReportParams
+) {
+  const { data, error } = await client.rpc('report_data', {
+    p_report: report,
+    p_scope: scope,
+    p_scope_id: scopeId,
+    p_params: params,
+  });
+  if (error) {
+    // Exceptions raised by report_data explain what was wrong with the request
+    throw error.code === 'P0001' ? new HttpError(400, error.message) : error;
+  }
+  return data as ReportData;
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// `from` and `to` (inclusive, UTC) for a relative period; weeks start on Monday
+export function resolveReportRange(range: ReportRange, now = new Date()) {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const daysAgo = (days: number) => new Date(today.getTime() - days * 24 * 60 * 60 * 1000);
+  const sinceMonday = (today.getUTCDay() + 6) % 7;
+
+  switch (range) {
+    case 'previous_day':
+      return { from: isoDate(daysAgo(1)), to: isoDate(daysAgo(1)) };
+    case 'previous_week':
+      return { from: isoDate(daysAgo(sinceMonday + 7)), to: isoDate(daysAgo(sinceMonday + 1)) };
+    case 'previous_month':
+      return {
+        from: isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1))),
+        to: isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0))),
+      };
+    case 'week_to_date':
+      return { from: isoDate(daysAgo(sinceMonday)), to: isoDate(today) };
+    case 'month_to_date':
+      return { from: isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1))), to: isoDate(today) };
+    case 'last_7_days':
+      return { from: isoDate(daysAgo(7)), to: isoDate(daysAgo(1)) };
+    case 'last_30_days':
+      return { from: isoDate(daysAgo(30)), to: isoDate(daysAgo(1)) };
+  }
+}
+
+// Lines under the title describing what the report covers
+export function reportSubtitle(params: ReportParams, generatedAt = new Date()) {
+  const lines = [`Generated ${generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`];
+  if (params.from || params.to) {
+    lines.unshift(`Period ${params.from ?? 'start of month'} to ${params.to ?? 'today'}`);
+  }
+  return lines;
+}
+
+function displayValue(value: string | number | null | undefined, type: ReportColumn['type']) {
+  if (value === null || value === undefined) return '';
+  switch (type) {
+    case 'money':
+      return `$${moneyFormat.format(Number(value))}`;
+    case 'percent':
+      return `${numberFormat.format(Number(value))}%`;
+    case 'number':
+      return numberFormat.format(Number(value));
+    default:
+      return String(value);
+  }
+}
+
+function csvField(value: string | number | null | undefined) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Text starting like a formula is neutralised so spreadsheets do not run it
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(data: ReportData) {
+  const lines = [
+    data.columns.map((column) => csvField(column.label)).join(','),
+    ...data.rows.map((row) => data.columns.map((column) => csvField(row[column.key])).join(',')),
+  ];
+  if (data.totals) {
+    lines.push(data.columns.map((column, i) => csvField(i === 0 ? 'Total' : data.totals?.[column.key])).join(','));
+  }
+  return new TextEncoder().encode(`\ufeff${lines.join('\r\n')}\r\n`);
+}
+
+function renderXlsx(data: ReportData, subtitle: string[]) {
+  const format = (type: ReportColumn['type']): XlsxFormat =>
+    type === 'money' || type === 'percent' || type === 'date' ? type : 'general';
+
+  const rows: XlsxCell[][] = [
+    [{ value: data.title, bold: true }],
+    ...subtitle.map((line) => [{ value: line }]),
+    [],
+    data.columns.map((column) => ({ value: column.label, bold: true })),
+    ...data.rows.map((row) => data.columns.map((column) => ({ value: row[column.key] ?? null, format: format(column.type) }))),
+  ];
+  if (data.totals) {
+    rows.push(data.columns.map((column, i) => ({
+      value: i === 0 ? 'Total' : data.totals?.[column.key] ?? null,
+      format: format(column.type),
+      bold: true,
+    })));
+  }
+
+  const widths = data.columns.map((column) => Math.min(
+    Math.max(column.label.length, ...data.rows.map((row) => displayValue(row[column.key], column.type).length)) + 2,
+    50
+  ));
+  return xlsxWorkbook(data.title, rows, widths);
+}
+
+function renderReportPdf(data: ReportData, subtitle: string[]) {
+  return renderPdf({
+    title: data.title,
+    subtitle,
+    headers: data.columns.map((column) => column.label),
+    rows: data.rows.map((row) => data.columns.map((column) => displayValue(row[column.key], column.type))),
+    footer: data.totals
+      ? data.columns.map((column, i) => (i === 0 ? 'Total' : displayValue(data.totals?.[column.key], column.type)))
+      : undefined,
+    align: data.columns.map((column) => (column.type === 'text' || column.type === 'date' ? 'left' : 'right')),
+  });
+}
+
+export function renderReport(report: string, data: ReportData, format: ReportFormat, params: ReportParams): ReportFile {
+  const subtitle = reportSubtitle(params);
+  const body = format === 'csv'
+    ? renderCsv(data)
+    : format === 'xlsx'
+      ? renderXlsx(data, subtitle)
+      : renderReportPdf(data, subtitle);
+
+  const period = [params.from, params.to].filter(Boolean).join('_');
+  return {
+    filename: `${report}${period ? `_${period}` : ''}.${format}`,
+    content_type: CONTENT_TYPES[format],
+    body,
+  };
+}
@@ -0,0 +1,52 @@
+import { HttpError } from './http.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export async function createSession(userId: string) {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .insert({ user_id: userId, expires_at: expiresAt })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data.id as string;
+}
+
+// Rejects sessions that were revoked (logout, user or role deactivation)
+// or that outlived their absolute lifetime.
+export async function requireActiveSession(sessionId: string, userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id, expires_at, revoked_at')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+    throw new HttpError(401, 'Session has ended');
+  }
+}
+
+export async function touchSession(sessionId: string) {
+  await supabaseAdmin
+    .from('sessions')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', sessionId);
+}
+
+export async function revokeSession(sessionId: string, reason: string) {
+  await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+}
@@ -0,0 +1,14 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Client acting as the caller: RLS, auth.uid() and the audit trail all see
+// the user whose token is passed, not the service role.
+export function supabaseForUser(token: string) {
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${token}` } },
+    }
+  );
+}
@@ -0,0 +1,12 @@
+import { encodeBase64Url } from 'jsr:@std/encoding@1/base64url';
+
+// Random URL-safe token for one-time links. Only `hashToken(token)` is
+// stored, so a leaked table does not hand out working links.
+export function randomToken(bytes = 32) {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+export async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,67 @@
+/*
+  Time-based one-time passwords (RFC 6238), as generated by authenticator
+  apps: HMAC-SHA1, 6 digits, 30 second steps. TOTP_ISSUER names the app in
+  the authenticator (default "Business Management Platform").
+*/
+import { decodeBase32, encodeBase32 } from 'jsr:@std/encoding@1/base32';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Steps accepted either side of the current one, for clock drift
+const DRIFT_STEPS = 1;
+
+export function generateTotpSecret() {
+  return encodeBase32(crypto.getRandomValues(new Uint8Array(20))).replace(/=+$/, '');
+}
+
+// The URI authenticator apps read from the QR code
+export function totpUri(secret: string, accountName: string) {
+  const issuer = Deno.env.get('TOTP_ISSUER') ?? 'Business Management Platform';
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}?${params}`;
+}
+
+export function totpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+async function codeAt(secret: string, step: number) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    decodeBase32(secret.toUpperCase()),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setBigUint64(0, BigInt(step));
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = new DataView(hmac.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// Returns the step the code belongs to, or null when it matches none near
+// `now`. Callers refuse steps at or before the last one accepted.
+export async function matchTotp(secret: string, code: string, now = Date.now()) {
+  const digits = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(digits)) {
+    return null;
+  }
+
+  const current = totpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (await codeAt(secret, step) === digits) {
+      return step;
+    }
+  }
+  return null;
+}
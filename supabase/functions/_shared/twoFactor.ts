@@ -0,0 +1,236 @@
+/*
+  Two-factor authentication
+
+    TWO_FACTOR_REQUIRED_LEVELS  comma-separated role levels that must use it
+                                (default "1,2": Super Admin and Company Admin)
+
+  Anyone may turn it on. Someone holding an active role at a required level
+  cannot turn it off, and has to enrol before their next sign-in completes.
+*/
+import QRCode from 'npm:qrcode@1.5.4';
+import { HttpError } from './http.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { hashToken, randomToken } from './tokens.ts';
+import { generateTotpSecret, matchTotp, totpUri } from './totp.ts';
+import type { UserRow } from './users.ts';
+
+const CHALLENGE_TTL_MINUTES = 5;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const EXPIRED_CHALLENGE = 'This sign-in has expired; sign in again';
+
+const REQUIRED_LEVELS = new Set(
+  (Deno.env.get('TWO_FACTOR_REQUIRED_LEVELS') ?? '1,2')
+    .split(',')
+    .map((level) => level.trim())
+    .filter(Boolean)
+    .map(Number)
+);
+
+type TwoFactorUser = Pick<UserRow, 'id' | 'email' | 'totp_secret' | 'totp_enabled_at'>;
+
+export function twoFactorRequired(roles: { role: { level: number } }[]) {
+  return roles.some(({ role }) => REQUIRED_LEVELS.has(role.level));
+}
+
+// Issued once the password checks out; earlier unused challenges stop working
+export async function createTwoFactorChallenge(userId: string) {
+  const token = randomToken();
+
+  const { error: voidError } = await supabaseAdmin
+    .from('two_factor_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (voidError) {
+    throw voidError;
+  }
+
+  const { error } = await supabaseAdmin.from('two_factor_challenges').insert({
+    user_id: userId,
+    token_hash: await hashToken(token),
+    expires_at: new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+  if (error) {
+    throw error;
+  }
+
+  return token;
+}
+
+// Looks a challenge up without using it, so a mistyped code can be retried
+export async function findTwoFactorChallenge(token: string | undefined) {
+  if (!token) {
+    throw new HttpError(400, 'A sign-in token is required');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('two_factor_challenges')
+    .select('id, user_id')
+    .eq('token_hash', await hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new HttpError(400, EXPIRED_CHALLENGE);
+  }
+  return data;
+}
+
+export async function completeTwoFactorChallenge(challengeId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('two_factor_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', challengeId)
+    .is('used_at', null)
+    .select('id');
+  if (error) {
+    throw error;
+  }
+  if (!data?.length) {
+    throw new HttpError(400, EXPIRED_CHALLENGE);
+  }
+}
+
+// Stores a new pending secret; it only takes effect once
+// `confirmEnrollment` gets a valid code for it
+export async function startEnrollment(user: TwoFactorUser) {
+  if (user.totp_enabled_at) {
+    throw new HttpError(400, 'Two-factor authentication is already on');
+  }
+
+  const secret = generateTotpSecret();
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ totp_secret: secret, totp_last_step: null })
+    .eq('id', user.id);
+  if (error) {
+    throw error;
+  }
+
+  const uri = totpUri(secret, user.email);
+  const svg = await QRCode.toString(uri, { type: 'svg', margin: 1 });
+  return {
+    secret,
+    otpauth_uri: uri,
+    qr_code: `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`,
+  };
+}
+
+// The step is stored conditionally, so the same code cannot pass twice even
+// when two requests race
+async function acceptTotp(user: TwoFactorUser, code: string) {
+  if (!user.totp_secret) return false;
+
+  const step = await matchTotp(user.totp_secret, code);
+  if (step === null) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update({ totp_last_step: step })
+    .eq('id', user.id)
+    .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+    .select('id');
+  if (error) {
+    throw error;
+  }
+  return !!data?.length;
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+async function useRecoveryCode(userId: string, code: string) {
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length !== RECOVERY_CODE_LENGTH) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', await hashToken(normalized))
+    .is('used_at', null)
+    .select('id');
+  if (error) {
+    throw error;
+  }
+  return !!data?.length;
+}
+
+// An authenticator code or, failing that, an unused recovery code
+export async function checkSecondFactor(user: TwoFactorUser, code: string | undefined) {
+  if (!code?.trim() || !user.totp_enabled_at) return false;
+  return await acceptTotp(user, code) || await useRecoveryCode(user.id, code);
+}
+
+// Turns two-factor authentication on with the first valid code for the
+// pending secret. Returns the new recovery codes, or null if the code is wrong.
+export async function confirmEnrollment(user: TwoFactorUser, code: string | undefined) {
+  if (user.totp_enabled_at) {
+    throw new HttpError(400, 'Two-factor authentication is already on');
+  }
+  if (!user.totp_secret) {
+    throw new HttpError(400, 'Set up your authenticator app first');
+  }
+  if (!code?.trim() || !(await acceptTotp(user, code))) {
+    return null;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ totp_enabled_at: new Date().toISOString() })
+    .eq('id', user.id);
+  if (error) {
+    throw error;
+  }
+
+  return issueRecoveryCodes(user.id);
+}
+
+function randomRecoveryCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH));
+  const code = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte & 31]).join('');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// Replaces every earlier recovery code. Only hashes are stored, so the codes
+// are shown this once.
+export async function issueRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+
+  const { error: deleteError } = await supabaseAdmin.from('recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  const rows = await Promise.all(codes.map(async (code) => ({
+    user_id: userId,
+    code_hash: await hashToken(normalizeRecoveryCode(code)),
+  })));
+  const { error } = await supabaseAdmin.from('recovery_codes').insert(rows);
+  if (error) {
+    throw error;
+  }
+
+  return codes;
+}
+
+export async function disableTwoFactor(userId: string) {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ totp_secret: null, totp_enabled_at: null, totp_last_step: null })
+    .eq('id', userId);
+  if (error) {
+    throw error;
+  }
+
+  const { error: deleteError } = await supabaseAdmin.from('recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) {
+    throw deleteError;
+  }
+}
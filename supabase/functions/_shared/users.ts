@@ -0,0 +1,136 @@
+import { HttpError } from './http.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { twoFactorRequired } from './twoFactor.ts';
+
+export interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  is_active: boolean;
+  must_change_password: boolean;
+  locked_until: string | null;
+  totp_secret: string | null;
+  totp_enabled_at: string | null;
+}
+
+export async function findUserByEmail(email: string) {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, email, password_hash, first_name, last_name, phone, is_active, must_change_password, locked_until, totp_secret, totp_enabled_at')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as UserRow | null;
+}
+
+export async function findUserById(id: string) {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, email, password_hash, first_name, last_name, phone, is_active, must_change_password, locked_until, totp_secret, totp_enabled_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as UserRow | null;
+}
+
+interface RolePermissionRow {
+  permission: { id: string; name: string; description: string | null; resource: string; action: string };
+}
+
+// Company and site come back whole (`*`); only their status is read here
+type ScopeRow = { is_active: boolean } & Record<string, unknown>;
+
+interface UserRoleRow {
+  id: string;
+  is_active: boolean;
+  role: {
+    id: string;
+    name: string;
+    description: string | null;
+    level: number;
+    role_permissions: RolePermissionRow[];
+  };
+  company: ScopeRow | null;
+  site: ScopeRow | null;
+}
+
+// Shapes the row the same way the client-side `User` type expects it,
+// with only active role assignments and each role's permissions attached.
+// Assignments in a deactivated company or site are left out; someone with
+// nothing else left cannot sign in until it is reactivated.
+export async function loadSessionUser(userRow: UserRow) {
+  const { data: userRoles, error } = await supabaseAdmin
+    .from('user_roles')
+    .select(`
+      id,
+      is_active,
+      role:roles(
+        id,
+        name,
+        description,
+        level,
+        role_permissions(permission:permissions(id, name, description, resource, action))
+      ),
+      company:companies(*),
+      site:sites(*)
+    `)
+    .eq('user_id', userRow.id)
+    .eq('is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  const usableRoles = ((userRoles ?? []) as unknown as UserRoleRow[]).filter(
+    ({ company, site }) => company?.is_active !== false && site?.is_active !== false
+  );
+  if (userRoles?.length && !usableRoles.length) {
+    throw new HttpError(403, 'Your company or site has been deactivated');
+  }
+
+  return {
+    id: userRow.id,
+    email: userRow.email,
+    first_name: userRow.first_name,
+    last_name: userRow.last_name,
+    phone: userRow.phone ?? undefined,
+    is_active: userRow.is_active,
+    two_factor_enabled: !!userRow.totp_enabled_at,
+    two_factor_required: twoFactorRequired(usableRoles),
+    roles: usableRoles.map(({ role, ...userRole }) => {
+      const { role_permissions, ...roleFields } = role;
+      return {
+        ...userRole,
+        role: {
+          ...roleFields,
+          permissions: role_permissions.map((rp) => rp.permission),
+        },
+      };
+    }),
+  };
+}
+
+// `user_id` is null for failed sign-ins with an unknown email
+export async function logActivity(entry: {
+  user_id: string | null;
+  action: string;
+  resource_type: string;
+  resource_id?: string | null;
+  details?: Record<string, unknown>;
+  ip_address?: string | null;
+  user_agent?: string | null;
+}) {
+  const { error } = await supabaseAdmin.from('activity_logs').insert(entry);
+  if (error) {
+    console.error('Failed to write activity log:', error);
+  }
+}
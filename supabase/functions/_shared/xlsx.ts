@@ -0,0 +1,216 @@
+/*
+  Minimal XLSX writer: one worksheet of inline strings, numbers and dates in
+  an uncompressed zip, which Excel, LibreOffice and Google Sheets all open.
+*/
+
+export type XlsxFormat = 'general' | 'money' | 'percent' | 'date';
+
+export interface XlsxCell {
+  value: string | number | null;
+  // Dates are 'YYYY-MM-DD' strings written as spreadsheet dates
+  format?: XlsxFormat;
+  bold?: boolean;
+}
+
+const FORMATS: XlsxFormat[] = ['general', 'money', 'percent', 'date'];
+// Percentages are stored as 0-100, so the sign is a literal
+const NUMBER_FORMAT_IDS: Record<XlsxFormat, number> = { general: 0, money: 164, percent: 165, date: 14 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+const encoder = new TextEncoder();
+
+function escapeXml(value: string) {
+  return value
+    // Control characters are not allowed in XML 1.0 at all
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// One cell style per format, plain and bold, in FORMATS order
+const styleIndex = (cell: XlsxCell) => FORMATS.indexOf(cell.format ?? 'general') * 2 + (cell.bold ? 1 : 0);
+
+function cellXml(cell: XlsxCell, ref: string) {
+  const style = styleIndex(cell);
+  if (cell.value === null || cell.value === '') {
+    return style ? `<c r="${ref}" s="${style}"/>` : '';
+  }
+  if (cell.format === 'date' && typeof cell.value === 'string') {
+    const serial = (Date.parse(`${cell.value.slice(0, 10)}T00:00:00Z`) - SPREADSHEET_EPOCH) / DAY_MS;
+    if (!Number.isNaN(serial)) {
+      return `<c r="${ref}" s="${style}"><v>${serial}</v></c>`;
+    }
+  }
+  if (typeof cell.value === 'number') {
+    return `<c r="${ref}" s="${style}"><v>${cell.value}</v></c>`;
+  }
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+}
+
+function worksheetXml(rows: XlsxCell[][], widths: number[]) {
+  const cols = widths
+    .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+    .join('');
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + (cols ? `<cols>${cols}</cols>` : '')
+    + `<sheetData>${sheetRows}</sheetData>`
+    + '</worksheet>';
+}
+
+function stylesXml() {
+  const xfs = FORMATS.flatMap((format) => [0, 1].map((font) => {
+    const numFmtId = NUMBER_FORMAT_IDS[format];
+    return `<xf numFmtId="${numFmtId}" fontId="${font}" fillId="0" borderId="0" xfId="0"`
+      + `${numFmtId ? ' applyNumberFormat="1"' : ''}${font ? ' applyFont="1"' : ''}/>`;
+  }));
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<numFmts count="2">'
+    + '<numFmt numFmtId="164" formatCode="#,##0.00"/>'
+    + '<numFmt numFmtId="165" formatCode="0.0&quot;%&quot;"/>'
+    + '</numFmts>'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>`
+    + '</styleSheet>';
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Zip archive with every entry stored as is (no compression)
+function zip(files: { name: string; data: Uint8Array }[]) {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    // 1980-01-01 00:00 as the DOS date; the entries have no meaningful time
+    local.setUint16(12, 0x21, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, file.data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+// Workbook with a single sheet; `widths` are column widths in characters
+export function xlsxWorkbook(sheetName: string, rows: XlsxCell[][], widths: number[] = []) {
+  const xml = (value: string) => encoder.encode(value);
+  const relationships = (entries: string) =>
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries}</Relationships>`;
+  const officeRel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      data: xml(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(relationships(`<Relationship Id="rId1" Type="${officeRel}/officeDocument" Target="xl/workbook.xml"/>`)),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${officeRel}">`
+        // Sheet names are limited to 31 characters and may not contain []:*?/\
+        + `<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(relationships(
+        `<Relationship Id="rId1" Type="${officeRel}/worksheet" Target="worksheets/sheet1.xml"/>`
+        + `<Relationship Id="rId2" Type="${officeRel}/styles" Target="styles.xml"/>`
+      )),
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: xml(worksheetXml(rows, widths)) },
+    { name: 'xl/styles.xml', data: xml(stylesXml()) },
+  ]);
+}
@@ -0,0 +1,519 @@
+/*
+  Auth service
+
+  POST /auth/login               { email, password } -> { access_token, expires_at, user }
+                                                     or { password_change_token }
+                                                     or { two_factor_token, two_factor: 'verify' | 'enroll' }
+  POST /auth/refresh             (Bearer token)      -> { access_token, expires_at, user }
+  POST /auth/logout              (Bearer token)      -> { ok: true }
+  POST /auth/forgot-password     { email }           -> { ok: true }
+  POST /auth/reset-password      { token, password } -> { email }
+  POST /auth/two-factor-verify   { two_factor_token, code } -> { access_token, expires_at, user, recovery_codes? }
+  POST /auth/two-factor-setup    { two_factor_token } or (Bearer token) -> { secret, otpauth_uri, qr_code }
+  POST /auth/two-factor-enable   (Bearer token) { code } -> { recovery_codes }
+  POST /auth/two-factor-disable  (Bearer token) { code } -> { ok: true }
+  POST /auth/recovery-codes      (Bearer token) { code } -> { recovery_codes }
+
+  Credentials are checked here with the service role so password hashes never
+  reach the browser. The issued token is signed with the project JWT secret
+  (`JWT_SECRET`) and carries `sub = users.id`, which makes `auth.uid()` work
+  in the RLS policies, plus `sid`, the `sessions` row that can revoke it.
+
+  Someone who must change their password (seed accounts, admin resets) gets
+  no session at sign-in, only a short-lived reset token to choose a new one.
+  Reset links are single use; using one ends every session of the user.
+
+  Every sign-in attempt is recorded in `login_attempts`. Repeated failures
+  for an email make each next try wait longer and eventually lock it
+  (`users.locked_until` shows this to administrators, who can unlock it);
+  too many failures from one IP address block that address. The rules live
+  in `_shared/loginThrottle.ts`.
+
+  With two-factor authentication on, or required for one of the user's role
+  levels (`_shared/twoFactor.ts`), a correct password only yields a sign-in
+  token; the session is issued by `two-factor-verify` once it comes back
+  with an authenticator or recovery code. Someone who has to use it but has
+  not enrolled sets their authenticator up at that point. Wrong codes count
+  as failed sign-ins.
+*/
+import bcrypt from 'npm:bcryptjs@2.4.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { HttpError, bearerToken, clientInfo, errorResponse, jsonResponse, readJson } from '../_shared/http.ts';
+import { signAccessToken, verifyAccessToken } from '../_shared/jwt.ts';
+import { type LoginAttempt, type ThrottlePolicy, accountThrottle, ipThrottle, secondsUntil, systemClock, throttlePolicyFromEnv } from '../_shared/loginThrottle.ts';
+import { appUrl, mailTransport } from '../_shared/mail.ts';
+import { PASSWORD_RESET_TTL_MINUTES, checkPassword, createPasswordReset, hashPassword } from '../_shared/passwords.ts';
+import { createSession, requireActiveSession, revokeSession, touchSession } from '../_shared/sessions.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { hashToken } from '../_shared/tokens.ts';
+import {
+  checkSecondFactor,
+  completeTwoFactorChallenge,
+  confirmEnrollment,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  findTwoFactorChallenge,
+  issueRecoveryCodes,
+  startEnrollment,
+  twoFactorRequired
+} from '../_shared/twoFactor.ts';
+import { type UserRow, findUserByEmail, findUserById, loadSessionUser, logActivity } from '../_shared/users.ts';
+
+const INVALID_CREDENTIALS = 'Invalid email or password';
+const INVALID_CODE = 'Invalid authentication code';
+
+// Looks back twice the lockout: a lock runs for a lockout after the last
+// failure in the window, and the failures behind it span up to another
+// lockout before that, so a lock that is still running can rest on failures
+// almost twice the lockout old
+async function recentAttempts(column: 'email' | 'ip_address', value: string, policy: ThrottlePolicy) {
+  let query = supabaseAdmin
+    .from('login_attempts')
+    .select('attempted_at, outcome')
+    .eq(column, value)
+    .gt('attempted_at', new Date(systemClock.now() - 2 * policy.lockoutMs).toISOString())
+    .order('attempted_at', { ascending: false });
+
+  // An address is only ever blocked, so its successes do not matter
+  query = column === 'ip_address'
+    ? query.eq('outcome', 'failed').limit(policy.ipMaxFailures)
+    : query.limit(policy.maxFailures + 1);
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as LoginAttempt[];
+}
+
+async function recordAttempt(attempt: {
+  email: string;
+  ip_address: string | null;
+  user_id: string | null;
+  outcome: LoginAttempt['outcome'];
+}) {
+  const { error } = await supabaseAdmin.from('login_attempts').insert(attempt);
+  if (error) {
+    throw error;
+  }
+}
+
+function lockedError(lockedUntil: number) {
+  const minutes = Math.ceil(secondsUntil(lockedUntil) / 60);
+  return new HttpError(
+    423,
+    `Too many failed sign-ins. This account is locked for ${minutes} minute${minutes === 1 ? '' : 's'}; an administrator can unlock it sooner`
+  );
+}
+
+interface Throttle {
+  email: string;
+  client: ReturnType<typeof clientInfo>;
+  policy: ThrottlePolicy;
+  accountAttempts: LoginAttempt[];
+}
+
+// Refuses the attempt while the email or the caller's address is throttled
+async function checkThrottle(req: Request, email: string): Promise<Throttle> {
+  const client = clientInfo(req);
+  const policy = throttlePolicyFromEnv();
+
+  const [accountAttempts, ipAttempts] = await Promise.all([
+    recentAttempts('email', email, policy),
+    client.ip_address ? recentAttempts('ip_address', client.ip_address, policy) : Promise.resolve([]),
+  ]);
+
+  const ipState = ipThrottle(ipAttempts, policy);
+  if (ipState.lockedUntil) {
+    const minutes = Math.ceil(secondsUntil(ipState.lockedUntil) / 60);
+    throw new HttpError(429, `Too many failed sign-ins from your network. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+  }
+
+  const accountState = accountThrottle(accountAttempts, policy);
+  if (accountState.lockedUntil) {
+    throw lockedError(accountState.lockedUntil);
+  }
+  if (accountState.retryAt) {
+    const seconds = secondsUntil(accountState.retryAt);
+    throw new HttpError(429, `Please wait ${seconds} second${seconds === 1 ? '' : 's'} before trying again`);
+  }
+
+  return { email, client, policy, accountAttempts };
+}
+
+// Records a failed password or code and throws: the lock message when this
+// failure locked the account, `message` otherwise
+async function failSignIn(throttle: Throttle, userRow: UserRow | null, message: string, details: Record<string, unknown> = {}): Promise<never> {
+  const { email, client, policy, accountAttempts } = throttle;
+
+  await recordAttempt({
+    email,
+    ip_address: client.ip_address,
+    user_id: userRow?.id ?? null,
+    outcome: 'failed',
+  });
+
+  await logActivity({
+    user_id: userRow?.id ?? null,
+    action: 'login_failed',
+    resource_type: 'auth',
+    details: { email, ...details },
+    ...client
+  });
+
+  const { lockedUntil } = accountThrottle(
+    [{ attempted_at: new Date(systemClock.now()).toISOString(), outcome: 'failed' }, ...accountAttempts],
+    policy
+  );
+  if (lockedUntil) {
+    if (userRow) {
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({ locked_until: new Date(lockedUntil).toISOString() })
+        .eq('id', userRow.id);
+      if (error) {
+        throw error;
+      }
+    }
+    throw lockedError(lockedUntil);
+  }
+  throw new HttpError(401, message);
+}
+
+// Only a completed sign-in counts as a success: a correct password followed
+// by wrong codes keeps counting towards the lock
+async function startSession(
+  throttle: Throttle,
+  userRow: UserRow,
+  user: Awaited<ReturnType<typeof loadSessionUser>>,
+  details: Record<string, unknown> = {}
+) {
+  await recordAttempt({
+    email: throttle.email,
+    ip_address: throttle.client.ip_address,
+    user_id: userRow.id,
+    outcome: 'succeeded',
+  });
+  if (userRow.locked_until) {
+    const { error } = await supabaseAdmin.from('users').update({ locked_until: null }).eq('id', userRow.id);
+    if (error) {
+      throw error;
+    }
+  }
+
+  const sessionId = await createSession(user.id);
+  const { token, expiresAt } = await signAccessToken(user.id, user.email, sessionId);
+
+  await logActivity({
+    user_id: user.id,
+    action: 'login',
+    resource_type: 'auth',
+    details: { email: user.email, ...details },
+    ...throttle.client
+  });
+
+  return { access_token: token, expires_at: expiresAt, user };
+}
+
+async function login(req: Request) {
+  const { email, password } = await readJson<{ email?: string; password?: string }>(req);
+  if (!email || !password) {
+    throw new HttpError(400, 'Email and password are required');
+  }
+
+  const throttle = await checkThrottle(req, email.trim().toLowerCase());
+
+  const userRow = await findUserByEmail(throttle.email);
+  const isValidPassword = !!userRow?.is_active && await bcrypt.compare(password, userRow.password_hash);
+  if (!userRow || !isValidPassword) {
+    return failSignIn(throttle, userRow, INVALID_CREDENTIALS);
+  }
+
+  const user = await loadSessionUser(userRow);
+  if (userRow.must_change_password) {
+    return { password_change_token: await createPasswordReset(user.id, 'required') };
+  }
+
+  if (userRow.totp_enabled_at || twoFactorRequired(user.roles)) {
+    return {
+      two_factor_token: await createTwoFactorChallenge(user.id),
+      two_factor: userRow.totp_enabled_at ? 'verify' : 'enroll',
+    };
+  }
+
+  return startSession(throttle, userRow, user);
+}
+
+// Used both on page load and shortly before expiry: the user and roles are
+// always re-read, so a stored token can never carry stale or edited roles.
+async function refresh(req: Request) {
+  const claims = await verifyAccessToken(bearerToken(req), { allowExpired: true });
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const userRow = await findUserById(claims.sub);
+  if (!userRow || !userRow.is_active) {
+    await revokeSession(claims.sid, 'user_deactivated');
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  const user = await loadSessionUser(userRow);
+  const { token, expiresAt } = await signAccessToken(user.id, user.email, claims.sid);
+  await touchSession(claims.sid);
+
+  return { access_token: token, expires_at: expiresAt, user };
+}
+
+async function logout(req: Request) {
+  const claims = await verifyAccessToken(bearerToken(req), { allowExpired: true });
+  await revokeSession(claims.sid, 'logout');
+
+  await logActivity({
+    user_id: claims.sub,
+    action: 'logout',
+    resource_type: 'auth',
+    ...clientInfo(req)
+  });
+
+  return { ok: true };
+}
+
+// Answers the same whether or not the address belongs to someone, so it
+// cannot be used to find out who has an account
+async function forgotPassword(req: Request) {
+  const { email } = await readJson<{ email?: string }>(req);
+  if (!email?.trim()) {
+    throw new HttpError(400, 'Email is required');
+  }
+
+  const userRow = await findUserByEmail(email.trim().toLowerCase());
+  if (userRow?.is_active) {
+    const token = await createPasswordReset(userRow.id, 'forgot');
+    await mailTransport().send({
+      to: userRow.email,
+      subject: 'Reset your password',
+      text: [
+        `Hello ${userRow.first_name},`,
+        '',
+        'Someone asked to reset the password of your account. If it was you, choose a new one here:',
+        '',
+        appUrl('/reset-password', { token }),
+        '',
+        `The link can be used once and expires in ${PASSWORD_RESET_TTL_MINUTES.forgot} minutes.`,
+        'If you did not ask for it, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    await logActivity({
+      user_id: userRow.id,
+      action: 'request_reset',
+      resource_type: 'password',
+      resource_id: userRow.id,
+      details: { email: userRow.email },
+      ...clientInfo(req)
+    });
+  }
+
+  return { ok: true };
+}
+
+async function resetPassword(req: Request) {
+  const { token, password } = await readJson<{ token?: string; password?: string }>(req);
+  if (!token) {
+    throw new HttpError(400, 'A reset token is required');
+  }
+
+  const tokenHash = await hashToken(token);
+  const { data: reset, error } = await supabaseAdmin
+    .from('password_resets')
+    .select('user_id, user:users!password_resets_user_id_fkey(email, is_active)')
+    .eq('token_hash', tokenHash)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+
+  const user = reset?.user as unknown as { email: string; is_active: boolean } | null;
+  if (!reset || !user?.is_active) {
+    throw new HttpError(400, 'This password link is invalid or has expired');
+  }
+
+  await checkPassword(password, { id: reset.user_id, email: user.email });
+
+  const { error: rpcError } = await supabaseAdmin.rpc('complete_password_reset', {
+    p_token_hash: tokenHash,
+    p_password_hash: await hashPassword(password!),
+  });
+  if (rpcError) {
+    throw rpcError.code === 'P0001' ? new HttpError(400, rpcError.message) : rpcError;
+  }
+
+  await logActivity({
+    user_id: reset.user_id,
+    action: 'reset',
+    resource_type: 'password',
+    resource_id: reset.user_id,
+    details: { email: user.email },
+    ...clientInfo(req)
+  });
+
+  return { email: user.email };
+}
+
+// Second sign-in step. Someone who has to enrol first gets their secret from
+// `two-factor-setup` with the same token, and their first code turns it on.
+async function twoFactorVerify(req: Request) {
+  const { two_factor_token: challengeToken, code } = await readJson<{ two_factor_token?: string; code?: string }>(req);
+  const challenge = await findTwoFactorChallenge(challengeToken);
+
+  const userRow = await findUserById(challenge.user_id);
+  if (!userRow?.is_active) {
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  const throttle = await checkThrottle(req, userRow.email.toLowerCase());
+
+  let recoveryCodes: string[] | null = null;
+  if (userRow.totp_enabled_at) {
+    if (!(await checkSecondFactor(userRow, code))) {
+      return failSignIn(throttle, userRow, INVALID_CODE, { step: 'two_factor' });
+    }
+  } else {
+    recoveryCodes = await confirmEnrollment(userRow, code);
+    if (!recoveryCodes) {
+      return failSignIn(throttle, userRow, INVALID_CODE, { step: 'two_factor' });
+    }
+    await logTwoFactor(req, userRow.id, 'enable');
+  }
+
+  await completeTwoFactorChallenge(challenge.id);
+  const user = await loadSessionUser({ ...userRow, totp_enabled_at: userRow.totp_enabled_at ?? new Date().toISOString() });
+  const session = await startSession(throttle, userRow, user, { two_factor: true });
+  return recoveryCodes ? { ...session, recovery_codes: recoveryCodes } : session;
+}
+
+async function logTwoFactor(req: Request, userId: string, action: string) {
+  await logActivity({
+    user_id: userId,
+    action,
+    resource_type: 'two_factor',
+    resource_id: userId,
+    ...clientInfo(req)
+  });
+}
+
+// The signed-in user, for the routes that change their own settings
+async function currentUser(req: Request) {
+  const claims = await verifyAccessToken(bearerToken(req));
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const userRow = await findUserById(claims.sub);
+  if (!userRow?.is_active) {
+    throw new HttpError(401, 'Session has ended');
+  }
+  return userRow;
+}
+
+// Enrolment starts either halfway through signing in, with the sign-in
+// token, or from the account page
+async function twoFactorSetup(req: Request) {
+  const { two_factor_token: challengeToken } = await readJson<{ two_factor_token?: string }>(req);
+  const userRow = challengeToken
+    ? await findUserById((await findTwoFactorChallenge(challengeToken)).user_id)
+    : await currentUser(req);
+  if (!userRow?.is_active) {
+    throw new HttpError(401, 'Session has ended');
+  }
+
+  return startEnrollment(userRow);
+}
+
+async function twoFactorEnable(req: Request) {
+  const userRow = await currentUser(req);
+  const { code } = await readJson<{ code?: string }>(req);
+  const throttle = await checkThrottle(req, userRow.email.toLowerCase());
+
+  const recoveryCodes = await confirmEnrollment(userRow, code);
+  if (!recoveryCodes) {
+    return failSignIn(throttle, userRow, INVALID_CODE, { step: 'two_factor' });
+  }
+
+  await logTwoFactor(req, userRow.id, 'enable');
+  return { recovery_codes: recoveryCodes };
+}
+
+// Changing the settings takes a current code, throttled like signing in
+async function requireCode(req: Request, userRow: UserRow, code: string | undefined) {
+  const throttle = await checkThrottle(req, userRow.email.toLowerCase());
+  if (!(await checkSecondFactor(userRow, code))) {
+    await failSignIn(throttle, userRow, INVALID_CODE, { step: 'two_factor' });
+  }
+}
+
+async function twoFactorDisable(req: Request) {
+  const userRow = await currentUser(req);
+  const { code } = await readJson<{ code?: string }>(req);
+
+  const user = await loadSessionUser(userRow);
+  if (twoFactorRequired(user.roles)) {
+    throw new HttpError(403, 'Your role requires two-factor authentication');
+  }
+
+  await requireCode(req, userRow, code);
+  await disableTwoFactor(userRow.id);
+  await logTwoFactor(req, userRow.id, 'disable');
+
+  return { ok: true };
+}
+
+async function recoveryCodes(req: Request) {
+  const userRow = await currentUser(req);
+  const { code } = await readJson<{ code?: string }>(req);
+
+  await requireCode(req, userRow, code);
+  const codes = await issueRecoveryCodes(userRow.id);
+  await logTwoFactor(req, userRow.id, 'regenerate');
+
+  return { recovery_codes: codes };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    const route = new URL(req.url).pathname.split('/').pop();
+    switch (route) {
+      case 'login':
+        return jsonResponse(await login(req));
+      case 'refresh':
+        return jsonResponse(await refresh(req));
+      case 'logout':
+        return jsonResponse(await logout(req));
+      case 'forgot-password':
+        return jsonResponse(await forgotPassword(req));
+      case 'reset-password':
+        return jsonResponse(await resetPassword(req));
+      case 'two-factor-setup':
+        return jsonResponse(await twoFactorSetup(req));
+      case 'two-factor-verify':
+        return jsonResponse(await twoFactorVerify(req));
+      case 'two-factor-enable':
+        return jsonResponse(await twoFactorEnable(req));
+      case 'two-factor-disable':
+        return jsonResponse(await twoFactorDisable(req));
+      case 'recovery-codes':
+        return jsonResponse(await recoveryCodes(req));
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,217 @@
+/*
+  Reports service
+
+  POST /reports/export (Bearer token)
+    { report, scope, scope_id, params, format } -> { filename, content_type, content }
+
+  The report is run with the caller's own token, so `report_data` limits it
+  to their `view_reports_*` scope, then rendered here as CSV, XLSX or PDF.
+  `content` is the file, base64 encoded.
+
+  POST /reports/subscribe (Bearer token)
+    { report, scope, scope_id, params, format, schedule } -> { id, next_run_at }
+  POST /reports/unsubscribe
+    { token } -> { report }
+  POST /reports/run-scheduled (Bearer REPORT_SCHEDULER_SECRET)
+    {} -> { scheduled, sent, failed }
+
+  A subscription mails the report to its owner on a cron schedule (UTC).
+  `params.range` (e.g. 'previous_week') replaces fixed dates and is resolved
+  at each run. `run-scheduled` is meant to be called every few minutes by a
+  cron job (pg_cron with pg_net, or any external scheduler); it delivers
+  whatever is due. `unsubscribe` takes the token from a delivered mail and
+  pauses the subscription.
+*/
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+import { corsHeaders } from '../_shared/cors.ts';
+import { HttpError, bearerToken, clientInfo, errorResponse, jsonResponse, readJson } from '../_shared/http.ts';
+import { verifyAccessToken } from '../_shared/jwt.ts';
+import { SubscriptionParams, nextRunAt, runDueSubscriptions, runParams } from '../_shared/reportDelivery.ts';
+import { REPORT_FORMATS, REPORT_RANGES, ReportFormat, ReportParams, ReportScope, fetchReport, renderReport } from '../_shared/reports.ts';
+import { requireActiveSession } from '../_shared/sessions.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { supabaseForUser } from '../_shared/supabaseUser.ts';
+import { hashToken } from '../_shared/tokens.ts';
+import { logActivity } from '../_shared/users.ts';
+
+interface ExportBody {
+  report?: string;
+  scope?: ReportScope;
+  scope_id?: string | null;
+  params?: ReportParams;
+  format?: ReportFormat;
+}
+
+interface SubscribeBody extends ExportBody {
+  params?: SubscriptionParams;
+  schedule?: string;
+}
+
+async function exportReport(req: Request) {
+  const token = bearerToken(req);
+  const claims = await verifyAccessToken(token);
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const body = await readJson<ExportBody>(req);
+  if (!body.report || !body.scope) {
+    throw new HttpError(400, 'A report and scope are required');
+  }
+  if (!body.format || !REPORT_FORMATS.includes(body.format)) {
+    throw new HttpError(400, `The format must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+
+  const params = body.params ?? {};
+  const data = await fetchReport(supabaseForUser(token), body.report, body.scope, body.scope_id ?? null, params);
+  const file = renderReport(body.report, data, body.format, params);
+
+  await logActivity({
+    user_id: claims.sub,
+    action: 'export',
+    resource_type: 'report',
+    details: { report: body.report, format: body.format, scope: body.scope, ...params },
+    ...clientInfo(req),
+  });
+
+  return {
+    filename: file.filename,
+    content_type: file.content_type,
+    content: encodeBase64(file.body),
+  };
+}
+
+async function subscribe(req: Request) {
+  const token = bearerToken(req);
+  const claims = await verifyAccessToken(token);
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const body = await readJson<SubscribeBody>(req);
+  if (!body.report || !body.scope || !body.schedule) {
+    throw new HttpError(400, 'A report, scope and schedule are required');
+  }
+  if (!body.format || !REPORT_FORMATS.includes(body.format)) {
+    throw new HttpError(400, `The format must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+
+  // Scheduled reports cover a rolling range, never the dates they were set up with
+  const { from: _from, to: _to, ...params } = body.params ?? {};
+  if (params.range && !REPORT_RANGES.includes(params.range)) {
+    throw new HttpError(400, `The range must be one of ${REPORT_RANGES.join(', ')}`);
+  }
+  const nextRun = nextRunAt(body.schedule);
+
+  // A first run now catches unknown reports and scopes the caller cannot see
+  await fetchReport(supabaseForUser(token), body.report, body.scope, body.scope_id ?? null, runParams(params));
+
+  const { data: subscription, error } = await supabaseForUser(token)
+    .from('report_subscriptions')
+    .insert({
+      user_id: claims.sub,
+      report: body.report,
+      scope: body.scope,
+      scope_id: body.scope === 'global' ? null : body.scope_id ?? null,
+      params,
+      format: body.format,
+      schedule: body.schedule.trim(),
+      next_run_at: nextRun,
+    })
+    .select('id, next_run_at')
+    .single();
+  if (error) {
+    throw new HttpError(400, error.message);
+  }
+
+  await logActivity({
+    user_id: claims.sub,
+    action: 'subscribe',
+    resource_type: 'report_subscription',
+    resource_id: subscription.id,
+    details: { report: body.report, format: body.format, schedule: body.schedule, ...params },
+    ...clientInfo(req),
+  });
+
+  return subscription;
+}
+
+async function unsubscribe(req: Request) {
+  const { token } = await readJson<{ token?: string }>(req);
+  if (!token) {
+    throw new HttpError(400, 'Token is required');
+  }
+
+  const { data: delivery, error } = await supabaseAdmin
+    .from('report_deliveries')
+    .select('subscription:report_subscriptions(id, user_id, report, is_active)')
+    .eq('unsubscribe_token_hash', await hashToken(token))
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const subscription = delivery?.subscription as unknown as
+    { id: string; user_id: string; report: string; is_active: boolean } | null;
+  if (!subscription) {
+    throw new HttpError(400, 'This unsubscribe link is invalid');
+  }
+
+  // Following the link again is harmless once the subscription is paused
+  if (subscription.is_active) {
+    const { error: updateError } = await supabaseAdmin
+      .from('report_subscriptions')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', subscription.id);
+    if (updateError) {
+      throw updateError;
+    }
+
+    await logActivity({
+      user_id: subscription.user_id,
+      action: 'unsubscribe',
+      resource_type: 'report_subscription',
+      resource_id: subscription.id,
+      details: { report: subscription.report },
+      ...clientInfo(req),
+    });
+  }
+
+  return { report: subscription.report };
+}
+
+async function runScheduled(req: Request) {
+  const secret = Deno.env.get('REPORT_SCHEDULER_SECRET');
+  if (!secret) {
+    throw new HttpError(503, 'Scheduled reports are not configured');
+  }
+  // Compared as hashes so the check takes the same time however much matches
+  if (await hashToken(bearerToken(req)) !== await hashToken(secret)) {
+    throw new HttpError(401, 'Invalid scheduler secret');
+  }
+
+  return await runDueSubscriptions();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    const route = new URL(req.url).pathname.split('/').pop();
+    switch (route) {
+      case 'export':
+        return jsonResponse(await exportReport(req));
+      case 'subscribe':
+        return jsonResponse(await subscribe(req));
+      case 'unsubscribe':
+        return jsonResponse(await unsubscribe(req));
+      case 'run-scheduled':
+        return jsonResponse(await runScheduled(req));
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,275 @@
+/*
+  Users service
+
+  POST /users/invite         (Bearer token)
+    { email, first_name?, last_name?, role_id, company_id?, site_id? } -> { id, expires_at }
+  POST /users/invitation     { token } -> { email, first_name, last_name, role, company, site, expires_at }
+  POST /users/accept-invite  { token, password, first_name, last_name, phone? } -> { email }
+  POST /users/reset-password (Bearer token) { user_id } -> { ok: true }
+
+  Nobody sets a password for someone else. An invitation is written by the
+  `create_invitation` RPC with the caller's own token, so the database
+  applies the caller's role level and scope limits, and its one-time link is
+  mailed to the invitee. Accepting it hashes the chosen password here and
+  creates the user through `accept_invitation`, which only the service role
+  may call.
+
+  A manager's password reset signs the user out everywhere and mails them a
+  link to choose a new password; until they do, they cannot sign in.
+*/
+import { corsHeaders } from '../_shared/cors.ts';
+import { HttpError, bearerToken, clientInfo, errorResponse, jsonResponse, readJson } from '../_shared/http.ts';
+import { verifyAccessToken } from '../_shared/jwt.ts';
+import { appUrl, mailTransport } from '../_shared/mail.ts';
+import { PASSWORD_RESET_TTL_MINUTES, checkPassword, hashPassword, passwordResetExpiry } from '../_shared/passwords.ts';
+import { requireActiveSession } from '../_shared/sessions.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { supabaseForUser } from '../_shared/supabaseUser.ts';
+import { hashToken, randomToken } from '../_shared/tokens.ts';
+import { logActivity } from '../_shared/users.ts';
+
+const INVITATION_TTL_DAYS = 7;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INVALID_INVITATION = 'This invitation is invalid or has expired';
+
+interface InviteBody {
+  email?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  role_id?: string;
+  company_id?: string | null;
+  site_id?: string | null;
+}
+
+interface AcceptInviteBody {
+  token?: string;
+  password?: string;
+  first_name?: string;
+  last_name?: string;
+  phone?: string | null;
+}
+
+// Exceptions raised by the RPCs explain what the caller did wrong
+function rpcError(error: { code?: string; message: string }) {
+  return error.code === 'P0001' ? new HttpError(400, error.message) : error;
+}
+
+async function invite(req: Request) {
+  const token = bearerToken(req);
+  const claims = await verifyAccessToken(token);
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const body = await readJson<InviteBody>(req);
+  const email = body.email?.trim().toLowerCase() ?? '';
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, 'A valid email is required');
+  }
+  if (!body.role_id) {
+    throw new HttpError(400, 'A role is required');
+  }
+
+  const inviteToken = randomToken();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseForUser(token).rpc('create_invitation', {
+    p_email: email,
+    p_first_name: body.first_name ?? null,
+    p_last_name: body.last_name ?? null,
+    p_role_id: body.role_id,
+    p_company_id: body.company_id || null,
+    p_site_id: body.site_id || null,
+    p_token_hash: await hashToken(inviteToken),
+    p_expires_at: expiresAt,
+  });
+  if (error) {
+    throw rpcError(error);
+  }
+
+  const invitationId = data as string;
+  await logActivity({
+    user_id: claims.sub,
+    action: 'invite',
+    resource_type: 'invitation',
+    resource_id: invitationId,
+    details: { email },
+    ...clientInfo(req),
+  });
+
+  try {
+    await mailTransport().send({
+      to: email,
+      subject: 'You have been invited',
+      text: [
+        `Hello${body.first_name ? ` ${body.first_name}` : ''},`,
+        '',
+        'You have been invited to join the Business Management Platform.',
+        'Choose your password with this link:',
+        '',
+        appUrl('/accept-invite', { token: inviteToken }),
+        '',
+        `The link can be used once and expires in ${INVITATION_TTL_DAYS} days.`,
+      ].join('\n'),
+    });
+  } catch (mailError) {
+    console.error('Failed to send invitation email:', mailError);
+    throw new HttpError(502, 'The invitation was created but the email could not be sent; resend it from the pending invitations');
+  }
+
+  return { id: invitationId, expires_at: expiresAt };
+}
+
+async function findPendingInvitation(token: string | undefined) {
+  if (!token) {
+    throw new HttpError(400, 'An invitation token is required');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select(`
+      id,
+      email,
+      first_name,
+      last_name,
+      expires_at,
+      role:roles(name),
+      company:companies(name),
+      site:sites(name)
+    `)
+    .eq('token_hash', await hashToken(token))
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new HttpError(404, INVALID_INVITATION);
+  }
+  return data;
+}
+
+// Lets the accept page show who is invited, and to what, before signing up
+async function invitation(req: Request) {
+  const { token } = await readJson<{ token?: string }>(req);
+  const { id: _id, ...details } = await findPendingInvitation(token);
+  return details;
+}
+
+async function acceptInvite(req: Request) {
+  const body = await readJson<AcceptInviteBody>(req);
+  const pending = await findPendingInvitation(body.token);
+
+  if (!body.first_name?.trim() || !body.last_name?.trim()) {
+    throw new HttpError(400, 'First and last name are required');
+  }
+  await checkPassword(body.password, { email: pending.email });
+
+  const passwordHash = await hashPassword(body.password!);
+
+  const { data, error } = await supabaseAdmin.rpc('accept_invitation', {
+    p_token_hash: await hashToken(body.token!),
+    p_password_hash: passwordHash,
+    p_first_name: body.first_name,
+    p_last_name: body.last_name,
+    p_phone: body.phone ?? null,
+  });
+  if (error) {
+    throw rpcError(error);
+  }
+
+  await logActivity({
+    user_id: data as string,
+    action: 'accept',
+    resource_type: 'invitation',
+    resource_id: pending.id,
+    details: { email: pending.email },
+    ...clientInfo(req),
+  });
+
+  return { email: pending.email };
+}
+
+async function resetPassword(req: Request) {
+  const token = bearerToken(req);
+  const claims = await verifyAccessToken(token);
+  await requireActiveSession(claims.sid, claims.sub);
+
+  const { user_id: userId } = await readJson<{ user_id?: string }>(req);
+  if (!userId) {
+    throw new HttpError(400, 'A user is required');
+  }
+
+  const resetToken = randomToken();
+  const { error } = await supabaseForUser(token).rpc('reset_user_password', {
+    p_user_id: userId,
+    p_token_hash: await hashToken(resetToken),
+    p_expires_at: passwordResetExpiry('admin'),
+  });
+  if (error) {
+    throw rpcError(error);
+  }
+
+  const { data: target, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('email, first_name')
+    .eq('id', userId)
+    .single();
+  if (userError) {
+    throw userError;
+  }
+
+  await logActivity({
+    user_id: claims.sub,
+    action: 'request_reset',
+    resource_type: 'password',
+    resource_id: userId,
+    details: { email: target.email },
+    ...clientInfo(req),
+  });
+
+  await mailTransport().send({
+    to: target.email,
+    subject: 'Your password has been reset',
+    text: [
+      `Hello ${target.first_name},`,
+      '',
+      'An administrator has reset your password. Choose a new one here:',
+      '',
+      appUrl('/reset-password', { token: resetToken }),
+      '',
+      `The link can be used once and expires in ${PASSWORD_RESET_TTL_MINUTES.admin / 60} hours.`,
+    ].join('\n'),
+  });
+
+  return { ok: true };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    const route = new URL(req.url).pathname.split('/').pop();
+    switch (route) {
+      case 'invite':
+        return jsonResponse(await invite(req));
+      case 'invitation':
+        return jsonResponse(await invitation(req));
+      case 'accept-invite':
+        return jsonResponse(await acceptInvite(req));
+      case 'reset-password':
+        return jsonResponse(await resetPassword(req));
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,38 @@
+/*
+  # Server-side authentication
+
+  1. Security
+    - Hide `users.password_hash` from API roles; only the `auth` edge function
+      (service role) reads it
+    - Add `is_super_admin()` helper so `user_roles` policies no longer query
+      `user_roles` recursively once `auth.uid()` is set by the issued token
+*/
+
+-- Password hashes are only readable with the service role
+REVOKE ALL ON users FROM anon, authenticated;
+GRANT SELECT (id, email, first_name, last_name, phone, is_active, created_at, updated_at)
+  ON users TO authenticated;
+GRANT UPDATE (email, first_name, last_name, phone, is_active, updated_at)
+  ON users TO authenticated;
+
+-- Security definer helper, bypasses RLS on user_roles
+CREATE OR REPLACE FUNCTION is_super_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    JOIN roles r ON ur.role_id = r.id
+    WHERE ur.user_id = auth.uid()
+    AND r.name = 'Super Admin'
+    AND ur.is_active = true
+  );
+$$;
+
+DROP POLICY IF EXISTS "Super admins can manage all user roles" ON user_roles;
+
+CREATE POLICY "Super admins can manage all user roles" ON user_roles
+  FOR ALL USING (is_super_admin());
@@ -0,0 +1,91 @@
+/*
+  # Sessions
+
+  1. New Tables
+    - `sessions` - One row per login; access tokens carry its id as `sid`
+      and can only be refreshed while it is neither revoked nor expired
+
+  2. Security
+    - Enable RLS with no policies: only the `auth` edge function (service
+      role) reads or writes sessions
+    - Revoke live sessions when a user or one of their role assignments is
+      deactivated
+    - `revoke_user_sessions` can only be called by the service role and by
+      other database functions, never directly by clients
+*/
+
+-- Create sessions table
+CREATE TABLE IF NOT EXISTS sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  last_seen_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- Revoke every live session of a user
+CREATE OR REPLACE FUNCTION revoke_user_sessions(p_user_id uuid, p_reason text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE sessions
+  SET revoked_at = now(), revoked_reason = p_reason
+  WHERE user_id = p_user_id
+  AND revoked_at IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revoke_user_sessions(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_sessions_on_user_deactivation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM revoke_user_sessions(NEW.id, 'user_deactivated');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER users_revoke_sessions
+  AFTER UPDATE OF is_active ON users
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active = false)
+  EXECUTE FUNCTION revoke_sessions_on_user_deactivation();
+
+CREATE OR REPLACE FUNCTION revoke_sessions_on_role_deactivation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM revoke_user_sessions(OLD.user_id, 'role_removed');
+    RETURN OLD;
+  END IF;
+
+  PERFORM revoke_user_sessions(NEW.user_id, 'role_deactivated');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER user_roles_revoke_sessions
+  AFTER UPDATE OF is_active ON user_roles
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active = false)
+  EXECUTE FUNCTION revoke_sessions_on_role_deactivation();
+
+CREATE TRIGGER user_roles_revoke_sessions_on_delete
+  AFTER DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION revoke_sessions_on_role_deactivation();
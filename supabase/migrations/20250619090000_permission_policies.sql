@@ -0,0 +1,117 @@
+/*
+  # Permission-driven RLS
+
+  1. Functions
+    - `can_access(resource, verb, company_id, site_id, owner_ids)` - true when
+      one of the current user's active roles holds `<verb>_global`, or
+      `<verb>_company` / `<verb>_site` for the row's company / site, or
+      `<verb>_personal` while owning the row
+    - `can_access_client(client_id, verb, owner_ids)` and
+      `can_access_proposal(proposal_id, verb, owner_ids)` - the same check
+      for rows scoped through their client
+
+  2. Security
+    - Replace the role-name based SELECT policies on `clients`, `proposals`,
+      `sales` and `sites` with checks against `role_permissions`, so the
+      database enforces the same resource/action pairs as the UI
+*/
+
+CREATE OR REPLACE FUNCTION can_access(
+  p_resource text,
+  p_verb text,
+  p_company_id uuid,
+  p_site_id uuid,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid()
+    AND ur.is_active = true
+    AND p.resource = p_resource
+    AND (
+      p.action = p_verb || '_global'
+      OR (p.action = p_verb || '_company' AND ur.company_id = p_company_id)
+      OR (p.action = p_verb || '_site' AND ur.site_id = p_site_id)
+      OR (p.action = p_verb || '_personal' AND auth.uid() = ANY(p_owner_ids))
+    )
+  );
+$$;
+
+-- Proposals and sales have no permissions of their own: they inherit the
+-- `clients` permissions of the client they belong to
+CREATE OR REPLACE FUNCTION can_access_client(
+  p_client_id uuid,
+  p_verb text,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM clients c
+    WHERE c.id = p_client_id
+    AND can_access('clients', p_verb, c.company_id, c.site_id, array_append(p_owner_ids, c.assigned_to))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_proposal(
+  p_proposal_id uuid,
+  p_verb text,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM proposals p
+    WHERE p.id = p_proposal_id
+    AND can_access_client(p.client_id, p_verb, array_append(p_owner_ids, p.created_by))
+  );
+$$;
+
+-- Clients policies
+DROP POLICY IF EXISTS "Users can view clients in their scope" ON clients;
+
+CREATE POLICY "Users can view clients in their scope" ON clients
+  FOR SELECT USING (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+  );
+
+-- Proposals policies
+DROP POLICY IF EXISTS "Users can view proposals in their scope" ON proposals;
+
+CREATE POLICY "Users can view proposals in their scope" ON proposals
+  FOR SELECT USING (
+    can_access_client(client_id, 'manage', ARRAY[created_by])
+  );
+
+-- Sales policies
+DROP POLICY IF EXISTS "Users can view sales in their scope" ON sales;
+
+CREATE POLICY "Users can view sales in their scope" ON sales
+  FOR SELECT USING (
+    can_access_proposal(proposal_id, 'manage', ARRAY[closed_by])
+  );
+
+-- Sites policies
+DROP POLICY IF EXISTS "Super admins can manage all sites" ON sites;
+DROP POLICY IF EXISTS "Company admins can manage their company sites" ON sites;
+
+CREATE POLICY "Users can manage sites in their scope" ON sites
+  FOR ALL USING (
+    can_access('sites', 'manage', company_id, id)
+  );
@@ -0,0 +1,125 @@
+/*
+  # Write-side RLS for clients, proposals, sales and activity logs
+
+  1. Functions
+    - `can_access` - `<verb>_personal` now also requires the role to sit in
+      the row's company (and site, for site-bound roles), so owning a row in
+      another tenant grants nothing
+
+  2. Security
+    - INSERT / UPDATE / DELETE policies following the read hierarchy:
+      Commercial on their own assigned clients, Site Manager on their site,
+      Company Admin on their company, Super Admin everywhere
+    - Proposals and sales are written through the client they belong to;
+      the personal scope only counts the client's assignee, not the creator
+    - `activity_logs` is append-only: users may only insert their own entries
+*/
+
+CREATE OR REPLACE FUNCTION can_access(
+  p_resource text,
+  p_verb text,
+  p_company_id uuid,
+  p_site_id uuid,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid()
+    AND ur.is_active = true
+    AND p.resource = p_resource
+    AND (
+      p.action = p_verb || '_global'
+      OR (p.action = p_verb || '_company' AND ur.company_id = p_company_id)
+      OR (p.action = p_verb || '_site' AND ur.site_id = p_site_id)
+      OR (
+        p.action = p_verb || '_personal'
+        AND auth.uid() = ANY(p_owner_ids)
+        AND ur.company_id = p_company_id
+        AND (ur.site_id IS NULL OR ur.site_id = p_site_id)
+      )
+    )
+  );
+$$;
+
+-- Clients policies
+CREATE POLICY "Users can create clients in their scope" ON clients
+  FOR INSERT WITH CHECK (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+  );
+
+CREATE POLICY "Users can update clients in their scope" ON clients
+  FOR UPDATE USING (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+  ) WITH CHECK (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+  );
+
+CREATE POLICY "Users can delete clients in their scope" ON clients
+  FOR DELETE USING (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+  );
+
+-- Proposals policies
+CREATE POLICY "Users can create proposals in their scope" ON proposals
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND can_access_client(client_id, 'manage')
+  );
+
+CREATE POLICY "Users can update proposals in their scope" ON proposals
+  FOR UPDATE USING (
+    can_access_client(client_id, 'manage')
+  ) WITH CHECK (
+    can_access_client(client_id, 'manage')
+  );
+
+CREATE POLICY "Users can delete proposals in their scope" ON proposals
+  FOR DELETE USING (
+    can_access_client(client_id, 'manage')
+  );
+
+-- Sales policies
+CREATE POLICY "Users can create sales in their scope" ON sales
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = sales.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  );
+
+CREATE POLICY "Users can update sales in their scope" ON sales
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = sales.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = sales.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  );
+
+CREATE POLICY "Users can delete sales in their scope" ON sales
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = sales.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  );
+
+-- Activity logs policies
+CREATE POLICY "Users can log their own activity" ON activity_logs
+  FOR INSERT WITH CHECK (user_id = auth.uid());
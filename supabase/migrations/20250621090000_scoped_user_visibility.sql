@@ -0,0 +1,29 @@
+/*
+  # Scoped visibility of users and role assignments
+
+  1. Security
+    - Managers holding `users.manage_*` can read the role assignments and
+      profiles of people inside their company or site, e.g. to assign a
+      client to one of their Commercials
+*/
+
+CREATE OR REPLACE FUNCTION can_view_user(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = p_user_id
+    AND can_access('users', 'manage', ur.company_id, ur.site_id)
+  );
+$$;
+
+CREATE POLICY "Managers can view users in their scope" ON users
+  FOR SELECT USING (can_view_user(id));
+
+CREATE POLICY "Managers can view role assignments in their scope" ON user_roles
+  FOR SELECT USING (can_access('users', 'manage', company_id, site_id));
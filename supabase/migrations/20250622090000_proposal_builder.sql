@@ -0,0 +1,386 @@
+/*
+  # Proposal builder
+
+  1. New Tables
+    - `proposal_items` - Line items (product/service, quantity, unit price,
+      discount, tax); their totals roll up into `proposals.amount`
+    - `proposal_versions` - Immutable snapshot of a proposal and its items,
+      taken when it is sent and on every edit after that
+
+  2. Changes
+    - `proposals.status` follows draft -> sent -> accepted / rejected /
+      expired; legacy 'pending' becomes 'sent' and 'closed' becomes 'accepted'
+    - `proposals.version` holds the latest snapshot number, `sent_at` the
+      moment it was sent
+
+  3. Functions
+    - `save_proposal(...)` - Saves fields and items in one call, snapshotting
+      sent proposals; runs with the caller's RLS
+    - `expire_proposals()` - Moves sent proposals past `valid_until` to
+      'expired'; scheduled every 15 minutes when pg_cron is available
+
+  4. Security
+    - Status transitions and `valid_until` are enforced by trigger
+    - Versions are only taken on send and by `save_proposal`; clients cannot
+      call `snapshot_proposal` directly
+    - Accepted, rejected and expired proposals can no longer be edited
+*/
+
+-- Migrate legacy statuses
+UPDATE proposals SET status = 'sent' WHERE status = 'pending';
+UPDATE proposals SET status = 'accepted' WHERE status = 'closed';
+
+ALTER TABLE proposals ALTER COLUMN status SET NOT NULL;
+ALTER TABLE proposals ADD CONSTRAINT proposals_status_check
+  CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired'));
+
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 0;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS sent_at timestamptz;
+
+UPDATE proposals SET sent_at = created_at WHERE status <> 'draft';
+
+-- Create proposal_items table
+CREATE TABLE IF NOT EXISTS proposal_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id uuid NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  item_type text NOT NULL DEFAULT 'product' CHECK (item_type IN ('product', 'service')),
+  name text NOT NULL,
+  quantity decimal(12,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price decimal(12,2) NOT NULL CHECK (unit_price >= 0),
+  discount_percent decimal(5,2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  tax_percent decimal(5,2) NOT NULL DEFAULT 0 CHECK (tax_percent BETWEEN 0 AND 100),
+  line_total decimal(12,2) GENERATED ALWAYS AS (
+    round(quantity * unit_price * (1 - discount_percent / 100) * (1 + tax_percent / 100), 2)
+  ) STORED,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create proposal_versions table
+CREATE TABLE IF NOT EXISTS proposal_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id uuid NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  status text NOT NULL,
+  title text NOT NULL,
+  description text,
+  amount decimal(12,2) NOT NULL,
+  valid_until timestamptz,
+  items jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(proposal_id, version)
+);
+
+ALTER TABLE proposal_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE proposal_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_proposal_items_proposal_id ON proposal_items(proposal_id);
+CREATE INDEX IF NOT EXISTS idx_proposal_versions_proposal_id ON proposal_versions(proposal_id);
+
+-- Existing proposals become a single line item carrying their amount
+INSERT INTO proposal_items (proposal_id, name, quantity, unit_price)
+SELECT p.id, p.title, 1, p.amount
+FROM proposals p
+WHERE NOT EXISTS (SELECT 1 FROM proposal_items pi WHERE pi.proposal_id = p.id);
+
+-- Roll line totals up into proposals.amount
+CREATE OR REPLACE FUNCTION rollup_proposal_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal_id uuid := COALESCE(NEW.proposal_id, OLD.proposal_id);
+BEGIN
+  UPDATE proposals
+  SET amount = COALESCE((
+    SELECT sum(line_total) FROM proposal_items WHERE proposal_id = v_proposal_id
+  ), 0),
+  updated_at = now()
+  WHERE id = v_proposal_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER proposal_items_rollup
+  AFTER INSERT OR UPDATE OR DELETE ON proposal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_proposal_amount();
+
+-- Items of a decided proposal are frozen
+CREATE OR REPLACE FUNCTION guard_proposal_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  SELECT status INTO v_status
+  FROM proposals
+  WHERE id = COALESCE(NEW.proposal_id, OLD.proposal_id);
+
+  IF v_status IN ('accepted', 'rejected', 'expired') THEN
+    RAISE EXCEPTION 'Proposal is % and can no longer be edited', v_status;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER proposal_items_guard
+  BEFORE INSERT OR UPDATE OR DELETE ON proposal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_proposal_items();
+
+-- Status state machine
+CREATE OR REPLACE FUNCTION enforce_proposal_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status = 'sent')
+      OR (OLD.status = 'sent' AND NEW.status IN ('accepted', 'rejected', 'expired'))
+    ) THEN
+      RAISE EXCEPTION 'Invalid proposal status transition: % -> %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'sent' THEN
+      IF NEW.valid_until IS NULL OR NEW.valid_until <= now() THEN
+        RAISE EXCEPTION 'A proposal needs a future valid until date before it can be sent';
+      END IF;
+      NEW.sent_at := now();
+    END IF;
+
+    IF NEW.status = 'accepted' AND NEW.valid_until <= now() THEN
+      RAISE EXCEPTION 'Proposal expired on % and can no longer be accepted', NEW.valid_until;
+    END IF;
+  ELSIF OLD.status IN ('accepted', 'rejected', 'expired') AND (
+    NEW.client_id, NEW.title, NEW.description, NEW.amount, NEW.valid_until
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.title, OLD.description, OLD.amount, OLD.valid_until
+  ) THEN
+    RAISE EXCEPTION 'Proposal is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER proposals_enforce_status
+  BEFORE UPDATE ON proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_proposal_status();
+
+-- Snapshot the current proposal and its items as the next version
+CREATE OR REPLACE FUNCTION snapshot_proposal(p_proposal_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  IF NOT can_access_proposal(p_proposal_id, 'manage') THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  UPDATE proposals
+  SET version = version + 1
+  WHERE id = p_proposal_id
+  RETURNING version INTO v_version;
+
+  INSERT INTO proposal_versions (
+    proposal_id, version, status, title, description, amount, valid_until, items, created_by
+  )
+  SELECT
+    p.id, v_version, p.status, p.title, p.description, p.amount, p.valid_until,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(pi) - 'proposal_id' ORDER BY pi.position)
+      FROM proposal_items pi
+      WHERE pi.proposal_id = p.id
+    ), '[]'),
+    auth.uid()
+  FROM proposals p
+  WHERE p.id = p_proposal_id;
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION snapshot_sent_proposal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM snapshot_proposal(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER proposals_snapshot_on_send
+  AFTER UPDATE OF status ON proposals
+  FOR EACH ROW
+  WHEN (OLD.status = 'draft' AND NEW.status = 'sent')
+  EXECUTE FUNCTION snapshot_sent_proposal();
+
+-- Snapshot requested by save_proposal; the flag is cleared first so the
+-- version bump does not snapshot again
+CREATE OR REPLACE FUNCTION snapshot_saved_proposal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.snapshot_proposal', '', true);
+  PERFORM snapshot_proposal(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER proposals_snapshot_on_save
+  AFTER UPDATE ON proposals
+  FOR EACH ROW
+  WHEN (current_setting('app.snapshot_proposal', true) = NEW.id::text)
+  EXECUTE FUNCTION snapshot_saved_proposal();
+
+-- Versions are only taken by the triggers above
+REVOKE EXECUTE ON FUNCTION snapshot_proposal(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Versions are never rewritten
+CREATE OR REPLACE FUNCTION prevent_proposal_version_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Proposal versions are immutable';
+END;
+$$;
+
+CREATE TRIGGER proposal_versions_immutable
+  BEFORE UPDATE ON proposal_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_proposal_version_update();
+
+-- Save fields and items together; one call is one version
+CREATE OR REPLACE FUNCTION save_proposal(
+  p_proposal_id uuid,
+  p_client_id uuid,
+  p_title text,
+  p_description text,
+  p_valid_until timestamptz,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal_id uuid := p_proposal_id;
+  v_status text;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]')) = 0 THEN
+    RAISE EXCEPTION 'A proposal needs at least one line item';
+  END IF;
+
+  IF v_proposal_id IS NULL THEN
+    INSERT INTO proposals (client_id, created_by, title, description, amount, valid_until)
+    VALUES (p_client_id, auth.uid(), p_title, p_description, 0, p_valid_until)
+    RETURNING id, status INTO v_proposal_id, v_status;
+  ELSE
+    UPDATE proposals
+    SET title = p_title,
+        description = p_description,
+        valid_until = p_valid_until,
+        updated_at = now()
+    WHERE id = v_proposal_id
+    RETURNING status INTO v_status;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Proposal not found';
+    END IF;
+
+    DELETE FROM proposal_items WHERE proposal_id = v_proposal_id;
+  END IF;
+
+  INSERT INTO proposal_items (
+    proposal_id, position, item_type, name, quantity, unit_price, discount_percent, tax_percent
+  )
+  SELECT
+    v_proposal_id,
+    item.ordinality - 1,
+    COALESCE(item.value->>'item_type', 'product'),
+    item.value->>'name',
+    (item.value->>'quantity')::decimal,
+    (item.value->>'unit_price')::decimal,
+    COALESCE((item.value->>'discount_percent')::decimal, 0),
+    COALESCE((item.value->>'tax_percent')::decimal, 0)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item;
+
+  -- Clients cannot call snapshot_proposal; touching the proposal with the
+  -- flag set has the trigger take the snapshot
+  IF v_status = 'sent' THEN
+    PERFORM set_config('app.snapshot_proposal', v_proposal_id::text, true);
+    UPDATE proposals SET updated_at = now() WHERE id = v_proposal_id;
+  END IF;
+
+  RETURN v_proposal_id;
+END;
+$$;
+
+-- Expire sent proposals past their validity
+CREATE OR REPLACE FUNCTION expire_proposals()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH expired AS (
+    UPDATE proposals
+    SET status = 'expired', updated_at = now()
+    WHERE status = 'sent'
+    AND valid_until <= now()
+    RETURNING id
+  )
+  SELECT count(*)::integer FROM expired;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-proposals', '*/15 * * * *', 'SELECT expire_proposals()');
+  END IF;
+END $$;
+
+-- Proposal items policies
+CREATE POLICY "Users can view proposal items in their scope" ON proposal_items
+  FOR SELECT USING (can_access_proposal(proposal_id, 'manage'));
+
+CREATE POLICY "Users can manage proposal items in their scope" ON proposal_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = proposal_items.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM proposals p
+      WHERE p.id = proposal_items.proposal_id
+      AND can_access_client(p.client_id, 'manage')
+    )
+  );
+
+-- Proposal versions policies (written only by snapshot_proposal)
+CREATE POLICY "Users can view proposal versions in their scope" ON proposal_versions
+  FOR SELECT USING (can_access_proposal(proposal_id, 'manage'));
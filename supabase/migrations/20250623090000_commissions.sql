@@ -0,0 +1,372 @@
+/*
+  # Sales from accepted proposals and commission plans
+
+  1. New Tables
+    - `commission_plans` - How commission is computed for a company, one of
+      its sites or a single user; the most specific active plan wins
+      - `flat`: `rate` percent of the sale amount
+      - `tiered`: marginal `tiers` ([{ "from": 0, "rate": 5 }, ...]) applied
+        to the sale amount
+      - `accelerator`: `rate` percent until the user's closed sales for the
+        month reach `accelerator_threshold`, `accelerator_rate` above it
+    - `commission_adjustments` - Every change to a recorded commission, with
+      the previous and new amount and plan
+
+  2. Changes
+    - `sales.commission` is computed on insert (and when amount, closer or
+      close date change) and is otherwise read-only
+    - `sales.proposal_id` is unique: accepting a proposal records its sale
+      in the same transaction
+    - Sales can only be inserted that way, and their proposal, amount,
+      closer and close date cannot be changed afterwards, so every sale
+      matches its accepted proposal and stays in its commission and target
+      period
+    - Each company gets a flat 10% plan, matching the existing sales
+
+  3. Functions
+    - `recalculate_commissions(plan_id, from, reason)` - Re-runs the
+      calculation for sales in a plan's scope after it changed
+
+  4. Security
+    - Plans are managed by whoever manages users in that scope; users can see
+      the plans that apply to them
+*/
+
+-- Create commission_plans table
+CREATE TABLE IF NOT EXISTS commission_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  site_id uuid REFERENCES sites(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  plan_type text NOT NULL CHECK (plan_type IN ('flat', 'tiered', 'accelerator')),
+  rate decimal(5,2) NOT NULL DEFAULT 0 CHECK (rate BETWEEN 0 AND 100),
+  tiers jsonb NOT NULL DEFAULT '[]',
+  accelerator_threshold decimal(12,2) CHECK (accelerator_threshold >= 0),
+  accelerator_rate decimal(5,2) CHECK (accelerator_rate BETWEEN 0 AND 100),
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (plan_type <> 'tiered' OR jsonb_array_length(tiers) > 0),
+  CHECK (plan_type <> 'accelerator' OR (accelerator_threshold IS NOT NULL AND accelerator_rate IS NOT NULL))
+);
+
+-- One active plan per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_plans_active_scope ON commission_plans (
+  company_id,
+  COALESCE(site_id, '00000000-0000-0000-0000-000000000000'),
+  COALESCE(user_id, '00000000-0000-0000-0000-000000000000')
+) WHERE is_active;
+
+-- Create commission_adjustments table
+CREATE TABLE IF NOT EXISTS commission_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  previous_commission decimal(12,2),
+  new_commission decimal(12,2),
+  previous_plan_id uuid REFERENCES commission_plans(id) ON DELETE SET NULL,
+  new_plan_id uuid REFERENCES commission_plans(id) ON DELETE SET NULL,
+  reason text,
+  adjusted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE commission_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_commission_plans_company_id ON commission_plans(company_id);
+CREATE INDEX IF NOT EXISTS idx_commission_adjustments_sale_id ON commission_adjustments(sale_id);
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS commission_plan_id uuid REFERENCES commission_plans(id) ON DELETE SET NULL;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS commission_calculated_at timestamptz;
+ALTER TABLE sales ADD CONSTRAINT sales_proposal_id_key UNIQUE (proposal_id);
+
+-- Default plan matching the flat 10% the existing sales were recorded with
+INSERT INTO commission_plans (company_id, name, plan_type, rate)
+SELECT c.id, 'Standard', 'flat', 10
+FROM companies c
+WHERE NOT EXISTS (
+  SELECT 1 FROM commission_plans cp
+  WHERE cp.company_id = c.id AND cp.site_id IS NULL AND cp.user_id IS NULL AND cp.is_active
+);
+
+-- Most specific active plan for a user selling in a company / site
+CREATE OR REPLACE FUNCTION resolve_commission_plan(
+  p_user_id uuid,
+  p_company_id uuid,
+  p_site_id uuid
+)
+RETURNS commission_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM commission_plans cp
+  WHERE cp.is_active
+  AND cp.company_id = p_company_id
+  AND (cp.site_id IS NULL OR cp.site_id = p_site_id)
+  AND (cp.user_id IS NULL OR cp.user_id = p_user_id)
+  ORDER BY (cp.user_id IS NOT NULL) DESC, (cp.site_id IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+-- Commission on p_amount under p_plan, given p_prior already closed this month
+CREATE OR REPLACE FUNCTION commission_for(
+  p_plan commission_plans,
+  p_amount decimal,
+  p_prior decimal
+)
+RETURNS decimal
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_commission decimal := 0;
+  v_below decimal;
+  tier record;
+BEGIN
+  IF p_plan.id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF p_plan.plan_type = 'flat' THEN
+    v_commission := p_amount * p_plan.rate / 100;
+
+  ELSIF p_plan.plan_type = 'tiered' THEN
+    FOR tier IN
+      SELECT
+        (t->>'from')::decimal AS lower,
+        lead((t->>'from')::decimal) OVER (ORDER BY (t->>'from')::decimal) AS upper,
+        (t->>'rate')::decimal AS rate
+      FROM jsonb_array_elements(p_plan.tiers) t
+    LOOP
+      IF p_amount > tier.lower THEN
+        v_commission := v_commission
+          + (LEAST(p_amount, COALESCE(tier.upper, p_amount)) - tier.lower) * tier.rate / 100;
+      END IF;
+    END LOOP;
+
+  ELSIF p_plan.plan_type = 'accelerator' THEN
+    v_below := LEAST(p_amount, GREATEST(p_plan.accelerator_threshold - p_prior, 0));
+    v_commission := v_below * p_plan.rate / 100
+      + (p_amount - v_below) * p_plan.accelerator_rate / 100;
+  END IF;
+
+  RETURN round(v_commission, 2);
+END;
+$$;
+
+-- Sales are only recorded for accepted proposals, with a computed commission
+CREATE OR REPLACE FUNCTION apply_sale_commission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_site_id uuid;
+  v_status text;
+  v_plan commission_plans;
+  v_prior decimal;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.amount, NEW.closed_by, NEW.closed_at) IS NOT DISTINCT FROM (OLD.amount, OLD.closed_by, OLD.closed_at)
+    AND current_setting('app.commission_recalculation', true) IS DISTINCT FROM 'on'
+  THEN
+    NEW.commission := OLD.commission;
+    NEW.commission_plan_id := OLD.commission_plan_id;
+    NEW.commission_calculated_at := OLD.commission_calculated_at;
+    RETURN NEW;
+  END IF;
+
+  SELECT c.company_id, c.site_id, p.status
+  INTO v_company_id, v_site_id, v_status
+  FROM proposals p
+  JOIN clients c ON c.id = p.client_id
+  WHERE p.id = NEW.proposal_id;
+
+  IF TG_OP = 'INSERT' AND v_status IS DISTINCT FROM 'accepted' THEN
+    RAISE EXCEPTION 'Sales can only be recorded for accepted proposals';
+  END IF;
+
+  v_plan := resolve_commission_plan(NEW.closed_by, v_company_id, v_site_id);
+
+  SELECT COALESCE(sum(s.amount), 0) INTO v_prior
+  FROM sales s
+  WHERE s.closed_by = NEW.closed_by
+  AND s.id <> NEW.id
+  AND date_trunc('month', s.closed_at) = date_trunc('month', NEW.closed_at)
+  AND (s.closed_at, s.id) < (NEW.closed_at, NEW.id);
+
+  NEW.commission := commission_for(v_plan, NEW.amount, v_prior);
+  NEW.commission_plan_id := v_plan.id;
+  NEW.commission_calculated_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_apply_commission
+  BEFORE INSERT OR UPDATE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_sale_commission();
+
+-- Only the accept trigger below may record a sale; what it recorded stays
+CREATE OR REPLACE FUNCTION guard_sale_origin()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.recording_sale', true) IS NOT DISTINCT FROM 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Sales are recorded by accepting their proposal';
+  END IF;
+
+  IF (NEW.proposal_id, NEW.amount, NEW.closed_by, NEW.closed_at)
+     IS DISTINCT FROM (OLD.proposal_id, OLD.amount, OLD.closed_by, OLD.closed_at) THEN
+    RAISE EXCEPTION 'The proposal, amount, closer and close date of a sale cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_guard_origin
+  BEFORE INSERT OR UPDATE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_sale_origin();
+
+CREATE OR REPLACE FUNCTION audit_commission_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO commission_adjustments (
+    sale_id, previous_commission, new_commission, previous_plan_id, new_plan_id, reason, adjusted_by
+  ) VALUES (
+    NEW.id, OLD.commission, NEW.commission, OLD.commission_plan_id, NEW.commission_plan_id,
+    COALESCE(NULLIF(current_setting('app.commission_reason', true), ''), 'Sale updated'),
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sales_audit_commission
+  AFTER UPDATE ON sales
+  FOR EACH ROW
+  WHEN (
+    (OLD.commission, OLD.commission_plan_id) IS DISTINCT FROM (NEW.commission, NEW.commission_plan_id)
+  )
+  EXECUTE FUNCTION audit_commission_change();
+
+-- Accepting a proposal closes the sale for the client's account owner
+CREATE OR REPLACE FUNCTION record_sale_for_accepted_proposal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.recording_sale', 'on', true);
+
+  INSERT INTO sales (proposal_id, closed_by, amount)
+  SELECT NEW.id, COALESCE(c.assigned_to, NEW.created_by), NEW.amount
+  FROM clients c
+  WHERE c.id = NEW.client_id
+  ON CONFLICT (proposal_id) DO NOTHING;
+
+  PERFORM set_config('app.recording_sale', '', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER proposals_record_sale_on_accept
+  AFTER UPDATE OF status ON proposals
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM 'accepted' AND NEW.status = 'accepted')
+  EXECUTE FUNCTION record_sale_for_accepted_proposal();
+
+-- Re-run the calculation for every sale a plan could apply to
+CREATE OR REPLACE FUNCTION recalculate_commissions(
+  p_plan_id uuid,
+  p_from timestamptz DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan commission_plans;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_plan FROM commission_plans WHERE id = p_plan_id;
+
+  IF v_plan.id IS NULL OR NOT can_access('users', 'manage', v_plan.company_id, v_plan.site_id) THEN
+    RAISE EXCEPTION 'Commission plan not found';
+  END IF;
+
+  PERFORM set_config('app.commission_recalculation', 'on', true);
+  PERFORM set_config('app.commission_reason', COALESCE(p_reason, 'Recalculated after plan change'), true);
+
+  UPDATE sales s
+  SET commission_calculated_at = now()
+  FROM proposals p
+  JOIN clients c ON c.id = p.client_id
+  WHERE p.id = s.proposal_id
+  AND c.company_id = v_plan.company_id
+  AND (v_plan.site_id IS NULL OR c.site_id = v_plan.site_id)
+  AND (v_plan.user_id IS NULL OR s.closed_by = v_plan.user_id)
+  AND (p_from IS NULL OR s.closed_at >= p_from);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.commission_recalculation', '', true);
+  PERFORM set_config('app.commission_reason', '', true);
+
+  RETURN v_count;
+END;
+$$;
+
+-- Commission plans policies
+CREATE POLICY "Users can view commission plans in their scope" ON commission_plans
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR can_access('users', 'manage', company_id, site_id)
+    OR (
+      user_id IS NULL
+      AND EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.is_active = true
+        AND ur.company_id = commission_plans.company_id
+        AND (commission_plans.site_id IS NULL OR ur.site_id = commission_plans.site_id)
+      )
+    )
+  );
+
+CREATE POLICY "Users can manage commission plans in their scope" ON commission_plans
+  FOR ALL USING (
+    can_access('users', 'manage', company_id, site_id)
+  ) WITH CHECK (
+    can_access('users', 'manage', company_id, site_id)
+  );
+
+-- Commission adjustments policies (written only by audit_commission_change)
+CREATE POLICY "Users can view commission adjustments in their scope" ON commission_adjustments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM sales s WHERE s.id = commission_adjustments.sale_id)
+  );
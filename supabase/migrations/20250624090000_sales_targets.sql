@@ -0,0 +1,192 @@
+/*
+  # Monthly and quarterly sales targets
+
+  1. New Tables
+    - `sales_targets` - Target amount for a site (`user_id` null) or for one
+      Commercial at that site, per month or quarter; company targets are the
+      sum of their site targets
+
+  2. Changes
+    - Accelerator commission plans may leave `accelerator_threshold` empty to
+      accelerate above the seller's own target for the period
+
+  3. Security
+    - Site targets are set by whoever manages sites (Company Admin and up),
+      Commercial targets by whoever manages users at that site (Site Manager
+      and up)
+    - Targets are visible at the same scope as reports
+*/
+
+-- Create sales_targets table
+CREATE TABLE IF NOT EXISTS sales_targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  site_id uuid NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  period_type text NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  period_start date NOT NULL,
+  amount decimal(12,2) NOT NULL CHECK (amount >= 0),
+  set_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (period_start = date_trunc(period_type, period_start)::date),
+  UNIQUE NULLS NOT DISTINCT (site_id, user_id, period_type, period_start)
+);
+
+ALTER TABLE sales_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_sales_targets_company_period ON sales_targets(company_id, period_start);
+CREATE INDEX IF NOT EXISTS idx_sales_targets_user_id ON sales_targets(user_id);
+
+-- A site always belongs to the target's company
+CREATE OR REPLACE FUNCTION check_sales_target_site()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = NEW.site_id AND company_id = NEW.company_id
+  ) THEN
+    RAISE EXCEPTION 'Site does not belong to this company';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_targets_check_site
+  BEFORE INSERT OR UPDATE ON sales_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION check_sales_target_site();
+
+-- Target covering p_at for a user; a monthly target beats a quarterly one
+CREATE OR REPLACE FUNCTION user_target_for(p_user_id uuid, p_at timestamptz)
+RETURNS sales_targets
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM sales_targets t
+  WHERE t.user_id = p_user_id
+  AND t.period_start = date_trunc(t.period_type, p_at)::date
+  ORDER BY (t.period_type = 'month') DESC
+  LIMIT 1;
+$$;
+
+-- Accelerators without a threshold use the seller's target. The check it
+-- replaces was created unnamed, so it is found by what it checks
+DO $$
+DECLARE
+  v_constraint text;
+BEGIN
+  FOR v_constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'commission_plans'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) LIKE '%accelerator_threshold IS NOT NULL%'
+  LOOP
+    EXECUTE format('ALTER TABLE commission_plans DROP CONSTRAINT IF EXISTS %I', v_constraint);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE commission_plans ADD CONSTRAINT commission_plans_accelerator_check
+  CHECK (plan_type <> 'accelerator' OR accelerator_rate IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION apply_sale_commission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_site_id uuid;
+  v_status text;
+  v_plan commission_plans;
+  v_target sales_targets;
+  v_period text := 'month';
+  v_prior decimal;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.amount, NEW.closed_by, NEW.closed_at) IS NOT DISTINCT FROM (OLD.amount, OLD.closed_by, OLD.closed_at)
+    AND current_setting('app.commission_recalculation', true) IS DISTINCT FROM 'on'
+  THEN
+    NEW.commission := OLD.commission;
+    NEW.commission_plan_id := OLD.commission_plan_id;
+    NEW.commission_calculated_at := OLD.commission_calculated_at;
+    RETURN NEW;
+  END IF;
+
+  SELECT c.company_id, c.site_id, p.status
+  INTO v_company_id, v_site_id, v_status
+  FROM proposals p
+  JOIN clients c ON c.id = p.client_id
+  WHERE p.id = NEW.proposal_id;
+
+  IF TG_OP = 'INSERT' AND v_status IS DISTINCT FROM 'accepted' THEN
+    RAISE EXCEPTION 'Sales can only be recorded for accepted proposals';
+  END IF;
+
+  v_plan := resolve_commission_plan(NEW.closed_by, v_company_id, v_site_id);
+
+  IF v_plan.plan_type = 'accelerator' AND v_plan.accelerator_threshold IS NULL THEN
+    v_target := user_target_for(NEW.closed_by, NEW.closed_at);
+    -- No target for the period means nothing to accelerate above
+    v_plan.accelerator_threshold := COALESCE(v_target.amount, 'Infinity');
+    v_period := COALESCE(v_target.period_type, 'month');
+  END IF;
+
+  SELECT COALESCE(sum(s.amount), 0) INTO v_prior
+  FROM sales s
+  WHERE s.closed_by = NEW.closed_by
+  AND s.id <> NEW.id
+  AND date_trunc(v_period, s.closed_at) = date_trunc(v_period, NEW.closed_at)
+  AND (s.closed_at, s.id) < (NEW.closed_at, NEW.id);
+
+  NEW.commission := commission_for(v_plan, NEW.amount, v_prior);
+  NEW.commission_plan_id := v_plan.id;
+  NEW.commission_calculated_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Sales targets policies
+CREATE POLICY "Users can view sales targets in their scope" ON sales_targets
+  FOR SELECT USING (
+    can_access('reports', 'view', company_id, site_id, ARRAY[user_id])
+    OR can_access('users', 'manage', company_id, site_id)
+  );
+
+CREATE POLICY "Users can create sales targets in their scope" ON sales_targets
+  FOR INSERT WITH CHECK (
+    CASE WHEN user_id IS NULL
+      THEN can_access('sites', 'manage', company_id, site_id)
+      ELSE can_access('users', 'manage', company_id, site_id)
+    END
+  );
+
+CREATE POLICY "Users can update sales targets in their scope" ON sales_targets
+  FOR UPDATE USING (
+    CASE WHEN user_id IS NULL
+      THEN can_access('sites', 'manage', company_id, site_id)
+      ELSE can_access('users', 'manage', company_id, site_id)
+    END
+  ) WITH CHECK (
+    CASE WHEN user_id IS NULL
+      THEN can_access('sites', 'manage', company_id, site_id)
+      ELSE can_access('users', 'manage', company_id, site_id)
+    END
+  );
+
+CREATE POLICY "Users can delete sales targets in their scope" ON sales_targets
+  FOR DELETE USING (
+    CASE WHEN user_id IS NULL
+      THEN can_access('sites', 'manage', company_id, site_id)
+      ELSE can_access('users', 'manage', company_id, site_id)
+    END
+  );
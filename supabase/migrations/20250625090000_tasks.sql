@@ -0,0 +1,96 @@
+/*
+  # Tasks and follow-ups
+
+  1. New Tables
+    - `tasks` - Calls, meetings, proposal work and follow-ups assigned to a
+      user, with a due date, priority and completion state; linked to a
+      client and optionally one of its proposals (the client is filled in
+      from the proposal when omitted)
+
+  2. Security
+    - Tasks are scoped through their client like proposals are; the assignee
+      can always see and complete their own tasks
+*/
+
+-- Create tasks table
+CREATE TABLE IF NOT EXISTS tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  task_type text NOT NULL CHECK (task_type IN ('call', 'meeting', 'proposal', 'follow_up')),
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  proposal_id uuid REFERENCES proposals(id) ON DELETE CASCADE,
+  assigned_to uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  due_at timestamptz NOT NULL,
+  completed_at timestamptz,
+  completed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_to_due_at ON tasks(assigned_to, due_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_client_id ON tasks(client_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_proposal_id ON tasks(proposal_id);
+
+-- Proposal tasks belong to the proposal's client; completion records who
+CREATE OR REPLACE FUNCTION prepare_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.client_id IS NULL AND NEW.proposal_id IS NOT NULL THEN
+    SELECT client_id INTO NEW.client_id FROM proposals WHERE id = NEW.proposal_id;
+  END IF;
+
+  IF NEW.proposal_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM proposals WHERE id = NEW.proposal_id AND client_id = NEW.client_id
+  ) THEN
+    RAISE EXCEPTION 'Proposal does not belong to this client';
+  END IF;
+
+  IF NEW.completed_at IS NULL THEN
+    NEW.completed_by := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.completed_at IS NULL THEN
+    NEW.completed_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER tasks_prepare
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_task();
+
+-- Tasks policies
+CREATE POLICY "Users can view tasks in their scope" ON tasks
+  FOR SELECT USING (
+    assigned_to = auth.uid()
+    OR can_access_client(client_id, 'manage')
+  );
+
+CREATE POLICY "Users can create tasks in their scope" ON tasks
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND can_access_client(client_id, 'manage')
+  );
+
+CREATE POLICY "Users can update tasks in their scope" ON tasks
+  FOR UPDATE USING (
+    assigned_to = auth.uid()
+    OR can_access_client(client_id, 'manage')
+  ) WITH CHECK (
+    assigned_to = auth.uid()
+    OR can_access_client(client_id, 'manage')
+  );
+
+CREATE POLICY "Users can delete tasks in their scope" ON tasks
+  FOR DELETE USING (
+    can_access_client(client_id, 'manage')
+  );
@@ -0,0 +1,132 @@
+/*
+  # Dashboard KPIs computed in the database
+
+  1. Functions
+    - `dashboard_kpis(scope, scope_id, from, to)` - Totals, counts,
+      conversion rate and a sales leaderboard for one scope ('global',
+      'company', 'site' or 'personal') in a single call
+      - Sales and commission are those closed in [from, to); proposals and
+        conversion are those created in it
+      - Headcounts (users, commercials, clients, companies, sites) are
+        running totals as of `to`, so two windows can be compared
+      - Proposals awaiting a response are counted as of now
+
+  2. Changes
+    - Indexes on the date columns the KPIs are filtered by
+
+  3. Security
+    - Runs with the caller's rights: every count only includes rows the
+      caller's RLS lets them see
+*/
+
+CREATE INDEX IF NOT EXISTS idx_sales_closed_at ON sales(closed_at);
+CREATE INDEX IF NOT EXISTS idx_proposals_created_at ON proposals(created_at);
+
+CREATE OR REPLACE FUNCTION dashboard_kpis(
+  p_scope text,
+  p_scope_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF p_scope NOT IN ('global', 'company', 'site', 'personal') THEN
+    RAISE EXCEPTION 'Unknown dashboard scope %', p_scope;
+  END IF;
+
+  IF p_scope <> 'global' AND p_scope_id IS NULL THEN
+    RAISE EXCEPTION 'A % dashboard needs a scope id', p_scope;
+  END IF;
+
+  WITH scoped_clients AS (
+    SELECT c.*
+    FROM clients c
+    WHERE p_scope IN ('global', 'personal')
+      OR (p_scope = 'company' AND c.company_id = p_scope_id)
+      OR (p_scope = 'site' AND c.site_id = p_scope_id)
+  ),
+  scoped_proposals AS (
+    SELECT p.*
+    FROM proposals p
+    JOIN scoped_clients c ON c.id = p.client_id
+    WHERE p_scope <> 'personal' OR p.created_by = p_scope_id
+  ),
+  scoped_sales AS (
+    SELECT s.*
+    FROM sales s
+    JOIN proposals p ON p.id = s.proposal_id
+    JOIN scoped_clients c ON c.id = p.client_id
+    WHERE (p_scope <> 'personal' OR s.closed_by = p_scope_id)
+      AND s.closed_at >= p_from
+      AND s.closed_at < p_to
+  ),
+  scoped_roles AS (
+    SELECT ur.*, r.name AS role_name
+    FROM user_roles ur
+    JOIN roles r ON r.id = ur.role_id
+    WHERE ur.is_active
+      AND ur.assigned_at < p_to
+      AND (
+        p_scope = 'global'
+        OR (p_scope = 'company' AND ur.company_id = p_scope_id)
+        OR (p_scope = 'site' AND ur.site_id = p_scope_id)
+      )
+  ),
+  leaderboard AS (
+    SELECT
+      s.closed_by AS user_id,
+      u.first_name,
+      u.last_name,
+      SUM(s.amount) AS sales_total,
+      COUNT(*) AS sales_count,
+      COALESCE(SUM(s.commission), 0) AS commission_total
+    FROM scoped_sales s
+    LEFT JOIN users u ON u.id = s.closed_by
+    WHERE s.closed_by IS NOT NULL
+    GROUP BY s.closed_by, u.first_name, u.last_name
+    ORDER BY sales_total DESC
+    LIMIT 10
+  ),
+  proposal_counts AS (
+    SELECT
+      COUNT(*) FILTER (WHERE created_at >= p_from AND created_at < p_to) AS created,
+      COUNT(*) FILTER (WHERE created_at >= p_from AND created_at < p_to AND status = 'accepted') AS accepted,
+      COUNT(*) FILTER (WHERE status = 'sent') AS awaiting
+    FROM scoped_proposals
+  )
+  SELECT jsonb_build_object(
+    'sales_total', (SELECT COALESCE(SUM(amount), 0) FROM scoped_sales),
+    'sales_count', (SELECT COUNT(*) FROM scoped_sales),
+    'commission_total', (SELECT COALESCE(SUM(commission), 0) FROM scoped_sales),
+    'proposals_count', pc.created,
+    'accepted_count', pc.accepted,
+    'awaiting_count', pc.awaiting,
+    'conversion_rate', CASE WHEN pc.created > 0 THEN ROUND(pc.accepted * 100.0 / pc.created, 2) ELSE 0 END,
+    'clients_count', (
+      SELECT COUNT(*) FROM scoped_clients
+      WHERE created_at < p_to AND (p_scope <> 'personal' OR assigned_to = p_scope_id)
+    ),
+    'users_count', CASE
+      WHEN p_scope = 'global' THEN (SELECT COUNT(*) FROM users WHERE created_at < p_to)
+      ELSE (SELECT COUNT(DISTINCT user_id) FROM scoped_roles)
+    END,
+    'commercials_count', (SELECT COUNT(DISTINCT user_id) FROM scoped_roles WHERE role_name = 'Commercial'),
+    'companies_count', (SELECT COUNT(*) FROM companies WHERE created_at < p_to),
+    'sites_count', (
+      SELECT COUNT(*) FROM sites
+      WHERE created_at < p_to AND (p_scope <> 'company' OR company_id = p_scope_id)
+    ),
+    'leaderboard', COALESCE((SELECT jsonb_agg(to_jsonb(l)) FROM leaderboard l), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM proposal_counts pc;
+
+  RETURN v_result;
+END;
+$$;
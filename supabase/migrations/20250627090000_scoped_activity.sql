@@ -0,0 +1,125 @@
+/*
+  # Company and site context on activity logs
+
+  1. Changes
+    - `activity_logs.company_id` / `site_id` - The scope an entry belongs
+      to, set on insert from the record it is about (a client, proposal,
+      sale, task, target, plan, site or company) and otherwise from the
+      actor's own role; existing entries are backfilled the same way
+
+  2. Functions
+    - `activity_scope(resource_type, resource_id, user_id)` - Resolves that
+      company and site
+
+  3. Security
+    - `activity_scope` can only be called by the trigger that fills in the
+      scope
+    - Activity is readable by its author and by whoever can view reports
+      for its company or site, so managers see their team's activity
+*/
+
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE SET NULL;
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS site_id uuid REFERENCES sites(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_company_id ON activity_logs(company_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_site_id ON activity_logs(site_id, created_at);
+
+-- Company and site of the record an entry is about, falling back to the
+-- most specific role of the actor (or, for user records, of that user)
+CREATE OR REPLACE FUNCTION activity_scope(
+  p_resource_type text,
+  p_resource_id uuid,
+  p_user_id uuid
+)
+RETURNS TABLE (company_id uuid, site_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_resource_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT c.company_id, c.site_id
+    FROM clients c
+    WHERE c.id = CASE p_resource_type
+      WHEN 'client' THEN p_resource_id
+      WHEN 'proposal' THEN (SELECT p.client_id FROM proposals p WHERE p.id = p_resource_id)
+      WHEN 'sale' THEN (
+        SELECT p.client_id FROM sales s JOIN proposals p ON p.id = s.proposal_id WHERE s.id = p_resource_id
+      )
+      WHEN 'task' THEN (SELECT t.client_id FROM tasks t WHERE t.id = p_resource_id)
+    END;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT st.company_id, st.site_id FROM sales_targets st
+    WHERE p_resource_type = 'sales_target' AND st.id = p_resource_id
+    UNION ALL
+    SELECT cp.company_id, cp.site_id FROM commission_plans cp
+    WHERE p_resource_type = 'commission_plan' AND cp.id = p_resource_id
+    UNION ALL
+    SELECT s.company_id, s.id FROM sites s
+    WHERE p_resource_type = 'site' AND s.id = p_resource_id
+    UNION ALL
+    SELECT co.id, NULL::uuid FROM companies co
+    WHERE p_resource_type = 'company' AND co.id = p_resource_id;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.company_id, ur.site_id
+  FROM user_roles ur
+  WHERE ur.user_id = CASE WHEN p_resource_type = 'user' THEN p_resource_id ELSE p_user_id END
+  AND ur.is_active = true
+  AND ur.company_id IS NOT NULL
+  ORDER BY ur.site_id IS NULL, ur.assigned_at
+  LIMIT 1;
+END;
+$$;
+
+-- Resolves any record, so only the trigger below may call it
+REVOKE EXECUTE ON FUNCTION activity_scope(text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The scope always comes from the database, never from the client
+CREATE OR REPLACE FUNCTION set_activity_scope()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.company_id := NULL;
+  NEW.site_id := NULL;
+
+  SELECT s.company_id, s.site_id INTO NEW.company_id, NEW.site_id
+  FROM activity_scope(NEW.resource_type, NEW.resource_id, NEW.user_id) s;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER activity_logs_scope
+  BEFORE INSERT ON activity_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_activity_scope();
+
+-- Backfill existing entries
+UPDATE activity_logs a
+SET company_id = s.company_id, site_id = s.site_id
+FROM activity_logs l
+CROSS JOIN LATERAL activity_scope(l.resource_type, l.resource_id, l.user_id) s
+WHERE l.id = a.id;
+
+-- Activity logs policies
+DROP POLICY IF EXISTS "Users can view activity logs in their scope" ON activity_logs;
+
+CREATE POLICY "Users can view activity logs in their scope" ON activity_logs
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR can_access('reports', 'view', company_id, site_id, ARRAY[user_id])
+  );
@@ -0,0 +1,375 @@
+/*
+  # Tamper-evident audit trail
+
+  1. Changes
+    - `activity_logs.seq` - Gapless position of an entry in the log
+    - `activity_logs.prev_hash` / `hash` - SHA-256 chain: each entry's hash
+      covers its own contents and the hash of the entry before it, so an
+      edited, removed or reordered entry breaks every link after it.
+      Existing entries are numbered and sealed in `created_at` order
+    - `ip_address` / `user_agent` are filled from the request headers when
+      the caller did not supply them
+    - Entries can no longer be updated or deleted, and `activity_logs.user_id`
+      no longer clears itself when a user is deleted (users with history are
+      deactivated instead)
+
+  2. Audit triggers
+    - Every insert, update and delete on users, user_roles, companies,
+      sites, clients, proposals and sales is logged with the acting user
+      and the row before/after (only the changed columns for updates).
+      Password hashes are never copied into the log
+
+  3. Functions
+    - `activity_log_hash(entry)` - The hash an entry must carry
+    - `verify_activity_chain()` - Walks the log and returns the first broken
+      link, or nothing when the chain is intact (super admins only)
+*/
+
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS seq bigint;
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS hash text;
+
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_user_id_fkey;
+ALTER TABLE activity_logs ADD CONSTRAINT activity_logs_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(id);
+
+-- Company and site are derived context (and are cleared when those are
+-- deleted), so they are left out of the hash
+CREATE OR REPLACE FUNCTION activity_log_hash(p_entry activity_logs)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(format(
+    '%s|%s|%s|%s|%s|%s|%s|%s|%s|%s|%s',
+    p_entry.prev_hash,
+    p_entry.seq,
+    p_entry.id,
+    p_entry.user_id,
+    p_entry.action,
+    p_entry.resource_type,
+    p_entry.resource_id,
+    p_entry.details::text,
+    host(p_entry.ip_address),
+    p_entry.user_agent,
+    to_char(p_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'UTF8')), 'hex');
+$$;
+
+-- Seal existing entries
+DO $$
+DECLARE
+  v_entry activity_logs;
+  v_seq bigint := 0;
+  v_prev_hash text;
+BEGIN
+  FOR v_entry IN SELECT * FROM activity_logs ORDER BY created_at, id LOOP
+    v_seq := v_seq + 1;
+    v_entry.created_at := COALESCE(v_entry.created_at, now());
+    v_entry.seq := v_seq;
+    v_entry.prev_hash := v_prev_hash;
+    v_entry.hash := activity_log_hash(v_entry);
+
+    UPDATE activity_logs
+    SET seq = v_entry.seq,
+        prev_hash = v_entry.prev_hash,
+        hash = v_entry.hash,
+        created_at = v_entry.created_at
+    WHERE id = v_entry.id;
+
+    v_prev_hash := v_entry.hash;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE activity_logs ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE activity_logs ALTER COLUMN hash SET NOT NULL;
+ALTER TABLE activity_logs ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE activity_logs ADD CONSTRAINT activity_logs_seq_key UNIQUE (seq);
+
+-- Client IP and user agent as forwarded by the API gateway. The IP is the
+-- last X-Forwarded-For entry, the one the gateway appended: earlier entries
+-- come from the client.
+CREATE OR REPLACE FUNCTION set_activity_client_info()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_headers jsonb;
+BEGIN
+  v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  IF v_headers IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.user_agent := COALESCE(NEW.user_agent, v_headers->>'user-agent');
+
+  IF NEW.ip_address IS NULL THEN
+    BEGIN
+      NEW.ip_address := trim(regexp_replace(v_headers->>'x-forwarded-for', '^.*,', ''))::inet;
+    EXCEPTION WHEN others THEN
+      NEW.ip_address := NULL;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER activity_logs_client_info
+  BEFORE INSERT ON activity_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_activity_client_info();
+
+-- Appends the entry to the chain. Named so it fires after the other
+-- BEFORE INSERT triggers: everything it hashes must already be final.
+-- The advisory lock serialises writers so two entries never share a link.
+CREATE OR REPLACE FUNCTION seal_activity_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last activity_logs;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('activity_logs_chain'));
+
+  SELECT * INTO v_last FROM activity_logs ORDER BY seq DESC LIMIT 1;
+
+  NEW.created_at := COALESCE(NEW.created_at, now());
+  NEW.seq := COALESCE(v_last.seq, 0) + 1;
+  NEW.prev_hash := v_last.hash;
+  NEW.hash := activity_log_hash(NEW);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER activity_logs_seal
+  BEFORE INSERT ON activity_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION seal_activity_log();
+
+-- Only the derived company/site context may change (when a company or
+-- site is deleted); everything else is append-only
+CREATE OR REPLACE FUNCTION guard_activity_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE'
+    OR (to_jsonb(NEW) - 'company_id' - 'site_id') IS DISTINCT FROM (to_jsonb(OLD) - 'company_id' - 'site_id')
+  THEN
+    RAISE EXCEPTION 'Activity log entries cannot be changed or removed';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER activity_logs_immutable
+  BEFORE UPDATE OR DELETE ON activity_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_activity_log();
+
+-- Role assignments resolve to the scope they grant
+CREATE OR REPLACE FUNCTION activity_scope(
+  p_resource_type text,
+  p_resource_id uuid,
+  p_user_id uuid
+)
+RETURNS TABLE (company_id uuid, site_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_resource_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT c.company_id, c.site_id
+    FROM clients c
+    WHERE c.id = CASE p_resource_type
+      WHEN 'client' THEN p_resource_id
+      WHEN 'proposal' THEN (SELECT p.client_id FROM proposals p WHERE p.id = p_resource_id)
+      WHEN 'sale' THEN (
+        SELECT p.client_id FROM sales s JOIN proposals p ON p.id = s.proposal_id WHERE s.id = p_resource_id
+      )
+      WHEN 'task' THEN (SELECT t.client_id FROM tasks t WHERE t.id = p_resource_id)
+    END;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT st.company_id, st.site_id FROM sales_targets st
+    WHERE p_resource_type = 'sales_target' AND st.id = p_resource_id
+    UNION ALL
+    SELECT cp.company_id, cp.site_id FROM commission_plans cp
+    WHERE p_resource_type = 'commission_plan' AND cp.id = p_resource_id
+    UNION ALL
+    SELECT s.company_id, s.id FROM sites s
+    WHERE p_resource_type = 'site' AND s.id = p_resource_id
+    UNION ALL
+    SELECT co.id, NULL::uuid FROM companies co
+    WHERE p_resource_type = 'company' AND co.id = p_resource_id
+    UNION ALL
+    SELECT ur.company_id, ur.site_id FROM user_roles ur
+    WHERE p_resource_type = 'user_role' AND ur.id = p_resource_id;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.company_id, ur.site_id
+  FROM user_roles ur
+  WHERE ur.user_id = CASE WHEN p_resource_type = 'user' THEN p_resource_id ELSE p_user_id END
+  AND ur.is_active = true
+  AND ur.company_id IS NOT NULL
+  ORDER BY ur.site_id IS NULL, ur.assigned_at
+  LIMIT 1;
+END;
+$$;
+
+-- Records a row change as an activity entry; the argument is the entry's
+-- resource type. Updates that only touch `updated_at` are not logged.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_changes jsonb := '{}'::jsonb;
+  v_key text;
+  v_details jsonb;
+  v_resource_id uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - 'password_hash';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - 'password_hash';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> 'updated_at' AND v_new->v_key IS DISTINCT FROM v_old->v_key THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_key, jsonb_build_object('old', v_old->v_key, 'new', v_new->v_key)
+        );
+      END IF;
+    END LOOP;
+
+    IF to_jsonb(NEW)->'password_hash' IS DISTINCT FROM to_jsonb(OLD)->'password_hash' THEN
+      v_changes := v_changes || '{"password_hash": "changed"}'::jsonb;
+    END IF;
+
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'changes', v_changes);
+  ELSIF TG_OP = 'INSERT' THEN
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'new', v_new);
+  ELSE
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'old', v_old);
+  END IF;
+
+  v_resource_id := (COALESCE(v_new, v_old)->>'id')::uuid;
+
+  -- A deleted user cannot be referenced as the actor of their own removal
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (
+    (SELECT u.id FROM users u WHERE u.id = auth.uid()),
+    lower(TG_OP),
+    TG_ARGV[0],
+    v_resource_id,
+    v_details
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER users_audit
+  AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('user');
+
+CREATE TRIGGER user_roles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('user_role');
+
+CREATE TRIGGER companies_audit
+  AFTER INSERT OR UPDATE OR DELETE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('company');
+
+CREATE TRIGGER sites_audit
+  AFTER INSERT OR UPDATE OR DELETE ON sites
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('site');
+
+CREATE TRIGGER clients_audit
+  AFTER INSERT OR UPDATE OR DELETE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('client');
+
+CREATE TRIGGER proposals_audit
+  AFTER INSERT OR UPDATE OR DELETE ON proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('proposal');
+
+CREATE TRIGGER sales_audit
+  AFTER INSERT OR UPDATE OR DELETE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('sale');
+
+-- First broken link in the chain: a missing entry, an entry that does not
+-- point at its predecessor, or one whose contents no longer match its hash
+CREATE OR REPLACE FUNCTION verify_activity_chain()
+RETURNS TABLE (broken_seq bigint, log_id uuid, problem text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry activity_logs;
+  v_expected_seq bigint := 1;
+  v_prev_hash text;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can verify the audit trail';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM activity_logs a ORDER BY a.seq LOOP
+    broken_seq := v_entry.seq;
+    log_id := v_entry.id;
+
+    IF v_entry.seq <> v_expected_seq THEN
+      problem := format('Entries %s to %s are missing', v_expected_seq, v_entry.seq - 1);
+    ELSIF v_entry.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      problem := 'Does not follow the previous entry';
+    ELSIF v_entry.hash IS DISTINCT FROM activity_log_hash(v_entry) THEN
+      problem := 'Contents do not match the recorded hash';
+    END IF;
+
+    IF problem IS NOT NULL THEN
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    v_expected_seq := v_entry.seq + 1;
+    v_prev_hash := v_entry.hash;
+  END LOOP;
+END;
+$$;
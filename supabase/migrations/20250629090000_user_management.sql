@@ -0,0 +1,197 @@
+/*
+  # User management
+
+  1. Functions
+    - `can_assign_role(role_id, company_id, site_id)` - true when one of the
+      current user's active roles ranks strictly above the role (lower
+      `level`) and holds `users.manage_*` for that company or site
+    - `can_manage_user(user_id)` - true for someone else whose active roles
+      could all have been assigned by the current user
+    - `create_user(...)` - Creates a user together with their first role
+      assignment. The password arrives already hashed by the `users` edge
+      function; plain passwords never reach the database
+
+  2. Changes
+    - Role assignments are checked on insert and update: Super Admin has no
+      company or site, Company Admin a company only, lower roles a site,
+      whose company is filled in. `assigned_by` / `assigned_at` record who
+      (re)activated the assignment. Role and scope of an assignment cannot
+      change; it is revoked and a new one is made instead
+    - The same role cannot be assigned twice in the same company and site
+
+  3. Security
+    - Managers can update the profile and status of users they manage, and
+      create and (de)activate role assignments they could make
+*/
+
+CREATE OR REPLACE FUNCTION can_assign_role(
+  p_role_id uuid,
+  p_company_id uuid,
+  p_site_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN roles mine ON mine.id = ur.role_id
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid()
+    AND ur.is_active = true
+    AND mine.level < (SELECT target.level FROM roles target WHERE target.id = p_role_id)
+    AND p.resource = 'users'
+    AND (
+      p.action = 'manage_global'
+      OR (p.action = 'manage_company' AND ur.company_id = p_company_id)
+      OR (p.action = 'manage_site' AND ur.site_id = p_site_id)
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_manage_user(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id <> auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = p_user_id
+    AND can_assign_role(ur.role_id, ur.company_id, ur.site_id)
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = p_user_id
+    AND ur.is_active = true
+    AND NOT can_assign_role(ur.role_id, ur.company_id, ur.site_id)
+  );
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_roles_unique_assignment
+  ON user_roles (user_id, role_id, company_id, site_id) NULLS NOT DISTINCT;
+
+CREATE OR REPLACE FUNCTION prepare_user_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level integer;
+  v_site_company_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.role_id IS DISTINCT FROM OLD.role_id
+    OR NEW.company_id IS DISTINCT FROM OLD.company_id
+    OR NEW.site_id IS DISTINCT FROM OLD.site_id
+  ) THEN
+    RAISE EXCEPTION 'Revoke the role assignment and create a new one instead of changing it';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT level INTO v_level FROM roles WHERE id = NEW.role_id;
+    IF v_level IS NULL THEN
+      RAISE EXCEPTION 'Unknown role';
+    END IF;
+
+    IF NEW.site_id IS NOT NULL THEN
+      SELECT company_id INTO v_site_company_id FROM sites WHERE id = NEW.site_id;
+      IF NEW.company_id IS NOT NULL AND NEW.company_id IS DISTINCT FROM v_site_company_id THEN
+        RAISE EXCEPTION 'Site does not belong to the selected company';
+      END IF;
+      NEW.company_id := v_site_company_id;
+    END IF;
+
+    IF v_level = 1 AND (NEW.company_id IS NOT NULL OR NEW.site_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'Super Admin is not assigned to a company or site';
+    ELSIF v_level = 2 AND (NEW.company_id IS NULL OR NEW.site_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'Company Admin is assigned to a company, without a site';
+    ELSIF v_level > 2 AND NEW.site_id IS NULL THEN
+      RAISE EXCEPTION 'This role is assigned to a site';
+    END IF;
+  END IF;
+
+  -- Service-role writes (seeds, edge functions) have no caller to check
+  IF auth.uid() IS NOT NULL
+    AND NOT can_assign_role(NEW.role_id, NEW.company_id, NEW.site_id)
+  THEN
+    RAISE EXCEPTION 'You can only assign roles below your own, within your company or site';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (NEW.is_active AND NOT OLD.is_active) THEN
+    NEW.assigned_by := COALESCE(auth.uid(), NEW.assigned_by);
+    NEW.assigned_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER user_roles_prepare
+  BEFORE INSERT OR UPDATE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_user_role();
+
+CREATE OR REPLACE FUNCTION create_user(
+  p_email text,
+  p_password_hash text,
+  p_first_name text,
+  p_last_name text,
+  p_phone text,
+  p_role_id uuid,
+  p_company_id uuid,
+  p_site_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT can_assign_role(p_role_id, p_company_id, p_site_id) THEN
+    RAISE EXCEPTION 'You can only create users with roles below your own, within your company or site';
+  END IF;
+
+  IF p_password_hash !~ '^\$2[aby]\$\d{2}\$' THEN
+    RAISE EXCEPTION 'Password must be hashed with bcrypt';
+  END IF;
+
+  BEGIN
+    INSERT INTO users (email, password_hash, first_name, last_name, phone)
+    VALUES (lower(trim(p_email)), p_password_hash, trim(p_first_name), trim(p_last_name), NULLIF(trim(p_phone), ''))
+    RETURNING id INTO v_user_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'A user with this email already exists';
+  END;
+
+  INSERT INTO user_roles (user_id, role_id, company_id, site_id)
+  VALUES (v_user_id, p_role_id, p_company_id, p_site_id);
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_user(text, text, text, text, text, uuid, uuid, uuid) FROM PUBLIC, anon;
+
+-- Users policies
+CREATE POLICY "Managers can update users they manage" ON users
+  FOR UPDATE USING (can_manage_user(id))
+  WITH CHECK (can_manage_user(id));
+
+-- User roles policies
+CREATE POLICY "Managers can assign roles in their scope" ON user_roles
+  FOR INSERT WITH CHECK (can_assign_role(role_id, company_id, site_id));
+
+CREATE POLICY "Managers can update role assignments in their scope" ON user_roles
+  FOR UPDATE USING (can_assign_role(role_id, company_id, site_id))
+  WITH CHECK (can_assign_role(role_id, company_id, site_id));
@@ -0,0 +1,291 @@
+/*
+  # Company and site administration
+
+  1. Changes
+    - `companies.archived_at` / `sites.archived_at` - Deleting a company or
+      site now archives it (inactive, hidden from the admin lists) instead
+      of removing it
+    - Foreign keys to companies and sites no longer cascade: clients, role
+      assignments, targets and commission plans can only be lost by
+      deleting them one by one
+    - Company names are unique, and so are site names within a company
+
+  2. Functions
+    - `scope_is_active(company_id, site_id)` - false when the company or the
+      site is inactive
+    - `can_access` / `can_assign_role` ignore role assignments in an inactive
+      company or site, and `can_access_client` hides clients there from
+      everyone but super admins
+    - Deactivating a company or site signs out the users left without an
+      assignment anywhere still active; the `auth` function refuses to sign
+      them back in
+
+  3. Security
+    - Company admins can edit their own company's details; creating,
+      deactivating and archiving companies stays with super admins
+    - Clients in an inactive company or site can only be seen or written by
+      super admins
+*/
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_name ON companies (lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sites_company_name ON sites (company_id, lower(name));
+
+-- No more cascading deletes from companies and sites
+ALTER TABLE sites DROP CONSTRAINT sites_company_id_fkey,
+  ADD CONSTRAINT sites_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id);
+
+ALTER TABLE user_roles DROP CONSTRAINT user_roles_company_id_fkey,
+  ADD CONSTRAINT user_roles_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id);
+ALTER TABLE user_roles DROP CONSTRAINT user_roles_site_id_fkey,
+  ADD CONSTRAINT user_roles_site_id_fkey FOREIGN KEY (site_id) REFERENCES sites(id);
+
+ALTER TABLE clients DROP CONSTRAINT clients_company_id_fkey,
+  ADD CONSTRAINT clients_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id);
+ALTER TABLE clients DROP CONSTRAINT clients_site_id_fkey,
+  ADD CONSTRAINT clients_site_id_fkey FOREIGN KEY (site_id) REFERENCES sites(id);
+
+ALTER TABLE commission_plans DROP CONSTRAINT commission_plans_company_id_fkey,
+  ADD CONSTRAINT commission_plans_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id);
+ALTER TABLE commission_plans DROP CONSTRAINT commission_plans_site_id_fkey,
+  ADD CONSTRAINT commission_plans_site_id_fkey FOREIGN KEY (site_id) REFERENCES sites(id);
+
+ALTER TABLE sales_targets DROP CONSTRAINT sales_targets_company_id_fkey,
+  ADD CONSTRAINT sales_targets_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id);
+ALTER TABLE sales_targets DROP CONSTRAINT sales_targets_site_id_fkey,
+  ADD CONSTRAINT sales_targets_site_id_fkey FOREIGN KEY (site_id) REFERENCES sites(id);
+
+CREATE OR REPLACE FUNCTION scope_is_active(p_company_id uuid, p_site_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT co.is_active FROM companies co WHERE co.id = p_company_id), true)
+  AND COALESCE((SELECT s.is_active FROM sites s WHERE s.id = p_site_id), true);
+$$;
+
+CREATE OR REPLACE FUNCTION can_access(
+  p_resource text,
+  p_verb text,
+  p_company_id uuid,
+  p_site_id uuid,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid()
+    AND ur.is_active = true
+    AND scope_is_active(ur.company_id, ur.site_id)
+    AND p.resource = p_resource
+    AND (
+      p.action = p_verb || '_global'
+      OR (p.action = p_verb || '_company' AND ur.company_id = p_company_id)
+      OR (p.action = p_verb || '_site' AND ur.site_id = p_site_id)
+      OR (
+        p.action = p_verb || '_personal'
+        AND auth.uid() = ANY(p_owner_ids)
+        AND ur.company_id = p_company_id
+        AND (ur.site_id IS NULL OR ur.site_id = p_site_id)
+      )
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_client(
+  p_client_id uuid,
+  p_verb text,
+  p_owner_ids uuid[] DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM clients c
+    WHERE c.id = p_client_id
+    AND can_access('clients', p_verb, c.company_id, c.site_id, array_append(p_owner_ids, c.assigned_to))
+    AND (scope_is_active(c.company_id, c.site_id) OR is_super_admin())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_assign_role(
+  p_role_id uuid,
+  p_company_id uuid,
+  p_site_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN roles mine ON mine.id = ur.role_id
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid()
+    AND ur.is_active = true
+    AND scope_is_active(ur.company_id, ur.site_id)
+    AND mine.level < (SELECT target.level FROM roles target WHERE target.id = p_role_id)
+    AND p.resource = 'users'
+    AND (
+      p.action = 'manage_global'
+      OR (p.action = 'manage_company' AND ur.company_id = p_company_id)
+      OR (p.action = 'manage_site' AND ur.site_id = p_site_id)
+    )
+  );
+$$;
+
+-- Deleting archives instead; restoring clears `archived_at` and leaves the
+-- row inactive until it is reactivated
+CREATE OR REPLACE FUNCTION archive_instead_of_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  EXECUTE format(
+    'UPDATE %I SET is_active = false, archived_at = now(), updated_at = now() WHERE id = $1 AND archived_at IS NULL',
+    TG_TABLE_NAME
+  ) USING OLD.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER companies_archive_on_delete
+  BEFORE DELETE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_instead_of_delete();
+
+CREATE TRIGGER sites_archive_on_delete
+  BEFORE DELETE ON sites
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_instead_of_delete();
+
+CREATE OR REPLACE FUNCTION prepare_scope_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'companies'
+    AND auth.uid() IS NOT NULL
+    AND NOT is_super_admin()
+    AND (NEW.is_active IS DISTINCT FROM OLD.is_active OR NEW.archived_at IS DISTINCT FROM OLD.archived_at)
+  THEN
+    RAISE EXCEPTION 'Only super admins can deactivate or archive a company';
+  END IF;
+
+  IF NEW.archived_at IS NOT NULL AND NEW.is_active THEN
+    RAISE EXCEPTION 'Restore the archived % before reactivating it',
+      CASE TG_TABLE_NAME WHEN 'companies' THEN 'company' ELSE 'site' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER companies_prepare_status
+  BEFORE UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_scope_status();
+
+CREATE TRIGGER sites_prepare_status
+  BEFORE UPDATE ON sites
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_scope_status();
+
+-- Sign out everyone whose active roles all sit in an inactive company or site
+CREATE OR REPLACE FUNCTION revoke_sessions_on_scope_deactivation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM revoke_user_sessions(affected.user_id, 'scope_deactivated')
+  FROM (
+    SELECT DISTINCT ur.user_id
+    FROM user_roles ur
+    WHERE ur.is_active = true
+    AND CASE TG_TABLE_NAME WHEN 'companies' THEN ur.company_id ELSE ur.site_id END = NEW.id
+  ) affected
+  WHERE NOT EXISTS (
+    SELECT 1 FROM user_roles other
+    WHERE other.user_id = affected.user_id
+    AND other.is_active = true
+    AND scope_is_active(other.company_id, other.site_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER companies_revoke_sessions
+  AFTER UPDATE OF is_active ON companies
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active = false)
+  EXECUTE FUNCTION revoke_sessions_on_scope_deactivation();
+
+CREATE TRIGGER sites_revoke_sessions
+  AFTER UPDATE OF is_active ON sites
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active = false)
+  EXECUTE FUNCTION revoke_sessions_on_scope_deactivation();
+
+-- Companies policies
+CREATE POLICY "Company admins can update their company" ON companies
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN role_permissions rp ON rp.role_id = ur.role_id
+      JOIN permissions p ON p.id = rp.permission_id
+      WHERE ur.user_id = auth.uid()
+      AND ur.is_active = true
+      AND ur.company_id = companies.id
+      AND p.resource = 'companies'
+      AND p.action = 'manage'
+    )
+  );
+
+-- Clients policies
+DROP POLICY IF EXISTS "Users can view clients in their scope" ON clients;
+DROP POLICY IF EXISTS "Users can create clients in their scope" ON clients;
+DROP POLICY IF EXISTS "Users can update clients in their scope" ON clients;
+
+CREATE POLICY "Users can view clients in their scope" ON clients
+  FOR SELECT USING (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+    AND (scope_is_active(company_id, site_id) OR is_super_admin())
+  );
+
+CREATE POLICY "Users can create clients in their scope" ON clients
+  FOR INSERT WITH CHECK (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+    AND (scope_is_active(company_id, site_id) OR is_super_admin())
+  );
+
+CREATE POLICY "Users can update clients in their scope" ON clients
+  FOR UPDATE USING (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+    AND (scope_is_active(company_id, site_id) OR is_super_admin())
+  ) WITH CHECK (
+    can_access('clients', 'manage', company_id, site_id, ARRAY[assigned_to])
+    AND (scope_is_active(company_id, site_id) OR is_super_admin())
+  );
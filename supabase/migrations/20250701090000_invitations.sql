@@ -0,0 +1,294 @@
+/*
+  # Invitations
+
+  1. New Tables
+    - `invitations` - An email address invited to a role in a company or
+      site. Only the SHA-256 hash of the emailed token is stored; the token
+      itself is single use and expires. An invitation is pending until it is
+      accepted or revoked
+
+  2. Functions
+    - `role_scope_company(role_id, company_id, site_id)` - Checks that the
+      scope fits the role (Super Admin global, Company Admin a company,
+      lower roles a site) and returns the company, filled in from the site.
+      `prepare_user_role` now uses it too
+    - `create_invitation(...)` - Invites an email address to a role the
+      caller could assign, superseding earlier pending invitations for it
+    - `accept_invitation(...)` - Creates the user and their role assignment
+      from a pending invitation; only the `users` edge function calls it
+    - `create_user(...)` is dropped: people now set their own password
+
+  3. Security
+    - Managers see and revoke invitations for roles they could assign
+*/
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  first_name text,
+  last_name text,
+  role_id uuid NOT NULL REFERENCES roles(id),
+  company_id uuid REFERENCES companies(id),
+  site_id uuid REFERENCES sites(id),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  invited_by uuid REFERENCES users(id),
+  accepted_at timestamptz,
+  accepted_user_id uuid REFERENCES users(id),
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+-- At most one pending invitation per address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending_email
+  ON invitations (lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invitations_company_id ON invitations(company_id);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION role_scope_company(
+  p_role_id uuid,
+  p_company_id uuid,
+  p_site_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_level integer;
+  v_company_id uuid := p_company_id;
+  v_site_company_id uuid;
+BEGIN
+  SELECT level INTO v_level FROM roles WHERE id = p_role_id;
+  IF v_level IS NULL THEN
+    RAISE EXCEPTION 'Unknown role';
+  END IF;
+
+  IF p_site_id IS NOT NULL THEN
+    SELECT company_id INTO v_site_company_id FROM sites WHERE id = p_site_id;
+    IF p_company_id IS NOT NULL AND p_company_id IS DISTINCT FROM v_site_company_id THEN
+      RAISE EXCEPTION 'Site does not belong to the selected company';
+    END IF;
+    v_company_id := v_site_company_id;
+  END IF;
+
+  IF v_level = 1 AND (v_company_id IS NOT NULL OR p_site_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Super Admin is not assigned to a company or site';
+  ELSIF v_level = 2 AND (v_company_id IS NULL OR p_site_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Company Admin is assigned to a company, without a site';
+  ELSIF v_level > 2 AND p_site_id IS NULL THEN
+    RAISE EXCEPTION 'This role is assigned to a site';
+  END IF;
+
+  RETURN v_company_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prepare_user_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.role_id IS DISTINCT FROM OLD.role_id
+    OR NEW.company_id IS DISTINCT FROM OLD.company_id
+    OR NEW.site_id IS DISTINCT FROM OLD.site_id
+  ) THEN
+    RAISE EXCEPTION 'Revoke the role assignment and create a new one instead of changing it';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.company_id := role_scope_company(NEW.role_id, NEW.company_id, NEW.site_id);
+  END IF;
+
+  -- Service-role writes (seeds, edge functions) have no caller to check
+  IF auth.uid() IS NOT NULL
+    AND NOT can_assign_role(NEW.role_id, NEW.company_id, NEW.site_id)
+  THEN
+    RAISE EXCEPTION 'You can only assign roles below your own, within your company or site';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (NEW.is_active AND NOT OLD.is_active) THEN
+    NEW.assigned_by := COALESCE(auth.uid(), NEW.assigned_by);
+    NEW.assigned_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_invitation(
+  p_email text,
+  p_first_name text,
+  p_last_name text,
+  p_role_id uuid,
+  p_company_id uuid,
+  p_site_id uuid,
+  p_token_hash text,
+  p_expires_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_company_id uuid;
+  v_invitation_id uuid;
+BEGIN
+  v_company_id := role_scope_company(p_role_id, p_company_id, p_site_id);
+
+  IF NOT can_assign_role(p_role_id, v_company_id, p_site_id) THEN
+    RAISE EXCEPTION 'You can only invite people to roles below your own, within your company or site';
+  END IF;
+
+  IF NOT scope_is_active(v_company_id, p_site_id) THEN
+    RAISE EXCEPTION 'This company or site has been deactivated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE lower(email) = v_email) THEN
+    RAISE EXCEPTION 'A user with this email already exists';
+  END IF;
+
+  -- Inviting again replaces an expired invitation, or one the caller manages
+  UPDATE invitations
+  SET revoked_at = now(), revoked_by = auth.uid()
+  WHERE lower(email) = v_email
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND (expires_at <= now() OR can_assign_role(role_id, company_id, site_id));
+
+  BEGIN
+    INSERT INTO invitations (
+      email, first_name, last_name, role_id, company_id, site_id,
+      token_hash, expires_at, invited_by
+    )
+    VALUES (
+      v_email, NULLIF(trim(p_first_name), ''), NULLIF(trim(p_last_name), ''),
+      p_role_id, v_company_id, p_site_id, p_token_hash, p_expires_at, auth.uid()
+    )
+    RETURNING id INTO v_invitation_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'This email already has a pending invitation';
+  END;
+
+  RETURN v_invitation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_invitation(text, text, text, uuid, uuid, uuid, text, timestamptz) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION accept_invitation(
+  p_token_hash text,
+  p_password_hash text,
+  p_first_name text,
+  p_last_name text,
+  p_phone text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation invitations;
+  v_user_id uuid;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM invitations
+  WHERE token_hash = p_token_hash
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invitation.accepted_at IS NOT NULL OR v_invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  IF NOT scope_is_active(v_invitation.company_id, v_invitation.site_id) THEN
+    RAISE EXCEPTION 'This company or site has been deactivated';
+  END IF;
+
+  IF p_password_hash !~ '^\$2[aby]\$\d{2}\$' THEN
+    RAISE EXCEPTION 'Password must be hashed with bcrypt';
+  END IF;
+
+  BEGIN
+    INSERT INTO users (email, password_hash, first_name, last_name, phone)
+    VALUES (v_invitation.email, p_password_hash, trim(p_first_name), trim(p_last_name), NULLIF(trim(p_phone), ''))
+    RETURNING id INTO v_user_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'A user with this email already exists';
+  END;
+
+  INSERT INTO user_roles (user_id, role_id, company_id, site_id, assigned_by)
+  VALUES (v_user_id, v_invitation.role_id, v_invitation.company_id, v_invitation.site_id, v_invitation.invited_by);
+
+  UPDATE invitations
+  SET accepted_at = now(), accepted_user_id = v_user_id
+  WHERE id = v_invitation.id;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_invitation(text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_user(text, text, text, text, text, uuid, uuid, uuid);
+
+-- Managers may only revoke; everything else is written by the functions above
+CREATE OR REPLACE FUNCTION prepare_invitation_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'revoked_at' - 'revoked_by') IS DISTINCT FROM (to_jsonb(OLD) - 'revoked_at' - 'revoked_by')
+    OR NEW.revoked_at IS NULL
+  THEN
+    RAISE EXCEPTION 'Invitations can only be revoked';
+  END IF;
+
+  IF OLD.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted';
+  END IF;
+
+  IF OLD.revoked_at IS NULL THEN
+    NEW.revoked_by := auth.uid();
+  ELSE
+    NEW.revoked_at := OLD.revoked_at;
+    NEW.revoked_by := OLD.revoked_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invitations_prepare_update
+  BEFORE UPDATE ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_invitation_update();
+
+-- Invitations policies
+CREATE POLICY "Managers can view invitations in their scope" ON invitations
+  FOR SELECT USING (can_assign_role(role_id, company_id, site_id));
+
+CREATE POLICY "Managers can revoke invitations in their scope" ON invitations
+  FOR UPDATE USING (can_assign_role(role_id, company_id, site_id))
+  WITH CHECK (can_assign_role(role_id, company_id, site_id));
@@ -0,0 +1,165 @@
+/*
+  # Password resets and password policy
+
+  1. New Tables
+    - `password_resets` - Single-use, expiring reset links. Only the SHA-256
+      hash of the mailed token is stored. `reason` is 'forgot' (requested
+      from the sign-in page), 'admin' (a manager reset the password) or
+      'required' (issued at sign-in to someone who must change theirs)
+    - `password_history` - Every password hash a user has had, so the
+      `auth` and `users` functions can refuse recent ones
+
+  2. Changes
+    - `users.must_change_password` - Set by an admin reset, and for the seed
+      users whose shared password was published. Such users get a password
+      change link instead of a session when they sign in
+    - `users.password_changed_at`, kept up to date by a trigger that also
+      records the hash in `password_history`
+
+  3. Functions
+    - `reset_user_password(user_id, token_hash, expires_at)` - A manager
+      forces someone they manage to change their password: their sessions
+      end and a reset link is issued
+    - `complete_password_reset(token_hash, password_hash)` - Uses a reset
+      link: sets the new password (hashed by the `auth` function), voids the
+      user's other links and ends their sessions
+
+  4. Security
+    - Both tables are only readable with the service role, and
+      `complete_password_reset` only callable with it
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at timestamptz;
+
+GRANT SELECT (must_change_password, password_changed_at) ON users TO authenticated;
+
+CREATE TABLE IF NOT EXISTS password_resets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  token_hash text NOT NULL UNIQUE,
+  reason text NOT NULL CHECK (reason IN ('forgot', 'admin', 'required')),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  requested_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_resets_user_id ON password_resets(user_id);
+
+CREATE TABLE IF NOT EXISTS password_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  password_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON password_history(user_id, created_at DESC);
+
+ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+
+-- Stamps `password_changed_at` before the write and records the hash after
+-- it, once the user row exists for the history to reference
+CREATE OR REPLACE FUNCTION record_password_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.password_hash IS NOT DISTINCT FROM OLD.password_hash THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_WHEN = 'BEFORE' THEN
+    NEW.password_changed_at := now();
+  ELSE
+    INSERT INTO password_history (user_id, password_hash) VALUES (NEW.id, NEW.password_hash);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER users_password_changed_at
+  BEFORE INSERT OR UPDATE OF password_hash ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION record_password_change();
+
+CREATE TRIGGER users_password_history
+  AFTER INSERT OR UPDATE OF password_hash ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION record_password_change();
+
+INSERT INTO password_history (user_id, password_hash)
+SELECT id, password_hash FROM users;
+
+-- The seed accounts share a password that was shown on the sign-in page
+UPDATE users
+SET must_change_password = true
+WHERE email IN ('superadmin@example.com', 'admin@example.com', 'amine@example.com', 'soukaina@example.com')
+AND password_hash = '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi';
+
+CREATE OR REPLACE FUNCTION reset_user_password(
+  p_user_id uuid,
+  p_token_hash text,
+  p_expires_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_user(p_user_id) THEN
+    RAISE EXCEPTION 'You can only reset the password of users you manage';
+  END IF;
+
+  UPDATE users SET must_change_password = true, updated_at = now() WHERE id = p_user_id;
+  PERFORM revoke_user_sessions(p_user_id, 'password_reset');
+
+  UPDATE password_resets SET used_at = now() WHERE user_id = p_user_id AND used_at IS NULL;
+  INSERT INTO password_resets (user_id, token_hash, reason, expires_at, requested_by)
+  VALUES (p_user_id, p_token_hash, 'admin', p_expires_at, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reset_user_password(uuid, text, timestamptz) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION complete_password_reset(
+  p_token_hash text,
+  p_password_hash text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reset password_resets;
+BEGIN
+  SELECT * INTO v_reset
+  FROM password_resets
+  WHERE token_hash = p_token_hash
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_reset.used_at IS NOT NULL OR v_reset.expires_at <= now() THEN
+    RAISE EXCEPTION 'This password link is invalid or has expired';
+  END IF;
+
+  IF p_password_hash !~ '^\$2[aby]\$\d{2}\$' THEN
+    RAISE EXCEPTION 'Password must be hashed with bcrypt';
+  END IF;
+
+  UPDATE users
+  SET password_hash = p_password_hash, must_change_password = false, updated_at = now()
+  WHERE id = v_reset.user_id;
+
+  UPDATE password_resets SET used_at = now() WHERE user_id = v_reset.user_id AND used_at IS NULL;
+  PERFORM revoke_user_sessions(v_reset.user_id, 'password_reset');
+
+  RETURN v_reset.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_password_reset(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Login throttling
+
+  1. New Tables
+    - `login_attempts` - Every sign-in attempt, keyed by the email typed and
+      the caller's IP address. `outcome` is 'failed', 'succeeded' or
+      'unlocked' (an administrator lifted a lock). The `auth` function reads
+      recent rows to slow down and lock out repeated failures
+
+  2. Changes
+    - `users.locked_until` - Set by the `auth` function when an account gets
+      locked, so administrators can see it
+
+  3. Functions
+    - `unlock_user(user_id)` - Lets a manager lift the lock of someone they
+      manage; earlier failures stop counting
+
+  4. Security
+    - `login_attempts` is only readable with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  ip_address inet,
+  user_id uuid REFERENCES users(id),
+  outcome text NOT NULL CHECK (outcome IN ('failed', 'succeeded', 'unlocked')),
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email, attempted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_address ON login_attempts(ip_address, attempted_at DESC);
+
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+GRANT SELECT (locked_until) ON users TO authenticated;
+
+CREATE OR REPLACE FUNCTION unlock_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_user(p_user_id) THEN
+    RAISE EXCEPTION 'You can only unlock users you manage';
+  END IF;
+
+  UPDATE users SET locked_until = NULL, updated_at = now() WHERE id = p_user_id;
+
+  INSERT INTO login_attempts (email, user_id, outcome)
+  SELECT lower(email), id, 'unlocked' FROM users WHERE id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION unlock_user(uuid) FROM PUBLIC, anon;
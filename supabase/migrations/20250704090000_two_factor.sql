@@ -0,0 +1,149 @@
+/*
+  # Two-factor authentication
+
+  1. New Tables
+    - `two_factor_challenges` - Issued by the `auth` function once the
+      password of someone with two-factor authentication (or who has to
+      enrol) checks out. The session is only issued when a code is sent
+      back with it. Single use and short-lived; only the SHA-256 hash of the
+      token is stored
+    - `recovery_codes` - One-time codes that replace an authenticator code,
+      stored as SHA-256 hashes
+
+  2. Changes
+    - `users.totp_secret` - Base32 TOTP secret; pending until
+      `users.totp_enabled_at` is set by a first valid code
+    - `users.totp_last_step` - Time step of the last accepted code, so the
+      same code cannot be used twice
+
+  3. Functions
+    - `reset_two_factor(user_id)` - Lets a manager remove the authenticator
+      and recovery codes of someone they manage who lost both. Whoever has
+      to use two-factor authentication enrols again at their next sign-in
+    - `audit_row_change()` - Now leaves `totp_secret` and `totp_last_step`
+      out of the row images, like `password_hash`, and only records that
+      they changed
+
+  4. Security
+    - Secrets, challenges and recovery codes are only readable with the
+      service role; `totp_enabled_at` is visible to signed-in users
+    - The secret never reaches the activity log, which managers can read
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_step bigint;
+
+GRANT SELECT (totp_enabled_at) ON users TO authenticated;
+
+CREATE TABLE IF NOT EXISTS two_factor_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_challenges_user_id ON two_factor_challenges(user_id);
+
+CREATE TABLE IF NOT EXISTS recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE two_factor_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Records a row change as an activity entry; the argument is the entry's
+-- resource type. Updates that only touch `updated_at` are not logged.
+-- Credential columns are left out of the row images; an update only
+-- records that they changed.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hidden text[] := ARRAY['password_hash', 'totp_secret', 'totp_last_step'];
+  v_old jsonb;
+  v_new jsonb;
+  v_changes jsonb := '{}'::jsonb;
+  v_key text;
+  v_details jsonb;
+  v_resource_id uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - v_hidden;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - v_hidden;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> 'updated_at' AND v_new->v_key IS DISTINCT FROM v_old->v_key THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_key, jsonb_build_object('old', v_old->v_key, 'new', v_new->v_key)
+        );
+      END IF;
+    END LOOP;
+
+    FOREACH v_key IN ARRAY v_hidden LOOP
+      IF to_jsonb(NEW)->v_key IS DISTINCT FROM to_jsonb(OLD)->v_key THEN
+        v_changes := v_changes || jsonb_build_object(v_key, 'changed');
+      END IF;
+    END LOOP;
+
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'changes', v_changes);
+  ELSIF TG_OP = 'INSERT' THEN
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'new', v_new);
+  ELSE
+    v_details := jsonb_build_object('table', TG_TABLE_NAME, 'old', v_old);
+  END IF;
+
+  v_resource_id := (COALESCE(v_new, v_old)->>'id')::uuid;
+
+  -- A deleted user cannot be referenced as the actor of their own removal
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (
+    (SELECT u.id FROM users u WHERE u.id = auth.uid()),
+    lower(TG_OP),
+    TG_ARGV[0],
+    v_resource_id,
+    v_details
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reset_two_factor(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_user(p_user_id) THEN
+    RAISE EXCEPTION 'You can only reset two-factor authentication of users you manage';
+  END IF;
+
+  UPDATE users
+  SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL, updated_at = now()
+  WHERE id = p_user_id;
+
+  DELETE FROM recovery_codes WHERE user_id = p_user_id;
+  UPDATE two_factor_challenges SET used_at = now() WHERE user_id = p_user_id AND used_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reset_two_factor(uuid) FROM PUBLIC, anon;
@@ -0,0 +1,36 @@
+/*
+  # Proposal stages
+
+  1. New Tables
+    - `proposal_stages` - One row per proposal status, in pipeline order,
+      with the probability (0-100) that a proposal at that stage turns into
+      a sale. The pipeline board weighs amounts by it
+
+  2. Security
+    - Every signed-in user can read the stages; only super admins can change
+      the probabilities
+*/
+
+CREATE TABLE IF NOT EXISTS proposal_stages (
+  status text PRIMARY KEY CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired')),
+  name text NOT NULL,
+  position integer NOT NULL UNIQUE,
+  probability numeric(5,2) NOT NULL CHECK (probability BETWEEN 0 AND 100),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO proposal_stages (status, name, position, probability) VALUES
+  ('draft', 'Draft', 1, 10),
+  ('sent', 'Sent', 2, 50),
+  ('accepted', 'Won', 3, 100),
+  ('rejected', 'Lost', 4, 0),
+  ('expired', 'Expired', 5, 0)
+ON CONFLICT (status) DO NOTHING;
+
+ALTER TABLE proposal_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view proposal stages" ON proposal_stages
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Super admins can update proposal stages" ON proposal_stages
+  FOR UPDATE USING (is_super_admin()) WITH CHECK (is_super_admin());
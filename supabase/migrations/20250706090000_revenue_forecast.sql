@@ -0,0 +1,223 @@
+/*
+  # Revenue forecast
+
+  1. Functions
+    - `revenue_forecast(scope, scope_id, period_type, periods)` - Projects
+      revenue for the current and following months or quarters, per site and
+      per company, next to the targets for the same periods
+      - Open proposals (draft or sent) count towards the period their
+        `valid_until` falls in; proposals without one, or already past it,
+        are left out
+      - A proposal's chance of closing is its stage probability. For a
+        Commercial with at least 5 proposals in the last 12 months, it is
+        scaled by how their conversion rate (accepted / created, as on the
+        dashboards) compares with the 'sent' stage probability, capped at 100%
+      - `closed` is what has already been sold in the period, and
+        `commit` = closed + expected value of sent proposals,
+        `best_case` = closed + sent proposals in full + expected value of drafts,
+        `pipeline` = closed + every open proposal in full
+      - Targets are the site targets for the period (a Commercial's own
+        target in the personal scope); company figures are the sum of their
+        sites
+
+  2. Security
+    - Runs with the caller's rights, like `dashboard_kpis`
+*/
+
+CREATE OR REPLACE FUNCTION revenue_forecast(
+  p_scope text,
+  p_scope_id uuid,
+  p_period_type text,
+  p_periods integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_step interval;
+  v_start date;
+  v_end date;
+  v_result jsonb;
+BEGIN
+  IF p_scope NOT IN ('global', 'company', 'site', 'personal') THEN
+    RAISE EXCEPTION 'Unknown forecast scope %', p_scope;
+  END IF;
+
+  IF p_scope <> 'global' AND p_scope_id IS NULL THEN
+    RAISE EXCEPTION 'A % forecast needs a scope id', p_scope;
+  END IF;
+
+  IF p_period_type NOT IN ('month', 'quarter') THEN
+    RAISE EXCEPTION 'Unknown forecast period %', p_period_type;
+  END IF;
+
+  IF p_periods NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'A forecast covers 1 to 12 periods';
+  END IF;
+
+  v_step := CASE p_period_type WHEN 'quarter' THEN interval '3 months' ELSE interval '1 month' END;
+  v_start := date_trunc(p_period_type, now())::date;
+  v_end := (v_start + v_step * p_periods)::date;
+
+  WITH scoped_clients AS (
+    SELECT c.*
+    FROM clients c
+    WHERE p_scope IN ('global', 'personal')
+      OR (p_scope = 'company' AND c.company_id = p_scope_id)
+      OR (p_scope = 'site' AND c.site_id = p_scope_id)
+  ),
+  conversion AS (
+    SELECT
+      created_by AS user_id,
+      COUNT(*) AS created,
+      COUNT(*) FILTER (WHERE status = 'accepted') AS accepted
+    FROM proposals
+    WHERE created_by IS NOT NULL
+      AND created_at >= now() - interval '12 months'
+    GROUP BY created_by
+  ),
+  open_proposals AS (
+    SELECT
+      date_trunc(p_period_type, p.valid_until)::date AS period_start,
+      c.company_id,
+      c.site_id,
+      p.status,
+      p.amount,
+      CASE
+        WHEN cv.created >= 5 AND sent_stage.probability > 0 THEN
+          LEAST(st.probability * (cv.accepted::numeric / cv.created) / sent_stage.probability, 1)
+        ELSE st.probability / 100
+      END AS probability
+    FROM proposals p
+    JOIN scoped_clients c ON c.id = p.client_id
+    JOIN proposal_stages st ON st.status = p.status
+    JOIN proposal_stages sent_stage ON sent_stage.status = 'sent'
+    LEFT JOIN conversion cv ON cv.user_id = p.created_by
+    WHERE p.status IN ('draft', 'sent')
+      AND p.valid_until > now()
+      AND p.valid_until < v_end
+      AND (p_scope <> 'personal' OR p.created_by = p_scope_id)
+  ),
+  open_totals AS (
+    SELECT
+      period_start,
+      company_id,
+      site_id,
+      COALESCE(SUM(amount * probability) FILTER (WHERE status = 'sent'), 0) AS sent_expected,
+      COALESCE(SUM(amount) FILTER (WHERE status = 'sent'), 0) AS sent_total,
+      COALESCE(SUM(amount * probability) FILTER (WHERE status = 'draft'), 0) AS draft_expected,
+      SUM(amount) AS open_total
+    FROM open_proposals
+    GROUP BY period_start, company_id, site_id
+  ),
+  closed AS (
+    SELECT
+      date_trunc(p_period_type, s.closed_at)::date AS period_start,
+      c.company_id,
+      c.site_id,
+      SUM(s.amount) AS amount
+    FROM sales s
+    JOIN proposals p ON p.id = s.proposal_id
+    JOIN scoped_clients c ON c.id = p.client_id
+    WHERE s.closed_at >= v_start
+      AND s.closed_at < v_end
+      AND (p_scope <> 'personal' OR s.closed_by = p_scope_id)
+    GROUP BY 1, 2, 3
+  ),
+  targets AS (
+    SELECT period_start, company_id, site_id, SUM(amount) AS amount
+    FROM sales_targets
+    WHERE period_type = p_period_type
+      AND period_start >= v_start
+      AND period_start < v_end
+      AND CASE WHEN p_scope = 'personal' THEN user_id = p_scope_id ELSE user_id IS NULL END
+      AND (
+        p_scope IN ('global', 'personal')
+        OR (p_scope = 'company' AND company_id = p_scope_id)
+        OR (p_scope = 'site' AND site_id = p_scope_id)
+      )
+    GROUP BY period_start, company_id, site_id
+  ),
+  site_keys AS (
+    SELECT period_start, company_id, site_id FROM open_totals
+    UNION
+    SELECT period_start, company_id, site_id FROM closed
+    UNION
+    SELECT period_start, company_id, site_id FROM targets
+  ),
+  by_site AS (
+    SELECT
+      k.period_start,
+      k.company_id,
+      co.name AS company_name,
+      k.site_id,
+      si.name AS site_name,
+      COALESCE(t.amount, 0) AS target,
+      COALESCE(cl.amount, 0) AS closed,
+      COALESCE(cl.amount, 0) + COALESCE(o.sent_expected, 0) AS commit,
+      COALESCE(cl.amount, 0) + COALESCE(o.sent_total, 0) + COALESCE(o.draft_expected, 0) AS best_case,
+      COALESCE(cl.amount, 0) + COALESCE(o.open_total, 0) AS pipeline
+    FROM site_keys k
+    LEFT JOIN companies co ON co.id = k.company_id
+    LEFT JOIN sites si ON si.id = k.site_id
+    LEFT JOIN open_totals o
+      ON o.period_start = k.period_start AND o.company_id = k.company_id AND o.site_id = k.site_id
+    LEFT JOIN closed cl
+      ON cl.period_start = k.period_start AND cl.company_id = k.company_id AND cl.site_id = k.site_id
+    LEFT JOIN targets t
+      ON t.period_start = k.period_start AND t.company_id = k.company_id AND t.site_id = k.site_id
+  ),
+  by_company AS (
+    SELECT
+      period_start,
+      company_id,
+      company_name,
+      SUM(target) AS target,
+      SUM(closed) AS closed,
+      SUM(commit) AS commit,
+      SUM(best_case) AS best_case,
+      SUM(pipeline) AS pipeline
+    FROM by_site
+    GROUP BY period_start, company_id, company_name
+  )
+  SELECT jsonb_build_object(
+    'periods', (
+      SELECT jsonb_agg(period_start::date ORDER BY period_start)
+      FROM generate_series(v_start, v_end - v_step, v_step) AS period_start
+    ),
+    'sites', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'period_start', period_start,
+        'company_id', company_id,
+        'company_name', company_name,
+        'site_id', site_id,
+        'site_name', site_name,
+        'target', ROUND(target, 2),
+        'closed', ROUND(closed, 2),
+        'commit', ROUND(commit, 2),
+        'best_case', ROUND(best_case, 2),
+        'pipeline', ROUND(pipeline, 2)
+      ) ORDER BY period_start, company_name, site_name)
+      FROM by_site
+    ), '[]'::jsonb),
+    'companies', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'period_start', period_start,
+        'company_id', company_id,
+        'company_name', company_name,
+        'target', ROUND(target, 2),
+        'closed', ROUND(closed, 2),
+        'commit', ROUND(commit, 2),
+        'best_case', ROUND(best_case, 2),
+        'pipeline', ROUND(pipeline, 2)
+      ) ORDER BY period_start, company_name)
+      FROM by_company
+    ), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
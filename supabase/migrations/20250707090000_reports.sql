@@ -0,0 +1,354 @@
+/*
+  # Reports
+
+  1. Functions
+    - `reportable_sales(scope, scope_id, params)` and
+      `reportable_proposals(scope, scope_id, params)` - The sales and
+      proposals a report may include: inside the requested scope, inside the
+      caller's `view_reports_*` permissions, and matching the optional
+      `site_id` / `user_id` filters in `params`. Sales are limited to those
+      closed between `params.from` and `params.to` (both 'YYYY-MM-DD',
+      inclusive; the month so far by default); proposals are left to each
+      report to limit
+    - `report_data(report, scope, scope_id, params)` - Runs one report and
+      returns `{ title, columns, rows, totals }`, where each column is
+      `{ key, label, type }` with type 'text', 'number', 'money', 'percent'
+      or 'date', and `totals` holds the summed columns (or is null). The web
+      app displays this and the reports function exports it, so both show the
+      same figures
+      - sales_by_period      sales per day/week/month/quarter/year (`params.grain`)
+      - sales_by_site        sales per site, with each site's share
+      - sales_by_commercial  sales per commercial
+      - proposal_aging       proposals still open, oldest first (not limited to the period)
+      - win_loss             outcome of the proposals created in the period, per commercial
+      - commission_statement every sale in the period with its commission
+
+  2. Security
+    - The functions run as definer so names of commercials, clients and sites
+      resolve for every row, but each row has to pass
+      `can_access('reports', 'view', ...)` for the caller
+*/
+
+CREATE OR REPLACE FUNCTION report_period(p_params jsonb)
+RETURNS TABLE (period_from timestamptz, period_to timestamptz)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((p_params->>'from')::date, date_trunc('month', now())::date)::timestamptz,
+    (COALESCE((p_params->>'to')::date, now()::date) + 1)::timestamptz;
+$$;
+
+CREATE OR REPLACE FUNCTION reportable_sales(p_scope text, p_scope_id uuid, p_params jsonb)
+RETURNS TABLE (
+  id uuid,
+  closed_at timestamptz,
+  amount numeric,
+  commission numeric,
+  closed_by uuid,
+  proposal_title text,
+  client_name text,
+  company_id uuid,
+  site_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, s.closed_at, s.amount, COALESCE(s.commission, 0), s.closed_by, p.title, c.name, c.company_id, c.site_id
+  FROM sales s
+  JOIN proposals p ON p.id = s.proposal_id
+  JOIN clients c ON c.id = p.client_id
+  CROSS JOIN report_period(p_params) r
+  WHERE s.closed_at >= r.period_from
+    AND s.closed_at < r.period_to
+    AND (
+      p_scope = 'global'
+      OR (p_scope = 'company' AND c.company_id = p_scope_id)
+      OR (p_scope = 'site' AND c.site_id = p_scope_id)
+      OR (p_scope = 'personal' AND s.closed_by = p_scope_id)
+    )
+    AND (p_params->>'site_id' IS NULL OR c.site_id = (p_params->>'site_id')::uuid)
+    AND (p_params->>'user_id' IS NULL OR s.closed_by = (p_params->>'user_id')::uuid)
+    AND can_access('reports', 'view', c.company_id, c.site_id, ARRAY[s.closed_by]);
+$$;
+
+CREATE OR REPLACE FUNCTION reportable_proposals(p_scope text, p_scope_id uuid, p_params jsonb)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  title text,
+  amount numeric,
+  status text,
+  valid_until timestamptz,
+  created_by uuid,
+  client_name text,
+  company_id uuid,
+  site_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.created_at,
+    p.title,
+    p.amount,
+    -- Sent proposals past their validity count as expired, as in the app
+    CASE WHEN p.status = 'sent' AND p.valid_until < now() THEN 'expired' ELSE p.status END,
+    p.valid_until,
+    p.created_by,
+    c.name,
+    c.company_id,
+    c.site_id
+  FROM proposals p
+  JOIN clients c ON c.id = p.client_id
+  WHERE (
+      p_scope = 'global'
+      OR (p_scope = 'company' AND c.company_id = p_scope_id)
+      OR (p_scope = 'site' AND c.site_id = p_scope_id)
+      OR (p_scope = 'personal' AND p.created_by = p_scope_id)
+    )
+    AND (p_params->>'site_id' IS NULL OR c.site_id = (p_params->>'site_id')::uuid)
+    AND (p_params->>'user_id' IS NULL OR p.created_by = (p_params->>'user_id')::uuid)
+    AND can_access('reports', 'view', c.company_id, c.site_id, ARRAY[p.created_by]);
+$$;
+
+CREATE OR REPLACE FUNCTION report_data(
+  p_report text,
+  p_scope text,
+  p_scope_id uuid,
+  p_params jsonb DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_params jsonb := COALESCE(p_params, '{}');
+  v_from timestamptz;
+  v_to timestamptz;
+  v_grain text := COALESCE(v_params->>'grain', 'month');
+  v_title text;
+  v_columns jsonb;
+  v_rows jsonb;
+  v_totals jsonb;
+BEGIN
+  IF p_scope NOT IN ('global', 'company', 'site', 'personal') THEN
+    RAISE EXCEPTION 'Unknown report scope %', p_scope;
+  END IF;
+
+  IF p_scope <> 'global' AND p_scope_id IS NULL THEN
+    RAISE EXCEPTION 'A % report needs a scope id', p_scope;
+  END IF;
+
+  IF v_grain NOT IN ('day', 'week', 'month', 'quarter', 'year') THEN
+    RAISE EXCEPTION 'Unknown report grain %', v_grain;
+  END IF;
+
+  SELECT period_from, period_to INTO v_from, v_to FROM report_period(v_params);
+  IF v_to <= v_from THEN
+    RAISE EXCEPTION 'The report period ends before it starts';
+  END IF;
+
+  CASE p_report
+  WHEN 'sales_by_period' THEN
+    v_title := 'Sales by period';
+    v_columns := '[
+      {"key": "period", "label": "Period", "type": "date"},
+      {"key": "sales_count", "label": "Sales", "type": "number"},
+      {"key": "sales_total", "label": "Sales total", "type": "money"},
+      {"key": "commission_total", "label": "Commission", "type": "money"},
+      {"key": "average_sale", "label": "Average sale", "type": "money"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) ORDER BY r.period) INTO v_rows
+    FROM (
+      SELECT
+        date_trunc(v_grain, s.closed_at)::date AS period,
+        COUNT(*) AS sales_count,
+        SUM(s.amount) AS sales_total,
+        SUM(s.commission) AS commission_total,
+        ROUND(AVG(s.amount), 2) AS average_sale
+      FROM reportable_sales(p_scope, p_scope_id, v_params) s
+      GROUP BY 1
+    ) r;
+
+  WHEN 'sales_by_site' THEN
+    v_title := 'Sales by site';
+    v_columns := '[
+      {"key": "company", "label": "Company", "type": "text"},
+      {"key": "site", "label": "Site", "type": "text"},
+      {"key": "sales_count", "label": "Sales", "type": "number"},
+      {"key": "sales_total", "label": "Sales total", "type": "money"},
+      {"key": "commission_total", "label": "Commission", "type": "money"},
+      {"key": "share", "label": "Share", "type": "percent"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) ORDER BY r.sales_total DESC, r.company, r.site) INTO v_rows
+    FROM (
+      SELECT
+        co.name AS company,
+        COALESCE(si.name, 'No site') AS site,
+        COUNT(*) AS sales_count,
+        SUM(s.amount) AS sales_total,
+        SUM(s.commission) AS commission_total,
+        ROUND(SUM(s.amount) * 100 / NULLIF(SUM(SUM(s.amount)) OVER (), 0), 1) AS share
+      FROM reportable_sales(p_scope, p_scope_id, v_params) s
+      LEFT JOIN companies co ON co.id = s.company_id
+      LEFT JOIN sites si ON si.id = s.site_id
+      GROUP BY s.company_id, s.site_id, co.name, si.name
+    ) r;
+
+  WHEN 'sales_by_commercial' THEN
+    v_title := 'Sales by commercial';
+    v_columns := '[
+      {"key": "commercial", "label": "Commercial", "type": "text"},
+      {"key": "email", "label": "Email", "type": "text"},
+      {"key": "sales_count", "label": "Sales", "type": "number"},
+      {"key": "sales_total", "label": "Sales total", "type": "money"},
+      {"key": "commission_total", "label": "Commission", "type": "money"},
+      {"key": "average_sale", "label": "Average sale", "type": "money"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) ORDER BY r.sales_total DESC, r.commercial) INTO v_rows
+    FROM (
+      SELECT
+        COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), 'Unknown') AS commercial,
+        u.email,
+        COUNT(*) AS sales_count,
+        SUM(s.amount) AS sales_total,
+        SUM(s.commission) AS commission_total,
+        ROUND(AVG(s.amount), 2) AS average_sale
+      FROM reportable_sales(p_scope, p_scope_id, v_params) s
+      LEFT JOIN users u ON u.id = s.closed_by
+      GROUP BY u.id, u.first_name, u.last_name, u.email
+    ) r;
+
+  WHEN 'proposal_aging' THEN
+    v_title := 'Proposal aging';
+    v_columns := '[
+      {"key": "title", "label": "Proposal", "type": "text"},
+      {"key": "client", "label": "Client", "type": "text"},
+      {"key": "commercial", "label": "Commercial", "type": "text"},
+      {"key": "status", "label": "Status", "type": "text"},
+      {"key": "amount", "label": "Amount", "type": "money"},
+      {"key": "created_at", "label": "Created", "type": "date"},
+      {"key": "age_days", "label": "Age (days)", "type": "number"},
+      {"key": "age_bucket", "label": "Age bucket", "type": "text"},
+      {"key": "valid_until", "label": "Valid until", "type": "date"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) - 'sort_key' ORDER BY r.sort_key) INTO v_rows
+    FROM (
+      SELECT
+        p.created_at AS sort_key,
+        p.title,
+        p.client_name AS client,
+        COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), 'Unknown') AS commercial,
+        p.status,
+        p.amount,
+        p.created_at::date AS created_at,
+        (now()::date - p.created_at::date) AS age_days,
+        CASE
+          WHEN now() - p.created_at <= interval '30 days' THEN '0-30 days'
+          WHEN now() - p.created_at <= interval '60 days' THEN '31-60 days'
+          WHEN now() - p.created_at <= interval '90 days' THEN '61-90 days'
+          ELSE 'Over 90 days'
+        END AS age_bucket,
+        p.valid_until::date AS valid_until
+      FROM reportable_proposals(p_scope, p_scope_id, v_params) p
+      LEFT JOIN users u ON u.id = p.created_by
+      WHERE p.status IN ('draft', 'sent')
+    ) r;
+
+  WHEN 'win_loss' THEN
+    v_title := 'Win/loss';
+    v_columns := '[
+      {"key": "commercial", "label": "Commercial", "type": "text"},
+      {"key": "proposals", "label": "Proposals", "type": "number"},
+      {"key": "won", "label": "Won", "type": "number"},
+      {"key": "lost", "label": "Lost", "type": "number"},
+      {"key": "expired", "label": "Expired", "type": "number"},
+      {"key": "open", "label": "Open", "type": "number"},
+      {"key": "won_amount", "label": "Won amount", "type": "money"},
+      {"key": "lost_amount", "label": "Lost amount", "type": "money"},
+      {"key": "win_rate", "label": "Win rate", "type": "percent"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) ORDER BY r.won_amount DESC, r.commercial) INTO v_rows
+    FROM (
+      SELECT
+        COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), 'Unknown') AS commercial,
+        COUNT(*) AS proposals,
+        COUNT(*) FILTER (WHERE p.status = 'accepted') AS won,
+        COUNT(*) FILTER (WHERE p.status = 'rejected') AS lost,
+        COUNT(*) FILTER (WHERE p.status = 'expired') AS expired,
+        COUNT(*) FILTER (WHERE p.status IN ('draft', 'sent')) AS open,
+        COALESCE(SUM(p.amount) FILTER (WHERE p.status = 'accepted'), 0) AS won_amount,
+        COALESCE(SUM(p.amount) FILTER (WHERE p.status IN ('rejected', 'expired')), 0) AS lost_amount,
+        -- Share of the decided proposals that were won
+        ROUND(
+          COUNT(*) FILTER (WHERE p.status = 'accepted') * 100.0
+            / NULLIF(COUNT(*) FILTER (WHERE p.status IN ('accepted', 'rejected', 'expired')), 0),
+          1
+        ) AS win_rate
+      FROM reportable_proposals(p_scope, p_scope_id, v_params) p
+      CROSS JOIN report_period(v_params) rp
+      LEFT JOIN users u ON u.id = p.created_by
+      WHERE p.created_at >= rp.period_from
+        AND p.created_at < rp.period_to
+      GROUP BY u.id, u.first_name, u.last_name
+    ) r;
+
+  WHEN 'commission_statement' THEN
+    v_title := 'Commission statement';
+    v_columns := '[
+      {"key": "closed_at", "label": "Closed", "type": "date"},
+      {"key": "commercial", "label": "Commercial", "type": "text"},
+      {"key": "proposal", "label": "Proposal", "type": "text"},
+      {"key": "client", "label": "Client", "type": "text"},
+      {"key": "amount", "label": "Sale amount", "type": "money"},
+      {"key": "commission", "label": "Commission", "type": "money"},
+      {"key": "rate", "label": "Rate", "type": "percent"}
+    ]';
+    SELECT jsonb_agg(to_jsonb(r) - 'sort_key' ORDER BY r.commercial, r.sort_key) INTO v_rows
+    FROM (
+      SELECT
+        s.closed_at AS sort_key,
+        s.closed_at::date AS closed_at,
+        COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), 'Unknown') AS commercial,
+        s.proposal_title AS proposal,
+        s.client_name AS client,
+        s.amount,
+        s.commission,
+        ROUND(s.commission * 100 / NULLIF(s.amount, 0), 2) AS rate
+      FROM reportable_sales(p_scope, p_scope_id, v_params) s
+      LEFT JOIN users u ON u.id = s.closed_by
+    ) r;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown report %', p_report;
+  END CASE;
+
+  v_rows := COALESCE(v_rows, '[]'::jsonb);
+
+  -- Counts and amounts add up; averages, rates and shares do not
+  SELECT jsonb_object_agg(c->>'key', (
+    SELECT COALESCE(SUM((row->>(c->>'key'))::numeric), 0)
+    FROM jsonb_array_elements(v_rows) row
+  ))
+  INTO v_totals
+  FROM jsonb_array_elements(v_columns) c
+  WHERE c->>'type' IN ('number', 'money')
+    AND c->>'key' NOT IN ('average_sale', 'age_days');
+
+  RETURN jsonb_build_object(
+    'title', v_title,
+    'columns', v_columns,
+    'rows', v_rows,
+    'totals', v_totals
+  );
+END;
+$$;
@@ -0,0 +1,80 @@
+/*
+  # Scheduled report delivery
+
+  1. New Tables
+    - `report_subscriptions` - A user's standing order for a report: the
+      report, scope and parameters `report_data` runs it with, the file
+      format, and a cron schedule (UTC). Parameters carry a `range` such as
+      'previous_week' instead of fixed dates; each run resolves it
+      - `next_run_at` is set by the reports function from the schedule; it is
+        null for a new or resumed subscription until the scheduler places it
+      - Paused subscriptions (`is_active` false) are skipped
+    - `report_deliveries` - One row per scheduled run: whether the mail went
+      out, the error when it did not, and the hash of the unsubscribe link
+      it carried
+
+  2. Security
+    - Users see and manage only their own subscriptions and their delivery
+      log; super admins can see all of them
+    - Subscriptions are created by the reports function with the user's own
+      token, so `user_id` has to be the caller
+    - Deliveries are written by the reports function with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS report_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  report text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('global', 'company', 'site', 'personal')),
+  scope_id uuid,
+  params jsonb NOT NULL DEFAULT '{}',
+  format text NOT NULL DEFAULT 'pdf' CHECK (format IN ('csv', 'xlsx', 'pdf')),
+  schedule text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (scope = 'global' OR scope_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES report_subscriptions(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  recipient text,
+  filename text,
+  row_count integer,
+  error text,
+  unsubscribe_token_hash text UNIQUE,
+  delivered_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_user_id ON report_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_due ON report_subscriptions(next_run_at) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_subscription_id ON report_deliveries(subscription_id, delivered_at DESC);
+
+ALTER TABLE report_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their report subscriptions" ON report_subscriptions
+  FOR SELECT USING (user_id = auth.uid() OR is_super_admin());
+
+CREATE POLICY "Users can create their report subscriptions" ON report_subscriptions
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their report subscriptions" ON report_subscriptions
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their report subscriptions" ON report_subscriptions
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view deliveries of their report subscriptions" ON report_deliveries
+  FOR SELECT USING (
+    is_super_admin()
+    OR EXISTS (
+      SELECT 1 FROM report_subscriptions s
+      WHERE s.id = subscription_id
+      AND s.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,128 @@
+/*
+  # Dashboard charts
+
+  1. Functions
+    - `dashboard_charts(scope, scope_id, from, to, grain, time_zone)` - The
+      series behind the dashboard charts for one scope, scoped like
+      `dashboard_kpis`:
+      - `sales_series` - Sales closed in [from, to) per day, week (from
+        Monday) or month of the caller's time zone, with empty periods
+        included so the line has no gaps
+      - `proposal_funnel` - Proposals created in [from, to): how many were
+        created, how many of those were sent and how many accepted
+      - `sales_by_site` and `sales_by_commercial` - Sales closed in
+        [from, to) per site and per commercial, largest first
+
+  2. Security
+    - Runs with the caller's rights: every figure only includes rows the
+      caller's RLS lets them see
+*/
+
+CREATE OR REPLACE FUNCTION dashboard_charts(
+  p_scope text,
+  p_scope_id uuid,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_grain text,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF p_scope NOT IN ('global', 'company', 'site', 'personal') THEN
+    RAISE EXCEPTION 'Unknown dashboard scope %', p_scope;
+  END IF;
+
+  IF p_scope <> 'global' AND p_scope_id IS NULL THEN
+    RAISE EXCEPTION 'A % dashboard needs a scope id', p_scope;
+  END IF;
+
+  IF p_grain NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown chart grain %', p_grain;
+  END IF;
+
+  WITH scoped_clients AS (
+    SELECT c.*
+    FROM clients c
+    WHERE p_scope IN ('global', 'personal')
+      OR (p_scope = 'company' AND c.company_id = p_scope_id)
+      OR (p_scope = 'site' AND c.site_id = p_scope_id)
+  ),
+  scoped_proposals AS (
+    SELECT p.*
+    FROM proposals p
+    JOIN scoped_clients c ON c.id = p.client_id
+    WHERE (p_scope <> 'personal' OR p.created_by = p_scope_id)
+      AND p.created_at >= p_from
+      AND p.created_at < p_to
+  ),
+  scoped_sales AS (
+    SELECT s.*, c.site_id
+    FROM sales s
+    JOIN proposals p ON p.id = s.proposal_id
+    JOIN scoped_clients c ON c.id = p.client_id
+    WHERE (p_scope <> 'personal' OR s.closed_by = p_scope_id)
+      AND s.closed_at >= p_from
+      AND s.closed_at < p_to
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(p_grain, p_from AT TIME ZONE p_time_zone),
+      date_trunc(p_grain, (p_to - interval '1 microsecond') AT TIME ZONE p_time_zone),
+      ('1 ' || p_grain)::interval
+    ) AS period_start
+  ),
+  series AS (
+    SELECT
+      pr.period_start::date AS period,
+      COALESCE(SUM(s.amount), 0) AS sales_total,
+      COUNT(s.id) AS sales_count
+    FROM periods pr
+    LEFT JOIN scoped_sales s
+      ON date_trunc(p_grain, s.closed_at AT TIME ZONE p_time_zone) = pr.period_start
+    GROUP BY pr.period_start
+  ),
+  by_site AS (
+    SELECT
+      s.site_id,
+      st.name,
+      SUM(s.amount) AS sales_total,
+      COUNT(*) AS sales_count
+    FROM scoped_sales s
+    JOIN sites st ON st.id = s.site_id
+    GROUP BY s.site_id, st.name
+  ),
+  by_commercial AS (
+    SELECT
+      s.closed_by AS user_id,
+      u.first_name,
+      u.last_name,
+      SUM(s.amount) AS sales_total,
+      COUNT(*) AS sales_count
+    FROM scoped_sales s
+    JOIN users u ON u.id = s.closed_by
+    GROUP BY s.closed_by, u.first_name, u.last_name
+  )
+  SELECT jsonb_build_object(
+    'sales_series', COALESCE((SELECT jsonb_agg(to_jsonb(x) ORDER BY x.period) FROM series x), '[]'::jsonb),
+    'proposal_funnel', (
+      SELECT jsonb_build_object(
+        'created', COUNT(*),
+        'sent', COUNT(*) FILTER (WHERE sent_at IS NOT NULL),
+        'accepted', COUNT(*) FILTER (WHERE status = 'accepted')
+      )
+      FROM scoped_proposals
+    ),
+    'sales_by_site', COALESCE((SELECT jsonb_agg(to_jsonb(x) ORDER BY x.sales_total DESC) FROM by_site x), '[]'::jsonb),
+    'sales_by_commercial', COALESCE((SELECT jsonb_agg(to_jsonb(x) ORDER BY x.sales_total DESC) FROM by_commercial x), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,449 @@
+/*
+  # Write scope
+
+  Inserts, updates and deletes on clients, proposals, sales and tasks for
+  each role, against the seeded tenants:
+    - TechCorp Solutions / TechCorp HQ - where the Company Admin, the Site
+      Manager and the Commercial work (Acme Corporation is the
+      Commercial's client)
+    - TechCorp Solutions / TechCorp East - another site of the same company
+      (Gamma Enterprises)
+    - Global Industries / Global Manufacturing - another company (Delta
+      Manufacturing)
+
+  Writes outside a role's scope either fail the policy check or match no
+  rows. Run with `supabase test db`; everything is rolled back.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(64);
+
+-- Fixtures, set up as the Super Admin: a sale, a draft proposal and a task
+-- at TechCorp East and at Global Industries
+SELECT set_config('request.jwt.claim.sub', (SELECT id::text FROM users WHERE email = 'superadmin@example.com'), true);
+
+UPDATE proposals SET status = 'sent' WHERE title = 'Digital Transformation';
+UPDATE proposals SET status = 'accepted' WHERE title IN ('Digital Transformation', 'Manufacturing Automation');
+
+INSERT INTO proposals (client_id, created_by, title, amount, valid_until)
+SELECT c.id, auth.uid(), 'Scope draft ' || c.name, 1000, now() + interval '30 days'
+FROM clients c
+WHERE c.name IN ('Gamma Enterprises', 'Delta Manufacturing');
+
+INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+SELECT 'Scope task ' || c.name, 'call', c.id, auth.uid(), auth.uid(), now() + interval '1 day'
+FROM clients c
+WHERE c.name IN ('Acme Corporation', 'Gamma Enterprises', 'Delta Manufacturing');
+
+-- Ids looked up up front: out of scope rows are invisible to the roles, and
+-- looking them up as the role would turn every write into a no-op
+CREATE TEMP TABLE tenant_sites AS SELECT name, id, company_id FROM sites;
+CREATE TEMP TABLE fixture_ids AS
+  SELECT name, id FROM clients
+  UNION ALL
+  SELECT title, id FROM proposals;
+GRANT SELECT ON tenant_sites, fixture_ids TO authenticated;
+
+-- Commercial: only their own clients at their site
+SELECT set_config('request.jwt.claim.sub', (SELECT id::text FROM users WHERE email = 'soukaina@example.com'), true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO clients (company_id, site_id, assigned_to, name)
+     SELECT s.company_id, s.id, auth.uid(), 'Commercial client' FROM tenant_sites s WHERE s.name = 'TechCorp HQ' $$,
+  'Commercial can create a client assigned to them at their site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO clients (company_id, site_id, assigned_to, name)
+     SELECT s.company_id, s.id, auth.uid(), 'Commercial client' FROM tenant_sites s WHERE s.name = 'TechCorp East' $$,
+  '42501', NULL,
+  'Commercial cannot create a client at another site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO clients (company_id, site_id, assigned_to, name)
+     SELECT s.company_id, s.id, auth.uid(), 'Commercial client' FROM tenant_sites s WHERE s.name = 'Global Manufacturing' $$,
+  '42501', NULL,
+  'Commercial cannot create a client in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE clients SET notes = 'Commercial' WHERE name = 'Acme Corporation' RETURNING id $$,
+  'Commercial can update their own client'
+);
+
+SELECT throws_ok(
+  $$ UPDATE clients SET company_id = (SELECT company_id FROM tenant_sites WHERE name = 'Global Manufacturing'),
+       site_id = (SELECT id FROM tenant_sites WHERE name = 'Global Manufacturing')
+     WHERE name = 'Acme Corporation' $$,
+  '42501', NULL,
+  'Commercial cannot move their client to another company'
+);
+
+SELECT is_empty(
+  $$ UPDATE clients SET notes = 'Commercial' WHERE name IN ('Gamma Enterprises', 'Delta Manufacturing') RETURNING id $$,
+  'Commercial cannot update clients at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM clients WHERE name IN ('Gamma Enterprises', 'Delta Manufacturing') RETURNING id $$,
+  'Commercial cannot delete clients at another site or company'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Commercial proposal', 100 FROM fixture_ids WHERE name = 'Acme Corporation' $$,
+  'Commercial can create a proposal for their own client'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Commercial proposal', 100 FROM fixture_ids WHERE name = 'Gamma Enterprises' $$,
+  '42501', NULL,
+  'Commercial cannot create a proposal at another site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Commercial proposal', 100 FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  '42501', NULL,
+  'Commercial cannot create a proposal in another company'
+);
+
+SELECT is_empty(
+  $$ UPDATE proposals SET description = 'Commercial' WHERE title LIKE 'Scope draft %' RETURNING id $$,
+  'Commercial cannot update proposals at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM proposals WHERE title LIKE 'Scope draft %' RETURNING id $$,
+  'Commercial cannot delete proposals at another site or company'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO sales (proposal_id, closed_by, amount)
+     SELECT id, auth.uid(), amount FROM proposals WHERE title = 'Commercial proposal' $$,
+  'P0001', NULL,
+  'Commercial cannot record a sale directly'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE sales SET notes = 'Commercial'
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Enterprise Software Solution') RETURNING id $$,
+  'Commercial can update the notes of their own sale'
+);
+
+SELECT throws_ok(
+  $$ UPDATE sales SET closed_at = closed_at - interval '1 month'
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Enterprise Software Solution') $$,
+  'P0001', NULL,
+  'Commercial cannot move their sale to another period'
+);
+
+SELECT is_empty(
+  $$ UPDATE sales SET notes = 'Commercial'
+     WHERE proposal_id IN (SELECT id FROM fixture_ids WHERE name IN ('Digital Transformation', 'Manufacturing Automation')) RETURNING id $$,
+  'Commercial cannot update sales at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM sales
+     WHERE proposal_id IN (SELECT id FROM fixture_ids WHERE name IN ('Digital Transformation', 'Manufacturing Automation')) RETURNING id $$,
+  'Commercial cannot delete sales at another site or company'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Commercial task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Acme Corporation' $$,
+  'Commercial can create a task for their own client'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Commercial task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Gamma Enterprises' $$,
+  '42501', NULL,
+  'Commercial cannot create a task at another site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Commercial task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  '42501', NULL,
+  'Commercial cannot create a task in another company'
+);
+
+SELECT is_empty(
+  $$ UPDATE tasks SET description = 'Commercial' WHERE title IN ('Scope task Gamma Enterprises', 'Scope task Delta Manufacturing') RETURNING id $$,
+  'Commercial cannot update tasks at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM tasks WHERE title IN ('Scope task Gamma Enterprises', 'Scope task Delta Manufacturing') RETURNING id $$,
+  'Commercial cannot delete tasks at another site or company'
+);
+
+RESET ROLE;
+
+-- Site Manager: everything at their site
+SELECT set_config('request.jwt.claim.sub', (SELECT id::text FROM users WHERE email = 'amine@example.com'), true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Site Manager client' FROM tenant_sites s WHERE s.name = 'TechCorp HQ' $$,
+  'Site Manager can create a client at their site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Site Manager client' FROM tenant_sites s WHERE s.name = 'TechCorp East' $$,
+  '42501', NULL,
+  'Site Manager cannot create a client at another site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Site Manager client' FROM tenant_sites s WHERE s.name = 'Global Manufacturing' $$,
+  '42501', NULL,
+  'Site Manager cannot create a client in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE clients SET notes = 'Site Manager' WHERE name = 'Acme Corporation' RETURNING id $$,
+  'Site Manager can update a client at their site'
+);
+
+SELECT is_empty(
+  $$ UPDATE clients SET notes = 'Site Manager' WHERE name IN ('Gamma Enterprises', 'Delta Manufacturing') RETURNING id $$,
+  'Site Manager cannot update clients at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM clients WHERE name IN ('Gamma Enterprises', 'Delta Manufacturing') RETURNING id $$,
+  'Site Manager cannot delete clients at another site or company'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Site Manager proposal', 100 FROM fixture_ids WHERE name = 'Gamma Enterprises' $$,
+  '42501', NULL,
+  'Site Manager cannot create a proposal at another site'
+);
+
+SELECT is_empty(
+  $$ UPDATE proposals SET description = 'Site Manager' WHERE title LIKE 'Scope draft %' RETURNING id $$,
+  'Site Manager cannot update proposals at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM proposals WHERE title LIKE 'Scope draft %' RETURNING id $$,
+  'Site Manager cannot delete proposals at another site or company'
+);
+
+SELECT is_empty(
+  $$ UPDATE sales SET notes = 'Site Manager'
+     WHERE proposal_id IN (SELECT id FROM fixture_ids WHERE name IN ('Digital Transformation', 'Manufacturing Automation')) RETURNING id $$,
+  'Site Manager cannot update sales at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM sales
+     WHERE proposal_id IN (SELECT id FROM fixture_ids WHERE name IN ('Digital Transformation', 'Manufacturing Automation')) RETURNING id $$,
+  'Site Manager cannot delete sales at another site or company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE tasks SET description = 'Site Manager' WHERE title = 'Scope task Acme Corporation' RETURNING id $$,
+  'Site Manager can update a task at their site'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Site Manager task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  '42501', NULL,
+  'Site Manager cannot create a task in another company'
+);
+
+SELECT is_empty(
+  $$ UPDATE tasks SET description = 'Site Manager' WHERE title IN ('Scope task Gamma Enterprises', 'Scope task Delta Manufacturing') RETURNING id $$,
+  'Site Manager cannot update tasks at another site or company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM tasks WHERE title IN ('Scope task Gamma Enterprises', 'Scope task Delta Manufacturing') RETURNING id $$,
+  'Site Manager cannot delete tasks at another site or company'
+);
+
+RESET ROLE;
+
+-- Company Admin: every site of their company, nothing in another company
+SELECT set_config('request.jwt.claim.sub', (SELECT id::text FROM users WHERE email = 'admin@example.com'), true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Company Admin client' FROM tenant_sites s WHERE s.name = 'TechCorp East' $$,
+  'Company Admin can create a client at any site of their company'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Company Admin client' FROM tenant_sites s WHERE s.name = 'Global Manufacturing' $$,
+  '42501', NULL,
+  'Company Admin cannot create a client in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE clients SET notes = 'Company Admin' WHERE name = 'Gamma Enterprises' RETURNING id $$,
+  'Company Admin can update a client at another site of their company'
+);
+
+SELECT is_empty(
+  $$ UPDATE clients SET notes = 'Company Admin' WHERE name = 'Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot update a client in another company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM clients WHERE name = 'Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot delete a client in another company'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Company Admin proposal', 100 FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  '42501', NULL,
+  'Company Admin cannot create a proposal in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE proposals SET description = 'Company Admin' WHERE title = 'Scope draft Gamma Enterprises' RETURNING id $$,
+  'Company Admin can update a proposal at another site of their company'
+);
+
+SELECT is_empty(
+  $$ UPDATE proposals SET description = 'Company Admin' WHERE title = 'Scope draft Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot update a proposal in another company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM proposals WHERE title = 'Scope draft Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot delete a proposal in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE sales SET notes = 'Company Admin'
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Digital Transformation') RETURNING id $$,
+  'Company Admin can update a sale at another site of their company'
+);
+
+SELECT is_empty(
+  $$ UPDATE sales SET notes = 'Company Admin'
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Manufacturing Automation') RETURNING id $$,
+  'Company Admin cannot update a sale in another company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM sales
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Manufacturing Automation') RETURNING id $$,
+  'Company Admin cannot delete a sale in another company'
+);
+
+SELECT throws_ok(
+  $$ UPDATE sales SET amount = 1
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Digital Transformation') $$,
+  'P0001', NULL,
+  'Company Admin cannot change the amount of a sale'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Company Admin task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  '42501', NULL,
+  'Company Admin cannot create a task in another company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE tasks SET description = 'Company Admin' WHERE title = 'Scope task Gamma Enterprises' RETURNING id $$,
+  'Company Admin can update a task at another site of their company'
+);
+
+SELECT is_empty(
+  $$ UPDATE tasks SET description = 'Company Admin' WHERE title = 'Scope task Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot update a task in another company'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM tasks WHERE title = 'Scope task Delta Manufacturing' RETURNING id $$,
+  'Company Admin cannot delete a task in another company'
+);
+
+RESET ROLE;
+
+-- Super Admin: every company
+SELECT set_config('request.jwt.claim.sub', (SELECT id::text FROM users WHERE email = 'superadmin@example.com'), true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO clients (company_id, site_id, name)
+     SELECT s.company_id, s.id, 'Super Admin client' FROM tenant_sites s WHERE s.name = 'Global Manufacturing' $$,
+  'Super Admin can create a client in any company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE clients SET notes = 'Super Admin' WHERE name IN ('Acme Corporation', 'Delta Manufacturing') RETURNING id $$,
+  'Super Admin can update clients in any company'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO proposals (client_id, created_by, title, amount)
+     SELECT id, auth.uid(), 'Super Admin proposal', 100 FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  'Super Admin can create a proposal in any company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE proposals SET description = 'Super Admin' WHERE title = 'Scope draft Delta Manufacturing' RETURNING id $$,
+  'Super Admin can update a proposal in any company'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE sales SET notes = 'Super Admin'
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Manufacturing Automation') RETURNING id $$,
+  'Super Admin can update a sale in any company'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO tasks (title, task_type, client_id, assigned_to, created_by, due_at)
+     SELECT 'Super Admin task', 'call', id, auth.uid(), auth.uid(), now() + interval '1 day' FROM fixture_ids WHERE name = 'Delta Manufacturing' $$,
+  'Super Admin can create a task in any company'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM tasks WHERE title = 'Scope task Delta Manufacturing' RETURNING id $$,
+  'Super Admin can delete a task in any company'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM sales
+     WHERE proposal_id = (SELECT id FROM fixture_ids WHERE name = 'Manufacturing Automation') RETURNING id $$,
+  'Super Admin can delete a sale in any company'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM proposals WHERE title = 'Scope draft Delta Manufacturing' RETURNING id $$,
+  'Super Admin can delete a proposal in any company'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM clients WHERE name = 'Super Admin client' RETURNING id $$,
+  'Super Admin can delete a client in any company'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+
+ROLLBACK;